@@ -0,0 +1,10 @@
+import Analytics from "@/components/pages/Analytics";
+import { requirePermission } from "@/lib/auth";
+
+const Page = async () => {
+  await requirePermission("viewAnalytics", "/analytics");
+
+  return <Analytics />;
+};
+
+export default Page;
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { isAnalyticsRange } from "@/lib/analytics";
+import { findViewReport } from "@/lib/views";
+
+// Force Node.js runtime to avoid Vercel Edge issues
+export const runtime = "nodejs";
+
+// Views over time per post, tag and topic; ?days= picks the range
+export async function GET(request: NextRequest) {
+  try {
+    const { response } = await authorize("viewAnalytics");
+    if (response) return response;
+
+    const { searchParams } = new URL(request.url);
+    const requested = parseInt(searchParams.get("days") || "30", 10);
+    const days = isAnalyticsRange(requested) ? requested : 30;
+
+    const report = await findViewReport(days);
+
+    return NextResponse.json(report, { status: 200 });
+  } catch (error) {
+    console.error("Error fetching analytics:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { Role } from "@/generated/prisma";
+import prisma from "@/lib/db";
+import { createSession, hashPassword, setSessionCookie } from "@/lib/auth";
+
+// Force Node.js runtime to avoid Vercel Edge issues
+export const runtime = "nodejs";
+
+// Advisory lock key held while counting users and creating the new one
+const REGISTER_LOCK = 1;
+
+// Validation schema for registration body
+const registerBodySchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  email: z.string().trim().toLowerCase().email(),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const parsed = registerBodySchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const { name, email, password } = parsed.data;
+
+    // Check if email is already registered
+    const existingUser = await prisma.user.findUnique({ where: { email } });
+    if (existingUser) {
+      return NextResponse.json(
+        { error: "An account with this email already exists" },
+        { status: 409 }
+      );
+    }
+
+    // The very first account bootstraps the site as its admin. Registrations
+    // take turns on a lock so two first sign-ups can't both become admin
+    const passwordHash = await hashPassword(password);
+    const user = await prisma.$transaction(async (tx) => {
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(${REGISTER_LOCK})`;
+      const userCount = await tx.user.count();
+      return tx.user.create({
+        data: {
+          name,
+          email,
+          passwordHash,
+          role: userCount === 0 ? Role.ADMIN : Role.READER,
+        },
+        select: { id: true, email: true, name: true, role: true },
+      });
+    });
+
+    const { token, expiresAt } = await createSession(user.id);
+    const response = NextResponse.json({ user }, { status: 201 });
+    setSessionCookie(response, token, expiresAt);
+    return response;
+  } catch (error) {
+    console.error("Error registering user:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import prisma from "@/lib/db";
+import {
+  clearSessionCookie,
+  createSession,
+  deleteSession,
+  getCurrentUser,
+  SESSION_COOKIE,
+  setSessionCookie,
+  verifyPassword,
+} from "@/lib/auth";
+
+// Force Node.js runtime to avoid Vercel Edge issues
+export const runtime = "nodejs";
+
+// Validation schema for login body
+const loginBodySchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  password: z.string().min(1, "Password is required"),
+});
+
+// Current session
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+    return NextResponse.json({ user }, { status: 200 });
+  } catch (error) {
+    console.error("Error fetching session:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Log in
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const parsed = loginBodySchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const { email, password } = parsed.data;
+    const user = await prisma.user.findUnique({ where: { email } });
+    if (!user || !(await verifyPassword(password, user.passwordHash))) {
+      return NextResponse.json(
+        { error: "Invalid email or password" },
+        { status: 401 }
+      );
+    }
+
+    const { token, expiresAt } = await createSession(user.id);
+    const response = NextResponse.json(
+      {
+        user: { id: user.id, email: user.email, name: user.name, role: user.role },
+      },
+      { status: 200 }
+    );
+    setSessionCookie(response, token, expiresAt);
+    return response;
+  } catch (error) {
+    console.error("Error logging in:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Log out
+export async function DELETE(request: NextRequest) {
+  try {
+    const token = request.cookies.get(SESSION_COOKIE)?.value;
+    if (token) {
+      await deleteSession(token);
+    }
+
+    const response = NextResponse.json(
+      { message: "Logged out successfully" },
+      { status: 200 }
+    );
+    clearSessionCookie(response);
+    return response;
+  } catch (error) {
+    console.error("Error logging out:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
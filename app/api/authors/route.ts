@@ -0,0 +1,190 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import prisma from "@/lib/db";
+import { authorize, getCurrentUser } from "@/lib/auth";
+import { can } from "@/lib/roles";
+import { authorSelect, toAuthorHandle } from "@/lib/authors";
+
+// Force Node.js runtime to avoid Vercel Edge issues
+export const runtime = "nodejs";
+
+// Social links are stored as full URLs
+const profileFields = {
+  bio: z.string().trim().max(500).nullable().optional(),
+  avatarUrl: z.string().url().nullable().optional(),
+  website: z.string().url().nullable().optional(),
+  twitter: z.string().url().nullable().optional(),
+  github: z.string().url().nullable().optional(),
+  linkedin: z.string().url().nullable().optional(),
+};
+
+// Validation schema for create body; the handle defaults to one built from the name
+const postBodySchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(80),
+  handle: z.string().optional(),
+  ...profileFields,
+});
+
+// Validation schema for update body
+const patchBodySchema = z.object({
+  name: z.string().trim().min(1).max(80).optional(),
+  handle: z.string().optional(),
+  ...profileFields,
+});
+
+// List authors, or fetch one profile with ?handle=
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const handle = searchParams.get("handle");
+
+    if (handle) {
+      const author = await prisma.author.findUnique({
+        where: { handle: toAuthorHandle(handle) },
+        select: authorSelect,
+      });
+      if (!author) {
+        return NextResponse.json(
+          { error: "Author not found" },
+          { status: 404 }
+        );
+      }
+      return NextResponse.json(author, { status: 200 });
+    }
+
+    const authors = await prisma.author.findMany({
+      orderBy: { name: "asc" },
+      select: { ...authorSelect, _count: { select: { blogs: true } } },
+    });
+
+    return NextResponse.json({ authors }, { status: 200 });
+  } catch (error) {
+    console.error("Error fetching authors:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { response } = await authorize("manageAuthors");
+    if (response) return response;
+
+    const body = await request.json();
+    const parsed = postBodySchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const { handle: requestedHandle, ...fields } = parsed.data;
+    const handle = toAuthorHandle(requestedHandle || fields.name);
+    if (!handle) {
+      return NextResponse.json(
+        { error: "Handle must contain letters or numbers" },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.author.findUnique({ where: { handle } });
+    if (existing) {
+      return NextResponse.json(
+        { error: `"${handle}" is already taken` },
+        { status: 409 }
+      );
+    }
+
+    const result = await prisma.author.create({
+      data: { ...fields, handle },
+      select: authorSelect,
+    });
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    console.error("Error creating author:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Editors can update any profile; everyone else only their own
+export async function PATCH(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const handle = searchParams.get("handle");
+    if (!handle) {
+      return NextResponse.json(
+        { error: "Handle is required" },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.author.findUnique({ where: { handle } });
+    if (!existing) {
+      return NextResponse.json({ error: "Author not found" }, { status: 404 });
+    }
+    if (existing.userId !== user.id && !can(user, "manageAuthors")) {
+      return NextResponse.json(
+        { error: "You do not have permission to perform this action" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const parsed = patchBodySchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const { handle: requestedHandle, ...fields } = parsed.data;
+    const nextHandle = requestedHandle
+      ? toAuthorHandle(requestedHandle)
+      : handle;
+    if (!nextHandle) {
+      return NextResponse.json(
+        { error: "Handle must contain letters or numbers" },
+        { status: 400 }
+      );
+    }
+    if (
+      nextHandle !== handle &&
+      (await prisma.author.findUnique({ where: { handle: nextHandle } }))
+    ) {
+      return NextResponse.json(
+        { error: `"${nextHandle}" is already taken` },
+        { status: 409 }
+      );
+    }
+
+    const result = await prisma.author.update({
+      where: { handle },
+      data: { ...fields, handle: nextHandle },
+      select: authorSelect,
+    });
+
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    console.error("Error updating author:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
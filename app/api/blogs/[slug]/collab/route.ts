@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import prisma from "@/lib/db";
+import { authorizeBlogEdit } from "@/lib/auth";
+
+// Force Node.js runtime to avoid Vercel Edge issues
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ slug: string }> };
+
+// Validation schema for the merged document saved by the sync server
+const putBodySchema = z.object({
+  content: z.string().max(500_000),
+});
+
+// Called by the sync server with an editor's session cookie: checks they may
+// edit the post and hands over the content to start the shared document from.
+// Shared edits nobody saved yet are picked up, unless the post was saved since
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { slug } = await params;
+    const { response } = await authorizeBlogEdit(slug);
+    if (response) return response;
+
+    const blog = await prisma.blog.findFirst({
+      where: { slug, deletedAt: null },
+      select: {
+        content: true,
+        updatedAt: true,
+        collabDocument: { select: { content: true, updatedAt: true } },
+      },
+    });
+    if (!blog) {
+      return NextResponse.json({ error: "Blog not found" }, { status: 404 });
+    }
+
+    const shared = blog.collabDocument;
+    const content =
+      shared && shared.updatedAt > blog.updatedAt
+        ? shared.content
+        : blog.content;
+
+    return NextResponse.json({ content }, { status: 200 });
+  } catch (error) {
+    console.error("Error loading collaborative document:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Keeps the merged document for the next session, as the last editor to
+// change it. The post itself, and what readers see, only changes when an
+// editor saves it, which checks its version and records a revision
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { slug } = await params;
+    const { response } = await authorizeBlogEdit(slug);
+    if (response) return response;
+
+    const body = await request.json();
+    const parsed = putBodySchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const blog = await prisma.blog.findFirst({
+      where: { slug, deletedAt: null },
+      select: { id: true },
+    });
+    if (!blog) {
+      return NextResponse.json({ error: "Blog not found" }, { status: 404 });
+    }
+
+    const { content } = parsed.data;
+    await prisma.collabDocument.upsert({
+      where: { blogId: blog.id },
+      create: { blogId: blog.id, content },
+      update: { content },
+    });
+
+    return NextResponse.json({ saved: true }, { status: 200 });
+  } catch (error) {
+    console.error("Error saving collaborative document:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
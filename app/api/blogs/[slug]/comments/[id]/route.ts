@@ -0,0 +1,100 @@
+import { CommentStatus } from "@/generated/prisma";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import prisma from "@/lib/db";
+import { authorize } from "@/lib/auth";
+import { commentSelect } from "@/lib/comments";
+
+// Force Node.js runtime to avoid Vercel Edge issues
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ slug: string; id: string }> };
+
+// Validation schema for moderation decisions
+const patchBodySchema = z.object({
+  status: z.nativeEnum(CommentStatus),
+});
+
+// Utility function to find a comment on the given post
+const findComment = ({ slug, id }: { slug: string; id: string }) =>
+  prisma.comment.findFirst({ where: { id, blog: { slug } } });
+
+// Approve, reject or mark a comment as spam
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { response } = await authorize("moderateComments");
+    if (response) return response;
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: "Request body must be valid JSON" },
+        { status: 400 }
+      );
+    }
+    const parsed = patchBodySchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const existing = await findComment(await params);
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Comment not found" },
+        { status: 404 }
+      );
+    }
+
+    const { status } = parsed.data;
+    const result = await prisma.comment.update({
+      where: { id: existing.id },
+      data: {
+        status,
+        moderatedAt: status === CommentStatus.PENDING ? null : new Date(),
+      },
+      select: commentSelect,
+    });
+
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    console.error("Error moderating comment:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Permanently removes a comment along with its replies
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { response } = await authorize("moderateComments");
+    if (response) return response;
+
+    const existing = await findComment(await params);
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Comment not found" },
+        { status: 404 }
+      );
+    }
+
+    const result = await prisma.comment.delete({
+      where: { id: existing.id },
+      select: commentSelect,
+    });
+
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    console.error("Error deleting comment:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
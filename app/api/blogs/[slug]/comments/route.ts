@@ -0,0 +1,145 @@
+import { CommentStatus } from "@/generated/prisma";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import prisma from "@/lib/db";
+import { getCurrentUser } from "@/lib/auth";
+import { can } from "@/lib/roles";
+import { publishedBlogFilter } from "@/lib/publishing";
+import {
+  COMMENT_MAX_LENGTH,
+  commentSelect,
+  isCommentStatus,
+} from "@/lib/comments";
+
+// Force Node.js runtime to avoid Vercel Edge issues
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ slug: string }> };
+
+// Validation schema for new comments; guests must leave a name
+const postBodySchema = z.object({
+  body: z
+    .string()
+    .trim()
+    .min(1, "Comment cannot be empty")
+    .max(COMMENT_MAX_LENGTH),
+  parentId: z.string().uuid().optional(),
+  authorName: z.string().trim().min(1).max(80).optional(),
+});
+
+// Readers can only comment on posts they can see
+const findPublishedBlog = (slug: string) =>
+  prisma.blog.findFirst({
+    where: { slug, ...publishedBlogFilter() },
+    select: { id: true },
+  });
+
+// Approved comments, oldest first; moderators may ask for another ?status=
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { slug } = await params;
+    const blog = await findPublishedBlog(slug);
+    if (!blog) {
+      return NextResponse.json({ error: "Blog not found" }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const requested = searchParams.get("status")?.toUpperCase().trim();
+    const user = await getCurrentUser();
+    const status =
+      isCommentStatus(requested) && can(user, "moderateComments")
+        ? requested
+        : CommentStatus.APPROVED;
+
+    const comments = await prisma.comment.findMany({
+      where: { blogId: blog.id, status },
+      orderBy: { createdAt: "asc" },
+      select: commentSelect,
+    });
+
+    return NextResponse.json({ comments }, { status: 200 });
+  } catch (error) {
+    console.error("Error fetching comments:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { slug } = await params;
+    const blog = await findPublishedBlog(slug);
+    if (!blog) {
+      return NextResponse.json({ error: "Blog not found" }, { status: 404 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: "Request body must be valid JSON" },
+        { status: 400 }
+      );
+    }
+    const parsed = postBodySchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const user = await getCurrentUser();
+    const authorName = user?.name ?? parsed.data.authorName;
+    if (!authorName) {
+      return NextResponse.json(
+        { error: "Name is required to comment as a guest" },
+        { status: 400 }
+      );
+    }
+
+    // Replies can only hang off visible comments on the same post
+    const { parentId } = parsed.data;
+    if (parentId) {
+      const parent = await prisma.comment.findFirst({
+        where: {
+          id: parentId,
+          blogId: blog.id,
+          status: CommentStatus.APPROVED,
+        },
+      });
+      if (!parent) {
+        return NextResponse.json(
+          { error: "Parent comment not found" },
+          { status: 404 }
+        );
+      }
+    }
+
+    // Moderators skip the queue; everyone else waits for approval
+    const approved = can(user, "moderateComments");
+    const result = await prisma.comment.create({
+      data: {
+        blogId: blog.id,
+        parentId,
+        body: parsed.data.body,
+        userId: user?.id,
+        authorName,
+        status: approved ? CommentStatus.APPROVED : CommentStatus.PENDING,
+        moderatedAt: approved ? new Date() : null,
+      },
+      select: commentSelect,
+    });
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    console.error("Error creating comment:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
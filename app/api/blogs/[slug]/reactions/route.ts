@@ -0,0 +1,119 @@
+import { ReactionType } from "@/generated/prisma";
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { authorize, getCurrentUser } from "@/lib/auth";
+import { publishedBlogFilter } from "@/lib/publishing";
+import { isReactionType, ReactionSummary } from "@/lib/reactions";
+
+// Force Node.js runtime to avoid Vercel Edge issues
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ slug: string }> };
+
+const findLiveBlogId = async (slug: string) => {
+  const blog = await prisma.blog.findFirst({
+    where: { slug, ...publishedBlogFilter() },
+    select: { id: true },
+  });
+  return blog?.id ?? null;
+};
+
+// Every reaction type with its count, and the ones left by the given user
+const summarize = async (
+  blogId: string,
+  userId?: string
+): Promise<ReactionSummary> => {
+  const [groups, mine] = await Promise.all([
+    prisma.reaction.groupBy({
+      by: ["type"],
+      where: { blogId },
+      _count: { _all: true },
+    }),
+    userId
+      ? prisma.reaction.findMany({
+          where: { blogId, userId },
+          select: { type: true },
+        })
+      : [],
+  ]);
+
+  const counts = Object.fromEntries(
+    Object.values(ReactionType).map((type) => [type, 0])
+  ) as ReactionSummary["counts"];
+  groups.forEach((group) => {
+    counts[group.type] = group._count._all;
+  });
+
+  return { counts, mine: mine.map(({ type }) => type) };
+};
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { slug } = await params;
+    const blogId = await findLiveBlogId(slug);
+    if (!blogId) {
+      return NextResponse.json({ error: "Blog not found" }, { status: 404 });
+    }
+
+    const user = await getCurrentUser();
+    const summary = await summarize(blogId, user?.id);
+
+    return NextResponse.json(summary, { status: 200 });
+  } catch (error) {
+    console.error("Error fetching reactions:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Toggles one of the reader's reactions on or off
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { user, response } = await authorize("react");
+    if (response) return response;
+
+    const { slug } = await params;
+    let type: unknown;
+    try {
+      ({ type } = await request.json());
+    } catch {
+      return NextResponse.json(
+        { error: "Request body must be valid JSON" },
+        { status: 400 }
+      );
+    }
+    if (!isReactionType(type)) {
+      return NextResponse.json(
+        { error: "Invalid reaction type" },
+        { status: 400 }
+      );
+    }
+
+    const blogId = await findLiveBlogId(slug);
+    if (!blogId) {
+      return NextResponse.json({ error: "Blog not found" }, { status: 404 });
+    }
+
+    // Neither step fails when a double click races itself: the reaction is
+    // removed if it was there, otherwise added at most once
+    const reaction = { blogId, userId: user.id, type };
+    const { count } = await prisma.reaction.deleteMany({ where: reaction });
+    if (count === 0) {
+      await prisma.reaction.createMany({
+        data: [reaction],
+        skipDuplicates: true,
+      });
+    }
+
+    const summary = await summarize(blogId, user.id);
+    return NextResponse.json(summary, { status: 200 });
+  } catch (error) {
+    console.error("Error toggling reaction:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
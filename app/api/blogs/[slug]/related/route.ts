@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getCachedRelatedBlogs,
+  RELATED_DEFAULT_LIMIT,
+  RELATED_MAX_LIMIT,
+} from "@/lib/related";
+
+// Force Node.js runtime to avoid Vercel Edge issues
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ slug: string }> };
+
+// Posts to read next, best match first
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { slug } = await params;
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(
+      Math.max(
+        parseInt(searchParams.get("limit") || "", 10) || RELATED_DEFAULT_LIMIT,
+        1
+      ),
+      RELATED_MAX_LIMIT
+    );
+
+    const blogs = await getCachedRelatedBlogs(slug, limit);
+    if (!blogs) {
+      return NextResponse.json({ error: "Blog not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ blogs }, { status: 200 });
+  } catch (error) {
+    console.error("Error fetching related blogs:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+import { ShareChannel } from "@/generated/prisma";
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { authorize } from "@/lib/auth";
+import { publishedBlogFilter } from "@/lib/publishing";
+import { isShareChannel } from "@/lib/share";
+
+// Force Node.js runtime to avoid Vercel Edge issues
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ slug: string }> };
+
+// Number of shares of a post through each channel
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { response } = await authorize("viewAnalytics");
+    if (response) return response;
+
+    const { slug } = await params;
+    const groups = await prisma.blogShare.groupBy({
+      by: ["channel"],
+      where: { blog: { slug } },
+      _count: { _all: true },
+    });
+
+    const shares = Object.fromEntries(
+      Object.values(ShareChannel).map((channel) => [
+        channel,
+        groups.find((group) => group.channel === channel)?._count._all ?? 0,
+      ])
+    );
+
+    return NextResponse.json({ shares }, { status: 200 });
+  } catch (error) {
+    console.error("Error fetching shares:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Records that a reader shared a live post through the given channel
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { slug } = await params;
+    let channel: unknown;
+    try {
+      ({ channel } = await request.json());
+    } catch {
+      return NextResponse.json(
+        { error: "Request body must be valid JSON" },
+        { status: 400 }
+      );
+    }
+    if (!isShareChannel(channel)) {
+      return NextResponse.json(
+        { error: "Invalid share channel" },
+        { status: 400 }
+      );
+    }
+
+    const blog = await prisma.blog.findFirst({
+      where: { slug, ...publishedBlogFilter() },
+      select: { id: true },
+    });
+    if (!blog) {
+      return NextResponse.json({ error: "Blog not found" }, { status: 404 });
+    }
+
+    await prisma.blogShare.create({ data: { blogId: blog.id, channel } });
+
+    return NextResponse.json({ recorded: true }, { status: 201 });
+  } catch (error) {
+    console.error("Error recording share:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import prisma from "@/lib/db";
+import { publishedBlogFilter } from "@/lib/publishing";
+import { toDepthMilestone } from "@/lib/analytics";
+import { recordView } from "@/lib/views";
+
+// Force Node.js runtime to avoid Vercel Edge issues
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ slug: string }> };
+
+// Validation schema for view body; depth is the percent of the post read
+const viewBodySchema = z.object({
+  sessionId: z.string().uuid(),
+  depth: z.number().int().min(0).max(100).default(0),
+});
+
+// Records a view of a live post, or the scroll depth of one already counted
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { slug } = await params;
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: "Request body must be valid JSON" },
+        { status: 400 }
+      );
+    }
+    const parsed = viewBodySchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const blog = await prisma.blog.findFirst({
+      where: { slug, ...publishedBlogFilter() },
+      select: { id: true },
+    });
+    if (!blog) {
+      return NextResponse.json({ error: "Blog not found" }, { status: 404 });
+    }
+
+    const { sessionId, depth } = parsed.data;
+    await recordView(blog.id, sessionId, toDepthMilestone(depth));
+
+    return NextResponse.json({ recorded: true }, { status: 200 });
+  } catch (error) {
+    console.error("Error recording view:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
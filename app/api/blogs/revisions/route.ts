@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { authorizeBlogEdit } from "@/lib/auth";
+import { revalidateBlogs } from "@/lib/blogs";
+import { computeContentStats } from "@/lib/contentStats";
+import { createRevision } from "@/lib/revisions";
+import { blogTaxonomyInclude } from "@/lib/taxonomy";
+
+// Force Node.js runtime to avoid Vercel Edge issues
+export const runtime = "nodejs";
+
+// Utility function to find a blog that is not in the trash
+const findActiveBlog = (slug: string) =>
+  prisma.blog.findFirst({ where: { slug, deletedAt: null } });
+
+// List a blog's revisions, or fetch a single one with its content
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const slug = searchParams.get("slug");
+    const id = searchParams.get("id");
+
+    if (!slug) {
+      return NextResponse.json({ error: "Slug is required" }, { status: 400 });
+    }
+
+    const { response } = await authorizeBlogEdit(slug);
+    if (response) return response;
+
+    const blog = await findActiveBlog(slug);
+    if (!blog) {
+      return NextResponse.json({ error: "Blog not found" }, { status: 404 });
+    }
+
+    if (id) {
+      const revision = await prisma.blogRevision.findFirst({
+        where: { id, blogId: blog.id },
+        include: { editor: { select: { id: true, name: true } } },
+      });
+      if (!revision) {
+        return NextResponse.json(
+          { error: "Revision not found" },
+          { status: 404 }
+        );
+      }
+      return NextResponse.json(revision, { status: 200 });
+    }
+
+    // Content is left out of the list; fetch a revision by id to diff it
+    const revisions = await prisma.blogRevision.findMany({
+      where: { blogId: blog.id },
+      orderBy: { version: "desc" },
+      select: {
+        id: true,
+        version: true,
+        title: true,
+        restoredFromVersion: true,
+        createdAt: true,
+        editor: { select: { id: true, name: true } },
+      },
+    });
+
+    return NextResponse.json({ revisions }, { status: 200 });
+  } catch (error) {
+    console.error("Error fetching revisions:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Roll a blog back to an earlier revision, recorded as a new revision
+export async function POST(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const slug = searchParams.get("slug");
+    const id = searchParams.get("id");
+
+    if (!slug || !id) {
+      return NextResponse.json(
+        { error: "Slug and revision id are required" },
+        { status: 400 }
+      );
+    }
+
+    const { user, response } = await authorizeBlogEdit(slug);
+    if (response) return response;
+
+    const blog = await findActiveBlog(slug);
+    if (!blog) {
+      return NextResponse.json({ error: "Blog not found" }, { status: 404 });
+    }
+
+    const revision = await prisma.blogRevision.findFirst({
+      where: { id, blogId: blog.id },
+    });
+    if (!revision) {
+      return NextResponse.json(
+        { error: "Revision not found" },
+        { status: 404 }
+      );
+    }
+
+    // Lifecycle fields stay as they are; only the content is rolled back
+    const result = await prisma.$transaction(async (tx) => {
+      const restored = await tx.blog.update({
+        where: { id: blog.id },
+        data: {
+          title: revision.title,
+          subTitle: revision.subTitle,
+          content: revision.content,
+          ...computeContentStats(revision.content),
+          bannerUrl: revision.bannerUrl,
+          video: revision.video,
+          // Tags or topics deleted since the revision are skipped
+          tags: {
+            set: await tx.tag.findMany({
+              where: { slug: { in: revision.tags } },
+              select: { slug: true },
+            }),
+          },
+          topics: {
+            set: await tx.topic.findMany({
+              where: { slug: { in: revision.topics } },
+              select: { slug: true },
+            }),
+          },
+        },
+        include: blogTaxonomyInclude,
+      });
+      await createRevision(tx, restored, user.id, revision.version);
+      return restored;
+    });
+
+    revalidateBlogs(slug);
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    console.error("Error restoring revision:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
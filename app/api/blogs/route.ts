@@ -1,67 +1,134 @@
-import { Tags, Topics } from "@/generated/prisma";
+import { BlogStatus, Prisma } from "@/generated/prisma";
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/db";
+import {
+  authorize,
+  authorizeBlogEdit,
+  canEditBlog,
+  getCurrentUser,
+} from "@/lib/auth";
+import { can } from "@/lib/roles";
+import {
+  isBlogStatus,
+  publishedBlogFilter,
+  resolveStatusFields,
+} from "@/lib/publishing";
+import { createRevision } from "@/lib/revisions";
+import { parseSlugList, toTaxonomySlug } from "@/lib/taxonomy";
+import {
+  blogWithAuthorsInclude,
+  ensureAuthorForUser,
+  toAuthorHandle,
+  toBlogAuthorRows,
+  writtenByUser,
+} from "@/lib/authors";
+import { computeContentStats } from "@/lib/contentStats";
+import { toBlogETag } from "@/lib/editing";
+import { nextSeriesPosition, toSeriesSlug } from "@/lib/series";
+import {
+  findBlogBySlug,
+  findBlogList,
+  revalidateBlogs,
+  withListFilters,
+} from "@/lib/blogs";
 
 // Force Node.js runtime to avoid Vercel Edge issues
 export const runtime = "nodejs";
 
-// Utility function to validate tags and topics
-const validateTagsAndTopics = (tags: unknown, topics: unknown) => {
-  const validTags: Tags[] = Object.values(Tags);
-  const validTopics: Topics[] = Object.values(Topics);
-
-  const parsedTags = Array.isArray(tags)
-    ? tags
-        .map((tag) => tag.trim() as Tags)
-        .filter((tag): tag is Tags => validTags.includes(tag))
-    : [];
-  const parsedTopics = Array.isArray(topics)
-    ? topics
-        .map((topic) => topic.trim() as Topics)
-        .filter((topic): topic is Topics => validTopics.includes(topic))
-    : [];
-
-  return { parsedTags, parsedTopics };
+// Utility function to keep only the tags and topics that exist
+const validateTagsAndTopics = async (tags: unknown, topics: unknown) => {
+  const [validTags, validTopics] = await Promise.all([
+    prisma.tag.findMany({
+      where: { slug: { in: parseSlugList(tags) } },
+      select: { slug: true },
+    }),
+    prisma.topic.findMany({
+      where: { slug: { in: parseSlugList(topics) } },
+      select: { slug: true },
+    }),
+  ]);
+
+  return { parsedTags: validTags, parsedTopics: validTopics };
+};
+
+// Resolves author handles to ids in the order given; unknown handles are dropped
+const validateAuthors = async (authors: unknown) => {
+  const handles = parseSlugList(authors);
+  const found = await prisma.author.findMany({
+    where: { handle: { in: handles } },
+    select: { id: true, handle: true },
+  });
+  return handles.flatMap((handle) => {
+    const author = found.find((item) => item.handle === handle);
+    return author ? [author.id] : [];
+  });
+};
+
+// Resolves a series slug to its id; null or "" takes the post out of its
+// series and undefined leaves it as is
+const validateSeries = async (series: unknown, seriesPosition: unknown) => {
+  if (
+    seriesPosition !== undefined &&
+    seriesPosition !== null &&
+    !(Number.isInteger(seriesPosition) && (seriesPosition as number) > 0)
+  ) {
+    return { error: "seriesPosition must be a positive whole number" };
+  }
+  if (series === undefined) return { seriesId: undefined };
+  if (series === null || series === "") return { seriesId: null };
+
+  const found = await prisma.series.findUnique({
+    where: { slug: toSeriesSlug(String(series)) },
+    select: { id: true },
+  });
+  return found ? { seriesId: found.id } : { error: "Series not found" };
 };
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const slug = searchParams.get("slug");
-    const tag = searchParams.get("tag")?.toUpperCase().trim() as Tags | null;
-    const topic = searchParams.get("topic")?.toUpperCase().trim() as Topics | null;
-
-    const validTags: Tags[] = Object.values(Tags);
-    const validTopics: Topics[] = Object.values(Topics);
-    const validatedTag = validTags.includes(tag as Tags) ? tag : null;
-    const validatedTopic = validTopics.includes(topic as Topics) ? topic : null;
+    const tag = toTaxonomySlug(searchParams.get("tag") || "");
+    const topic = toTaxonomySlug(searchParams.get("topic") || "");
+    const author = toAuthorHandle(searchParams.get("author") || "");
 
     const limit = Math.min(parseInt(searchParams.get("limit") || "100", 10), 100);
     const page = Math.max(parseInt(searchParams.get("page") || "1", 10), 1);
     const skip = (page - 1) * limit;
 
+    // Drafts, scheduled and archived posts are only visible to writers
+    const user = await getCurrentUser();
+    const canViewUnpublished = can(user, "viewDrafts");
+    const status = searchParams.get("status")?.toUpperCase().trim();
+
     if (slug) {
-      const blog = await prisma.blog.findUnique({ where: { slug } });
+      // Unpublished posts only for those who may edit them, so authors don't
+      // read each other's drafts
+      const blog = await findBlogBySlug(
+        slug,
+        canViewUnpublished && (await canEditBlog(user, slug))
+      );
       if (!blog) {
         return NextResponse.json({ error: "Blog not found" }, { status: 404 });
       }
-      return NextResponse.json(blog, { status: 200 });
+      return NextResponse.json(blog, {
+        status: 200,
+        headers: { ETag: toBlogETag(blog.updatedAt) },
+      });
     }
 
-    const searchFilter: {
-      tags?: { has: Tags };
-      topics?: { has: Topics };
-    } = {};
-    if (validatedTag) searchFilter.tags = { has: validatedTag };
-    if (validatedTopic) searchFilter.topics = { has: validatedTopic };
+    // Authors only work on their own posts, editors on everyone's
+    const ownPosts =
+      user && !can(user, "editBlog") ? writtenByUser(user.id) : {};
+    const searchFilter = withListFilters(
+      canViewUnpublished && isBlogStatus(status)
+        ? { status, deletedAt: null, ...ownPosts }
+        : publishedBlogFilter(),
+      { tag, topic, author }
+    );
 
     const [blogs, totalBlogs] = await prisma.$transaction([
-      prisma.blog.findMany({
-        where: searchFilter,
-        orderBy: { createdAt: "desc" },
-        take: limit,
-        skip,
-      }),
+      findBlogList(searchFilter, { take: limit, skip }),
       prisma.blog.count({ where: searchFilter }),
     ]);
 
@@ -82,17 +149,50 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const { user, response } = await authorize("createBlog");
+    if (response) return response;
+
     const body = await request.json();
-    const { title, subTitle, content, bannerUrl, slug, video, tags, topics } = body;
+    const {
+      title,
+      subTitle,
+      content,
+      bannerUrl,
+      slug,
+      video,
+      tags,
+      topics,
+      authors,
+      status = BlogStatus.DRAFT,
+      scheduledFor,
+      series,
+      seriesPosition,
+    } = body;
+
+    if (!isBlogStatus(status)) {
+      return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+    }
 
-    // Validate required fields
-    if (!title || !subTitle || !content || !bannerUrl || !slug) {
+    // Drafts only need a title and slug; anything going live needs every field
+    if (status === BlogStatus.DRAFT) {
+      if (!title || !slug) {
+        return NextResponse.json(
+          { error: "Missing required fields: title, slug" },
+          { status: 400 }
+        );
+      }
+    } else if (!title || !subTitle || !content || !bannerUrl || !slug) {
       return NextResponse.json(
         { error: "Missing required fields: title, subTitle, content, bannerUrl, slug" },
         { status: 400 }
       );
     }
 
+    const statusFields = resolveStatusFields(status, scheduledFor);
+    if (statusFields.error) {
+      return NextResponse.json({ error: statusFields.error }, { status: 400 });
+    }
+
     // Check if slug already exists
     const existingBlog = await prisma.blog.findUnique({ where: { slug } });
     if (existingBlog) {
@@ -102,21 +202,58 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { parsedTags, parsedTopics } = validateTagsAndTopics(tags, topics);
+    const { parsedTags, parsedTopics } = await validateTagsAndTopics(
+      tags,
+      topics
+    );
+
+    const authorIds = await validateAuthors(authors);
+
+    const { seriesId, error: seriesError } = await validateSeries(
+      series,
+      seriesPosition
+    );
+    if (seriesError) {
+      return NextResponse.json({ error: seriesError }, { status: 400 });
+    }
 
-    const blogData = {
+    const blogData: Prisma.BlogCreateInput = {
       title,
-      subTitle,
-      content,
-      bannerUrl,
+      subTitle: subTitle || "",
+      content: content || "",
+      bannerUrl: bannerUrl || "",
       slug,
       video,
-      tags: parsedTags,
-      topics: parsedTopics,
+      tags: { connect: parsedTags },
+      topics: { connect: parsedTopics },
+      ...computeContentStats(content || ""),
+      ...statusFields.data,
     };
 
-    const result = await prisma.blog.create({ data: blogData });
+    // The first revision records the post as it was created
+    const result = await prisma.$transaction(async (tx) => {
+      // Without an explicit byline the post is credited to its creator
+      if (authorIds.length === 0) {
+        authorIds.push((await ensureAuthorForUser(tx, user)).id);
+      }
+      // Without a position the post is added as the last part
+      if (seriesId) {
+        blogData.series = { connect: { id: seriesId } };
+        blogData.seriesPosition =
+          seriesPosition ?? (await nextSeriesPosition(tx, seriesId));
+      }
+      const blog = await tx.blog.create({
+        data: {
+          ...blogData,
+          authors: { create: toBlogAuthorRows(authorIds) },
+        },
+        include: blogWithAuthorsInclude,
+      });
+      await createRevision(tx, blog, user.id);
+      return blog;
+    });
 
+    revalidateBlogs(result.slug);
     return NextResponse.json(result, { status: 201 });
   } catch (error) {
     console.error("Error creating blog:", error);
@@ -139,8 +276,33 @@ export async function PATCH(request: NextRequest) {
       );
     }
 
+    const { user, response } = await authorizeBlogEdit(slug);
+    if (response) return response;
+
+    // Changes have to name the version they were made to, see lib/editing
+    const ifMatch = request.headers.get("if-match");
+    if (!ifMatch) {
+      return NextResponse.json(
+        { error: "If-Match header with the blog's ETag is required" },
+        { status: 428 }
+      );
+    }
+
     const body = await request.json();
-    const { title, subTitle, content, bannerUrl, video, tags, topics } = body;
+    const {
+      title,
+      subTitle,
+      content,
+      bannerUrl,
+      video,
+      tags,
+      topics,
+      authors,
+      status,
+      scheduledFor,
+      series,
+      seriesPosition,
+    } = body;
 
     // Validate that at least one field is provided for update
     if (
@@ -150,7 +312,11 @@ export async function PATCH(request: NextRequest) {
       !bannerUrl &&
       !video &&
       !tags &&
-      !topics
+      !topics &&
+      !authors &&
+      !status &&
+      series === undefined &&
+      seriesPosition === undefined
     ) {
       return NextResponse.json(
         { error: "At least one field must be provided for update" },
@@ -158,42 +324,174 @@ export async function PATCH(request: NextRequest) {
       );
     }
 
-    // Check if blog exists
-    const existingBlog = await prisma.blog.findUnique({ where: { slug } });
+    // Check if blog exists and is not in the trash
+    const existingBlog = await prisma.blog.findFirst({
+      where: { slug, deletedAt: null },
+    });
     if (!existingBlog) {
       return NextResponse.json({ error: "Blog not found" }, { status: 404 });
     }
 
-    const { parsedTags, parsedTopics } = validateTagsAndTopics(tags, topics);
+    if (status !== undefined && !isBlogStatus(status)) {
+      return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+    }
 
-    const blogData: {
-      title?: string;
-      subTitle?: string;
-      content?: string;
-      bannerUrl?: string;
-      video?: string;
-      tags?: Tags[];
-      topics?: Topics[];
-    } = {};
+    // A draft can only go live once every required field is filled in
+    const nextStatus = status ?? existingBlog.status;
+    if (
+      nextStatus !== BlogStatus.DRAFT &&
+      (!(subTitle || existingBlog.subTitle) ||
+        !(content || existingBlog.content) ||
+        !(bannerUrl || existingBlog.bannerUrl))
+    ) {
+      return NextResponse.json(
+        { error: "subTitle, content and bannerUrl are required before publishing" },
+        { status: 400 }
+      );
+    }
+
+    const { parsedTags, parsedTopics } = await validateTagsAndTopics(
+      tags,
+      topics
+    );
+
+    const authorIds = await validateAuthors(authors);
+
+    const { seriesId, error: seriesError } = await validateSeries(
+      series,
+      seriesPosition
+    );
+    if (seriesError) {
+      return NextResponse.json({ error: seriesError }, { status: 400 });
+    }
+
+    const blogData: Prisma.BlogUpdateInput = {};
     if (title) blogData.title = title;
     if (subTitle) blogData.subTitle = subTitle;
-    if (content) blogData.content = content;
+    if (content) {
+      blogData.content = content;
+      Object.assign(blogData, computeContentStats(content));
+    }
     if (bannerUrl) blogData.bannerUrl = bannerUrl;
     if (video !== undefined) blogData.video = video;
-    if (parsedTags.length > 0) blogData.tags = parsedTags;
-    if (parsedTopics.length > 0) blogData.topics = parsedTopics;
+    if (parsedTags.length > 0) blogData.tags = { set: parsedTags };
+    if (parsedTopics.length > 0) blogData.topics = { set: parsedTopics };
+    if (authorIds.length > 0) {
+      blogData.authors = {
+        deleteMany: {},
+        create: toBlogAuthorRows(authorIds),
+      };
+    }
+    if (status) {
+      const statusFields = resolveStatusFields(
+        status,
+        scheduledFor,
+        existingBlog
+      );
+      if (statusFields.error) {
+        return NextResponse.json(
+          { error: statusFields.error },
+          { status: 400 }
+        );
+      }
+      Object.assign(blogData, statusFields.data);
+    }
+
+    if (seriesId === null) {
+      blogData.series = { disconnect: true };
+      blogData.seriesPosition = null;
+    } else if (seriesId === undefined && seriesPosition !== undefined) {
+      blogData.seriesPosition = existingBlog.seriesId ? seriesPosition : null;
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      // The row stays locked until the update so the version can't change
+      // between the check and the write
+      const [locked] = await tx.$queryRaw<{ updatedAt: Date }[]>`
+        SELECT "updatedAt" FROM "Blog" WHERE "slug" = ${slug} FOR UPDATE
+      `;
+      if (!locked || toBlogETag(locked.updatedAt) !== ifMatch) return null;
+
+      // Moving to another series appends the post unless a position is given
+      if (seriesId) {
+        blogData.series = { connect: { id: seriesId } };
+        blogData.seriesPosition =
+          seriesPosition ??
+          (seriesId === existingBlog.seriesId
+            ? existingBlog.seriesPosition
+            : await nextSeriesPosition(tx, seriesId));
+      }
+      const blog = await tx.blog.update({
+        where: { slug },
+        data: blogData,
+        include: blogWithAuthorsInclude,
+      });
+      await createRevision(tx, blog, user.id);
+      return blog;
+    });
+
+    // Someone else saved first; the client merges against their copy
+    if (!result) {
+      const current = await findBlogBySlug(slug, true);
+      return NextResponse.json(
+        { error: "This blog was changed since you opened it", current },
+        {
+          status: 409,
+          headers: current ? { ETag: toBlogETag(current.updatedAt) } : {},
+        }
+      );
+    }
+
+    revalidateBlogs(slug);
+    return NextResponse.json(result, {
+      status: 200,
+      headers: { ETag: toBlogETag(result.updatedAt) },
+    });
+  } catch (error) {
+    console.error("Error updating blog:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Moves a blog to the trash; it can be restored from /api/blogs/trash
+export async function DELETE(request: NextRequest) {
+  try {
+    const { response } = await authorize("deleteBlog");
+    if (response) return response;
+
+    const { searchParams } = new URL(request.url);
+    const slug = searchParams.get("slug");
+
+    if (!slug) {
+      return NextResponse.json(
+        { error: "Slug is required for deleting" },
+        { status: 400 }
+      );
+    }
+
+    const existingBlog = await prisma.blog.findFirst({
+      where: { slug, deletedAt: null },
+    });
+    if (!existingBlog) {
+      return NextResponse.json({ error: "Blog not found" }, { status: 404 });
+    }
 
     const result = await prisma.blog.update({
       where: { slug },
-      data: blogData,
+      // Trashing is not an edit, so the last-updated date is kept
+      data: { deletedAt: new Date(), updatedAt: existingBlog.updatedAt },
     });
 
+    revalidateBlogs(slug);
     return NextResponse.json(result, { status: 200 });
   } catch (error) {
-    console.error("Error updating blog:", error);
+    console.error("Error deleting blog:", error);
     return NextResponse.json(
       { error: "Internal server error" },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { authorize } from "@/lib/auth";
+import { revalidateBlogs } from "@/lib/blogs";
+
+// Force Node.js runtime to avoid Vercel Edge issues
+export const runtime = "nodejs";
+
+// Utility function to find a trashed blog by slug
+const findTrashedBlog = (slug: string) =>
+  prisma.blog.findFirst({ where: { slug, deletedAt: { not: null } } });
+
+// List trashed blogs, most recently deleted first
+export async function GET(request: NextRequest) {
+  try {
+    const { response } = await authorize("deleteBlog");
+    if (response) return response;
+
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(parseInt(searchParams.get("limit") || "100", 10), 100);
+    const page = Math.max(parseInt(searchParams.get("page") || "1", 10), 1);
+    const skip = (page - 1) * limit;
+
+    const [blogs, totalBlogs] = await prisma.$transaction([
+      prisma.blog.findMany({
+        where: { deletedAt: { not: null } },
+        orderBy: { deletedAt: "desc" },
+        take: limit,
+        skip,
+        select: {
+          id: true,
+          title: true,
+          subTitle: true,
+          slug: true,
+          bannerUrl: true,
+          createdAt: true,
+          deletedAt: true,
+        },
+      }),
+      prisma.blog.count({ where: { deletedAt: { not: null } } }),
+    ]);
+
+    const totalPages = Math.ceil(totalBlogs / limit);
+
+    return NextResponse.json(
+      { blogs, pagination: { currentPage: page, totalPages, totalBlogs } },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Error fetching trashed blogs:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Restore a trashed blog
+export async function PATCH(request: NextRequest) {
+  try {
+    const { response } = await authorize("deleteBlog");
+    if (response) return response;
+
+    const { searchParams } = new URL(request.url);
+    const slug = searchParams.get("slug");
+
+    if (!slug) {
+      return NextResponse.json(
+        { error: "Slug is required for restoring" },
+        { status: 400 }
+      );
+    }
+
+    const trashedBlog = await findTrashedBlog(slug);
+    if (!trashedBlog) {
+      return NextResponse.json(
+        { error: "Blog not found in trash" },
+        { status: 404 }
+      );
+    }
+
+    const result = await prisma.blog.update({
+      where: { slug },
+      data: { deletedAt: null, updatedAt: trashedBlog.updatedAt },
+    });
+
+    revalidateBlogs(slug);
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    console.error("Error restoring blog:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Permanently delete a trashed blog
+export async function DELETE(request: NextRequest) {
+  try {
+    const { response } = await authorize("purgeBlog");
+    if (response) return response;
+
+    const { searchParams } = new URL(request.url);
+    const slug = searchParams.get("slug");
+
+    if (!slug) {
+      return NextResponse.json(
+        { error: "Slug is required for deleting" },
+        { status: 400 }
+      );
+    }
+
+    const trashedBlog = await findTrashedBlog(slug);
+    if (!trashedBlog) {
+      return NextResponse.json(
+        { error: "Blog not found in trash" },
+        { status: 404 }
+      );
+    }
+
+    await prisma.blog.delete({ where: { slug } });
+
+    return NextResponse.json(
+      { message: "Blog deleted permanently" },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Error permanently deleting blog:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
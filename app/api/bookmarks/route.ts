@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import prisma from "@/lib/db";
+import { authorize, getCurrentUser } from "@/lib/auth";
+import { blogWithAuthorsInclude } from "@/lib/authors";
+import { publishedBlogFilter } from "@/lib/publishing";
+
+// Force Node.js runtime to avoid Vercel Edge issues
+export const runtime = "nodejs";
+
+// Most posts one request may add or look up
+const BOOKMARKS_MAX = 100;
+
+// Validation schema for add body; several slugs are sent at once when local
+// bookmarks are moved to an account
+const postBodySchema = z.object({
+  slugs: z.array(z.string().min(1)).min(1).max(BOOKMARKS_MAX),
+});
+
+// The signed-in reader's reading list, newest first. Anonymous readers pass
+// their locally stored ?slugs= to get the posts in the same order
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+
+    if (user) {
+      const bookmarks = await prisma.bookmark.findMany({
+        where: { userId: user.id, blog: publishedBlogFilter() },
+        orderBy: { createdAt: "desc" },
+        include: { blog: { include: blogWithAuthorsInclude } },
+      });
+      return NextResponse.json(
+        { blogs: bookmarks.map(({ blog }) => blog) },
+        { status: 200 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const slugs = (searchParams.get("slugs") || "")
+      .split(",")
+      .map((slug) => slug.trim())
+      .filter(Boolean)
+      .slice(0, BOOKMARKS_MAX);
+    if (slugs.length === 0) {
+      return NextResponse.json({ blogs: [] }, { status: 200 });
+    }
+
+    const blogs = await prisma.blog.findMany({
+      where: { ...publishedBlogFilter(), slug: { in: slugs } },
+      include: blogWithAuthorsInclude,
+    });
+
+    return NextResponse.json(
+      { blogs: slugs.flatMap((slug) => blogs.filter((b) => b.slug === slug)) },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Error fetching bookmarks:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { user, response } = await authorize("bookmark");
+    if (response) return response;
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: "Request body must be valid JSON" },
+        { status: 400 }
+      );
+    }
+    const parsed = postBodySchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const blogs = await prisma.blog.findMany({
+      where: { ...publishedBlogFilter(), slug: { in: parsed.data.slugs } },
+      select: { id: true },
+    });
+    if (blogs.length === 0) {
+      return NextResponse.json({ error: "Blog not found" }, { status: 404 });
+    }
+
+    const result = await prisma.bookmark.createMany({
+      data: blogs.map((blog) => ({ userId: user.id, blogId: blog.id })),
+      skipDuplicates: true,
+    });
+
+    return NextResponse.json({ added: result.count }, { status: 201 });
+  } catch (error) {
+    console.error("Error adding bookmarks:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { user, response } = await authorize("bookmark");
+    if (response) return response;
+
+    const { searchParams } = new URL(request.url);
+    const slug = searchParams.get("slug");
+    if (!slug) {
+      return NextResponse.json({ error: "Slug is required" }, { status: 400 });
+    }
+
+    const result = await prisma.bookmark.deleteMany({
+      where: { userId: user.id, blog: { slug } },
+    });
+
+    return NextResponse.json({ removed: result.count }, { status: 200 });
+  } catch (error) {
+    console.error("Error removing bookmark:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { CommentStatus } from "@/generated/prisma";
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { authorize } from "@/lib/auth";
+import { commentSelect, isCommentStatus } from "@/lib/comments";
+
+// Force Node.js runtime to avoid Vercel Edge issues
+export const runtime = "nodejs";
+
+// Moderation queue across every post, pending comments first by default
+export async function GET(request: NextRequest) {
+  try {
+    const { response } = await authorize("moderateComments");
+    if (response) return response;
+
+    const { searchParams } = new URL(request.url);
+    const requested = searchParams.get("status")?.toUpperCase().trim();
+    const status = isCommentStatus(requested)
+      ? requested
+      : CommentStatus.PENDING;
+
+    const limit = Math.min(
+      parseInt(searchParams.get("limit") || "50", 10),
+      100
+    );
+    const page = Math.max(parseInt(searchParams.get("page") || "1", 10), 1);
+
+    const [comments, totalComments] = await prisma.$transaction([
+      prisma.comment.findMany({
+        where: { status, blog: { deletedAt: null } },
+        orderBy: { createdAt: "asc" },
+        take: limit,
+        skip: (page - 1) * limit,
+        select: {
+          ...commentSelect,
+          blog: { select: { slug: true, title: true } },
+        },
+      }),
+      prisma.comment.count({ where: { status, blog: { deletedAt: null } } }),
+    ]);
+
+    return NextResponse.json(
+      {
+        comments,
+        pagination: {
+          currentPage: page,
+          totalPages: Math.ceil(totalComments / limit),
+          totalComments,
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Error fetching comment queue:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import prisma from "@/lib/db";
+import { authorize, authorizeBlogEdit } from "@/lib/auth";
+import { NEW_DRAFT } from "@/lib/drafts";
+
+// Force Node.js runtime to avoid Vercel Edge issues
+export const runtime = "nodejs";
+
+// Validation schema for the autosaved form fields
+const draftBodySchema = z.object({
+  data: z.object({
+    title: z.string().max(300).default(""),
+    subTitle: z.string().max(1000).default(""),
+    slug: z.string().max(300).default(""),
+    content: z.string().max(500_000).default(""),
+    bannerUrl: z.string().max(2000).default(""),
+    video: z.string().max(2000).nullable().default(""),
+    tags: z.array(z.string()).max(50).default([]),
+    topics: z.array(z.string()).max(50).default([]),
+  }),
+});
+
+// Works out which draft ?blog= refers to: a new post needs createBlog, an
+// existing one editBlog
+const resolveDraft = async (request: NextRequest) => {
+  const { searchParams } = new URL(request.url);
+  const target = searchParams.get("blog");
+  if (!target) {
+    return {
+      response: NextResponse.json(
+        { error: "blog is required" },
+        { status: 400 }
+      ),
+    };
+  }
+
+  const { user, response } =
+    target === NEW_DRAFT
+      ? await authorize("createBlog")
+      : await authorizeBlogEdit(target);
+  if (response) return { response };
+
+  if (target === NEW_DRAFT) {
+    return { userId: user.id, blogId: null, key: NEW_DRAFT };
+  }
+
+  const blog = await prisma.blog.findFirst({
+    where: { slug: target, deletedAt: null },
+    select: { id: true },
+  });
+  if (!blog) {
+    return {
+      response: NextResponse.json(
+        { error: "Blog not found" },
+        { status: 404 }
+      ),
+    };
+  }
+  return { userId: user.id, blogId: blog.id, key: blog.id };
+};
+
+// The signed-in writer's unsaved changes to a post, or null
+export async function GET(request: NextRequest) {
+  try {
+    const { response, userId, key } = await resolveDraft(request);
+    if (response) return response;
+
+    const draft = await prisma.draft.findUnique({
+      where: { userId_key: { userId, key } },
+      select: { data: true, updatedAt: true },
+    });
+
+    return NextResponse.json({ draft }, { status: 200 });
+  } catch (error) {
+    console.error("Error fetching draft:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Autosave; replaces the writer's previous draft of the same post
+export async function PUT(request: NextRequest) {
+  try {
+    const { response, userId, blogId, key } = await resolveDraft(request);
+    if (response) return response;
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: "Request body must be valid JSON" },
+        { status: 400 }
+      );
+    }
+    const parsed = draftBodySchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const { data } = parsed.data;
+    const draft = await prisma.draft.upsert({
+      where: { userId_key: { userId, key } },
+      create: { userId, blogId, key, data },
+      update: { data },
+      select: { data: true, updatedAt: true },
+    });
+
+    return NextResponse.json({ draft }, { status: 200 });
+  } catch (error) {
+    console.error("Error saving draft:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Drops the draft once it is published or discarded
+export async function DELETE(request: NextRequest) {
+  try {
+    const { response, userId, key } = await resolveDraft(request);
+    if (response) return response;
+
+    const result = await prisma.draft.deleteMany({ where: { userId, key } });
+
+    return NextResponse.json({ removed: result.count }, { status: 200 });
+  } catch (error) {
+    console.error("Error deleting draft:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
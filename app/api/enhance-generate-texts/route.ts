@@ -1,6 +1,7 @@
-import { Tags, Topics } from "@/generated/prisma";
 import { NextRequest, NextResponse } from "next/server";
 import OpenAI from "openai";
+import { authorize } from "@/lib/auth";
+import prisma from "@/lib/db";
 
 // Initialize OpenAI client
 const openai = new OpenAI({
@@ -22,12 +23,15 @@ interface EnhancedMetadata {
 
 // Define response interface
 interface TagsTopics {
-  tags: Tags[];
-  topics: Topics[];
+  tags: string[];
+  topics: string[];
 }
 
 export async function POST(req: NextRequest) {
   try {
+    const { response } = await authorize("enhanceText");
+    if (response) return response;
+
     // Parse request body
     const body: BlogMetadata = await req.json();
 
@@ -88,8 +92,13 @@ Enhanced Output: {
       throw new Error("Invalid response from AI");
     }
 
-    const allowedTags = Object.values(Tags);
-    const allowedTopics = Object.values(Topics);
+    // Tags and topics are managed in the database, so offer their slugs
+    const [tagRows, topicRows] = await Promise.all([
+      prisma.tag.findMany({ select: { slug: true } }),
+      prisma.topic.findMany({ select: { slug: true } }),
+    ]);
+    const allowedTags = tagRows.map((tag) => tag.slug);
+    const allowedTopics = topicRows.map((topic) => topic.slug);
 
     // Craft prompt for GPT-4o
     const promptTagsTopics = `
@@ -113,8 +122,8 @@ You are a professional content analyst tasked with identifying relevant tags and
 Input Title: "Build Your Blog from Scratch"
 Input Subtitle: "A step-by-step guide to creating a blog that stands out."
 Output: {
-  "tags": ["WEB_DEVELOPMENT", "BLOG", "TUTORIALS"],
-  "topics": ["WEB_DEVELOPMENT", "BLOG", "HOW_TO_GUIDES"]
+  "tags": ["web-development", "blog", "tutorials"],
+  "topics": ["web-development", "blog", "how-to-guides"]
 }
 `;
 
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
-import { v2 as cloudinary } from "cloudinary";
+import { v2 as cloudinary, ResourceApiResponse } from "cloudinary";
+import { authorize } from "@/lib/auth";
 
 // Configuration
 cloudinary.config({
@@ -35,6 +36,7 @@ const ALLOWED_FILE_TYPES = [
 ];
 const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
 const MAX_FILES = 5;
+const LIBRARY_PAGE_SIZE = 30;
 
 // Utility function to validate file
 const validateFile = (file: File): { isValid: boolean; error?: string } => {
@@ -64,8 +66,45 @@ const sanitizeFolderName = (name: string): string => {
     .slice(0, 50);
 };
 
+// Uploaded images, newest first, for picking one to insert into a post.
+// `cursor` comes from the previous page's nextCursor
+export async function GET(request: NextRequest) {
+  try {
+    const { response } = await authorize("uploadImage");
+    if (response) return response;
+
+    const cursor = new URL(request.url).searchParams.get("cursor");
+    const result: ResourceApiResponse = await cloudinary.api.resources({
+      type: "upload",
+      resource_type: "image",
+      max_results: LIBRARY_PAGE_SIZE,
+      direction: "desc",
+      ...(cursor && { next_cursor: cursor }),
+    });
+
+    return NextResponse.json({
+      images: result.resources.map((resource) => ({
+        secure_url: resource.secure_url,
+        public_id: resource.public_id,
+        width: resource.width,
+        height: resource.height,
+      })),
+      nextCursor: result.next_cursor ?? null,
+    });
+  } catch (error) {
+    console.error("Error listing images from Cloudinary:", error);
+    return NextResponse.json(
+      { error: "Failed to list images" },
+      { status: 500 }
+    );
+  }
+}
+
 export async function POST(request: NextRequest) {
   try {
+    const { response } = await authorize("uploadImage");
+    if (response) return response;
+
     // Validate content-type
     if (!request.headers.get("content-type")?.includes("multipart/form-data")) {
       return NextResponse.json(
@@ -161,6 +200,9 @@ export async function POST(request: NextRequest) {
 
 export async function DELETE(request: NextRequest) {
   try {
+    const { response } = await authorize("deleteImage");
+    if (response) return response;
+
     const { searchParams } = new URL(request.url);
     const publicId = searchParams.get("public_id");
 
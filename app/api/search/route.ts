@@ -1,5 +1,25 @@
-import { Prisma, Tags, Topics } from "@/generated/prisma";
+import { Prisma } from "@/generated/prisma";
 import prisma from "@/lib/db";
+import { publishedBlogFilter } from "@/lib/publishing";
+import { parseSlugList } from "@/lib/taxonomy";
+import {
+  blogWithAuthorsInclude,
+  BlogWithAuthors,
+  toAuthorHandle,
+} from "@/lib/authors";
+import {
+  SEARCH_SORTS,
+  queryWords,
+  SearchHighlight,
+  SearchSort,
+} from "@/lib/search";
+import {
+  highlightsQuery,
+  matchCountQuery,
+  matchPageQuery,
+  ReadingTimeRange,
+  SearchFilters,
+} from "@/lib/searchQuery";
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 
@@ -12,31 +32,15 @@ const searchQuerySchema = z.object({
   tags: z
     .string()
     .optional()
-    .transform((val) =>
-      val
-        ? val
-            .toUpperCase()
-            .split(",")
-            .map((tag) => tag.trim())
-            .filter((tag): tag is Tags =>
-              Object.values(Tags).includes(tag as Tags)
-            )
-        : []
-    ),
+    .transform((val) => parseSlugList(val ?? "")),
   topics: z
     .string()
     .optional()
-    .transform((val) =>
-      val
-        ? val
-            .toUpperCase()
-            .split(",")
-            .map((topic) => topic.trim())
-            .filter((topic): topic is Topics =>
-              Object.values(Topics).includes(topic as Topics)
-            )
-        : []
-    ),
+    .transform((val) => parseSlugList(val ?? "")),
+  author: z
+    .string()
+    .optional()
+    .transform((val) => toAuthorHandle(val ?? "")),
   page: z
     .string()
     .default("1")
@@ -45,43 +49,115 @@ const searchQuerySchema = z.object({
     .string()
     .default("10")
     .transform((val) => Math.min(100, Math.max(1, parseInt(val, 10)))),
-  sort: z.enum(["createdAt", "title"]).default("createdAt").optional(),
+  sort: z.enum(SEARCH_SORTS).default("createdAt").optional(),
+  // Reading time bounds in minutes
+  minReadingTime: z.coerce.number().int().min(0).optional(),
+  maxReadingTime: z.coerce.number().int().min(0).optional(),
 });
 
 // Validation schema for POST body
 const searchBodySchema = z.object({
   query: z.string().optional(),
-  tags: z
-    .array(z.enum(Object.values(Tags) as [string, ...string[]]))
-    .optional(),
-  topics: z
-    .array(z.enum(Object.values(Topics) as [string, ...string[]]))
-    .optional(),
+  tags: z.array(z.string()).transform(parseSlugList).optional(),
+  topics: z.array(z.string()).transform(parseSlugList).optional(),
+  author: z.string().transform(toAuthorHandle).optional(),
   page: z.number().min(1).default(1).optional(),
   limit: z.number().min(1).max(100).default(10).optional(),
-  sort: z.enum(["createdAt", "title"]).default("createdAt").optional(),
+  sort: z.enum(SEARCH_SORTS).default("createdAt").optional(),
+  minReadingTime: z.number().int().min(0).optional(),
+  maxReadingTime: z.number().int().min(0).optional(),
 });
 
 // Cache configuration (in-memory cache for simplicity)
 const cache = new Map<string, { data: any; timestamp: number }>();
 const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
 
+// Orderings for the non-relevance sorts; relevance without a query falls
+// back to newest first
+const SORT_ORDER: Record<
+  Exclude<SearchSort, "relevance">,
+  Prisma.BlogOrderByWithRelationInput
+> = {
+  createdAt: { createdAt: "desc" },
+  updatedAt: { updatedAt: "desc" },
+  readingTime: { readingTime: "asc" },
+  // "Most read": every recorded view, not only the dashboard's range
+  views: { views: { _count: "desc" } },
+  title: { title: "asc" },
+};
+
+// One page of the matching posts, ranked best match first for relevance
+const matchBlogs = (
+  query: string,
+  filters: SearchFilters,
+  sort: SearchSort,
+  offset: number,
+  limit: number
+) =>
+  prisma.$queryRaw<{ id: string; rank: number }[]>(
+    matchPageQuery(query, filters, sort, offset, limit)
+  );
+
+const countMatches = (query: string, filters: SearchFilters) =>
+  prisma.$queryRaw<{ count: number }[]>(matchCountQuery(query, filters));
+
+// Highlighted title and content snippet for each of the given posts
+const findHighlights = async (ids: string[], query: string) => {
+  if (ids.length === 0) return new Map<string, SearchHighlight>();
+  const rows = await prisma.$queryRaw<({ id: string } & SearchHighlight)[]>(
+    highlightsQuery(ids, query)
+  );
+  return new Map(rows.map(({ id, ...highlight }) => [id, highlight]));
+};
+
+// Swaps each unknown word for the closest one used in published posts.
+// Scanning the whole vocabulary is slow, so this only runs on zero hits
+const suggestCorrection = async (query: string) => {
+  const words = queryWords(query);
+  if (words.length === 0) return null;
+
+  const rows = await prisma.$queryRaw<
+    { input: string; match: string | null }[]
+  >`
+    WITH lexicon AS (
+      SELECT "word" FROM ts_stat($$
+        SELECT to_tsvector(
+          'simple', "title" || ' ' || "subTitle" || ' ' || "content"
+        )
+        FROM "Blog"
+        WHERE "deletedAt" IS NULL AND "status" = 'PUBLISHED'
+      $$)
+    )
+    SELECT w.input, (
+      SELECT "word" FROM lexicon
+      WHERE similarity("word", w.input) > 0.3
+      ORDER BY similarity("word", w.input) DESC, length("word")
+      LIMIT 1
+    ) AS "match"
+    FROM unnest(${words}::text[]) WITH ORDINALITY AS w(input, position)
+    ORDER BY w.position
+  `;
+
+  const suggestion = rows.map((row) => row.match ?? row.input).join(" ");
+  return suggestion === words.join(" ") ? null : suggestion;
+};
+
 // Utility function to build search filter
-const buildSearchFilter = (
-  query: string | undefined,
-  tags: Tags[],
-  topics: Topics[]
-): Prisma.BlogWhereInput => {
+const buildSearchFilter = ({
+  tags,
+  topics,
+  author,
+  readingTime,
+}: SearchFilters): Prisma.BlogWhereInput => {
   const filter: Prisma.BlogWhereInput = {
-    OR: query
-      ? [
-          { title: { contains: query, mode: "insensitive" } },
-          { subTitle: { contains: query, mode: "insensitive" } },
-          { content: { contains: query, mode: "insensitive" } },
-        ]
-      : undefined,
-    tags: tags.length ? { hasSome: tags } : undefined,
-    topics: topics.length ? { hasSome: topics } : undefined,
+    AND: [publishedBlogFilter()],
+    tags: tags.length ? { some: { slug: { in: tags } } } : undefined,
+    topics: topics.length ? { some: { slug: { in: topics } } } : undefined,
+    authors: author ? { some: { author: { handle: author } } } : undefined,
+    readingTime:
+      readingTime.min !== undefined || readingTime.max !== undefined
+        ? { gte: readingTime.min, lte: readingTime.max }
+        : undefined,
   };
 
   // Remove undefined keys
@@ -94,6 +170,88 @@ const buildSearchFilter = (
   return filter;
 };
 
+// Runs a search shared by GET and POST
+const searchBlogs = async ({
+  query,
+  tags,
+  topics,
+  author,
+  page,
+  limit,
+  sort,
+  readingTime,
+}: {
+  query?: string;
+  tags: string[];
+  topics: string[];
+  author: string;
+  page: number;
+  limit: number;
+  sort?: SearchSort;
+  readingTime: ReadingTimeRange;
+}) => {
+  const text = query?.trim();
+  const filters = { tags, topics, author, readingTime };
+  const offset = (page - 1) * limit;
+
+  let blogs: BlogWithAuthors[];
+  let totalBlogs: number;
+
+  if (text) {
+    // Full-text matching only exists in SQL, so the page is picked there
+    const [matches, [{ count }]] = await prisma.$transaction([
+      matchBlogs(text, filters, sort ?? "createdAt", offset, limit),
+      countMatches(text, filters),
+    ]);
+    const pageIds = matches.map((match) => match.id);
+
+    const pageBlogs = await prisma.blog.findMany({
+      where: { id: { in: pageIds } },
+      include: blogWithAuthorsInclude,
+    });
+    blogs = pageIds.flatMap((id) =>
+      pageBlogs.filter((blog) => blog.id === id)
+    );
+    totalBlogs = count;
+  } else {
+    const searchFilter = buildSearchFilter(filters);
+    [blogs, totalBlogs] = await prisma.$transaction([
+      prisma.blog.findMany({
+        where: searchFilter,
+        skip: offset,
+        take: limit,
+        orderBy: SORT_ORDER[!sort || sort === "relevance" ? "createdAt" : sort],
+        include: blogWithAuthorsInclude,
+      }),
+      prisma.blog.count({ where: searchFilter }),
+    ]);
+  }
+
+  // Offer a corrected query when nothing matched
+  const suggestion =
+    text && totalBlogs === 0 ? await suggestCorrection(text) : null;
+
+  const highlights = text
+    ? await findHighlights(
+        blogs.map((blog) => blog.id),
+        text
+      )
+    : null;
+
+  return {
+    blogs: blogs.map((blog) => ({
+      ...blog,
+      highlight: highlights?.get(blog.id) ?? null,
+    })),
+    pagination: {
+      currentPage: page,
+      totalPages: Math.ceil(totalBlogs / limit),
+      totalBlogs,
+    },
+    suggestion,
+  };
+};
+
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
@@ -107,10 +265,20 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const { q: query, tags, topics, page, limit, sort } = parsed.data;
+    const {
+      q: query,
+      tags,
+      topics,
+      author,
+      page,
+      limit,
+      sort,
+      minReadingTime,
+      maxReadingTime,
+    } = parsed.data;
     const cacheKey = `search:${query}:${tags.join(",")}:${topics.join(
       ","
-    )}:${page}:${limit}:${sort}`;
+    )}:${author}:${page}:${limit}:${sort}:${minReadingTime}:${maxReadingTime}`;
 
     // Check cache
     const cached = cache.get(cacheKey);
@@ -118,28 +286,16 @@ export async function GET(request: NextRequest) {
       return NextResponse.json(cached.data, { status: 200 });
     }
 
-    const offset = (page - 1) * limit;
-    const searchFilter = buildSearchFilter(
+    const response = await searchBlogs({
       query,
-      tags as Tags[],
-      topics as Topics[]
-    );
-
-    const [blogs, totalBlogs] = await prisma.$transaction([
-      prisma.blog.findMany({
-        where: searchFilter,
-        skip: offset,
-        take: limit,
-        orderBy: sort === "title" ? { title: "asc" } : { createdAt: "desc" },
-      }),
-      prisma.blog.count({ where: searchFilter }),
-    ]);
-
-    const totalPages = Math.ceil(totalBlogs / limit);
-    const response = {
-      blogs,
-      pagination: { currentPage: page, totalPages, totalBlogs },
-    };
+      tags,
+      topics,
+      author,
+      page,
+      limit,
+      sort,
+      readingTime: { min: minReadingTime, max: maxReadingTime },
+    });
 
     // Store in cache
     cache.set(cacheKey, { data: response, timestamp: Date.now() });
@@ -169,13 +325,16 @@ export async function POST(request: NextRequest) {
       query,
       tags = [],
       topics = [],
+      author = "",
       page = 1,
       limit = 50,
       sort,
+      minReadingTime,
+      maxReadingTime,
     } = parsed.data;
     const cacheKey = `search:${query}:${tags.join(",")}:${topics.join(
       ","
-    )}:${page}:${limit}:${sort}`;
+    )}:${author}:${page}:${limit}:${sort}:${minReadingTime}:${maxReadingTime}`;
 
     // Check cache
     const cached = cache.get(cacheKey);
@@ -183,28 +342,16 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(cached.data, { status: 200 });
     }
 
-    const offset = (page - 1) * limit;
-    const searchFilter = buildSearchFilter(
+    const response = await searchBlogs({
       query,
-      tags as Tags[],
-      topics as Topics[]
-    );
-
-    const [blogs, totalBlogs] = await prisma.$transaction([
-      prisma.blog.findMany({
-        where: searchFilter,
-        skip: offset,
-        take: limit,
-        orderBy: sort === "title" ? { title: "asc" } : { createdAt: "desc" },
-      }),
-      prisma.blog.count({ where: searchFilter }),
-    ]);
-
-    const totalPages = Math.ceil(totalBlogs / limit);
-    const response = {
-      blogs,
-      pagination: { currentPage: page, totalPages, totalBlogs },
-    };
+      tags,
+      topics,
+      author,
+      page,
+      limit,
+      sort,
+      readingTime: { min: minReadingTime, max: maxReadingTime },
+    });
 
     // Store in cache
     cache.set(cacheKey, { data: response, timestamp: Date.now() });
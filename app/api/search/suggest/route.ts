@@ -0,0 +1,100 @@
+import { Prisma } from "@/generated/prisma";
+import prisma from "@/lib/db";
+import { publishedBlogFilter } from "@/lib/publishing";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+// Force Node.js runtime to avoid Vercel Edge issues
+export const runtime = "nodejs";
+
+const SUGGESTION_LIMIT = 5;
+
+// Validation schema for query parameters
+const suggestQuerySchema = z.object({
+  q: z.string().trim().min(1, "Query is required").max(100),
+});
+
+// Escapes LIKE wildcards so they match literally
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, "\\$&");
+
+// Rows whose column starts with the query, has a word starting with it, or
+// is a close trigram match; prefix hits are listed first
+const prefixOrFuzzy = (column: Prisma.Sql, query: string) => {
+  const prefix = `${escapeLike(query)}%`;
+  const wordPrefix = `% ${escapeLike(query)}%`;
+  return {
+    where: Prisma.sql`(
+      ${column} ILIKE ${prefix}
+      OR ${column} ILIKE ${wordPrefix}
+      OR ${query} <% ${column}
+    )`,
+    orderBy: Prisma.sql`
+      (${column} ILIKE ${prefix}) DESC,
+      word_similarity(${query}, ${column}) DESC
+    `,
+  };
+};
+
+// Titles of published posts completing the query
+const suggestTitles = async (query: string) => {
+  const { where, orderBy } = prefixOrFuzzy(Prisma.sql`"title"`, query);
+  const candidates = await prisma.$queryRaw<{ id: string }[]>`
+    SELECT "id" FROM "Blog"
+    WHERE "deletedAt" IS NULL AND ${where}
+    ORDER BY ${orderBy}
+    LIMIT ${SUGGESTION_LIMIT * 4}
+  `;
+
+  // Visibility rules live in publishedBlogFilter, so apply them here
+  const ids = candidates.map((candidate) => candidate.id);
+  const blogs = await prisma.blog.findMany({
+    where: { id: { in: ids }, ...publishedBlogFilter() },
+    select: { id: true, slug: true, title: true },
+  });
+  return ids
+    .flatMap((id) => blogs.filter((blog) => blog.id === id))
+    .slice(0, SUGGESTION_LIMIT)
+    .map(({ slug, title }) => ({ slug, title }));
+};
+
+// Tag or topic names matching the query
+const suggestTaxonomy = (table: "Tag" | "Topic", query: string) => {
+  const { where, orderBy } = prefixOrFuzzy(Prisma.sql`"name"`, query);
+  return prisma.$queryRaw<{ slug: string; name: string }[]>`
+    SELECT "slug", "name" FROM ${Prisma.raw(`"${table}"`)}
+    WHERE ${where}
+    ORDER BY ${orderBy}
+    LIMIT ${SUGGESTION_LIMIT}
+  `;
+};
+
+// Autocomplete for the search box: title completions plus tags and topics
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const parsed = suggestQuerySchema.safeParse(
+      Object.fromEntries(searchParams)
+    );
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const { q: query } = parsed.data;
+    const [titles, tags, topics] = await Promise.all([
+      suggestTitles(query),
+      suggestTaxonomy("Tag", query),
+      suggestTaxonomy("Topic", query),
+    ]);
+
+    return NextResponse.json({ titles, tags, topics }, { status: 200 });
+  } catch (error) {
+    console.error("Error fetching search suggestions:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,200 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import prisma from "@/lib/db";
+import { authorize } from "@/lib/auth";
+import { findSeriesBySlug, revalidateBlogs } from "@/lib/blogs";
+import { seriesSelect, toSeriesSlug } from "@/lib/series";
+
+// Force Node.js runtime to avoid Vercel Edge issues
+export const runtime = "nodejs";
+
+// Validation schema for create body; the slug defaults to one built from the title
+const postBodySchema = z.object({
+  title: z.string().trim().min(1, "Title is required").max(120),
+  slug: z.string().optional(),
+  description: z.string().trim().max(500).optional(),
+});
+
+// Validation schema for update body
+const patchBodySchema = z.object({
+  title: z.string().trim().min(1).max(120).optional(),
+  slug: z.string().optional(),
+  description: z.string().trim().max(500).nullable().optional(),
+});
+
+// List every series, or fetch one with its published parts with ?slug=
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const slug = searchParams.get("slug");
+
+    if (slug) {
+      const series = await findSeriesBySlug(toSeriesSlug(slug));
+      if (!series) {
+        return NextResponse.json(
+          { error: "Series not found" },
+          { status: 404 }
+        );
+      }
+      return NextResponse.json(series, { status: 200 });
+    }
+
+    const series = await prisma.series.findMany({
+      orderBy: { title: "asc" },
+      select: { ...seriesSelect, _count: { select: { posts: true } } },
+    });
+
+    return NextResponse.json({ series }, { status: 200 });
+  } catch (error) {
+    console.error("Error fetching series:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { response } = await authorize("createSeries");
+    if (response) return response;
+
+    const body = await request.json();
+    const parsed = postBodySchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const { slug: requestedSlug, ...fields } = parsed.data;
+    const slug = toSeriesSlug(requestedSlug || fields.title);
+    if (!slug) {
+      return NextResponse.json(
+        { error: "Slug must contain letters or numbers" },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.series.findUnique({ where: { slug } });
+    if (existing) {
+      return NextResponse.json(
+        { error: `"${slug}" already exists` },
+        { status: 409 }
+      );
+    }
+
+    const result = await prisma.series.create({
+      data: { ...fields, slug },
+      select: seriesSelect,
+    });
+
+    revalidateBlogs();
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    console.error("Error creating series:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const { response } = await authorize("manageSeries");
+    if (response) return response;
+
+    const { searchParams } = new URL(request.url);
+    const slug = searchParams.get("slug");
+    if (!slug) {
+      return NextResponse.json({ error: "Slug is required" }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const parsed = patchBodySchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.series.findUnique({ where: { slug } });
+    if (!existing) {
+      return NextResponse.json({ error: "Series not found" }, { status: 404 });
+    }
+
+    const { slug: requestedSlug, ...fields } = parsed.data;
+    const nextSlug = requestedSlug ? toSeriesSlug(requestedSlug) : slug;
+    if (!nextSlug) {
+      return NextResponse.json(
+        { error: "Slug must contain letters or numbers" },
+        { status: 400 }
+      );
+    }
+    if (
+      nextSlug !== slug &&
+      (await prisma.series.findUnique({ where: { slug: nextSlug } }))
+    ) {
+      return NextResponse.json(
+        { error: `"${nextSlug}" already exists` },
+        { status: 409 }
+      );
+    }
+
+    const result = await prisma.series.update({
+      where: { slug },
+      data: { ...fields, slug: nextSlug },
+      select: seriesSelect,
+    });
+
+    revalidateBlogs();
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    console.error("Error updating series:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Deleting a series leaves its posts in place as standalone posts
+export async function DELETE(request: NextRequest) {
+  try {
+    const { response } = await authorize("manageSeries");
+    if (response) return response;
+
+    const { searchParams } = new URL(request.url);
+    const slug = searchParams.get("slug");
+    if (!slug) {
+      return NextResponse.json({ error: "Slug is required" }, { status: 400 });
+    }
+
+    const existing = await prisma.series.findUnique({ where: { slug } });
+    if (!existing) {
+      return NextResponse.json({ error: "Series not found" }, { status: 404 });
+    }
+
+    // onDelete: SetNull clears seriesId. Positions are cleared in raw SQL so
+    // the posts keep their last-updated date
+    const result = await prisma.$transaction(async (tx) => {
+      await tx.$executeRaw`
+        UPDATE "Blog" SET "seriesPosition" = NULL
+        WHERE "seriesId" = ${existing.id}
+      `;
+      return tx.series.delete({ where: { slug }, select: seriesSelect });
+    });
+
+    revalidateBlogs();
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    console.error("Error deleting series:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/db";
+import { publishedBlogFilter } from "@/lib/publishing";
 import { z } from "zod";
-import { Tags } from "@/generated/prisma";
+import { parseSlugList, taxonomySelect } from "@/lib/taxonomy";
 
 // Force Node.js runtime to avoid Vercel Edge issues
 export const runtime = "nodejs";
@@ -11,17 +12,7 @@ const getQuerySchema = z.object({
   q: z
     .string()
     .optional()
-    .transform((val) =>
-      val
-        ? val
-            .toUpperCase()
-            .split(",")
-            .map((tag) => tag.trim())
-            .filter((tag): tag is Tags =>
-              Object.values(Tags).includes(tag as Tags)
-            )
-        : []
-    ),
+    .transform((val) => parseSlugList(val ?? "")),
   limit: z
     .string()
     .default("10")
@@ -39,8 +30,9 @@ const getQuerySchema = z.object({
 // Validation schema for POST body
 const postBodySchema = z.object({
   tags: z
-    .array(z.enum(Object.values(Tags) as [string, ...string[]]))
-    .min(1, "At least one valid tag is required"),
+    .array(z.string())
+    .min(1, "At least one valid tag is required")
+    .transform(parseSlugList),
   limit: z.number().min(1).max(100).default(10).optional(),
   page: z.number().min(1).default(1).optional(),
 });
@@ -50,11 +42,18 @@ const cache = new Map<string, { data: any; timestamp: number }>();
 const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
 
 // Utility function to fetch blogs by tags
-const fetchBlogsByTags = async (tags: Tags[], limit: number, page: number) => {
+const fetchBlogsByTags = async (
+  tags: string[],
+  limit: number,
+  page: number
+) => {
   const skip = (page - 1) * limit;
   const [blogs, totalBlogs] = await prisma.$transaction([
     prisma.blog.findMany({
-      where: { tags: { hasSome: tags } },
+      where: {
+        tags: { some: { slug: { in: tags } } },
+        ...publishedBlogFilter(),
+      },
       take: limit,
       skip,
       orderBy: { createdAt: "desc" },
@@ -65,10 +64,15 @@ const fetchBlogsByTags = async (tags: Tags[], limit: number, page: number) => {
         slug: true,
         bannerUrl: true,
         createdAt: true,
-        tags: true,
+        tags: { select: taxonomySelect },
+      },
+    }),
+    prisma.blog.count({
+      where: {
+        tags: { some: { slug: { in: tags } } },
+        ...publishedBlogFilter(),
       },
     }),
-    prisma.blog.count({ where: { tags: { hasSome: tags } } }),
   ]);
 
   return { blogs, totalBlogs, totalPages: Math.ceil(totalBlogs / limit) };
@@ -89,7 +93,9 @@ export async function GET(request: NextRequest) {
 
     // Handle request to list all available tags
     if (listTags) {
-      const availableTags = Object.values(Tags);
+      const availableTags = await prisma.tag.findMany({
+        orderBy: { name: "asc" },
+      });
       return NextResponse.json({ tags: availableTags }, { status: 200 });
     }
 
@@ -108,7 +114,7 @@ export async function GET(request: NextRequest) {
     }
 
     const { blogs, totalBlogs, totalPages } = await fetchBlogsByTags(
-      tags as Tags[],
+      tags,
       limit,
       page
     );
@@ -149,7 +155,7 @@ export async function POST(request: NextRequest) {
     }
 
     const { blogs, totalBlogs, totalPages } = await fetchBlogsByTags(
-      tags as Tags[],
+      tags,
       limit as number,
       page as number
     );
@@ -0,0 +1,221 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import prisma from "@/lib/db";
+import { authorize } from "@/lib/auth";
+import { revalidateBlogs } from "@/lib/blogs";
+import {
+  HEX_COLOR,
+  isTaxonomyKind,
+  TaxonomyKind,
+  toTaxonomySlug,
+} from "@/lib/taxonomy";
+
+// Force Node.js runtime to avoid Vercel Edge issues
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ kind: string }> };
+
+// Validation schema for create body; the slug defaults to one built from the name
+const postBodySchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(60),
+  slug: z.string().optional(),
+  description: z.string().trim().max(300).optional(),
+  color: z.string().regex(HEX_COLOR, "Color must be a hex value").optional(),
+});
+
+// Validation schema for update body
+const patchBodySchema = z.object({
+  name: z.string().trim().min(1).max(60).optional(),
+  slug: z.string().optional(),
+  description: z.string().trim().max(300).nullable().optional(),
+  color: z
+    .string()
+    .regex(HEX_COLOR, "Color must be a hex value")
+    .nullable()
+    .optional(),
+});
+
+// Tag and Topic have identical columns, so one delegate type serves both
+const delegateFor = (kind: TaxonomyKind) =>
+  (kind === "tags" ? prisma.tag : prisma.topic) as typeof prisma.tag;
+
+const resolveKind = async ({ params }: RouteContext) => {
+  const { kind } = await params;
+  return isTaxonomyKind(kind) ? kind : null;
+};
+
+// List every tag or topic with the number of posts using it
+export async function GET(_request: NextRequest, context: RouteContext) {
+  try {
+    const kind = await resolveKind(context);
+    if (!kind) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    const items = await delegateFor(kind).findMany({
+      orderBy: { name: "asc" },
+      include: { _count: { select: { blogs: true } } },
+    });
+
+    return NextResponse.json({ [kind]: items }, { status: 200 });
+  } catch (error) {
+    console.error("Error fetching taxonomy:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { response } = await authorize("manageTaxonomy");
+    if (response) return response;
+
+    const kind = await resolveKind(context);
+    if (!kind) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const parsed = postBodySchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const { name, description, color } = parsed.data;
+    const slug = toTaxonomySlug(parsed.data.slug || name);
+    if (!slug) {
+      return NextResponse.json(
+        { error: "Slug must contain letters or numbers" },
+        { status: 400 }
+      );
+    }
+
+    const delegate = delegateFor(kind);
+    const existing = await delegate.findUnique({ where: { slug } });
+    if (existing) {
+      return NextResponse.json(
+        { error: `"${slug}" already exists` },
+        { status: 409 }
+      );
+    }
+
+    const result = await delegate.create({
+      data: { slug, name, description, color },
+    });
+
+    revalidateBlogs();
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    console.error("Error creating taxonomy:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const { response } = await authorize("manageTaxonomy");
+    if (response) return response;
+
+    const kind = await resolveKind(context);
+    if (!kind) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const slug = searchParams.get("slug");
+    if (!slug) {
+      return NextResponse.json({ error: "Slug is required" }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const parsed = patchBodySchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const delegate = delegateFor(kind);
+    const existing = await delegate.findUnique({ where: { slug } });
+    if (!existing) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    const { slug: requestedSlug, ...fields } = parsed.data;
+    const nextSlug = requestedSlug ? toTaxonomySlug(requestedSlug) : slug;
+    if (!nextSlug) {
+      return NextResponse.json(
+        { error: "Slug must contain letters or numbers" },
+        { status: 400 }
+      );
+    }
+    if (
+      nextSlug !== slug &&
+      (await delegate.findUnique({ where: { slug: nextSlug } }))
+    ) {
+      return NextResponse.json(
+        { error: `"${nextSlug}" already exists` },
+        { status: 409 }
+      );
+    }
+
+    const result = await delegate.update({
+      where: { slug },
+      data: { ...fields, slug: nextSlug },
+    });
+
+    revalidateBlogs();
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    console.error("Error updating taxonomy:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Deleting only removes the tag or topic from posts; the posts stay
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const { response } = await authorize("manageTaxonomy");
+    if (response) return response;
+
+    const kind = await resolveKind(context);
+    if (!kind) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const slug = searchParams.get("slug");
+    if (!slug) {
+      return NextResponse.json({ error: "Slug is required" }, { status: 400 });
+    }
+
+    const delegate = delegateFor(kind);
+    const existing = await delegate.findUnique({ where: { slug } });
+    if (!existing) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    const result = await delegate.delete({ where: { slug } });
+
+    revalidateBlogs();
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    console.error("Error deleting taxonomy:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
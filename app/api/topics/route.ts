@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/db";
+import { publishedBlogFilter } from "@/lib/publishing";
 import { z } from "zod";
-import { Topics } from "@/generated/prisma";
+import { parseSlugList, taxonomySelect } from "@/lib/taxonomy";
 
 // Force Node.js runtime to avoid Vercel Edge issues
 export const runtime = "nodejs";
@@ -11,17 +12,7 @@ const getQuerySchema = z.object({
   q: z
     .string()
     .optional()
-    .transform((val) =>
-      val
-        ? val
-            .toUpperCase()
-            .split(",")
-            .map((topic) => topic.trim())
-            .filter((topic): topic is Topics =>
-              Object.values(Topics).includes(topic as Topics)
-            )
-        : []
-    ),
+    .transform((val) => parseSlugList(val ?? "")),
   limit: z
     .string()
     .default("10")
@@ -40,8 +31,9 @@ const getQuerySchema = z.object({
 // Validation schema for POST body
 const postBodySchema = z.object({
   topics: z
-    .array(z.enum(Object.values(Topics) as [string, ...string[]]))
-    .min(1, "At least one valid topic is required"),
+    .array(z.string())
+    .min(1, "At least one valid topic is required")
+    .transform(parseSlugList),
   limit: z.number().min(1).max(100).default(10).optional(),
   page: z.number().min(1).default(1).optional(),
   sort: z.enum(["createdAt", "title"]).default("createdAt").optional(),
@@ -53,7 +45,7 @@ const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
 
 // Utility function to fetch blogs by topics
 const fetchBlogsByTopics = async (
-  topics: Topics[],
+  topics: string[],
   limit: number,
   page: number,
   sort: "createdAt" | "title"
@@ -61,7 +53,10 @@ const fetchBlogsByTopics = async (
   const skip = (page - 1) * limit;
   const [blogs, totalBlogs] = await prisma.$transaction([
     prisma.blog.findMany({
-      where: { topics: { hasSome: topics } },
+      where: {
+        topics: { some: { slug: { in: topics } } },
+        ...publishedBlogFilter(),
+      },
       take: limit,
       skip,
       orderBy: sort === "title" ? { title: "asc" } : { createdAt: "desc" },
@@ -72,10 +67,15 @@ const fetchBlogsByTopics = async (
         slug: true,
         bannerUrl: true,
         createdAt: true,
-        topics: true,
+        topics: { select: taxonomySelect },
+      },
+    }),
+    prisma.blog.count({
+      where: {
+        topics: { some: { slug: { in: topics } } },
+        ...publishedBlogFilter(),
       },
     }),
-    prisma.blog.count({ where: { topics: { hasSome: topics } } }),
   ]);
 
   return { blogs, totalBlogs, totalPages: Math.ceil(totalBlogs / limit) };
@@ -96,7 +96,9 @@ export async function GET(request: NextRequest) {
 
     // Handle request to list all available topics
     if (listTopics) {
-      const availableTopics = Object.values(Topics);
+      const availableTopics = await prisma.topic.findMany({
+        orderBy: { name: "asc" },
+      });
       return NextResponse.json({ topics: availableTopics }, { status: 200 });
     }
 
@@ -157,7 +159,7 @@ export async function POST(request: NextRequest) {
     }
 
     const { blogs, totalBlogs, totalPages } = await fetchBlogsByTopics(
-      topics as Topics[],
+      topics,
       limit as number,
       page as number,
       sort ?? "createdAt"
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { Role } from "@/generated/prisma";
+import prisma from "@/lib/db";
+import { authorize } from "@/lib/auth";
+
+// Force Node.js runtime to avoid Vercel Edge issues
+export const runtime = "nodejs";
+
+// Validation schema for role update body
+const patchBodySchema = z.object({
+  role: z.nativeEnum(Role),
+});
+
+const userSelect = {
+  id: true,
+  email: true,
+  name: true,
+  role: true,
+  createdAt: true,
+} as const;
+
+export async function GET() {
+  try {
+    const { response } = await authorize("manageUsers");
+    if (response) return response;
+
+    const users = await prisma.user.findMany({
+      select: userSelect,
+      orderBy: { createdAt: "asc" },
+    });
+
+    return NextResponse.json({ users }, { status: 200 });
+  } catch (error) {
+    console.error("Error fetching users:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const { user: currentUser, response } = await authorize("manageUsers");
+    if (response) return response;
+
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get("id");
+    if (!id) {
+      return NextResponse.json(
+        { error: "User id is required" },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const parsed = patchBodySchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.format() },
+        { status: 400 }
+      );
+    }
+
+    // Prevent admins from locking themselves out
+    if (id === currentUser.id && parsed.data.role !== Role.ADMIN) {
+      return NextResponse.json(
+        { error: "You cannot change your own role" },
+        { status: 400 }
+      );
+    }
+
+    const existingUser = await prisma.user.findUnique({ where: { id } });
+    if (!existingUser) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const result = await prisma.user.update({
+      where: { id },
+      data: { role: parsed.data.role },
+      select: userSelect,
+    });
+
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    console.error("Error updating user role:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
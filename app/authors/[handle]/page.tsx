@@ -0,0 +1,9 @@
+import AuthorProfile from "@/components/pages/AuthorProfile";
+
+const Page = async ({ params }: { params: Promise<{ handle: string }> }) => {
+  const { handle } = await params;
+
+  return <AuthorProfile handle={handle} />;
+};
+
+export default Page;
@@ -1,39 +1,57 @@
-"use client";
-
-import dynamic from "next/dynamic";
-import { useParams } from "next/navigation";
-import type { FC } from "react";
-import Loading from "@/app/loading";
-
-// Dynamically import BlogDetails for better performance (code splitting)
-const BlogDetails = dynamic(() => import("@/components/pages/BlogDetails"), {
-  loading: () => <Loading />,
-  ssr: false, // Client-side only, since you use `useParams`
-});
-
-
-// Define the expected params type for better type safety
-interface Params {
-  slug?: string | string[];
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import BlogDetails from "@/components/pages/BlogDetails";
+import prisma from "@/lib/db";
+import {
+  getCachedPublishedBlog,
+  getCachedPublishedSlugs,
+} from "@/lib/blogs";
+import { blogJsonLd, blogMetadata } from "@/lib/seo";
+
+type PageProps = { params: Promise<{ slug: string }> };
+
+// Regenerated on demand by the blogs API; this is only a fallback
+export const revalidate = 300;
+
+// Every published post is prerendered; newer slugs render on first request
+export async function generateStaticParams() {
+  const slugs = await getCachedPublishedSlugs();
+  return slugs.map((slug) => ({ slug }));
 }
 
-const Page: FC = () => {
-  // useParams returns Record<string, string | string[]>
-  const params = useParams() as Params;
-
-  // Handle missing or malformed slug
-  const slug =
-    typeof params.slug === "string"
-      ? params.slug
-      : Array.isArray(params.slug)
-      ? params.slug[0]
-      : undefined;
+export async function generateMetadata({
+  params,
+}: PageProps): Promise<Metadata> {
+  const { slug } = await params;
+  const blog = await getCachedPublishedBlog(slug);
+  if (!blog) return { robots: { index: false } };
+  return blogMetadata(blog);
+}
 
-  if (!slug) {
-    return <Loading />;
+// Only published posts are rendered on the server. Drafts are left to the
+// client fetch, which carries the signed-in writer's session
+const Page = async ({ params }: PageProps) => {
+  const { slug } = await params;
+  const blog = await getCachedPublishedBlog(slug);
+
+  if (!blog) {
+    const exists = await prisma.blog.count({
+      where: { slug, deletedAt: null },
+    });
+    if (!exists) notFound();
   }
 
-  return <BlogDetails slug={slug} />;
+  return (
+    <>
+      {blog && (
+        <script
+          type="application/ld+json"
+          dangerouslySetInnerHTML={{ __html: blogJsonLd(blog) }}
+        />
+      )}
+      <BlogDetails slug={slug} initialBlog={blog} />
+    </>
+  );
 };
 
 export default Page;
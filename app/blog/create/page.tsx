@@ -1,7 +1,10 @@
 import BlogCreate from "@/components/Blogs/Create/BlogCreate";
+import { requirePermission } from "@/lib/auth";
 import React from "react";
 
-const Page = () => {
+const Page = async () => {
+  await requirePermission("createBlog", "/blog/create");
+
   return <BlogCreate />;
 };
 
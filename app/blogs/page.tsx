@@ -1,7 +1,12 @@
 import Blogs from "@/components/pages/Blogs";
+import { getCachedBlogList } from "@/lib/blogs";
 
-const page = () => {
-  return <Blogs />;
+// Regenerated on demand by the blogs API; this is only a fallback
+export const revalidate = 300;
+
+const page = async () => {
+  const initialBlogs = await getCachedBlogList(1, 10);
+  return <Blogs initialBlogs={initialBlogs} />;
 };
 
 export default page;
@@ -0,0 +1,7 @@
+import Bookmarks from "@/components/pages/Bookmarks";
+
+const Page = () => {
+  return <Bookmarks />;
+};
+
+export default Page;
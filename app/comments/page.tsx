@@ -0,0 +1,10 @@
+import Comments from "@/components/pages/Comments";
+import { requirePermission } from "@/lib/auth";
+
+const Page = async () => {
+  await requirePermission("moderateComments", "/comments");
+
+  return <Comments />;
+};
+
+export default Page;
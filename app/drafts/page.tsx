@@ -0,0 +1,11 @@
+import Drafts from "@/components/pages/Drafts";
+import { requirePermission } from "@/lib/auth";
+import { can } from "@/lib/roles";
+
+const Page = async () => {
+  const user = await requirePermission("viewDrafts", "/drafts");
+
+  return <Drafts canEditAll={can(user, "editBlog")} />;
+};
+
+export default Page;
@@ -0,0 +1,8 @@
+import { feedResponse } from "@/lib/feeds";
+
+// Force Node.js runtime to avoid Vercel Edge issues
+export const runtime = "nodejs";
+
+export async function GET(request: Request) {
+  return feedResponse(request, "rss");
+}
@@ -0,0 +1,13 @@
+import Login from "@/components/pages/Login";
+import { Suspense } from "react";
+import Loading from "../loading";
+
+const Page = () => {
+  return (
+    <Suspense fallback={<Loading />}>
+      <Login />
+    </Suspense>
+  );
+};
+
+export default Page;
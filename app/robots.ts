@@ -0,0 +1,25 @@
+import type { MetadataRoute } from "next";
+import { SITEMAP_INDEX_PATH } from "@/lib/sitemap";
+import { siteUrl } from "@/lib/site";
+
+// Writer and moderator tools stay out of search results
+const PRIVATE_PATHS = [
+  "/api/",
+  "/blog/create",
+  "/blog/edit/",
+  "/drafts",
+  "/trash",
+  "/comments",
+  "/taxonomies",
+  "/analytics",
+  "/bookmarks",
+  "/login",
+];
+
+export default function robots(): MetadataRoute.Robots {
+  return {
+    rules: { userAgent: "*", allow: "/", disallow: PRIVATE_PATHS },
+    sitemap: `${siteUrl()}${SITEMAP_INDEX_PATH}`,
+    host: siteUrl(),
+  };
+}
@@ -0,0 +1,32 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import SeriesLanding from "@/components/pages/SeriesLanding";
+import { getCachedSeries } from "@/lib/blogs";
+
+type PageProps = { params: Promise<{ slug: string }> };
+
+// Regenerated on demand by the blogs and series APIs
+export const revalidate = 300;
+
+export async function generateMetadata({
+  params,
+}: PageProps): Promise<Metadata> {
+  const { slug } = await params;
+  const series = await getCachedSeries(slug);
+  if (!series) return { robots: { index: false } };
+  return {
+    title: series.title,
+    description: series.description ?? undefined,
+    alternates: { canonical: `/series/${series.slug}` },
+  };
+}
+
+const Page = async ({ params }: PageProps) => {
+  const { slug } = await params;
+  const series = await getCachedSeries(slug);
+  if (!series) notFound();
+
+  return <SeriesLanding slug={slug} initialSeries={series} />;
+};
+
+export default Page;
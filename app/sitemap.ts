@@ -0,0 +1,20 @@
+import type { MetadataRoute } from "next";
+import { countSitemaps, listSitemapEntries } from "@/lib/sitemap";
+
+// Rebuilt at most hourly; new posts are also reachable through the feeds
+export const revalidate = 3600;
+
+// Served as /sitemap/<id>.xml and listed by the index at /sitemap.xml
+export async function generateSitemaps() {
+  const total = await countSitemaps();
+  return Array.from({ length: total }, (_, id) => ({ id }));
+}
+
+export default async function sitemap({
+  id,
+}: {
+  id: number;
+}): Promise<MetadataRoute.Sitemap> {
+  // Next passes the id through from the URL as a string
+  return listSitemapEntries(Number(id));
+}
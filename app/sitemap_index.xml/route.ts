@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { countSitemaps, sitemapUrl } from "@/lib/sitemap";
+
+// Force Node.js runtime to avoid Vercel Edge issues
+export const runtime = "nodejs";
+
+export const revalidate = 3600;
+
+// Sitemap index pointing at every /sitemap/<id>.xml chunk
+export async function GET() {
+  try {
+    const total = await countSitemaps();
+    const entries = Array.from(
+      { length: total },
+      (_, id) => `<sitemap><loc>${sitemapUrl(id)}</loc></sitemap>`
+    );
+
+    const body = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+      ...entries,
+      "</sitemapindex>",
+    ].join("\n");
+
+    return new NextResponse(body, {
+      headers: { "Content-Type": "application/xml; charset=utf-8" },
+    });
+  } catch (error) {
+    console.error("Sitemap index error:", error);
+    return NextResponse.json(
+      { error: "Failed to build sitemap index" },
+      { status: 500 }
+    );
+  }
+}
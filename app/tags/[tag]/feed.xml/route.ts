@@ -0,0 +1,11 @@
+import { feedResponse } from "@/lib/feeds";
+
+// Force Node.js runtime to avoid Vercel Edge issues
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ tag: string }> };
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const { tag } = await params;
+  return feedResponse(request, "rss", { tag });
+}
@@ -1,7 +1,16 @@
 import TagsPage from "@/components/pages/Tags";
+import { getCachedBlogList, getCachedTaxonomyList } from "@/lib/blogs";
 
-const Page = () => {
-  return <TagsPage />;
+// Regenerated on demand by the blogs API; this is only a fallback
+export const revalidate = 300;
+
+const Page = async () => {
+  const [tags, blogs] = await Promise.all([
+    getCachedTaxonomyList("tags"),
+    getCachedBlogList(1, 12),
+  ]);
+
+  return <TagsPage initialTags={tags} initialBlogs={blogs} />;
 };
 
 export default Page;
@@ -0,0 +1,10 @@
+import Taxonomies from "@/components/pages/Taxonomies";
+import { requirePermission } from "@/lib/auth";
+
+const Page = async () => {
+  await requirePermission("manageTaxonomy", "/taxonomies");
+
+  return <Taxonomies />;
+};
+
+export default Page;
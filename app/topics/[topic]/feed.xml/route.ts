@@ -0,0 +1,11 @@
+import { feedResponse } from "@/lib/feeds";
+
+// Force Node.js runtime to avoid Vercel Edge issues
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ topic: string }> };
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const { topic } = await params;
+  return feedResponse(request, "rss", { topic });
+}
@@ -1,7 +1,16 @@
 import TopicsPage from "@/components/pages/Topics";
+import { getCachedBlogList, getCachedTaxonomyList } from "@/lib/blogs";
 
-const page = () => {
-  return <TopicsPage />;
+// Regenerated on demand by the blogs API; this is only a fallback
+export const revalidate = 300;
+
+const Page = async () => {
+  const [topics, blogs] = await Promise.all([
+    getCachedTaxonomyList("topics"),
+    getCachedBlogList(1, 12),
+  ]);
+
+  return <TopicsPage initialTopics={topics} initialBlogs={blogs} />;
 };
 
-export default page;
+export default Page;
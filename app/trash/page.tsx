@@ -0,0 +1,10 @@
+import Trash from "@/components/pages/Trash";
+import { requirePermission } from "@/lib/auth";
+
+const Page = async () => {
+  await requirePermission("deleteBlog", "/trash");
+
+  return <Trash />;
+};
+
+export default Page;
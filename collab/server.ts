@@ -0,0 +1,317 @@
+import { createServer, IncomingMessage } from "http";
+import { RawData, WebSocket, WebSocketServer } from "ws";
+import * as Y from "yjs";
+import * as syncProtocol from "y-protocols/sync";
+import * as awarenessProtocol from "y-protocols/awareness";
+import * as encoding from "lib0/encoding";
+import * as decoding from "lib0/decoding";
+import { COLLAB_CLOSE, COLLAB_TEXT } from "@/lib/collab";
+
+// Sync server for collaborative editing, started with `npm run collab`. It
+// keeps one shared document per post being edited and relays changes and
+// presence between editors. Editors are checked, and documents loaded and
+// saved, through the app's /api/blogs/[slug]/collab using their own session.
+// Saved documents are kept apart from the post until an editor saves it
+
+const PORT = Number(process.env.COLLAB_PORT) || 1234;
+const APP_URL = process.env.COLLAB_APP_URL || "http://localhost:3000";
+// The merged document is saved once editing pauses for this long
+const SAVE_DELAY = 5000;
+const PING_INTERVAL = 30000;
+
+// Message types of the y-websocket protocol
+const MESSAGE_SYNC = 0;
+const MESSAGE_AWARENESS = 1;
+const MESSAGE_QUERY_AWARENESS = 3;
+
+interface Connection {
+  // Session cookie the editor connected with
+  cookie: string;
+  // Awareness clients this connection speaks for
+  clientIds: Set<number>;
+  isAlive: boolean;
+}
+
+interface Room {
+  slug: string;
+  doc: Y.Doc;
+  awareness: awarenessProtocol.Awareness;
+  connections: Map<WebSocket, Connection>;
+  // Session of whoever changed the document last; saves are made as them
+  editorCookie: string | null;
+  savedContent: string;
+  saveTimer: ReturnType<typeof setTimeout> | null;
+}
+
+const rooms = new Map<string, Room>();
+
+const collabEndpoint = (slug: string) =>
+  `${APP_URL}/api/blogs/${encodeURIComponent(slug)}/collab`;
+
+const send = (ws: WebSocket, message: Uint8Array) => {
+  if (ws.readyState !== WebSocket.OPEN) return;
+  ws.send(message, (error) => error && ws.close());
+};
+
+const broadcast = (room: Room, message: Uint8Array) => {
+  room.connections.forEach((_, ws) => send(ws, message));
+};
+
+const encodeAwareness = (room: Room, clientIds: number[]) => {
+  const encoder = encoding.createEncoder();
+  encoding.writeVarUint(encoder, MESSAGE_AWARENESS);
+  encoding.writeVarUint8Array(
+    encoder,
+    awarenessProtocol.encodeAwarenessUpdate(room.awareness, clientIds)
+  );
+  return encoding.toUint8Array(encoder);
+};
+
+// Stores the merged document for the next session. A failed save is retried
+// on the next change
+const save = async (room: Room) => {
+  if (room.saveTimer) {
+    clearTimeout(room.saveTimer);
+    room.saveTimer = null;
+  }
+  const content = room.doc.getText(COLLAB_TEXT).toString();
+  if (!room.editorCookie || content === room.savedContent) return;
+
+  try {
+    const response = await fetch(collabEndpoint(room.slug), {
+      method: "PUT",
+      headers: {
+        "Content-Type": "application/json",
+        cookie: room.editorCookie,
+      },
+      body: JSON.stringify({ content }),
+    });
+    if (!response.ok) {
+      throw new Error(`${response.status} ${response.statusText}`);
+    }
+    room.savedContent = content;
+  } catch (error) {
+    console.error(`Error saving "${room.slug}":`, error);
+  }
+};
+
+// Only the server seeds a document from the post, so editors joining at the
+// same time can't insert the content twice
+const createRoom = (slug: string, content: string) => {
+  const doc = new Y.Doc();
+  doc.getText(COLLAB_TEXT).insert(0, content);
+  const awareness = new awarenessProtocol.Awareness(doc);
+  awareness.setLocalState(null);
+
+  const room: Room = {
+    slug,
+    doc,
+    awareness,
+    connections: new Map(),
+    editorCookie: null,
+    savedContent: content,
+    saveTimer: null,
+  };
+
+  doc.on("update", (update: Uint8Array, origin: unknown) => {
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_SYNC);
+    syncProtocol.writeUpdate(encoder, update);
+    broadcast(room, encoding.toUint8Array(encoder));
+
+    const editor = room.connections.get(origin as WebSocket);
+    if (!editor) return;
+    room.editorCookie = editor.cookie;
+    if (room.saveTimer) clearTimeout(room.saveTimer);
+    room.saveTimer = setTimeout(() => save(room), SAVE_DELAY);
+  });
+
+  awareness.on(
+    "update",
+    (
+      {
+        added,
+        updated,
+        removed,
+      }: { added: number[]; updated: number[]; removed: number[] },
+      origin: unknown
+    ) => {
+      const connection = room.connections.get(origin as WebSocket);
+      if (connection) {
+        added.forEach((clientId) => connection.clientIds.add(clientId));
+        removed.forEach((clientId) => connection.clientIds.delete(clientId));
+      }
+      const changed = [...added, ...updated, ...removed];
+      broadcast(room, encodeAwareness(room, changed));
+    }
+  );
+
+  rooms.set(slug, room);
+  return room;
+};
+
+const handleMessage = (room: Room, ws: WebSocket, data: Uint8Array) => {
+  try {
+    const decoder = decoding.createDecoder(data);
+    const encoder = encoding.createEncoder();
+    switch (decoding.readVarUint(decoder)) {
+      case MESSAGE_SYNC:
+        encoding.writeVarUint(encoder, MESSAGE_SYNC);
+        syncProtocol.readSyncMessage(decoder, encoder, room.doc, ws);
+        // Step 1 from the editor is answered with the changes they're missing
+        if (encoding.length(encoder) > 1) {
+          send(ws, encoding.toUint8Array(encoder));
+        }
+        break;
+      case MESSAGE_AWARENESS:
+        awarenessProtocol.applyAwarenessUpdate(
+          room.awareness,
+          decoding.readVarUint8Array(decoder),
+          ws
+        );
+        break;
+      case MESSAGE_QUERY_AWARENESS:
+        send(
+          ws,
+          encodeAwareness(room, [...room.awareness.getStates().keys()])
+        );
+        break;
+    }
+  } catch (error) {
+    console.error(`Error handling message for "${room.slug}":`, error);
+  }
+};
+
+// The last editor to leave saves the document and closes the room, so the
+// next one starts again from what was stored
+const leave = async (room: Room, ws: WebSocket) => {
+  const connection = room.connections.get(ws);
+  if (!connection) return;
+  room.connections.delete(ws);
+  awarenessProtocol.removeAwarenessStates(
+    room.awareness,
+    [...connection.clientIds],
+    null
+  );
+
+  if (room.connections.size > 0) return;
+  await save(room);
+  if (room.connections.size === 0 && rooms.get(room.slug) === room) {
+    rooms.delete(room.slug);
+    room.doc.destroy();
+  }
+};
+
+const closeCodeFor = (status: number) =>
+  status === 401
+    ? COLLAB_CLOSE.unauthorized
+    : status === 403
+    ? COLLAB_CLOSE.forbidden
+    : status === 404
+    ? COLLAB_CLOSE.notFound
+    : 1011;
+
+const connect = async (ws: WebSocket, request: IncomingMessage) => {
+  // Messages that arrive while the editor is being checked are replayed
+  const pending: Uint8Array[] = [];
+  let room: Room | null = null;
+  ws.on("message", (data: RawData) => {
+    const message = new Uint8Array(data as Buffer);
+    if (room) handleMessage(room, ws, message);
+    else pending.push(message);
+  });
+
+  // Session cookies would otherwise let any site open an editing session
+  if (request.headers.origin !== new URL(APP_URL).origin) {
+    ws.close(COLLAB_CLOSE.forbidden, "Origin not allowed");
+    return;
+  }
+
+  const { pathname } = new URL(request.url ?? "/", "http://localhost");
+  const slug = decodeURIComponent(pathname.slice(1));
+  const cookie = request.headers.cookie ?? "";
+
+  let content: string;
+  try {
+    const response = await fetch(collabEndpoint(slug), {
+      headers: { cookie },
+    });
+    if (!response.ok) {
+      ws.close(closeCodeFor(response.status), response.statusText);
+      return;
+    }
+    ({ content } = await response.json());
+  } catch (error) {
+    console.error(`Error loading "${slug}":`, error);
+    ws.close(1011, "Could not load the post");
+    return;
+  }
+  if (ws.readyState !== WebSocket.OPEN) return;
+
+  const joined = rooms.get(slug) ?? createRoom(slug, content);
+  const connection: Connection = {
+    cookie,
+    clientIds: new Set(),
+    isAlive: true,
+  };
+  joined.connections.set(ws, connection);
+  ws.on("pong", () => {
+    connection.isAlive = true;
+  });
+  ws.on("close", () => leave(joined, ws));
+
+  const encoder = encoding.createEncoder();
+  encoding.writeVarUint(encoder, MESSAGE_SYNC);
+  syncProtocol.writeSyncStep1(encoder, joined.doc);
+  send(ws, encoding.toUint8Array(encoder));
+  if (joined.awareness.getStates().size > 0) {
+    send(
+      ws,
+      encodeAwareness(joined, [...joined.awareness.getStates().keys()])
+    );
+  }
+
+  room = joined;
+  pending.forEach((message) => handleMessage(joined, ws, message));
+};
+
+const server = createServer((_request, response) => {
+  response.writeHead(200, { "Content-Type": "text/plain" });
+  response.end("ok");
+});
+const wss = new WebSocketServer({ noServer: true });
+
+server.on("upgrade", (request, socket, head) => {
+  wss.handleUpgrade(request, socket, head, (ws) => {
+    connect(ws, request).catch((error) => {
+      console.error("Error opening connection:", error);
+      ws.close(1011);
+    });
+  });
+});
+
+// Drops connections that stopped answering, e.g. after a lost network
+const pingTimer = setInterval(() => {
+  rooms.forEach((room) =>
+    room.connections.forEach((connection, ws) => {
+      if (!connection.isAlive) {
+        ws.terminate();
+        return;
+      }
+      connection.isAlive = false;
+      ws.ping();
+    })
+  );
+}, PING_INTERVAL);
+
+const shutdown = async () => {
+  clearInterval(pingTimer);
+  await Promise.all([...rooms.values()].map(save));
+  process.exit(0);
+};
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
+
+server.listen(PORT, () => {
+  console.log(`Collaboration server listening on ws://localhost:${PORT}`);
+});
@@ -0,0 +1,86 @@
+import { AuthorRef } from "@/lib/authors";
+import Image from "next/image";
+import Link from "next/link";
+import { FiGithub, FiGlobe, FiLinkedin, FiTwitter } from "react-icons/fi";
+
+// Initials stand in for authors without an avatar
+const initials = (name: string) =>
+  name
+    .split(/\s+/)
+    .map((part) => part[0])
+    .join("")
+    .slice(0, 2)
+    .toUpperCase();
+
+export const AuthorAvatar = ({
+  author,
+  size = 48,
+}: {
+  author: Pick<AuthorRef, "name" | "avatarUrl">;
+  size?: number;
+}) =>
+  author.avatarUrl ? (
+    <Image
+      src={author.avatarUrl}
+      width={size}
+      height={size}
+      alt={author.name}
+      className="rounded-full object-cover shrink-0"
+      style={{ width: size, height: size }}
+    />
+  ) : (
+    <div
+      className="rounded-full bg-[#7B00D3] text-white flex items-center justify-center font-semibold shrink-0"
+      style={{ width: size, height: size, fontSize: size / 2.5 }}
+    >
+      {initials(author.name)}
+    </div>
+  );
+
+export const AuthorLinks = ({ author }: { author: AuthorRef }) => {
+  const links = [
+    { href: author.website, label: "Website", Icon: FiGlobe },
+    { href: author.twitter, label: "Twitter", Icon: FiTwitter },
+    { href: author.github, label: "GitHub", Icon: FiGithub },
+    { href: author.linkedin, label: "LinkedIn", Icon: FiLinkedin },
+  ].filter((link) => link.href);
+
+  if (links.length === 0) return null;
+
+  return (
+    <div className="flex items-center gap-2">
+      {links.map(({ href, label, Icon }) => (
+        <a
+          key={label}
+          href={href!}
+          target="_blank"
+          rel="noopener noreferrer"
+          aria-label={`${author.name} on ${label}`}
+          className="text-gray hover:text-[#7B00D3]"
+        >
+          <Icon size={16} />
+        </a>
+      ))}
+    </div>
+  );
+};
+
+const AuthorCard = ({ author }: { author: AuthorRef }) => {
+  return (
+    <div className="flex items-start gap-3 border rounded-xl p-3">
+      <AuthorAvatar author={author} />
+      <div className="space-y-1">
+        <Link
+          href={`/authors/${author.handle}`}
+          className="font-semibold hover:text-[#7B00D3]"
+        >
+          {author.name}
+        </Link>
+        {author.bio && <p className="text-sm text-gray-600">{author.bio}</p>}
+        <AuthorLinks author={author} />
+      </div>
+    </div>
+  );
+};
+
+export default AuthorCard;
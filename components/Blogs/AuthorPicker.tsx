@@ -0,0 +1,134 @@
+"use client";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { AuthorRef } from "@/lib/authors";
+import { Check, ChevronDown } from "lucide-react";
+import { RxCross2 } from "react-icons/rx";
+import useSWR from "swr";
+
+interface AuthorPickerProps {
+  // Selected handles in byline order
+  value: string[];
+  onChange: (handles: string[]) => void;
+  // Shown while nothing is selected
+  emptyHint?: string;
+}
+
+const fetcher = (url: string) =>
+  fetch(url).then((res) => {
+    if (!res.ok) throw new Error("Failed to fetch authors");
+    return res.json();
+  });
+
+const AuthorPicker: React.FC<AuthorPickerProps> = ({
+  value,
+  onChange,
+  emptyHint,
+}) => {
+  const { data, error, isLoading } = useSWR<{ authors: AuthorRef[] }>(
+    "/api/authors",
+    fetcher
+  );
+  const authors = data?.authors ?? [];
+
+  const nameFor = (handle: string) =>
+    authors.find((author) => author.handle === handle)?.name ?? handle;
+
+  const handleToggle = (handle: string) =>
+    onChange(
+      value.includes(handle)
+        ? value.filter((h) => h !== handle)
+        : [...value, handle]
+    );
+
+  return (
+    <div>
+      <label htmlFor="authors" className="block text-sm font-medium">
+        Authors
+      </label>
+      <Popover>
+        <PopoverTrigger asChild>
+          <button
+            type="button"
+            id="authors"
+            className="w-full flex items-center justify-between border border-gray-300 rounded p-1.5 mt-1"
+          >
+            Select Authors...
+            <ChevronDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+          </button>
+        </PopoverTrigger>
+        <PopoverContent className="w-full p-0">
+          <Command className="w-full text-gray-600">
+            <CommandInput
+              placeholder="Search Authors..."
+              className="w-full"
+              aria-label="Search authors"
+            />
+            <CommandList>
+              {isLoading && <CommandEmpty>Loading authors...</CommandEmpty>}
+              {error && <CommandEmpty>{error.message}</CommandEmpty>}
+              <CommandGroup>
+                {authors.map((author) => (
+                  <CommandItem
+                    key={author.handle}
+                    value={author.name}
+                    onSelect={() => handleToggle(author.handle)}
+                  >
+                    {author.name}
+                    <Check
+                      className={`ml-auto ${
+                        value.includes(author.handle)
+                          ? "opacity-100"
+                          : "opacity-0"
+                      }`}
+                    />
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+
+      {value.length > 0 ? (
+        <div className="flex items-center gap-2 mt-2 flex-wrap w-full">
+          {value.map((handle, i) => (
+            <p
+              key={handle}
+              className="px-2 py-1 bg-[#7B00D3]/50 border border-[#7B00D3] text-[#7B00D3] text-sm rounded flex items-center gap-2"
+            >
+              {nameFor(handle)}
+              {i === 0 && <span className="text-xs">(primary)</span>}
+              <button
+                type="button"
+                onClick={() => handleToggle(handle)}
+                className="text-accent cursor-pointer hover:text-accent/60 focus:outline-none"
+                aria-label={`Remove author: ${nameFor(handle)}`}
+              >
+                <RxCross2
+                  size={18}
+                  className="text-[#7B00D3] cursor-pointer hover:text-[#7B00D3]/60"
+                />
+              </button>
+            </p>
+          ))}
+        </div>
+      ) : (
+        emptyHint && <p className="text-xs text-gray-500 mt-1">{emptyHint}</p>
+      )}
+    </div>
+  );
+};
+
+export default AuthorPicker;
@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState, useRef } from "react";
+import React, { useState, useRef, useLayoutEffect } from "react";
 import ReactMarkdown from "react-markdown";
 import { Prism as SyntaxHighlighter } from "react-syntax-highlighter";
 import { tomorrow } from "react-syntax-highlighter/dist/esm/styles/prism";
@@ -18,49 +18,63 @@ import {
   FaImage,
   FaMinus,
   FaCheckSquare,
+  FaUndo,
+  FaRedo,
 } from "react-icons/fa";
 import { IoCopy, IoCopyOutline } from "react-icons/io5";
 import rehypeSlug from "rehype-slug";
 import rehypeAutolinkHeadings from "rehype-autolink-headings";
-import { Tags, Topics } from "@/generated/prisma";
-import { MdFullscreen, MdFullscreenExit } from "react-icons/md";
+import {
+  MdFullscreen,
+  MdFullscreenExit,
+  MdPhotoLibrary,
+} from "react-icons/md";
+import { remarkBlocks } from "@/lib/markdownBlocks";
+import { useCollaboration } from "@/utils/collab";
+import { measureCaret } from "@/utils/caret";
+import { useEditorHistory } from "@/utils/editorHistory";
+import {
+  applyTextChange,
+  continueList,
+  indentLines,
+  INDENT,
+  insertText as insertAt,
+  isInCodeBlock,
+  isListLine,
+  TextChange,
+  toggleHeading,
+  toggleWrap,
+} from "@/utils/markdownEditing";
+import CollabPresence from "./CollabPresence";
+import CollabCursors from "./CollabCursors";
+import { markdownBlockComponents } from "./MarkdownBlocks";
+import ImageLibrary, { LibraryImage } from "./ImageLibrary";
+import SlashCommandPalette, {
+  SLASH_PALETTE_ID,
+  slashOptionId,
+} from "./SlashCommandPalette";
+import { filterSlashCommands, SlashCommand } from "./slashCommands";
 
 const ToolbarButton = ({
   icon,
+  label,
   onClick,
 }: {
   icon: React.ReactNode;
+  label: string;
   onClick: () => void;
 }) => (
   <button
     type="button"
     onClick={onClick}
+    title={label}
+    aria-label={label}
     className="p-2 text-base hover:bg-gray-200 rounded"
   >
     {icon}
   </button>
 );
 
-const tools = [
-  { name: "Bold", icon: <FaBold />, action: "****" },
-  { name: "Italic", icon: <FaItalic />, action: "*" },
-  { name: "Strikethrough", icon: <FaStrikethrough />, action: "~~" },
-  { name: "Bullet List", icon: <FaListUl />, action: "- " },
-  { name: "Numbered List", icon: <FaListOl />, action: "1. " },
-  { name: "Quote", icon: <FaQuoteRight />, action: "> " },
-  { name: "Divider", icon: <FaMinus />, action: "\n---\n" },
-  { name: "Checkbox", icon: <FaCheckSquare />, action: "- [ ] " },
-  { name: "Link", icon: <FaLink />, action: "[text](https://)" },
-  { name: "Code Block", icon: <FaCode />, action: "\n``` js\ncode\n```\n" },
-  { name: "Image", icon: <FaImage />, action: "![Image](https://)" },
-  { name: "H1", icon: <FaHeading />, action: "# " },
-  { name: "H2", icon: <FaHeading />, action: "## " },
-  { name: "H3", icon: <FaHeading />, action: "### " },
-  { name: "H4", icon: <FaHeading />, action: "#### " },
-  { name: "H5", icon: <FaHeading />, action: "##### " },
-  { name: "H6", icon: <FaHeading />, action: "###### " },
-];
-
 interface BlogInputsProps {
   formData: {
     title: string;
@@ -69,8 +83,8 @@ interface BlogInputsProps {
     content: string;
     bannerUrl: string;
     video: string;
-    tags: Tags[];
-    topics: Topics[];
+    tags: string[];
+    topics: string[];
   };
   setFormData: React.Dispatch<
     React.SetStateAction<{
@@ -80,142 +94,254 @@ interface BlogInputsProps {
       content: string;
       bannerUrl: string;
       video: string;
-      tags: Tags[];
-      topics: Topics[];
+      tags: string[];
+      topics: string[];
     }>
   >;
+  // Slug of the saved post, to edit its content together with others
+  collabSlug?: string;
 }
 
-const BlogEditor: React.FC<BlogInputsProps> = ({ setFormData, formData }) => {
-  const [showToolPanel, setShowToolPanel] = useState(false);
-  const [selectedTool, setSelectedTool] = useState(0);
+const BlogEditor: React.FC<BlogInputsProps> = ({
+  setFormData,
+  formData,
+  collabSlug,
+}) => {
+  // The "/" that opened the command palette, and what was typed after it
+  const [slash, setSlash] = useState<{ start: number; query: string } | null>(
+    null
+  );
+  const [selectedCommand, setSelectedCommand] = useState(0);
+  const [palettePosition, setPalettePosition] = useState({ top: 0, left: 0 });
+  const [isImageLibraryOpen, setIsImageLibraryOpen] = useState(false);
   const [isFullScreen, setIsFullScreen] = useState(false);
   const [previewEditor, setPreviewEditor] = useState("Both");
   const editorRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  // Selection to restore once an edit made from code has rendered
+  const pendingSelectionRef = useRef<[number, number]>(null);
+  const setContent = (content: string) =>
+    setFormData((prevFormData) => ({ ...prevFormData, content }));
+  const {
+    status: collabStatus,
+    peers,
+    history: collabHistory,
+  } = useCollaboration(
+    collabSlug ?? null,
+    formData.content,
+    setContent,
+    textareaRef
+  );
+  const localHistory = useEditorHistory(
+    formData.content,
+    setContent,
+    textareaRef
+  );
+  // While editing together, undo only takes back this editor's changes
+  const history = collabHistory ?? localHistory;
+
+  useLayoutEffect(() => {
+    if (textareaRef.current && pendingSelectionRef.current) {
+      textareaRef.current.setSelectionRange(...pendingSelectionRef.current);
+      pendingSelectionRef.current = null;
+    }
+  }, [formData.content]);
+
+  const slashCommands = slash ? filterSlashCommands(slash.query) : [];
+
+  // The palette opens under the "/" and stays there while the query grows
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea || slash?.start === undefined) return;
+    const caret = measureCaret(textarea, slash.start);
+    setPalettePosition({
+      top: textarea.offsetTop + caret.top + caret.height,
+      // Keeps the palette, 16rem wide, inside the textarea
+      left:
+        textarea.offsetLeft +
+        Math.max(0, Math.min(caret.left, textarea.clientWidth - 256)),
+    });
+  }, [slash?.start]);
+
+  // Every edit made from code goes through here, so it can be undone
+  const replaceContent = (content: string, selection: [number, number]) => {
+    history.markEdit("command");
+    pendingSelectionRef.current = selection;
+    setContent(content);
+    textareaRef.current?.focus();
+  };
+
+  const editText = (
+    getChange: (value: string, start: number, end: number) => TextChange
+  ) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const { selectionStart, selectionEnd, value } = textarea;
+    const change = getChange(value, selectionStart, selectionEnd);
+    replaceContent(applyTextChange(value, change), [
+      change.selectionStart,
+      change.selectionEnd,
+    ]);
+  };
+
+  // Keeps the palette's query to the text between the "/" and the caret,
+  // closing it once the caret leaves that line or nothing can match
+  const updateSlash = (textarea: HTMLTextAreaElement, opened?: number) => {
+    const start = opened ?? slash?.start;
+    if (start === undefined) return;
+    const { value, selectionStart, selectionEnd } = textarea;
+    const query = value.slice(start + 1, selectionStart);
+    if (
+      value[start] !== "/" ||
+      selectionStart <= start ||
+      selectionEnd !== selectionStart ||
+      query.includes("\n") ||
+      (/\s$/.test(query) && filterSlashCommands(query).length === 0)
+    ) {
+      setSlash(null);
+    } else if (start !== slash?.start || query !== slash.query) {
+      setSlash({ start, query });
+      setSelectedCommand(0);
+    }
+  };
 
   const handleTextChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
-    const value = e.target.value;
-    // setMarkdown(value);
-    setFormData((prevFormData) => ({ ...prevFormData, content: value }));
+    const { value, selectionStart } = e.target;
+    history.markEdit("typing");
+    setContent(value);
 
-    if (value.endsWith("/")) {
-      setShowToolPanel(true);
+    // A "/" typed at the start of a line or after a space opens the palette
+    const typedSlash =
+      value[selectionStart - 1] === "/" &&
+      value.length === formData.content.length + 1 &&
+      (selectionStart === 1 || /\s/.test(value[selectionStart - 2]));
+    updateSlash(
+      e.target,
+      !slash && typedSlash ? selectionStart - 1 : undefined
+    );
+  };
+
+  // Replaces the "/" and the query with what the command inserts
+  const runCommand = (command: SlashCommand) => {
+    const textarea = textareaRef.current;
+    setSlash(null);
+    if (!textarea || !slash || textarea.value[slash.start] !== "/") return;
+    const { value, selectionStart } = textarea;
+    const rest = value.slice(0, slash.start) + value.slice(selectionStart);
+    const change = command.run({
+      value: rest,
+      start: slash.start,
+      end: slash.start,
+      openImageLibrary: () => setIsImageLibraryOpen(true),
+    });
+    replaceContent(
+      change ? applyTextChange(rest, change) : rest,
+      change
+        ? [change.selectionStart, change.selectionEnd]
+        : [slash.start, slash.start]
+    );
+  };
+
+  const handleImageSelect = (image: LibraryImage) => {
+    setIsImageLibraryOpen(false);
+    // Selects the alt text to describe the image
+    editText((value, start, end) => ({
+      ...insertAt(value, start, end, `![Image](${image.secure_url})`),
+      selectionStart: start + 2,
+      selectionEnd: start + 7,
+    }));
+  };
+
+  // Ctrl, or Cmd on a Mac, with a key, and Shift with a digit for headings
+  const handleShortcut = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    const key = e.key.toLowerCase();
+    const heading = e.shiftKey && e.code.match(/^Digit([1-6])$/);
+
+    if (key === "z" || (key === "y" && !e.shiftKey)) {
+      if (key === "z" && !e.shiftKey) history.undo();
+      else history.redo();
+    } else if (heading) {
+      const level = Number(heading[1]);
+      editText((value, start, end) => toggleHeading(value, start, end, level));
+    } else if (e.shiftKey) {
+      return;
+    } else if (key === "b") {
+      wrapText("**");
+    } else if (key === "i") {
+      wrapText("*");
+    } else if (key === "k") {
+      wrapText("[", "](https://)");
     } else {
-      setShowToolPanel(false);
+      return;
     }
+    e.preventDefault();
   };
 
-  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
-    const { selectionStart, value } = textareaRef.current!;
-    const prevChar = value[selectionStart - 1];
-
-    if (e.key === "Enter") {
-      const lines = value.split("\n");
-      const currentLine = lines[lines.length - 1];
+  // Tab indents list items, code and selected lines, and Shift+Tab outdents
+  // them. Anywhere else Tab moves focus on as usual
+  const handleTab = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    const { selectionStart, selectionEnd, value } = textareaRef.current!;
+    const isMultiline = value
+      .slice(selectionStart, selectionEnd)
+      .includes("\n");
+    const inCode = isInCodeBlock(value, selectionStart);
+    if (!isMultiline && !inCode && !isListLine(value, selectionStart)) return;
 
-      if (/^\d+\.\s/.test(currentLine)) {
-        e.preventDefault();
-        insertText(
-          `\n${parseInt(currentLine.match(/^(\d+)\./)?.[1] || "0") + 1}. `
-        );
-      } else if (/^-\s/.test(currentLine)) {
-        e.preventDefault();
-        insertText("\n- ");
-      } else if (currentLine.trim() === "-") {
-        e.preventDefault();
-        // setMarkdown(value.replace(/\n-$/, ""));
-        setFormData((prevFormData) => ({
-          ...prevFormData,
-          content: value.replace(/\n-$/, ""),
-        }));
-      }
+    e.preventDefault();
+    if (inCode && !isMultiline && !e.shiftKey) {
+      editText((value, start, end) => insertAt(value, start, end, INDENT));
+    } else {
+      editText((value, start, end) =>
+        indentLines(value, start, end, e.shiftKey)
+      );
     }
+  };
 
-    if (showToolPanel) {
-      if (e.key === "ArrowDown") {
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    const { selectionStart, selectionEnd, value } = textareaRef.current!;
+
+    if (slash) {
+      const count = slashCommands.length;
+      if (e.key === "Escape") {
         e.preventDefault();
-        setSelectedTool((prev) => (prev + 1) % tools.length);
+        setSlash(null);
+        return;
       }
-      if (e.key === "ArrowUp") {
+      if (count > 0 && (e.key === "ArrowDown" || e.key === "ArrowUp")) {
         e.preventDefault();
-        setSelectedTool((prev) => (prev - 1 + tools.length) % tools.length);
+        const step = e.key === "ArrowDown" ? 1 : -1;
+        setSelectedCommand((prev) => (prev + step + count) % count);
+        return;
       }
-      if (e.key === "Enter") {
+      if (count > 0 && (e.key === "Enter" || e.key === "Tab")) {
         e.preventDefault();
-        applyTool(tools[selectedTool].action);
+        runCommand(slashCommands[selectedCommand] ?? slashCommands[0]);
+        return;
       }
     }
 
-    if (e.key === "Backspace" && prevChar === "/") {
-      setShowToolPanel(false);
-    }
-  };
-
-  const applyTool = (action: string) => {
-    if (textareaRef.current) {
-      const { selectionStart, selectionEnd, value } = textareaRef.current;
-      const newText =
-        value.slice(0, selectionStart - 1) + action + value.slice(selectionEnd);
-      //   setMarkdown(newText);
-      setFormData((prevFormData) => ({
-        ...prevFormData,
-        content: newText,
-      }));
-      textareaRef.current.focus();
-      textareaRef.current.setSelectionRange(
-        selectionStart - 1 + action.length,
-        selectionStart - 1 + action.length
-      );
+    if ((e.ctrlKey || e.metaKey) && !e.altKey) {
+      handleShortcut(e);
+    } else if (e.key === "Tab" && !e.altKey) {
+      handleTab(e);
+    } else if (e.key === "Enter" && !e.shiftKey) {
+      // Continues the list or quote the caret is in
+      const change = continueList(value, selectionStart, selectionEnd);
+      if (change) {
+        e.preventDefault();
+        editText(() => change);
+      }
     }
-    setShowToolPanel(false);
   };
 
   const insertText = (text: string) => {
-    if (textareaRef.current) {
-      const { selectionStart } = textareaRef.current;
-      //   const newText =
-      //     markdown.slice(0, selectionStart) +
-      //     text +
-      //     markdown.slice(selectionStart);
-      const newText =
-        formData.content.slice(0, selectionStart) +
-        text +
-        formData.content.slice(selectionStart);
-      //   setMarkdown(newText);
-      setFormData((prevFormData) => ({
-        ...prevFormData,
-        content: newText,
-      }));
-      textareaRef.current.focus();
-      textareaRef.current.setSelectionRange(
-        selectionStart + text.length,
-        selectionStart + text.length
-      );
-    }
+    editText((value, start, end) => insertAt(value, start, end, text));
   };
 
   const wrapText = (before: string, after: string = before) => {
-    if (textareaRef.current) {
-      const { selectionStart, selectionEnd, value } = textareaRef.current;
-      const selectedText = value.slice(selectionStart, selectionEnd) || "text";
-      const newText =
-        value.slice(0, selectionStart) +
-        before +
-        selectedText +
-        after +
-        value.slice(selectionEnd);
-      //   setMarkdown(newText);
-      setFormData((prevFormData) => ({
-        ...prevFormData,
-        content: newText,
-      }));
-      textareaRef.current.focus();
-      textareaRef.current.setSelectionRange(
-        selectionStart + before.length,
-        selectionEnd + before.length
-      );
-    }
+    editText((value, start, end) =>
+      toggleWrap(value, start, end, before, after)
+    );
   };
 
   const Code = ({
@@ -303,53 +429,128 @@ const BlogEditor: React.FC<BlogInputsProps> = ({ setFormData, formData }) => {
     }
   };
 
+  const editorPane = (
+    <div className="relative w-full">
+      <textarea
+        ref={textareaRef}
+        className="w-full h-[500px] p-2 border rounded focus:outline-none"
+        value={formData.content}
+        onChange={handleTextChange}
+        onKeyDown={handleKeyDown}
+        onSelect={(e) => slash && updateSlash(e.currentTarget)}
+        onBlur={() => setSlash(null)}
+        aria-controls={slash ? SLASH_PALETTE_ID : undefined}
+        aria-activedescendant={
+          slashCommands[selectedCommand]
+            ? slashOptionId(slashCommands[selectedCommand])
+            : undefined
+        }
+      />
+      {collabStatus && (
+        <CollabCursors
+          textareaRef={textareaRef}
+          peers={peers}
+          content={formData.content}
+        />
+      )}
+
+      {/* Slash Command Palette */}
+      {slash && (
+        <SlashCommandPalette
+          commands={slashCommands}
+          selectedIndex={selectedCommand}
+          position={palettePosition}
+          onSelect={runCommand}
+          onHover={setSelectedCommand}
+        />
+      )}
+    </div>
+  );
+
   return (
     <div ref={editorRef} className="w-full h-full bg-white">
       <div className="relative flex flex-col space-y-4">
         <div className="flex flex-col gap-2 w-full pt-2 sm:p-2 border rounded">
           <div className="flex items-center gap-1 w-full overflow-x-auto">
-            <ToolbarButton icon={<FaBold />} onClick={() => wrapText("**")} />
-            <ToolbarButton icon={<FaItalic />} onClick={() => wrapText("*")} />
+            <ToolbarButton
+              icon={<FaUndo />}
+              label="Undo (Ctrl+Z)"
+              onClick={history.undo}
+            />
+            <ToolbarButton
+              icon={<FaRedo />}
+              label="Redo (Ctrl+Shift+Z)"
+              onClick={history.redo}
+            />
+            <ToolbarButton
+              icon={<FaBold />}
+              label="Bold (Ctrl+B)"
+              onClick={() => wrapText("**")}
+            />
+            <ToolbarButton
+              icon={<FaItalic />}
+              label="Italic (Ctrl+I)"
+              onClick={() => wrapText("*")}
+            />
             <ToolbarButton
               icon={<FaStrikethrough />}
+              label="Strikethrough"
               onClick={() => wrapText("~~")}
             />
             <ToolbarButton
               icon={<FaListUl />}
+              label="Bullet list"
               onClick={() => insertText("\n- ")}
             />
             <ToolbarButton
               icon={<FaListOl />}
+              label="Numbered list"
               onClick={() => insertText("\n1. ")}
             />
             <ToolbarButton
               icon={<FaCheckSquare />}
+              label="Checkbox"
               onClick={() => insertText("\n- [ ] ")}
             />
             <ToolbarButton
               icon={<FaQuoteRight />}
+              label="Quote"
               onClick={() => insertText("\n> ")}
             />
             <ToolbarButton
               icon={<FaMinus />}
+              label="Divider"
               onClick={() => insertText("\n---\n")}
             />
             <ToolbarButton
               icon={<FaLink />}
+              label="Link (Ctrl+K)"
               onClick={() => wrapText("[", "](https://)")}
             />
             <ToolbarButton
               icon={<FaCode />}
+              label="Code block"
               onClick={() => wrapText("\n``` js\n", "\n```\n")}
             />
             <ToolbarButton
               icon={<FaHeading />}
-              onClick={() => insertText("\n# ")}
+              label="Heading (Ctrl+Shift+1 to 6)"
+              onClick={() =>
+                editText((value, start, end) =>
+                  toggleHeading(value, start, end, 1)
+                )
+              }
             />
             <ToolbarButton
               icon={<FaImage />}
+              label="Image"
               onClick={() => insertText("![Image](https://)")}
             />
+            <ToolbarButton
+              icon={<MdPhotoLibrary />}
+              label="Image from library"
+              onClick={() => setIsImageLibraryOpen(true)}
+            />
             {isFullScreen ? (
               <MdFullscreenExit
                 size={22}
@@ -364,73 +565,52 @@ const BlogEditor: React.FC<BlogInputsProps> = ({ setFormData, formData }) => {
               />
             )}
           </div>
-          <div className="flex items-center bg-gray overflow-hidden w-fit rounded-lg text-white text-sm my-2 ml-2 sm:m-0 [&_button]:px-4 [&_button]:py-1">
-            <button
-              type="button"
-              onClick={() => setPreviewEditor("Both")}
-              className={`${previewEditor === "Both" && "bg-black/60"}`}
-            >
-              Both
-            </button>
-
-            <button
-              type="button"
-              onClick={() => setPreviewEditor("Editor")}
-              className={`${previewEditor === "Editor" && "bg-black/60"}`}
-            >
-              Editor
-            </button>
-
-            <button
-              type="button"
-              onClick={() => setPreviewEditor("Preview")}
-              className={`${previewEditor === "Preview" && "bg-black/60"}`}
-            >
-              Preview
-            </button>
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="flex items-center bg-gray overflow-hidden w-fit rounded-lg text-white text-sm my-2 ml-2 sm:m-0 [&_button]:px-4 [&_button]:py-1">
+              <button
+                type="button"
+                onClick={() => setPreviewEditor("Both")}
+                className={`${previewEditor === "Both" && "bg-black/60"}`}
+              >
+                Both
+              </button>
+
+              <button
+                type="button"
+                onClick={() => setPreviewEditor("Editor")}
+                className={`${previewEditor === "Editor" && "bg-black/60"}`}
+              >
+                Editor
+              </button>
+
+              <button
+                type="button"
+                onClick={() => setPreviewEditor("Preview")}
+                className={`${previewEditor === "Preview" && "bg-black/60"}`}
+              >
+                Preview
+              </button>
+            </div>
+            {collabStatus && (
+              <CollabPresence status={collabStatus} peers={peers} />
+            )}
           </div>
         </div>
         <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 w-full">
           {previewEditor === "Both" ? (
             <>
-              <div className="relative w-full">
-                <textarea
-                  ref={textareaRef}
-                  className="w-full h-[500px] p-2 border rounded focus:outline-none"
-                  value={formData.content}
-                  onChange={handleTextChange}
-                  onKeyDown={handleKeyDown}
-                />
-
-                {/* Slash Command Tool Panel */}
-                {showToolPanel && (
-                  <div className="absolute top-12 left-4 bg-white border rounded-md shadow-md w-48 h-96 overflow-y-auto z-10">
-                    {tools.map((tool, index) => (
-                      <div
-                        key={tool.name}
-                        className={`p-2 flex items-center cursor-pointer ${
-                          selectedTool === index
-                            ? "bg-gray-300"
-                            : "hover:bg-gray-200"
-                        }`}
-                        onClick={() => applyTool(tool.action)}
-                      >
-                        {tool.icon} <span className="ml-2">{tool.name}</span>
-                      </div>
-                    ))}
-                  </div>
-                )}
-              </div>
+              {editorPane}
 
               {/* Markdown Preview */}
               <div className="w-full h-[500px] p-2 border rounded overflow-auto bg-gray-50">
                 <ReactMarkdown
-                  remarkPlugins={[remarkGfm]}
+                  remarkPlugins={[remarkGfm, remarkBlocks]}
                   rehypePlugins={[
                     rehypeSlug,
                     [rehypeAutolinkHeadings, { behavior: "append" }],
                   ]}
                   components={{
+                    ...markdownBlockComponents,
                     code: Code,
                     p: ({ children }) => (
                       <p className="text-gray-800 my-2 leading-relaxed">
@@ -486,44 +666,18 @@ const BlogEditor: React.FC<BlogInputsProps> = ({ setFormData, formData }) => {
               </div>
             </>
           ) : previewEditor === "Editor" ? (
-            <div className="relative w-full">
-              <textarea
-                ref={textareaRef}
-                className="w-full h-[500px] p-2 border rounded focus:outline-none"
-                value={formData.content}
-                onChange={handleTextChange}
-                onKeyDown={handleKeyDown}
-              />
-
-              {/* Slash Command Tool Panel */}
-              {showToolPanel && (
-                <div className="absolute top-12 left-4 bg-white border rounded-md shadow-md w-48 h-96 overflow-y-auto z-10">
-                  {tools.map((tool, index) => (
-                    <div
-                      key={tool.name}
-                      className={`p-2 flex items-center cursor-pointer ${
-                        selectedTool === index
-                          ? "bg-gray-300"
-                          : "hover:bg-gray-200"
-                      }`}
-                      onClick={() => applyTool(tool.action)}
-                    >
-                      {tool.icon} <span className="ml-2">{tool.name}</span>
-                    </div>
-                  ))}
-                </div>
-              )}
-            </div>
+            editorPane
           ) : (
             previewEditor === "Preview" && (
               <div className="w-full h-[500px] p-2 border rounded overflow-auto bg-gray-50">
                 <ReactMarkdown
-                  remarkPlugins={[remarkGfm]}
+                  remarkPlugins={[remarkGfm, remarkBlocks]}
                   rehypePlugins={[
                     rehypeSlug,
                     [rehypeAutolinkHeadings, { behavior: "append" }],
                   ]}
                   components={{
+                    ...markdownBlockComponents,
                     code: Code,
                     p: ({ children }) => (
                       <p className="text-gray-800 my-2 leading-relaxed">
@@ -581,6 +735,11 @@ const BlogEditor: React.FC<BlogInputsProps> = ({ setFormData, formData }) => {
           )}
         </div>
       </div>
+      <ImageLibrary
+        open={isImageLibraryOpen}
+        onOpenChange={setIsImageLibraryOpen}
+        onSelect={handleImageSelect}
+      />
     </div>
   );
 };
@@ -25,7 +25,7 @@ import {
   PopoverTrigger,
 } from "@/components/ui/popover";
 import { Check } from "lucide-react";
-import { Tags, Topics } from "@/generated/prisma";
+import { findTaxonomyName, toTaxonomySlug } from "@/lib/taxonomy";
 
 interface PageProp {
   setAllPosts: React.Dispatch<React.SetStateAction<boolean>>;
@@ -76,8 +76,8 @@ const BlogsFilter = ({ setAllPosts }: PageProp) => {
 
     if (tag || topic) {
       setAllPosts(false);
-      dispatch(setSelectedTags(tag ? [tag as Tags] : []));
-      dispatch(setSelectedTopics(topic ? [topic as Topics] : []));
+      dispatch(setSelectedTags(tag ? [toTaxonomySlug(tag)] : []));
+      dispatch(setSelectedTopics(topic ? [toTaxonomySlug(topic)] : []));
       dispatch(
         fetchFilteredBlogs({
           tag: tag ?? undefined,
@@ -95,16 +95,20 @@ const BlogsFilter = ({ setAllPosts }: PageProp) => {
   // Memoized filtered data
   const filteredTopics = useMemo(
     () =>
-      availableTopics.filter((topic) =>
-        topic.toLowerCase().includes(topicsQuery.toLowerCase())
+      availableTopics.filter(
+        (topic) =>
+          topic.name.toLowerCase().includes(topicsQuery.toLowerCase()) ||
+          topic.slug.includes(topicsQuery.toLowerCase())
       ),
     [topicsQuery, availableTopics]
   );
 
   const filteredTags = useMemo(
     () =>
-      availableTags.filter((tag) =>
-        tag.toLowerCase().includes(tagsQuery.toLowerCase())
+      availableTags.filter(
+        (tag) =>
+          tag.name.toLowerCase().includes(tagsQuery.toLowerCase()) ||
+          tag.slug.includes(tagsQuery.toLowerCase())
       ),
     [tagsQuery, availableTags]
   );
@@ -156,12 +160,12 @@ const BlogsFilter = ({ setAllPosts }: PageProp) => {
       newParams.delete("tag");
       dispatch(setSelectedTags([]));
       setTopicsQuery(param);
-      dispatch(setSelectedTopics([param] as any));
+      dispatch(setSelectedTopics([param]));
     } else {
       newParams.delete("topic");
       dispatch(setSelectedTopics([]));
       setTagsQuery(param);
-      dispatch(setSelectedTags([param] as any));
+      dispatch(setSelectedTags([param]));
     }
 
     router.push(`?${newParams.toString()}`, { scroll: false });
@@ -244,7 +248,7 @@ const BlogsFilter = ({ setAllPosts }: PageProp) => {
                   aria-label="Search topics"
                 >
                   {selectedTopics.length
-                    ? selectedTopics[0].replaceAll("_", " ")
+                    ? findTaxonomyName(availableTopics, selectedTopics[0])
                     : "Select Topic..."}
                   <FiSearch size={18} className="text-gray-500" />
                 </button>
@@ -261,14 +265,14 @@ const BlogsFilter = ({ setAllPosts }: PageProp) => {
                     <CommandGroup>
                       {filteredTopics.map((topic) => (
                         <CommandItem
-                          key={topic}
-                          value={topic}
-                          onSelect={() => handleFilter("topic", topic)}
+                          key={topic.slug}
+                          value={topic.name}
+                          onSelect={() => handleFilter("topic", topic.slug)}
                         >
-                          {topic.replaceAll("_", " ")}
+                          {topic.name}
                           <Check
                             className={`ml-auto ${
-                              selectedTopics.includes(topic as any)
+                              selectedTopics.includes(topic.slug)
                                 ? "opacity-100"
                                 : "opacity-0"
                             }`}
@@ -284,16 +288,16 @@ const BlogsFilter = ({ setAllPosts }: PageProp) => {
             <div className="mt-4 flex flex-wrap gap-2">
               {visibleTopics.map((topic) => (
                 <button
-                  key={topic}
-                  onClick={() => handleFilter("topic", topic)}
+                  key={topic.slug}
+                  onClick={() => handleFilter("topic", topic.slug)}
                   className={`rounded-full px-3 py-1 text-xs font-semibold ${
-                    selectedTopics.includes(topic)
+                    selectedTopics.includes(topic.slug)
                       ? "bg-black border-transparent text-white"
                       : "border border-black"
                   }`}
-                  aria-label={`Filter by topic ${topic.replace("_", " ")}`}
+                  aria-label={`Filter by topic ${topic.name}`}
                 >
-                  {topic.replace("_", " ")}
+                  {topic.name}
                 </button>
               ))}
               {showCount.topic < filteredTopics.length ? (
@@ -345,7 +349,7 @@ const BlogsFilter = ({ setAllPosts }: PageProp) => {
                   aria-label="Search tags"
                 >
                   {selectedTags.length
-                    ? selectedTags[0].replaceAll("_", " ")
+                    ? findTaxonomyName(availableTags, selectedTags[0])
                     : "Select Tag..."}
                   <FiSearch size={18} className="text-gray-500" />
                 </button>
@@ -362,14 +366,14 @@ const BlogsFilter = ({ setAllPosts }: PageProp) => {
                     <CommandGroup>
                       {filteredTags.map((tag) => (
                         <CommandItem
-                          key={tag}
-                          value={tag}
-                          onSelect={() => handleFilter("tag", tag)}
+                          key={tag.slug}
+                          value={tag.name}
+                          onSelect={() => handleFilter("tag", tag.slug)}
                         >
-                          {tag.replaceAll("_", " ")}
+                          {tag.name}
                           <Check
                             className={`ml-auto ${
-                              selectedTags.includes(tag as any)
+                              selectedTags.includes(tag.slug)
                                 ? "opacity-100"
                                 : "opacity-0"
                             }`}
@@ -385,16 +389,16 @@ const BlogsFilter = ({ setAllPosts }: PageProp) => {
             <div className="mt-4 flex flex-wrap gap-2">
               {visibleTags.map((tag) => (
                 <button
-                  key={tag}
-                  onClick={() => handleFilter("tag", tag)}
+                  key={tag.slug}
+                  onClick={() => handleFilter("tag", tag.slug)}
                   className={`rounded-full px-3 py-1 text-xs font-semibold ${
-                    tagsQuery === tag
+                    tagsQuery === tag.slug
                       ? "bg-black border-transparent text-white"
                       : "border border-black"
                   }`}
-                  aria-label={`Filter by tag ${tag.replace("_", " ")}`}
+                  aria-label={`Filter by tag ${tag.name}`}
                 >
-                  {tag.replace("_", " ")}
+                  {tag.name}
                 </button>
               ))}
               {showCount.tag < filteredTags.length ? (
@@ -7,7 +7,8 @@ import { Autoplay, Scrollbar } from "swiper/modules";
 import { format } from "date-fns";
 import "swiper/css";
 import "swiper/css/scrollbar";
-import { Blog } from "@/generated/prisma";
+import { BlogWithTaxonomy } from "@/lib/taxonomy";
+import { formatReadingTime } from "@/lib/contentStats";
 
 // Fallback component for empty or loading state
 const SwiperFallback = () => (
@@ -16,7 +17,7 @@ const SwiperFallback = () => (
   </div>
 );
 
-const BlogSwiper = ({ blog }: { blog: Blog[] }) => {
+const BlogSwiper = ({ blog }: { blog: BlogWithTaxonomy[] }) => {
   if (!blog.length) return <SwiperFallback />;
 
   return (
@@ -77,6 +78,8 @@ const BlogSwiper = ({ blog }: { blog: Blog[] }) => {
                       {b.createdAt
                         ? format(new Date(b.createdAt), "MMMM dd, yyyy")
                         : "No Date"}
+                      {b.readingTime > 0 &&
+                        ` · ${formatReadingTime(b.readingTime)}`}
                     </p>
                   </div>
 
@@ -86,12 +89,12 @@ const BlogSwiper = ({ blog }: { blog: Blog[] }) => {
                       <div className="flex items-center gap-1">
                         {b.tags.slice(0, 2).map((t, i) => (
                           <Link
-                            href={`/tag/${t.toLowerCase()}`}
+                            href={`/tag/${t.slug}`}
                             key={i}
                             className="px-2 py-0.5 sm:px-4 sm:py-1 border border-white rounded-full bg-white/30 backdrop-blur-sm text-[11px] sm:text-xs hover:bg-[#7B00D3] hover:border-[#7B00D3] hover:text-white transition-colors"
-                            aria-label={`Filter by tag ${t.replace("_", " ")}`}
+                            aria-label={`Filter by tag ${t.name}`}
                           >
-                            {t.replace("_", " ")}
+                            {t.name}
                           </Link>
                         ))}
                       </div>
@@ -102,15 +105,12 @@ const BlogSwiper = ({ blog }: { blog: Blog[] }) => {
                       <div className="flex items-center gap-1">
                         {b.topics.slice(0, 2).map((t, i) => (
                           <Link
-                            href={`/topic/${t.toLowerCase()}`}
+                            href={`/topic/${t.slug}`}
                             key={i}
                             className="px-2 py-0.5 sm:px-4 sm:py-1 border border-white rounded-full bg-white/30 backdrop-blur-sm text-[11px] sm:text-xs hover:bg-[#7B00D3] hover:border-[#7B00D3] hover:text-white transition-colors"
-                            aria-label={`Filter by topic ${t.replace(
-                              "_",
-                              " "
-                            )}`}
+                            aria-label={`Filter by topic ${t.name}`}
                           >
-                            {t.replace("_", " ")}
+                            {t.name}
                           </Link>
                         ))}
                       </div>
@@ -0,0 +1,30 @@
+"use client";
+import { FiBookmark } from "react-icons/fi";
+import { useBookmarks } from "@/utils/bookmarks";
+
+// Adds the post to the reader's reading list, or takes it off again
+const BookmarkButton = ({ slug }: { slug: string }) => {
+  const { isBookmarked, toggleBookmark } = useBookmarks();
+  const bookmarked = isBookmarked(slug);
+
+  return (
+    <div className="flex flex-col items-center justify-center gap-1">
+      <p className="text-gray text-xs lg:text-sm font-semibold">SAVE</p>
+      <button
+        type="button"
+        onClick={() => toggleBookmark(slug)}
+        aria-pressed={bookmarked}
+        aria-label={bookmarked ? "Remove bookmark" : "Bookmark this post"}
+        className={`border rounded-full w-fit p-1.5 cursor-pointer ${
+          bookmarked
+            ? "border-[#7B00D3] text-[#7B00D3]"
+            : "border-gray text-gray"
+        }`}
+      >
+        <FiBookmark size={20} fill={bookmarked ? "currentColor" : "none"} />
+      </button>
+    </div>
+  );
+};
+
+export default BookmarkButton;
@@ -0,0 +1,67 @@
+"use client";
+import { CollabPeer } from "@/lib/collab";
+import { Caret, measureCaret } from "@/utils/caret";
+import { RefObject, useEffect, useLayoutEffect, useState } from "react";
+
+// Other editors' carets, drawn over the textarea with their names
+const CollabCursors = ({
+  textareaRef,
+  peers,
+  content,
+}: {
+  textareaRef: RefObject<HTMLTextAreaElement | null>;
+  peers: CollabPeer[];
+  content: string;
+}) => {
+  const [carets, setCarets] = useState<(CollabPeer & Caret)[]>([]);
+  const [scrollTick, setScrollTick] = useState(0);
+
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const handleScroll = () => setScrollTick((tick) => tick + 1);
+    textarea.addEventListener("scroll", handleScroll);
+    window.addEventListener("resize", handleScroll);
+    return () => {
+      textarea.removeEventListener("scroll", handleScroll);
+      window.removeEventListener("resize", handleScroll);
+    };
+  }, [textareaRef]);
+
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    setCarets(
+      peers.flatMap((peer) =>
+        peer.cursor
+          ? [{ ...peer, ...measureCaret(textarea, peer.cursor.head) }]
+          : []
+      )
+    );
+  }, [textareaRef, peers, content, scrollTick]);
+
+  return (
+    <div className="absolute inset-0 pointer-events-none overflow-hidden">
+      {carets.map((caret) => (
+        <div
+          key={caret.clientId}
+          className="absolute"
+          style={{ top: caret.top, left: caret.left, height: caret.height }}
+        >
+          <span
+            className="absolute inset-y-0 left-0 w-0.5"
+            style={{ backgroundColor: caret.color }}
+          />
+          <span
+            className="absolute bottom-full left-0 whitespace-nowrap rounded px-1 text-[10px] leading-4 text-white"
+            style={{ backgroundColor: caret.color }}
+          >
+            {caret.name}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default CollabCursors;
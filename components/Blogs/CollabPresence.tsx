@@ -0,0 +1,54 @@
+"use client";
+import { CollabPeer, CollabStatus } from "@/lib/collab";
+
+const STATUS_LABELS: Record<CollabStatus, string> = {
+  connecting: "Connecting…",
+  connected: "Live",
+  offline: "Editing alone",
+};
+
+const initialsOf = (name: string) =>
+  name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((word) => word[0].toUpperCase())
+    .join("");
+
+// Who else is editing the post, and whether changes are being shared
+const CollabPresence = ({
+  status,
+  peers,
+}: {
+  status: CollabStatus;
+  peers: CollabPeer[];
+}) => (
+  <div className="flex items-center gap-2 text-xs text-gray-500">
+    <span
+      className={`h-2 w-2 rounded-full ${
+        status === "connected"
+          ? "bg-green-500"
+          : status === "connecting"
+          ? "bg-amber-400"
+          : "bg-gray-400"
+      }`}
+    />
+    {STATUS_LABELS[status]}
+    {peers.length > 0 && (
+      <ul className="flex -space-x-2" aria-label="Also editing">
+        {peers.map((peer) => (
+          <li
+            key={peer.clientId}
+            title={peer.name}
+            className="flex h-6 w-6 items-center justify-center rounded-full border-2 border-white text-[10px] font-semibold text-white"
+            style={{ backgroundColor: peer.color }}
+          >
+            {initialsOf(peer.name)}
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+export default CollabPresence;
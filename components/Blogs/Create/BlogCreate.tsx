@@ -1,7 +1,6 @@
 "use client";
 
-import { Tags, Topics } from "@/generated/prisma";
-import { useEffect, useState } from "react";
+import { useState } from "react";
 import BlogInputs from "./BlogInputs";
 import Image from "next/image";
 import ReactMarkdown from "react-markdown";
@@ -11,6 +10,8 @@ import remarkGfm from "remark-gfm";
 import rehypeSlug from "rehype-slug";
 import rehypeAutolinkHeadings from "rehype-autolink-headings";
 import { IoCopy, IoCopyOutline } from "react-icons/io5";
+import { remarkBlocks } from "@/lib/markdownBlocks";
+import { markdownBlockComponents } from "../MarkdownBlocks";
 
 const BlogCreate = () => {
   const [formData, setFormData] = useState({
@@ -20,23 +21,13 @@ const BlogCreate = () => {
     content: "",
     bannerUrl: "",
     video: "",
-    tags: [] as Tags[],
-    topics: [] as Topics[],
+    tags: [] as string[],
+    topics: [] as string[],
   });
   const [isLoading, setIsLoading] = useState(false);
   const [topicsQuery, setTopicsQuery] = useState<string>("");
   const [tagsQuery, setTagsQuery] = useState<string>("");
 
-  // Effect to check localStorage when component mounts
-  useEffect(() => {
-    const storedData = localStorage.getItem("blogDraft");
-
-    if (storedData) {
-      // If data exists, parse it and set the form data
-      setFormData(JSON.parse(storedData));
-    }
-  }, []); // Empty dependency array so this runs only on mount
-
   const Code = ({
     inline,
     className,
@@ -176,12 +167,13 @@ const BlogCreate = () => {
             )}
 
             <ReactMarkdown
-              remarkPlugins={[remarkGfm]}
+              remarkPlugins={[remarkGfm, remarkBlocks]}
               rehypePlugins={[
                 rehypeSlug,
                 [rehypeAutolinkHeadings, { behavior: "append" }],
               ]}
               components={{
+                ...markdownBlockComponents,
                 code: Code,
                 p: ({ children }) => (
                   <p className="text-gray-800 my-2 leading-relaxed">
@@ -12,7 +12,8 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from "@/components/ui/popover";
-import { Tags, Topics } from "@/generated/prisma";
+import { BlogStatus } from "@/generated/prisma";
+import { findTaxonomyName } from "@/lib/taxonomy";
 import { AppDispatch, RootState } from "@/store/store";
 import { fetchAvailableTags } from "@/store/tagSlice";
 import { fetchAvailableTopics } from "@/store/topicSlice";
@@ -24,6 +25,12 @@ import { useDispatch, useSelector } from "react-redux";
 import BlogEditor from "../BlogEditor";
 import { toast } from "sonner";
 import ImageUpload from "../Image-Upload";
+import PublishActions from "../PublishActions";
+import AuthorPicker from "../AuthorPicker";
+import SeriesPicker from "../SeriesPicker";
+import DraftRestorePrompt from "../DraftRestorePrompt";
+import { emptyDraftFields, NEW_DRAFT } from "@/lib/drafts";
+import { useDraftAutosave } from "@/utils/drafts";
 
 interface BlogInputsProps {
   formData: {
@@ -33,8 +40,8 @@ interface BlogInputsProps {
     content: string;
     bannerUrl: string;
     video: string;
-    tags: Tags[];
-    topics: Topics[];
+    tags: string[];
+    topics: string[];
   };
   setFormData: React.Dispatch<
     React.SetStateAction<{
@@ -44,8 +51,8 @@ interface BlogInputsProps {
       content: string;
       bannerUrl: string;
       video: string;
-      tags: Tags[];
-      topics: Topics[];
+      tags: string[];
+      topics: string[];
     }>
   >;
   setIsLoading: React.Dispatch<React.SetStateAction<boolean>>;
@@ -67,6 +74,11 @@ const BlogInputs2: React.FC<BlogInputsProps> = ({
   isLoading,
 }) => {
   const dispatch = useDispatch<AppDispatch>();
+  const [authors, setAuthors] = useState<string[]>([]);
+  const [series, setSeries] = useState({
+    slug: "",
+    position: null as number | null,
+  });
   const [validationErrors, setValidationErrors] = useState<{
     [key: string]: string;
   }>({});
@@ -97,36 +109,30 @@ const BlogInputs2: React.FC<BlogInputsProps> = ({
     []
   );
 
-  // Debounced autosave
-  const debouncedAutosave = useMemo(
-    () =>
-      debounce((data: typeof formData) => {
-        localStorage.setItem("blogDraft", JSON.stringify(data));
-      }, 1000).debounced,
-    []
-  );
+  // Server-side autosave of the new post
+  const { savedDraft, restoreDraft, discardDraft, clearDraft } =
+    useDraftAutosave(NEW_DRAFT, formData, emptyDraftFields);
 
-  // Auto-save on formData change
-  useEffect(() => {
-    debouncedAutosave(formData);
-    // No cancel needed for debounce in this usage
-  }, [formData, debouncedAutosave]);
+  const handleRestoreDraft = () => {
+    const draft = restoreDraft();
+    if (draft) setFormData(draft);
+  };
 
   // Memoized filtered tags/topics
   const filteredTags = useMemo(() => {
     return availableTags.filter((tag) =>
-      tag.toLowerCase().includes(tagsQuery.toLowerCase())
+      tag.name.toLowerCase().includes(tagsQuery.toLowerCase())
     );
   }, [availableTags, tagsQuery]);
 
   const filteredTopics = useMemo(() => {
     return availableTopics.filter((topic) =>
-      topic.toLowerCase().includes(topicsQuery.toLowerCase())
+      topic.name.toLowerCase().includes(topicsQuery.toLowerCase())
     );
   }, [availableTopics, topicsQuery]);
 
   // Handle tag/topic selection
-  const handleSelectTag = (tag: Tags) => {
+  const handleSelectTag = (tag: string) => {
     setFormData((prev) => ({
       ...prev,
       tags: prev.tags.includes(tag)
@@ -136,7 +142,7 @@ const BlogInputs2: React.FC<BlogInputsProps> = ({
     setValidationErrors((prev) => ({ ...prev, tags: "" }));
   };
 
-  const handleSelectTopic = (topic: Topics) => {
+  const handleSelectTopic = (topic: string) => {
     setFormData((prev) => ({
       ...prev,
       topics: prev.topics.includes(topic)
@@ -156,28 +162,38 @@ const BlogInputs2: React.FC<BlogInputsProps> = ({
     }
   };
 
-  // Input validation
-  const validateForm = useCallback(() => {
-    const errors: { [key: string]: string } = {};
-    if (!formData.title.trim()) errors.title = "Title is required";
-    if (!formData.subTitle.trim()) errors.subTitle = "Subtitle is required";
-    if (!formData.content.trim()) errors.content = "Content is required";
-    if (formData.bannerUrl && !isValidUrl(formData.bannerUrl)) {
-      errors.bannerUrl = "Invalid banner URL";
-    }
-    if (formData.video && !isValidUrl(formData.video)) {
-      errors.video = "Invalid video URL";
-    }
-    if (formData.tags.length === 0)
-      errors.tags = "At least one tag is required";
-    if (formData.topics.length === 0)
-      errors.topics = "At least one topic is required";
-    setValidationErrors(errors);
-    toast.error("Error while creating", {
-      description: "Please check all fields are filled before submitting",
-    });
-    return Object.keys(errors).length === 0;
-  }, [formData]);
+  // Input validation (drafts only need a title)
+  const validateForm = useCallback(
+    (status: BlogStatus) => {
+      const errors: { [key: string]: string } = {};
+      if (!formData.title.trim()) errors.title = "Title is required";
+      if (formData.bannerUrl && !isValidUrl(formData.bannerUrl)) {
+        errors.bannerUrl = "Invalid banner URL";
+      }
+      if (formData.video && !isValidUrl(formData.video)) {
+        errors.video = "Invalid video URL";
+      }
+      if (status !== BlogStatus.DRAFT) {
+        if (!formData.subTitle.trim())
+          errors.subTitle = "Subtitle is required";
+        if (!formData.content.trim()) errors.content = "Content is required";
+        if (!formData.bannerUrl) errors.bannerUrl = "Banner URL is required";
+        if (formData.tags.length === 0)
+          errors.tags = "At least one tag is required";
+        if (formData.topics.length === 0)
+          errors.topics = "At least one topic is required";
+      }
+      setValidationErrors(errors);
+      const isValid = Object.keys(errors).length === 0;
+      if (!isValid) {
+        toast.error("Error while creating", {
+          description: "Please check all fields are filled before submitting",
+        });
+      }
+      return isValid;
+    },
+    [formData]
+  );
 
   // Handle input changes
   const handleChange = (
@@ -198,16 +214,26 @@ const BlogInputs2: React.FC<BlogInputsProps> = ({
       .slice(0, 100); // Limit slug length
   }, [formData.title]);
 
-  // Handle form submission
-  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
-    e.preventDefault();
-    if (!validateForm()) return;
+  // Save the post as a draft, schedule it, or publish it right away
+  const submitWithStatus = async (
+    status: BlogStatus,
+    scheduledFor?: string
+  ) => {
+    if (!validateForm(status)) return;
 
     setIsLoading(true);
     // setError(null);
     // setSuccess(false);
 
-    const submitData = { ...formData, slug: createSlug };
+    const submitData = {
+      ...formData,
+      authors,
+      series: series.slug || undefined,
+      seriesPosition: series.position ?? undefined,
+      slug: createSlug,
+      status,
+      scheduledFor,
+    };
 
     try {
       const response = await fetch("/api/blogs?action=create", {
@@ -225,7 +251,13 @@ const BlogInputs2: React.FC<BlogInputsProps> = ({
 
       setTagsQuery("");
       setTopicsQuery("");
-      toast.success("Blog post created successfully");
+      toast.success(
+        status === BlogStatus.DRAFT
+          ? "Draft saved"
+          : status === BlogStatus.SCHEDULED
+          ? "Blog post scheduled"
+          : "Blog post published"
+      );
       // setSuccess(true);
       setFormData({
         title: "",
@@ -237,7 +269,9 @@ const BlogInputs2: React.FC<BlogInputsProps> = ({
         tags: [],
         topics: [],
       });
-      localStorage.removeItem("blogDraft");
+      setAuthors([]);
+      setSeries({ slug: "", position: null });
+      clearDraft();
     } catch (err) {
       toast.error(err instanceof Error ? err.message : "An error occurred");
     } finally {
@@ -245,8 +279,21 @@ const BlogInputs2: React.FC<BlogInputsProps> = ({
     }
   };
 
+  // Handle form submission
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    submitWithStatus(BlogStatus.PUBLISHED);
+  };
+
   return (
     <>
+      {savedDraft && (
+        <DraftRestorePrompt
+          updatedAt={savedDraft.updatedAt}
+          onRestore={handleRestoreDraft}
+          onDiscard={discardDraft}
+        />
+      )}
       <form onSubmit={handleSubmit} className="space-y-4">
         {/* Title & Slug */}
         <div className="flex flex-col sm:flex-row gap-2 [&_div]:w-full">
@@ -399,21 +446,14 @@ const BlogInputs2: React.FC<BlogInputsProps> = ({
                     <CommandGroup>
                       {filteredTags.map((tag) => (
                         <CommandItem
-                          key={tag}
-                          value={tag}
-                          onSelect={() => {
-                            setFormData((prev) => ({
-                              ...prev,
-                              tags: prev.tags.includes(tag as Tags)
-                                ? prev.tags.filter((t) => t !== (tag as Tags))
-                                : [...prev.tags, tag as Tags],
-                            }));
-                          }}
+                          key={tag.slug}
+                          value={tag.name}
+                          onSelect={() => handleSelectTag(tag.slug)}
                         >
-                          {tag.replaceAll("_", " ")}
+                          {tag.name}
                           <Check
                             className={`ml-auto ${
-                              formData.tags.includes(tag)
+                              formData.tags.includes(tag.slug)
                                 ? "opacity-100"
                                 : "opacity-0"
                             }`}
@@ -440,12 +480,15 @@ const BlogInputs2: React.FC<BlogInputsProps> = ({
                       key={i}
                       className="px-2 py-1 bg-[#7B00D3]/50 border border-[#7B00D3] text-[#7B00D3] text-sm rounded flex items-center gap-2"
                     >
-                      {t.replace("_", " ")}
+                      {findTaxonomyName(availableTags, t)}
                       <button
                         type="button"
                         onClick={() => handleSelectTag(t)}
                         className="text-accent cursor-pointer hover:text-accent/60 focus:outline-none"
-                        aria-label={`Remove tag: ${t.replace("_", " ")}`}
+                        aria-label={`Remove tag: ${findTaxonomyName(
+                          availableTags,
+                          t
+                        )}`}
                       >
                         <RxCross2
                           size={18}
@@ -493,23 +536,14 @@ const BlogInputs2: React.FC<BlogInputsProps> = ({
                     <CommandGroup>
                       {filteredTopics.map((topic) => (
                         <CommandItem
-                          key={topic}
-                          value={topic}
-                          onSelect={() => {
-                            setFormData((prev) => ({
-                              ...prev,
-                              topics: prev.topics.includes(topic as Topics)
-                                ? prev.topics.filter(
-                                    (t) => t !== (topic as Topics)
-                                  )
-                                : [...prev.topics, topic as Topics],
-                            }));
-                          }}
+                          key={topic.slug}
+                          value={topic.name}
+                          onSelect={() => handleSelectTopic(topic.slug)}
                         >
-                          {topic.replaceAll("_", " ")}
+                          {topic.name}
                           <Check
                             className={`ml-auto ${
-                              formData.topics.includes(topic)
+                              formData.topics.includes(topic.slug)
                                 ? "opacity-100"
                                 : "opacity-0"
                             }`}
@@ -536,12 +570,15 @@ const BlogInputs2: React.FC<BlogInputsProps> = ({
                       key={i}
                       className="px-2 py-1 bg-[#7B00D3]/50 border border-[#7B00D3] text-[#7B00D3] text-sm rounded flex items-center gap-2"
                     >
-                      {t.replace("_", " ")}
+                      {findTaxonomyName(availableTopics, t)}
                       <button
                         type="button"
                         onClick={() => handleSelectTopic(t)}
                         className="text-accent cursor-pointer hover:text-accent/60 focus:outline-none"
-                        aria-label={`Remove topic: ${t.replace("_", " ")}`}
+                        aria-label={`Remove topic: ${findTaxonomyName(
+                          availableTopics,
+                          t
+                        )}`}
                       >
                         <RxCross2
                           size={18}
@@ -556,27 +593,23 @@ const BlogInputs2: React.FC<BlogInputsProps> = ({
           </div>
         </div>
 
+        <AuthorPicker
+          value={authors}
+          onChange={setAuthors}
+          emptyHint="Leave empty to credit yourself"
+        />
+
+        <SeriesPicker
+          series={series.slug}
+          position={series.position}
+          onChange={(slug, position) => setSeries({ slug, position })}
+        />
+
         <ImageUpload formData={formData} setFormData={setFormData} />
 
         <BlogEditor formData={formData} setFormData={setFormData} />
 
-        <div className="flex items-center gap-4">
-          <button
-            type="submit"
-            className="bg-blue-500 text-white px-4 py-2 rounded hover:bg-blue-600"
-          >
-            {isLoading ? "Creating..." : "Create Blog Post"}
-          </button>
-          <p
-            className="rounded px-4 py-2 text-white bg-green-500 hover:bg-green-600"
-            onClick={() => {
-              debouncedAutosave(formData);
-              toast.info("Saving as Draft");
-            }}
-          >
-            Save
-          </p>
-        </div>
+        <PublishActions isLoading={isLoading} onAction={submitWithStatus} />
       </form>
     </>
   );
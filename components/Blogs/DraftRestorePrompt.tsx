@@ -0,0 +1,45 @@
+"use client";
+import { format } from "date-fns";
+import { MdRestore } from "react-icons/md";
+
+interface DraftRestorePromptProps {
+  updatedAt: string;
+  onRestore: () => void;
+  onDiscard: () => void;
+}
+
+// Offers the changes autosaved from an earlier visit to the editor
+const DraftRestorePrompt: React.FC<DraftRestorePromptProps> = ({
+  updatedAt,
+  onRestore,
+  onDiscard,
+}) => (
+  <div
+    role="status"
+    className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 rounded-xl border border-[#7B00D3]/40 bg-[#7B00D3]/5 p-3 mb-4"
+  >
+    <p className="flex items-center gap-2 text-sm">
+      <MdRestore className="text-[#7B00D3] text-lg shrink-0" />
+      Restore unsaved changes from{" "}
+      {format(new Date(updatedAt), "MMM dd, yyyy 'at' h:mm a")}?
+    </p>
+    <div className="flex gap-2 text-sm">
+      <button
+        type="button"
+        onClick={onDiscard}
+        className="px-3 py-1 rounded-lg border border-gray-300 hover:bg-gray-100"
+      >
+        Discard
+      </button>
+      <button
+        type="button"
+        onClick={onRestore}
+        className="px-3 py-1 rounded-lg bg-[#7B00D3] hover:bg-[#6A00B8] text-white"
+      >
+        Restore
+      </button>
+    </div>
+  </div>
+);
+
+export default DraftRestorePrompt;
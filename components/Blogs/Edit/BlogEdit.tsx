@@ -1,7 +1,16 @@
 "use client";
 
 import Loading from "@/app/loading";
-import { Tags, Topics } from "@/generated/prisma";
+import { BlogStatus } from "@/generated/prisma";
+import { BlogWithAuthors } from "@/lib/authors";
+import {
+  BlogEdits,
+  toBlogEdits,
+  toBlogETag,
+  toDraftFields,
+} from "@/lib/editing";
+import { findTaxonomyName } from "@/lib/taxonomy";
+import { mergeFields } from "@/utils/threeWayMerge";
 import { AppDispatch, RootState } from "@/store/store";
 import { fetchAvailableTags } from "@/store/tagSlice";
 import { fetchAvailableTopics } from "@/store/topicSlice";
@@ -28,6 +37,13 @@ import { Check, ChevronDown } from "lucide-react";
 import { RxCross2 } from "react-icons/rx";
 import { useRouter } from "next/navigation";
 import ImageUpload from "../Image-Upload";
+import PublishActions from "../PublishActions";
+import RevisionHistory from "./RevisionHistory";
+import AuthorPicker from "../AuthorPicker";
+import SeriesPicker from "../SeriesPicker";
+import DraftRestorePrompt from "../DraftRestorePrompt";
+import { useDraftAutosave } from "@/utils/drafts";
+import MergeDialog, { EditConflict } from "./MergeDialog";
 
 const fetcher = (url: string) =>
   fetch(url).then((res) => {
@@ -40,7 +56,15 @@ const BlogEdit = ({ slug }: { slug: string }) => {
     data,
     error,
     isLoading: isDataLoading,
-  } = useSWR(`/api/blogs?slug=${slug}`, fetcher);
+    mutate,
+  } = useSWR(`/api/blogs?slug=${slug}`, fetcher, {
+    // Refetching would reset the form; a newer version is merged on save
+    revalidateOnFocus: false,
+    revalidateOnReconnect: false,
+  });
+  // The version the form's edits are based on
+  const [base, setBase] = useState<BlogWithAuthors | null>(null);
+  const [conflicts, setConflicts] = useState<EditConflict[]>([]);
   const [formData, setFormData] = useState({
     title: "",
     subTitle: "",
@@ -48,8 +72,13 @@ const BlogEdit = ({ slug }: { slug: string }) => {
     content: "",
     bannerUrl: "",
     video: "",
-    tags: [] as Tags[],
-    topics: [] as Topics[],
+    tags: [] as string[],
+    topics: [] as string[],
+  });
+  const [authors, setAuthors] = useState<string[]>([]);
+  const [series, setSeries] = useState({
+    slug: "",
+    position: null as number | null,
   });
 
   const dispatch = useDispatch<AppDispatch>();
@@ -108,51 +137,49 @@ const BlogEdit = ({ slug }: { slug: string }) => {
     []
   );
 
-  // Debounced autosave
-  const debouncedAutosave = useMemo(
-    () =>
-      debounce((data: typeof formData) => {
-        localStorage.setItem("blogDraft", JSON.stringify(data));
-      }, 1000).debounced,
-    []
+  // The post as saved, in the shape of the form
+  const savedFields = useMemo(
+    () => (data ? toDraftFields(toBlogEdits(data)) : null),
+    [data]
   );
 
-  // Auto-save on formData change
-  useEffect(() => {
-    debouncedAutosave(formData);
-    // No cancel needed for debounce in this usage
-  }, [formData, debouncedAutosave]);
+  // Server-side autosave of changes not yet submitted
+  const { savedDraft, restoreDraft, discardDraft, clearDraft } =
+    useDraftAutosave(savedFields && slug, formData, savedFields);
+
+  const handleRestoreDraft = () => {
+    const draft = restoreDraft();
+    if (draft) setFormData(draft);
+  };
+
+  const applyEdits = useCallback((edits: BlogEdits) => {
+    setFormData(toDraftFields(edits));
+    setAuthors(edits.authors);
+    setSeries({ slug: edits.series, position: edits.seriesPosition });
+  }, []);
 
   useEffect(() => {
     if (data) {
-      setFormData({
-        title: data.title,
-        subTitle: data.subTitle,
-        slug: data.slug,
-        content: data.content,
-        bannerUrl: data.bannerUrl,
-        video: data.video,
-        tags: data.tags,
-        topics: data.topics,
-      });
+      setBase(data);
+      applyEdits(toBlogEdits(data));
     }
-  }, [data]);
+  }, [data, applyEdits]);
 
   // Memoized filtered tags/topics
   const filteredTags = useMemo(() => {
     return availableTags.filter((tag) =>
-      tag.toLowerCase().includes(tagsQuery.toLowerCase())
+      tag.name.toLowerCase().includes(tagsQuery.toLowerCase())
     );
   }, [availableTags, tagsQuery]);
 
   const filteredTopics = useMemo(() => {
     return availableTopics.filter((topic) =>
-      topic.toLowerCase().includes(topicsQuery.toLowerCase())
+      topic.name.toLowerCase().includes(topicsQuery.toLowerCase())
     );
   }, [availableTopics, topicsQuery]);
 
   // Handle tag/topic selection
-  const handleSelectTag = (tag: Tags) => {
+  const handleSelectTag = (tag: string) => {
     setFormData((prev) => ({
       ...prev,
       tags: prev.tags.includes(tag)
@@ -162,7 +189,7 @@ const BlogEdit = ({ slug }: { slug: string }) => {
     setValidationErrors((prev) => ({ ...prev, tags: "" }));
   };
 
-  const handleSelectTopic = (topic: Topics) => {
+  const handleSelectTopic = (topic: string) => {
     setFormData((prev) => ({
       ...prev,
       topics: prev.topics.includes(topic)
@@ -182,25 +209,69 @@ const BlogEdit = ({ slug }: { slug: string }) => {
       .slice(0, 100); // Limit slug length
   }, [formData.title]);
 
-  // Handle form submission
-  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
-    e.preventDefault();
+  // Sends the edits as changes to the given version of the post
+  const saveEdits = (
+    edits: BlogEdits,
+    version: BlogWithAuthors,
+    status: BlogStatus,
+    scheduledFor?: string
+  ) =>
+    fetch(`/api/blogs?slug=${slug}`, {
+      method: "PATCH",
+      headers: {
+        "Content-Type": "application/json",
+        "If-Match": toBlogETag(version.updatedAt),
+      },
+      // An empty series takes the post out of the one it was in
+      body: JSON.stringify({
+        ...edits,
+        seriesPosition: edits.seriesPosition ?? undefined,
+        slug: createSlug,
+        status,
+        scheduledFor,
+      }),
+    });
+
+  // Save changes, moving the post to the chosen lifecycle status
+  const submitWithStatus = async (
+    status: BlogStatus,
+    scheduledFor?: string
+  ) => {
     // if (!validateForm()) return;
+    if (!base) return;
 
     setIsLoading(true);
     // setError(null);
     // setSuccess(false);
 
-    const submitData = { ...formData, slug: createSlug };
+    const edits: BlogEdits = {
+      ...formData,
+      authors,
+      series: series.slug,
+      seriesPosition: series.position,
+    };
 
     try {
-      const response = await fetch(`/api/blogs?slug=${createSlug}`, {
-        method: "PATCH",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(submitData),
-      });
+      let response = await saveEdits(edits, base, status, scheduledFor);
+
+      // Someone saved in the meantime: merge with their version, and only
+      // ask about the fields both sides changed
+      if (response.status === 409) {
+        const { current, error } = await response.json();
+        if (!current) throw new Error(error);
+        const { merged, conflicts } = mergeFields(
+          toBlogEdits(base),
+          edits,
+          toBlogEdits(current)
+        );
+        setBase(current);
+        applyEdits(merged);
+        if (conflicts.length > 0) {
+          setConflicts(conflicts);
+          return;
+        }
+        response = await saveEdits(merged, current, status, scheduledFor);
+      }
 
       if (!response.ok) {
         const errorData = await response.json();
@@ -211,18 +282,8 @@ const BlogEdit = ({ slug }: { slug: string }) => {
       setTopicsQuery("");
       toast.success("Blog post updated successfully");
       // setSuccess(true);
-      setFormData({
-        title: "",
-        subTitle: "",
-        slug: "",
-        content: "",
-        bannerUrl: "",
-        video: "",
-        tags: [],
-        topics: [],
-      });
+      await clearDraft();
       router.push(`/blog/${slug}`);
-      localStorage.removeItem("blogDraft");
     } catch (err) {
       toast.error(err instanceof Error ? err.message : "An error occurred");
     } finally {
@@ -230,6 +291,24 @@ const BlogEdit = ({ slug }: { slug: string }) => {
     }
   };
 
+  const handleResolveConflicts = (values: Partial<BlogEdits>) => {
+    applyEdits({
+      ...formData,
+      authors,
+      series: series.slug,
+      seriesPosition: series.position,
+      ...values,
+    });
+    setConflicts([]);
+    toast.info("Review the merged blog and save again");
+  };
+
+  // Handle form submission
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    submitWithStatus(BlogStatus.PUBLISHED);
+  };
+
   if (error) {
     toast.error("Error fetching blog data", {
       description: error.message,
@@ -242,7 +321,26 @@ const BlogEdit = ({ slug }: { slug: string }) => {
 
   return (
     <section className="max-w-4xl mx-auto p-4">
-      <h1 className="text-3xl font-bold mb-4">Edit Blog</h1>
+      <div className="flex items-center gap-3 mb-4">
+        <h1 className="text-3xl font-bold">Edit Blog</h1>
+        {data?.status && (
+          <span className="uppercase px-3 py-0.5 border border-[#7B00D3] rounded-full text-[#7B00D3] text-xs">
+            {data.status}
+          </span>
+        )}
+      </div>
+      {savedDraft && (
+        <DraftRestorePrompt
+          updatedAt={savedDraft.updatedAt}
+          onRestore={handleRestoreDraft}
+          onDiscard={discardDraft}
+        />
+      )}
+      <MergeDialog
+        conflicts={conflicts}
+        onResolve={handleResolveConflicts}
+        onCancel={() => setConflicts([])}
+      />
       <form onSubmit={handleSubmit} className="space-y-4">
         {/* Title & Slug */}
         <div className="flex flex-col sm:flex-row gap-2 [&_div]:w-full">
@@ -393,21 +491,14 @@ const BlogEdit = ({ slug }: { slug: string }) => {
                     <CommandGroup>
                       {filteredTags.map((tag) => (
                         <CommandItem
-                          key={tag}
-                          value={tag}
-                          onSelect={() => {
-                            setFormData((prev) => ({
-                              ...prev,
-                              tags: prev.tags.includes(tag as Tags)
-                                ? prev.tags.filter((t) => t !== (tag as Tags))
-                                : [...prev.tags, tag as Tags],
-                            }));
-                          }}
+                          key={tag.slug}
+                          value={tag.name}
+                          onSelect={() => handleSelectTag(tag.slug)}
                         >
-                          {tag.replaceAll("_", " ")}
+                          {tag.name}
                           <Check
                             className={`ml-auto ${
-                              formData.tags.includes(tag)
+                              formData.tags.includes(tag.slug)
                                 ? "opacity-100"
                                 : "opacity-0"
                             }`}
@@ -433,12 +524,15 @@ const BlogEdit = ({ slug }: { slug: string }) => {
                       key={i}
                       className="px-2 py-1 bg-[#7B00D3]/50 border border-[#7B00D3] text-[#7B00D3] text-sm rounded flex items-center gap-2"
                     >
-                      {t.replace("_", " ")}
+                      {findTaxonomyName(availableTags, t)}
                       <button
                         type="button"
                         onClick={() => handleSelectTag(t)}
                         className="text-accent cursor-pointer hover:text-accent/60 focus:outline-none"
-                        aria-label={`Remove tag: ${t.replace("_", " ")}`}
+                        aria-label={`Remove tag: ${findTaxonomyName(
+                          availableTags,
+                          t
+                        )}`}
                       >
                         <RxCross2
                           size={18}
@@ -486,23 +580,14 @@ const BlogEdit = ({ slug }: { slug: string }) => {
                     <CommandGroup>
                       {filteredTopics.map((topic) => (
                         <CommandItem
-                          key={topic}
-                          value={topic}
-                          onSelect={() => {
-                            setFormData((prev) => ({
-                              ...prev,
-                              topics: prev.topics.includes(topic as Topics)
-                                ? prev.topics.filter(
-                                    (t) => t !== (topic as Topics)
-                                  )
-                                : [...prev.topics, topic as Topics],
-                            }));
-                          }}
+                          key={topic.slug}
+                          value={topic.name}
+                          onSelect={() => handleSelectTopic(topic.slug)}
                         >
-                          {topic.replaceAll("_", " ")}
+                          {topic.name}
                           <Check
                             className={`ml-auto ${
-                              formData.topics.includes(topic)
+                              formData.topics.includes(topic.slug)
                                 ? "opacity-100"
                                 : "opacity-0"
                             }`}
@@ -529,12 +614,15 @@ const BlogEdit = ({ slug }: { slug: string }) => {
                       key={i}
                       className="px-2 py-1 bg-[#7B00D3]/50 border border-[#7B00D3] text-[#7B00D3] text-sm rounded flex items-center gap-2"
                     >
-                      {t.replace("_", " ")}
+                      {findTaxonomyName(availableTopics, t)}
                       <button
                         type="button"
                         onClick={() => handleSelectTopic(t)}
                         className="text-accent cursor-pointer hover:text-accent/60 focus:outline-none"
-                        aria-label={`Remove topic: ${t.replace("_", " ")}`}
+                        aria-label={`Remove topic: ${findTaxonomyName(
+                          availableTopics,
+                          t
+                        )}`}
                       >
                         <RxCross2
                           size={18}
@@ -549,17 +637,44 @@ const BlogEdit = ({ slug }: { slug: string }) => {
           </div>
         </div>
 
-        <ImageUpload formData={formData} setFormData={setFormData} />
+        <AuthorPicker value={authors} onChange={setAuthors} />
 
-        <BlogEditor formData={formData} setFormData={setFormData} />
+        <SeriesPicker
+          series={series.slug}
+          position={series.position}
+          onChange={(slug, position) => setSeries({ slug, position })}
+        />
+
+        <ImageUpload formData={formData} setFormData={setFormData} />
 
-        <button
-          type="submit"
-          className="bg-blue-500 text-white px-4 py-2 rounded hover:bg-blue-600"
-        >
-          {isLoading ? "Updating..." : "Update Blog"}
-        </button>
+        <BlogEditor
+          formData={formData}
+          setFormData={setFormData}
+          collabSlug={slug}
+        />
+
+        <PublishActions
+          isLoading={isLoading}
+          onAction={submitWithStatus}
+          publishLabel={
+            data?.status === BlogStatus.PUBLISHED ? "Update Blog" : "Publish"
+          }
+        />
       </form>
+
+      <details className="mt-8 border rounded p-4">
+        <summary className="cursor-pointer font-semibold">
+          Revision history
+        </summary>
+        <div className="mt-4">
+          {/* A restored blog replaces the cached data, which refills the form */}
+          <RevisionHistory
+            slug={slug}
+            currentContent={formData.content}
+            onRestore={(blog) => mutate(blog, { revalidate: false })}
+          />
+        </div>
+      </details>
     </section>
   );
 };
@@ -0,0 +1,168 @@
+"use client";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { BLOG_EDIT_LABELS, BlogEdits } from "@/lib/editing";
+import { FieldConflict } from "@/utils/threeWayMerge";
+import { useEffect, useState } from "react";
+
+type Choice = "mine" | "theirs" | "combined";
+
+export type EditConflict = FieldConflict<keyof BlogEdits>;
+
+interface MergeDialogProps {
+  conflicts: EditConflict[];
+  onResolve: (values: Partial<BlogEdits>) => void;
+  onCancel: () => void;
+}
+
+const choiceLabels: Record<Choice, string> = {
+  mine: "Keep mine",
+  theirs: "Use saved",
+  combined: "Combine both",
+};
+
+const formatValue = (value: unknown) =>
+  Array.isArray(value)
+    ? value.join(", ") || "None"
+    : value === null || value === ""
+    ? "None"
+    : String(value);
+
+// Lets the writer pick, field by field, between their edits and the version
+// saved while they were editing. Fields changed on one side only are merged
+// before this opens
+const MergeDialog: React.FC<MergeDialogProps> = ({
+  conflicts,
+  onResolve,
+  onCancel,
+}) => {
+  const [choices, setChoices] = useState<Record<string, Choice>>({});
+
+  useEffect(() => {
+    setChoices({});
+  }, [conflicts]);
+
+  const handleApply = () => {
+    const values = Object.fromEntries(
+      conflicts.map((conflict) => {
+        const choice = choices[conflict.field] ?? "mine";
+        return [
+          conflict.field,
+          choice === "theirs"
+            ? conflict.theirs
+            : choice === "combined"
+            ? conflict.combined
+            : conflict.mine,
+        ];
+      })
+    );
+    onResolve(values as Partial<BlogEdits>);
+  };
+
+  return (
+    <Dialog
+      open={conflicts.length > 0}
+      onOpenChange={(open) => !open && onCancel()}
+    >
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            This blog was changed while you were editing
+          </DialogTitle>
+          <DialogDescription>
+            Someone saved a new version. Changes that don&apos;t overlap were
+            merged; choose what to keep for the fields below, then review and
+            save again.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ul className="space-y-4">
+          {conflicts.map((conflict) => {
+            const selected = choices[conflict.field] ?? "mine";
+            const options: Choice[] = conflict.combined
+              ? ["mine", "theirs", "combined"]
+              : ["mine", "theirs"];
+            return (
+              <li key={conflict.field} className="border rounded-lg p-3">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <p className="font-semibold">
+                    {BLOG_EDIT_LABELS[conflict.field]}
+                  </p>
+                  <div className="flex items-center bg-gray overflow-hidden w-fit rounded-lg text-white text-sm [&_button]:px-3 [&_button]:py-1">
+                    {options.map((option) => (
+                      <button
+                        key={option}
+                        type="button"
+                        onClick={() =>
+                          setChoices((prev) => ({
+                            ...prev,
+                            [conflict.field]: option,
+                          }))
+                        }
+                        className={`${selected === option && "bg-black/60"}`}
+                      >
+                        {choiceLabels[option]}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                {selected === "combined" ? (
+                  <p className="mt-2 text-xs text-gray-500">
+                    Both versions go into the editor between conflict markers
+                    for you to tidy up.
+                  </p>
+                ) : (
+                  <div className="mt-2 grid grid-cols-1 sm:grid-cols-2 gap-2 text-sm">
+                    {(["mine", "theirs"] as const).map((side) => (
+                      <div
+                        key={side}
+                        className={`rounded border p-2 ${
+                          selected === side
+                            ? "border-[#7B00D3] bg-[#7B00D3]/5"
+                            : "border-gray-200 opacity-60"
+                        }`}
+                      >
+                        <p className="text-xs text-gray-500 mb-1">
+                          {side === "mine" ? "Yours" : "Saved"}
+                        </p>
+                        <p className="max-h-40 overflow-y-auto whitespace-pre-wrap break-words">
+                          {formatValue(conflict[side])}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+
+        <DialogFooter>
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300"
+          >
+            Keep all mine
+          </button>
+          <button
+            type="button"
+            onClick={handleApply}
+            className="px-4 py-2 bg-[#7B00D3] text-white rounded-md hover:bg-[#6A00B8]"
+          >
+            Apply to editor
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MergeDialog;
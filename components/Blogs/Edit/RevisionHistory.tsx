@@ -0,0 +1,178 @@
+"use client";
+
+import { Blog, BlogRevision } from "@/generated/prisma";
+import { lineDiff } from "@/utils/lineDiff";
+import { format } from "date-fns";
+import { useMemo, useState } from "react";
+import { toast } from "sonner";
+import useSWR from "swr";
+
+type RevisionSummary = Pick<
+  BlogRevision,
+  "id" | "version" | "title" | "restoredFromVersion"
+> & {
+  createdAt: string;
+  editor: { id: string; name: string } | null;
+};
+
+interface RevisionHistoryProps {
+  slug: string;
+  currentContent: string;
+  onRestore: (blog: Blog) => void;
+}
+
+const fetcher = (url: string) =>
+  fetch(url).then((res) => {
+    if (!res.ok) throw new Error("Failed to fetch revisions");
+    return res.json();
+  });
+
+const rowStyles = {
+  same: "",
+  removed: "bg-red-100",
+  added: "bg-green-100",
+  changed: "bg-yellow-100",
+};
+
+const RevisionHistory: React.FC<RevisionHistoryProps> = ({
+  slug,
+  currentContent,
+  onRestore,
+}) => {
+  const {
+    data,
+    error,
+    isLoading,
+    mutate,
+  } = useSWR<{ revisions: RevisionSummary[] }>(
+    `/api/blogs/revisions?slug=${slug}`,
+    fetcher
+  );
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const { data: selected } = useSWR<BlogRevision>(
+    selectedId ? `/api/blogs/revisions?slug=${slug}&id=${selectedId}` : null,
+    fetcher
+  );
+
+  // Selected revision on the left, what is in the editor now on the right
+  const diff = useMemo(
+    () => (selected ? lineDiff(selected.content, currentContent) : []),
+    [selected, currentContent]
+  );
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    setIsRestoring(true);
+    try {
+      const response = await fetch(
+        `/api/blogs/revisions?slug=${slug}&id=${selected.id}`,
+        { method: "POST" }
+      );
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData?.error || "Failed to restore revision");
+      }
+      const blog: Blog = await response.json();
+      onRestore(blog);
+      toast.success(`Restored version ${selected.version}`);
+      setSelectedId(null);
+      mutate();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const revisions = data?.revisions ?? [];
+
+  return (
+    <div className="space-y-4">
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading revisions...</p>
+      ) : error ? (
+        <p className="text-sm text-red-500">Error: {error.message}</p>
+      ) : revisions.length === 0 ? (
+        <p className="text-sm text-gray-500">No revisions yet</p>
+      ) : (
+        <ul className="max-h-60 overflow-y-auto border rounded divide-y text-sm">
+          {revisions.map((revision) => (
+            <li key={revision.id}>
+              <button
+                type="button"
+                onClick={() =>
+                  setSelectedId(
+                    selectedId === revision.id ? null : revision.id
+                  )
+                }
+                className={`w-full text-left px-3 py-2 hover:bg-gray-100 ${
+                  selectedId === revision.id && "bg-[#7B00D3]/10"
+                }`}
+              >
+                <span className="font-semibold">v{revision.version}</span>{" "}
+                {revision.title || "Untitled Blog"}
+                <span className="block text-xs text-gray-500">
+                  {format(new Date(revision.createdAt), "MMMM dd, yyyy HH:mm")}
+                  {revision.editor && ` by ${revision.editor.name}`}
+                  {revision.restoredFromVersion &&
+                    ` (restored from v${revision.restoredFromVersion})`}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {selectedId && !selected && (
+        <p className="text-sm text-gray-500">Loading revision...</p>
+      )}
+
+      {selected && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-sm font-medium">
+              Version {selected.version} compared with the current content
+            </p>
+            <button
+              type="button"
+              disabled={isRestoring}
+              onClick={handleRestore}
+              className="rounded px-4 py-2 text-white bg-[#7B00D3] hover:bg-[#6A00B8] disabled:opacity-50"
+            >
+              {isRestoring ? "Restoring..." : `Restore v${selected.version}`}
+            </button>
+          </div>
+          <div className="grid grid-cols-2 border rounded overflow-x-auto max-h-[32rem] font-mono text-xs">
+            <div className="px-2 py-1 font-semibold bg-gray-100 border-b">
+              Version {selected.version}
+            </div>
+            <div className="px-2 py-1 font-semibold bg-gray-100 border-b border-l">
+              Current
+            </div>
+            {diff.map((line, i) => (
+              <div key={i} className="contents">
+                <pre
+                  className={`px-2 whitespace-pre-wrap break-words ${
+                    line.left !== null && rowStyles[line.type]
+                  }`}
+                >
+                  {line.left ?? ""}
+                </pre>
+                <pre
+                  className={`px-2 whitespace-pre-wrap break-words border-l ${
+                    line.right !== null && rowStyles[line.type]
+                  }`}
+                >
+                  {line.right ?? ""}
+                </pre>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RevisionHistory;
@@ -16,7 +16,6 @@ import {
 import { useDropzone } from "react-dropzone";
 import { Progress } from "@/components/ui/progress";
 import { cn } from "@/lib/utils";
-import { Tags, Topics } from "@/generated/prisma";
 
 interface UploadProps {
   formData: {
@@ -37,8 +36,8 @@ interface UploadProps {
       content: string;
       bannerUrl: string;
       video: string;
-      tags: Tags[];
-      topics: Topics[];
+      tags: string[];
+      topics: string[];
     }>
   >;
 }
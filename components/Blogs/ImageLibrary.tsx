@@ -0,0 +1,109 @@
+"use client";
+import Image from "next/image";
+import useSWRInfinite from "swr/infinite";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+export interface LibraryImage {
+  secure_url: string;
+  public_id: string;
+  width: number;
+  height: number;
+}
+
+interface LibraryPage {
+  images: LibraryImage[];
+  nextCursor: string | null;
+}
+
+interface ImageLibraryProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSelect: (image: LibraryImage) => void;
+}
+
+const fetcher = (url: string) =>
+  fetch(url).then((res) => {
+    if (!res.ok) throw new Error("Failed to fetch images");
+    return res.json();
+  });
+
+const pageKey = (index: number, previous: LibraryPage | null) => {
+  if (previous && !previous.nextCursor) return null;
+  return previous
+    ? `/api/image-upload?cursor=${encodeURIComponent(previous.nextCursor!)}`
+    : "/api/image-upload";
+};
+
+// Images already uploaded, to pick one for the post without uploading again
+const ImageLibrary: React.FC<ImageLibraryProps> = ({
+  open,
+  onOpenChange,
+  onSelect,
+}) => {
+  const { data, error, isLoading, isValidating, size, setSize } =
+    useSWRInfinite<LibraryPage>(open ? pageKey : () => null, fetcher, {
+      revalidateFirstPage: false,
+    });
+  const images = data?.flatMap((page) => page.images) ?? [];
+  const hasMore = !!data?.[data.length - 1]?.nextCursor;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Image library</DialogTitle>
+          <DialogDescription>
+            Choose an uploaded image to insert at the cursor.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error ? (
+          <p className="text-sm text-red-500">Failed to load images.</p>
+        ) : isLoading ? (
+          <p className="text-sm text-gray-500">Loading images...</p>
+        ) : images.length === 0 ? (
+          <p className="text-sm text-gray-500">No images uploaded yet.</p>
+        ) : (
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 max-h-[60vh] overflow-y-auto">
+            {images.map((image) => (
+              <button
+                key={image.public_id}
+                type="button"
+                onClick={() => onSelect(image)}
+                title={image.public_id}
+                className="rounded-md overflow-hidden border hover:ring-2 hover:ring-[#7B00D3] focus:ring-2 focus:ring-[#7B00D3] outline-none"
+              >
+                <Image
+                  src={image.secure_url}
+                  alt={image.public_id}
+                  width={200}
+                  height={150}
+                  className="w-full h-28 object-cover"
+                />
+              </button>
+            ))}
+          </div>
+        )}
+
+        {hasMore && (
+          <button
+            type="button"
+            onClick={() => setSize(size + 1)}
+            disabled={isValidating}
+            className="mx-auto px-4 py-2 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300 disabled:opacity-50"
+          >
+            {isValidating ? "Loading..." : "Load more"}
+          </button>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImageLibrary;
@@ -0,0 +1,188 @@
+"use client";
+import { useState } from "react";
+import ReactMarkdown from "react-markdown";
+import { Light as SyntaxHighlighter } from "react-syntax-highlighter";
+import { tomorrowNightBright } from "react-syntax-highlighter/dist/esm/styles/hljs";
+import { IoCopy, IoCopyOutline } from "react-icons/io5";
+import remarkGfm from "remark-gfm";
+import rehypeSlug from "rehype-slug";
+import rehypeAutolinkHeadings from "rehype-autolink-headings";
+import { remarkBlocks } from "@/lib/markdownBlocks";
+import { markdownBlockComponents } from "./MarkdownBlocks";
+
+// Import required languages explicitly
+import ts from "react-syntax-highlighter/dist/esm/languages/hljs/typescript";
+import js from "react-syntax-highlighter/dist/esm/languages/hljs/javascript";
+import json from "react-syntax-highlighter/dist/esm/languages/hljs/json";
+import css from "react-syntax-highlighter/dist/esm/languages/hljs/css";
+import html from "react-syntax-highlighter/dist/esm/languages/hljs/xml";
+
+// Register languages
+SyntaxHighlighter.registerLanguage("typescript", ts);
+SyntaxHighlighter.registerLanguage("javascript", js);
+SyntaxHighlighter.registerLanguage("json", json);
+SyntaxHighlighter.registerLanguage("css", css);
+SyntaxHighlighter.registerLanguage("html", html);
+
+// Elements reader-written markdown is flattened out of, so comments stay
+// out of the table of contents and cannot embed images or media
+const RESTRICTED_ELEMENTS = [
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "img",
+  "iframe",
+];
+
+const Code = ({
+  inline,
+  className,
+  children,
+  ...props
+}: {
+  inline?: boolean;
+  className?: string;
+  children?: React.ReactNode;
+}) => {
+  const match = /language-(\w+)/.exec(className || "");
+  const language = match ? match[1] : "plaintext"; // Default to plaintext if language is not detected
+
+  const [copied, setCopied] = useState<boolean>(false);
+
+  const copyCode = (text: string) => {
+    navigator.clipboard.writeText(text);
+    setCopied(true);
+    setTimeout(() => {
+      setCopied(false);
+    }, 2000);
+  };
+
+  if (inline) {
+    return <code className="bg-gray-200 px-1 py-0.5 rounded">{children}</code>;
+  } else if (match) {
+    return (
+      <div style={{ position: "relative" }} className="my-2">
+        <SyntaxHighlighter
+          style={tomorrowNightBright}
+          language={language}
+          showLineNumbers
+          PreTag="pre"
+          wrapLongLines
+          {...props}
+          codeTagProps={{
+            style: {
+              fontSize: "0.95rem",
+              padding: "0.2rem",
+              borderRadius: "5px",
+              overflowX: "auto",
+              whiteSpace: "pre-wrap",
+              wordWrap: "break-word",
+            },
+          }}
+        >
+          {String(children).replace(/\n$/, "")}
+        </SyntaxHighlighter>
+        <button
+          className={`absolute top-2 right-2 z-10 ${
+            copied ? "text-[#3d3d3d] bg-white" : "bg-[#3d3d3d] text-white"
+          } p-2 rounded-lg`}
+          onClick={() => copyCode(String(children).replace(/\n$/, ""))}
+        >
+          {copied ? <IoCopyOutline /> : <IoCopy />}
+        </button>
+      </div>
+    );
+  } else {
+    return (
+      <code className="text-accent" {...props}>
+        {children}
+      </code>
+    );
+  }
+};
+
+// Shared markdown pipeline for post bodies and reader comments; heading ids
+// come from rehype-slug so they match between server and client renders
+const Markdown = ({
+  children,
+  restricted = false,
+}: {
+  children?: string;
+  restricted?: boolean;
+}) => {
+  return (
+    <ReactMarkdown
+      remarkPlugins={[remarkGfm, remarkBlocks]}
+      rehypePlugins={[
+        rehypeSlug,
+        [rehypeAutolinkHeadings, { behavior: "append" }],
+      ]}
+      disallowedElements={restricted ? RESTRICTED_ELEMENTS : undefined}
+      unwrapDisallowed
+      components={{
+        ...markdownBlockComponents,
+        code: Code,
+        p: ({ children }) => (
+          <p className="text-gray-800 my-2 leading-relaxed">{children}</p>
+        ),
+        h1: ({ id, children }) => (
+          <h1 id={id} className="text-3xl font-bold py-3">
+            {children}
+          </h1>
+        ),
+        h2: ({ id, children }) => (
+          <h2 id={id} className="text-2xl font-semibold py-2">
+            {children}
+          </h2>
+        ),
+        h3: ({ id, children }) => (
+          <h3 id={id} className="text-xl font-semibold py-2">
+            {children}
+          </h3>
+        ),
+        h4: ({ id, children }) => (
+          <h4 id={id} className="text-lg font-medium py-1">
+            {children}
+          </h4>
+        ),
+        h5: ({ id, children }) => (
+          <h5 id={id} className="text-base font-medium py-1">
+            {children}
+          </h5>
+        ),
+        h6: ({ id, children }) => (
+          <h6 id={id} className="text-sm font-medium py-1">
+            {children}
+          </h6>
+        ),
+        ul: ({ children }) => (
+          <ul className="list-disc list-inside my-2">{children}</ul>
+        ),
+        ol: ({ children }) => (
+          <ol className="list-decimal list-inside my-2">{children}</ol>
+        ),
+        li: ({ children }) => <li className="py-1">{children}</li>,
+        blockquote: ({ children }) => (
+          <blockquote className="border-l-4 border-gray-300 pl-4 italic text-gray-600 my-2">
+            {children}
+          </blockquote>
+        ),
+        img: ({ src, alt }) => (
+          <img
+            src={src}
+            alt={alt}
+            className="w-full sm:max-w-[40vw] rounded-lg mx-auto my-4"
+          />
+        ),
+        hr: () => <hr className="my-6 border-gray-200" />,
+      }}
+    >
+      {children}
+    </ReactMarkdown>
+  );
+};
+
+export default Markdown;
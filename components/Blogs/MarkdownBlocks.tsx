@@ -0,0 +1,74 @@
+import { CALLOUT_LABELS, CalloutType } from "@/lib/markdownBlocks";
+import type { Components } from "react-markdown";
+import {
+  MdCheckCircleOutline,
+  MdErrorOutline,
+  MdInfoOutline,
+  MdOutlineReportProblem,
+  MdOutlineTipsAndUpdates,
+} from "react-icons/md";
+
+export const CALLOUT_ICONS: Record<CalloutType, React.ReactNode> = {
+  note: <MdInfoOutline />,
+  tip: <MdOutlineTipsAndUpdates />,
+  important: <MdCheckCircleOutline />,
+  warning: <MdOutlineReportProblem />,
+  caution: <MdErrorOutline />,
+};
+
+const calloutClassNames: Record<CalloutType, string> = {
+  note: "border-blue-500 bg-blue-50 text-blue-700",
+  tip: "border-green-600 bg-green-50 text-green-700",
+  important: "border-[#7B00D3] bg-[#7B00D3]/5 text-[#7B00D3]",
+  warning: "border-amber-500 bg-amber-50 text-amber-700",
+  caution: "border-red-500 bg-red-50 text-red-700",
+};
+
+// Renderers for the custom blocks of remarkBlocks and for tables, shared by
+// every markdown view so the editor preview matches the post
+export const markdownBlockComponents: Components = {
+  aside: ({ className, children }) => {
+    const match = className?.match(/callout-(\w+)/)?.[1] as CalloutType;
+    const type = match in CALLOUT_LABELS ? match : "note";
+    return (
+      <aside className={`border-l-4 rounded-r-lg px-4 py-2 my-4 ${calloutClassNames[type]}`}>
+        <p className="flex items-center gap-2 font-semibold">
+          {CALLOUT_ICONS[type]} {CALLOUT_LABELS[type]}
+        </p>
+        <div className="text-gray-800">{children}</div>
+      </aside>
+    );
+  },
+  details: ({ children }) => (
+    <details className="border rounded-lg px-4 py-2 my-4 [&[open]>summary]:mb-2">
+      {children}
+    </details>
+  ),
+  summary: ({ children }) => (
+    <summary className="cursor-pointer font-semibold">{children}</summary>
+  ),
+  table: ({ children }) => (
+    <div className="overflow-x-auto my-4">
+      <table className="min-w-full border-collapse text-sm">{children}</table>
+    </div>
+  ),
+  th: ({ children, style }) => (
+    <th style={style} className="border px-3 py-2 bg-gray-50 font-semibold">
+      {children}
+    </th>
+  ),
+  td: ({ children, style }) => (
+    <td style={style} className="border px-3 py-2">
+      {children}
+    </td>
+  ),
+  iframe: ({ src, title }) => (
+    <iframe
+      src={src}
+      title={title}
+      loading="lazy"
+      allowFullScreen
+      className="w-full aspect-video rounded-lg my-4"
+    />
+  ),
+};
@@ -0,0 +1,79 @@
+"use client";
+
+import { BlogStatus } from "@/generated/prisma";
+import { useState } from "react";
+
+interface PublishActionsProps {
+  isLoading: boolean;
+  onAction: (status: BlogStatus, scheduledFor?: string) => void;
+  publishLabel?: string;
+}
+
+// Local "YYYY-MM-DDTHH:mm" for the datetime-local min attribute
+const toDateTimeLocal = (date: Date) =>
+  new Date(date.getTime() - date.getTimezoneOffset() * 60000)
+    .toISOString()
+    .slice(0, 16);
+
+const PublishActions: React.FC<PublishActionsProps> = ({
+  isLoading,
+  onAction,
+  publishLabel = "Publish",
+}) => {
+  const [showSchedule, setShowSchedule] = useState(false);
+  const [scheduledFor, setScheduledFor] = useState("");
+
+  const handleSchedule = () => {
+    if (!showSchedule) {
+      setShowSchedule(true);
+      return;
+    }
+    // datetime-local values carry no timezone, so convert before sending
+    onAction(
+      BlogStatus.SCHEDULED,
+      scheduledFor ? new Date(scheduledFor).toISOString() : undefined
+    );
+  };
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+      <button
+        type="submit"
+        disabled={isLoading}
+        className="bg-blue-500 text-white px-4 py-2 rounded hover:bg-blue-600 disabled:opacity-50"
+      >
+        {isLoading ? "Saving..." : publishLabel}
+      </button>
+      <button
+        type="button"
+        disabled={isLoading}
+        onClick={() => onAction(BlogStatus.DRAFT)}
+        className="rounded px-4 py-2 text-white bg-green-500 hover:bg-green-600 disabled:opacity-50"
+      >
+        Save draft
+      </button>
+      <div className="flex items-center gap-2">
+        {showSchedule && (
+          <input
+            type="datetime-local"
+            aria-label="Publish date and time"
+            value={scheduledFor}
+            min={toDateTimeLocal(new Date())}
+            onChange={(e) => setScheduledFor(e.target.value)}
+            className="p-2 border rounded focus:ring-2 focus:ring-[#7B00D3] focus:border-[#7B00D3] outline-none"
+          />
+        )}
+        <button
+          type="button"
+          disabled={isLoading || (showSchedule && !scheduledFor)}
+          onClick={handleSchedule}
+          className="rounded px-4 py-2 text-white bg-[#7B00D3] hover:bg-[#6A00B8] disabled:opacity-50"
+        >
+          Schedule
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PublishActions;
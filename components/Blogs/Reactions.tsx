@@ -0,0 +1,90 @@
+"use client";
+import { ReactionType } from "@/generated/prisma";
+import { REACTIONS, ReactionSummary } from "@/lib/reactions";
+import { RootState } from "@/store/store";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { useSelector } from "react-redux";
+import { toast } from "sonner";
+import useSWR from "swr";
+
+const fetcher = (url: string) =>
+  fetch(url).then((res) => {
+    if (!res.ok) throw new Error("Failed to fetch reactions");
+    return res.json();
+  });
+
+// Emoji reactions with their counts; signed-in readers can toggle their own
+const Reactions = ({ slug }: { slug: string }) => {
+  const { user } = useSelector((state: RootState) => state.auth);
+  const router = useRouter();
+  const [pendingType, setPendingType] = useState<ReactionType | null>(null);
+  const { data, mutate } = useSWR<ReactionSummary>(
+    `/api/blogs/${slug}/reactions`,
+    fetcher
+  );
+
+  const handleToggle = async (type: ReactionType) => {
+    if (!user) {
+      toast.error("Log in to react to posts", {
+        action: {
+          label: "Log in",
+          onClick: () =>
+            router.push(`/login?next=${encodeURIComponent(`/blog/${slug}`)}`),
+        },
+      });
+      return;
+    }
+
+    setPendingType(type);
+    try {
+      const response = await fetch(`/api/blogs/${slug}/reactions`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ type }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result?.error || "Failed to update reaction");
+      }
+      mutate(result, { revalidate: false });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setPendingType(null);
+    }
+  };
+
+  return (
+    <div
+      className="flex flex-wrap items-center gap-2 mt-8"
+      aria-label="Reactions"
+    >
+      {(Object.keys(REACTIONS) as ReactionType[]).map((type) => {
+        const { emoji, label } = REACTIONS[type];
+        const reacted = data?.mine.includes(type) ?? false;
+        return (
+          <button
+            key={type}
+            type="button"
+            onClick={() => handleToggle(type)}
+            disabled={pendingType === type}
+            aria-pressed={reacted}
+            aria-label={`${label} (${data?.counts[type] ?? 0})`}
+            title={label}
+            className={`flex items-center gap-1 px-3 py-1 rounded-full border text-sm transition-colors disabled:opacity-50 ${
+              reacted
+                ? "border-[#7B00D3] bg-[#7B00D3]/10 text-[#7B00D3]"
+                : "border-gray-300 hover:border-[#7B00D3]"
+            }`}
+          >
+            <span aria-hidden="true">{emoji}</span>
+            {data?.counts[type] ?? 0}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default Reactions;
@@ -0,0 +1,101 @@
+"use client";
+import Image from "next/image";
+import Link from "next/link";
+import useSWR from "swr";
+import { format } from "date-fns";
+import { BlogWithAuthors } from "@/lib/authors";
+import { formatReadingTime } from "@/lib/contentStats";
+
+const fetcher = (url: string) =>
+  fetch(url).then((res) => {
+    if (!res.ok) throw new Error("Failed to fetch related posts");
+    return res.json();
+  });
+
+// Both variants share one request through SWR's cache
+const useRelatedPosts = (slug: string) =>
+  useSWR<{ blogs: BlogWithAuthors[] }>(
+    `/api/blogs/${slug}/related`,
+    fetcher
+  );
+
+const CompactList = ({ blogs }: { blogs: BlogWithAuthors[] }) => (
+  <div className="max-w-xs w-full bg-white rounded-lg shadow-lg border border-gray-200 p-4 mt-4">
+    <p className="text-lg font-semibold text-[#7B00D3]">Read next</p>
+    <ul className="mt-3 space-y-3">
+      {blogs.map((blog) => (
+        <li key={blog.id}>
+          <Link href={`/blog/${blog.slug}`} className="group block">
+            <p className="text-sm font-medium text-gray-800 line-clamp-2 group-hover:text-[#7B00D3]">
+              {blog.title}
+            </p>
+            {blog.readingTime > 0 && (
+              <p className="text-xs text-gray-500">
+                {formatReadingTime(blog.readingTime)}
+              </p>
+            )}
+          </Link>
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+const Rail = ({ blogs }: { blogs: BlogWithAuthors[] }) => (
+  <section className="mt-10" aria-labelledby="related-posts">
+    <p id="related-posts" className="text-xs font-semibold mb-3">
+      RELATED POSTS
+    </p>
+    <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-4 gap-4">
+      {blogs.map((blog) => (
+        <Link
+          key={blog.id}
+          href={`/blog/${blog.slug}`}
+          className="group rounded-xl border border-gray-200 overflow-hidden hover:border-[#7B00D3] transition-colors"
+        >
+          {blog.bannerUrl && (
+            <Image
+              src={blog.bannerUrl}
+              alt={blog.title}
+              width={400}
+              height={300}
+              className="aspect-[4/3] w-full object-cover group-hover:scale-105 transition-transform duration-300"
+            />
+          )}
+          <div className="p-3">
+            <p className="text-sm font-semibold line-clamp-2 group-hover:text-[#7B00D3]">
+              {blog.title}
+            </p>
+            <p className="mt-1 text-xs text-gray-500">
+              {format(blog.publishedAt ?? blog.createdAt, "MMM dd, yyyy")}
+              {blog.readingTime > 0 &&
+                ` · ${formatReadingTime(blog.readingTime)}`}
+            </p>
+          </div>
+        </Link>
+      ))}
+    </div>
+  </section>
+);
+
+// Posts sharing topics, tags or content with the current one. Renders
+// nothing until there is something to recommend
+const RelatedPosts = ({
+  slug,
+  variant = "rail",
+}: {
+  slug: string;
+  variant?: "rail" | "compact";
+}) => {
+  const { data } = useRelatedPosts(slug);
+  const blogs = data?.blogs ?? [];
+  if (blogs.length === 0) return null;
+
+  return variant === "compact" ? (
+    <CompactList blogs={blogs} />
+  ) : (
+    <Rail blogs={blogs} />
+  );
+};
+
+export default RelatedPosts;
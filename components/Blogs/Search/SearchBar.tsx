@@ -11,6 +11,7 @@ import {
   fetchSearchResults,
   setSearchQuery,
   clearSearch,
+  SearchResult,
 } from "@/store/searchSlice";
 import { fetchBlogs } from "@/store/blogSlice";
 import Link from "next/link";
@@ -19,7 +20,14 @@ import { format } from "date-fns";
 import { motion, AnimatePresence } from "framer-motion";
 import Loading from "@/app/loading";
 import { debounce } from "@/utils/debounce";
-import { Blog } from "@/generated/prisma";
+import { SearchSuggestions, splitHighlights } from "@/lib/search";
+import useSWR from "swr";
+
+const fetcher = (url: string) =>
+  fetch(url).then((res) => {
+    if (!res.ok) throw new Error("Failed to fetch suggestions");
+    return res.json();
+  });
 
 const SearchBar = () => {
   const inputRef = useRef<HTMLInputElement>(null);
@@ -29,6 +37,8 @@ const SearchBar = () => {
   const observerRef = useRef<IntersectionObserver | null>(null);
   const loadMoreRef = useRef<HTMLDivElement | null>(null);
   const [searchQ, setSearchQ] = useState("");
+  // Trails searchQ by the debounce so suggestions are not fetched per key
+  const [suggestQ, setSuggestQ] = useState("");
 
   const {
     isActivated,
@@ -37,6 +47,7 @@ const SearchBar = () => {
     status: searchStatus,
     error: searchError,
     pagination,
+    suggestion,
   } = useSelector((state: RootState) => state.search);
   const {
     ids: blogIds,
@@ -49,6 +60,11 @@ const SearchBar = () => {
     .map((id) => searchEntities.blogs[id])
     .filter(Boolean);
 
+  const { data: suggestions } = useSWR<SearchSuggestions>(
+    suggestQ ? `/api/search/suggest?q=${encodeURIComponent(suggestQ)}` : null,
+    fetcher
+  );
+
   // Initial blog fetch
   useEffect(() => {
     if (!blogIds.length && blogStatus.fetchBlogs === "idle") {
@@ -67,7 +83,14 @@ const SearchBar = () => {
   const handleSearch = useCallback(
     (query: string, page: number) => {
       if (query.trim()) {
-        dispatch(fetchSearchResults({ query, limit: pagination.limit, page }));
+        dispatch(
+          fetchSearchResults({
+            query,
+            limit: pagination.limit,
+            page,
+            sort: "relevance",
+          })
+        );
       } else {
         dispatch(clearSearch());
       }
@@ -76,7 +99,11 @@ const SearchBar = () => {
   );
 
   const { debounced: debouncedSearch, cancel: cancelDebounce } = useMemo(
-    () => debounce((value: string) => handleSearch(value, 1), 200),
+    () =>
+      debounce((value: string) => {
+        handleSearch(value, 1);
+        setSuggestQ(value.trim());
+      }, 200),
     [handleSearch]
   );
 
@@ -150,6 +177,15 @@ const SearchBar = () => {
     debouncedSearch(value);
   };
 
+  // Runs the corrected query straight away
+  const handleSuggestion = (value: string) => {
+    cancelDebounce();
+    setSearchQ(value);
+    setSuggestQ(value);
+    dispatch(setSearchQuery(value));
+    handleSearch(value, 1);
+  };
+
   // Animation variants
   const overlayVariants = {
     hidden: { opacity: 0, y: -50 },
@@ -223,12 +259,21 @@ const SearchBar = () => {
                 </p>
               )}
 
+              {searchQ.length > 0 && suggestions && (
+                <Suggestions
+                  suggestions={suggestions}
+                  closeSearch={closeSearch}
+                />
+              )}
+
               <div className="mt-6 pb-8">
                 {searchQ.length > 0 ? (
                   <SearchResults
                     blogs={searchResults}
                     status={searchStatus.fetchSearchResults}
                     error={searchError.fetchSearchResults}
+                    suggestion={suggestion}
+                    onSuggestion={handleSuggestion}
                     closeSearch={closeSearch}
                   />
                 ) : (
@@ -261,19 +306,80 @@ const SearchBar = () => {
 };
 
 interface ResultsProps {
-  blogs: Blog[];
+  blogs: SearchResult[];
   status: string;
   error: string | null;
+  suggestion: string | null;
+  onSuggestion: (value: string) => void;
   closeSearch: () => void;
 }
 
 interface DefaultResultsProps {
-  posts: Blog[];
+  posts: SearchResult[];
   status: string;
   closeSearch: () => void;
 }
 
-const SearchResults = ({ blogs, status, error, closeSearch }: ResultsProps) => (
+// Title completions and matching tags/topics shown while typing
+const Suggestions = ({
+  suggestions,
+  closeSearch,
+}: {
+  suggestions: SearchSuggestions;
+  closeSearch: () => void;
+}) => {
+  const { titles, tags, topics } = suggestions;
+  if (!titles.length && !tags.length && !topics.length) return null;
+
+  return (
+    <div className="mt-3 border rounded-lg p-3 space-y-2 text-sm">
+      {titles.map((item) => (
+        <Link
+          key={item.slug}
+          href={`/blog/${item.slug}`}
+          onClick={closeSearch}
+          className="flex items-center gap-2 hover:text-[#7B00D3]"
+        >
+          <FiSearch className="shrink-0 text-gray-400" />
+          {item.title}
+        </Link>
+      ))}
+      {(tags.length > 0 || topics.length > 0) && (
+        <div className="flex flex-wrap items-center gap-2">
+          {tags.map((tag) => (
+            <Link
+              key={`tag-${tag.slug}`}
+              href={`/tags?q=${tag.slug}`}
+              onClick={closeSearch}
+              className="px-2 py-0.5 border border-[#7B00D3] text-[#7B00D3] text-xs rounded-full hover:bg-[#7B00D3]/10"
+            >
+              #{tag.name}
+            </Link>
+          ))}
+          {topics.map((topic) => (
+            <Link
+              key={`topic-${topic.slug}`}
+              href={`/topics?q=${topic.slug}`}
+              onClick={closeSearch}
+              className="px-2 py-0.5 border border-gray-400 text-gray-600 text-xs rounded-full hover:bg-gray-100"
+            >
+              {topic.name}
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const SearchResults = ({
+  blogs,
+  status,
+  error,
+  suggestion,
+  onSuggestion,
+  closeSearch,
+}: ResultsProps) => (
   <div className="w-full">
     {status === "loading" && blogs.length === 0 && (
       <p className="text-center text-gray-500">Searching...</p>
@@ -286,6 +392,19 @@ const SearchResults = ({ blogs, status, error, closeSearch }: ResultsProps) => (
     {status !== "loading" && blogs.length === 0 && (
       <p className="text-center text-gray-500">No results found</p>
     )}
+    {status === "succeeded" && blogs.length === 0 && suggestion && (
+      <p className="text-center text-gray-500 mt-2">
+        Did you mean{" "}
+        <button
+          type="button"
+          onClick={() => onSuggestion(suggestion)}
+          className="font-semibold italic text-[#7B00D3] hover:underline"
+        >
+          {suggestion}
+        </button>
+        ?
+      </p>
+    )}
     {blogs.length > 0 && (
       <div className="grid gap-4 sm:grid-cols-2">
         {blogs.map((blog) => (
@@ -318,7 +437,22 @@ const DefaultResults = ({
   </div>
 );
 
-const BlogItem = ({ blog, onClick }: { blog: Blog; onClick: () => void }) => (
+// Renders ts_headline output with the matched terms marked
+const Highlighted = ({ value }: { value: string }) => (
+  <>
+    {splitHighlights(value).map((part, i) =>
+      part.highlighted ? (
+        <mark key={i} className="bg-[#7B00D3]/20 text-inherit rounded px-0.5">
+          {part.text}
+        </mark>
+      ) : (
+        <span key={i}>{part.text}</span>
+      )
+    )}
+  </>
+);
+
+const BlogItem = ({ blog, onClick }: { blog: SearchResult; onClick: () => void }) => (
   <Link
     href={`/blog/${blog.slug}`}
     onClick={onClick}
@@ -328,7 +462,7 @@ const BlogItem = ({ blog, onClick }: { blog: Blog; onClick: () => void }) => (
       <div className="flex items-center gap-2">
         {blog.topics[0] && (
           <p className="px-2 py-0.5 border border-[#7B00D3] text-[#7B00D3] text-[10px] rounded-full">
-            {blog.topics[0].replace("_", " ")}
+            {blog.topics[0].name}
           </p>
         )}
         <hr className="bg-gray-300 w-[1px] h-4" />
@@ -336,7 +470,18 @@ const BlogItem = ({ blog, onClick }: { blog: Blog; onClick: () => void }) => (
           {format(new Date(blog.createdAt), "MMMM dd, yyyy")}
         </p>
       </div>
-      <h3 className="text-2xl font-semibold line-clamp-2">{blog.title}</h3>
+      <h3 className="text-2xl font-semibold line-clamp-2">
+        {blog.highlight ? (
+          <Highlighted value={blog.highlight.title} />
+        ) : (
+          blog.title
+        )}
+      </h3>
+      {blog.highlight?.snippet && (
+        <p className="text-sm text-gray-600 line-clamp-3">
+          <Highlighted value={blog.highlight.snippet} />
+        </p>
+      )}
     </div>
     <Image
       src={blog.bannerUrl || "/placeholder.png"}
@@ -0,0 +1,140 @@
+"use client";
+import Link from "next/link";
+import useSWR from "swr";
+import { FiArrowLeft, FiArrowRight } from "react-icons/fi";
+import { formatReadingTime } from "@/lib/contentStats";
+import {
+  findAdjacentParts,
+  SeriesPart,
+  SeriesRef,
+  SeriesWithParts,
+} from "@/lib/series";
+
+const fetcher = (url: string) =>
+  fetch(url).then((res) => {
+    if (!res.ok) throw new Error("Failed to fetch series");
+    return res.json();
+  });
+
+// Both variants share one request through SWR's cache
+export const useSeries = (slug: string, fallbackData?: SeriesWithParts) =>
+  useSWR<SeriesWithParts>(`/api/series?slug=${slug}`, fetcher, {
+    fallbackData,
+  });
+
+const Contents = ({
+  series,
+  parts,
+  current,
+}: {
+  series: SeriesRef;
+  parts: SeriesPart[];
+  current: number;
+}) => (
+  <nav
+    aria-label={`Series: ${series.title}`}
+    className="rounded-xl border border-[#7B00D3]/40 bg-[#7B00D3]/5 p-4 mb-6"
+  >
+    <p className="text-xs font-semibold text-gray-500">
+      {current >= 0
+        ? `PART ${current + 1} OF ${parts.length} IN THE SERIES`
+        : "PART OF THE SERIES"}
+    </p>
+    <Link
+      href={`/series/${series.slug}`}
+      className="text-lg font-semibold text-[#7B00D3] hover:text-[#6A00B8]"
+    >
+      {series.title}
+    </Link>
+    <ol className="mt-3 space-y-1 list-decimal list-inside text-sm">
+      {parts.map((part, i) =>
+        i === current ? (
+          <li key={part.id} className="font-semibold" aria-current="page">
+            {part.title}
+          </li>
+        ) : (
+          <li key={part.id}>
+            <Link
+              href={`/blog/${part.slug}`}
+              className="text-gray-700 hover:text-[#7B00D3]"
+            >
+              {part.title}
+            </Link>
+            {part.readingTime > 0 && (
+              <span className="text-xs text-gray-400">
+                {` · ${formatReadingTime(part.readingTime)}`}
+              </span>
+            )}
+          </li>
+        )
+      )}
+    </ol>
+  </nav>
+);
+
+const Pager = ({
+  previous,
+  next,
+}: {
+  previous: SeriesPart | null;
+  next: SeriesPart | null;
+}) => (
+  <nav
+    aria-label="Series navigation"
+    className="mt-10 grid grid-cols-1 sm:grid-cols-2 gap-4"
+  >
+    {previous ? (
+      <Link
+        href={`/blog/${previous.slug}`}
+        className="group rounded-xl border border-gray-200 p-4 hover:border-[#7B00D3] transition-colors"
+      >
+        <p className="flex items-center gap-1 text-xs text-gray-500">
+          <FiArrowLeft /> Previous part
+        </p>
+        <p className="mt-1 font-semibold line-clamp-2 group-hover:text-[#7B00D3]">
+          {previous.title}
+        </p>
+      </Link>
+    ) : (
+      <div className="hidden sm:block" />
+    )}
+    {next && (
+      <Link
+        href={`/blog/${next.slug}`}
+        className="group rounded-xl border border-gray-200 p-4 text-right hover:border-[#7B00D3] transition-colors"
+      >
+        <p className="flex items-center justify-end gap-1 text-xs text-gray-500">
+          Next part <FiArrowRight />
+        </p>
+        <p className="mt-1 font-semibold line-clamp-2 group-hover:text-[#7B00D3]">
+          {next.title}
+        </p>
+      </Link>
+    )}
+  </nav>
+);
+
+// Table of contents of the series a post belongs to, or the links to the
+// parts either side of it
+const SeriesNav = ({
+  series,
+  slug,
+  variant = "toc",
+}: {
+  series: SeriesRef;
+  // The post being read
+  slug: string;
+  variant?: "toc" | "pager";
+}) => {
+  const { data } = useSeries(series.slug);
+  const parts = data?.posts ?? [];
+  if (parts.length === 0) return null;
+
+  const { index, previous, next } = findAdjacentParts(parts, slug);
+  if (variant === "pager") {
+    return previous || next ? <Pager previous={previous} next={next} /> : null;
+  }
+  return <Contents series={series} parts={parts} current={index} />;
+};
+
+export default SeriesNav;
@@ -0,0 +1,189 @@
+"use client";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { SeriesRef } from "@/lib/series";
+import { Check, ChevronDown, Plus } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import useSWR from "swr";
+
+interface SeriesPickerProps {
+  // Slug of the chosen series, "" for none
+  series: string;
+  // Part number; null adds the post as the last part
+  position: number | null;
+  onChange: (series: string, position: number | null) => void;
+}
+
+type SeriesOption = SeriesRef & { _count: { posts: number } };
+
+const fetcher = (url: string) =>
+  fetch(url).then((res) => {
+    if (!res.ok) throw new Error("Failed to fetch series");
+    return res.json();
+  });
+
+const SeriesPicker: React.FC<SeriesPickerProps> = ({
+  series,
+  position,
+  onChange,
+}) => {
+  const { data, error, isLoading, mutate } = useSWR<{
+    series: SeriesOption[];
+  }>("/api/series", fetcher);
+  const [query, setQuery] = useState("");
+  const [open, setOpen] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const options = data?.series ?? [];
+  const selected = options.find((option) => option.slug === series);
+
+  const handleSelect = (slug: string) => {
+    onChange(slug === series ? "" : slug, null);
+    setOpen(false);
+  };
+
+  // Creates a series named after the search text and selects it
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+      const response = await fetch("/api/series", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ title: query.trim() }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(
+          typeof result?.error === "string"
+            ? result.error
+            : "Failed to create series"
+        );
+      }
+      await mutate();
+      onChange(result.slug, null);
+      setQuery("");
+      setOpen(false);
+      toast.success(`Series "${result.title}" created`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const canCreate =
+    query.trim() !== "" &&
+    !options.some(
+      (option) => option.title.toLowerCase() === query.trim().toLowerCase()
+    );
+
+  return (
+    <div className="flex flex-col sm:flex-row gap-2">
+      <div className="w-full">
+        <label htmlFor="series" className="block text-sm font-medium">
+          Series (optional)
+        </label>
+        <Popover open={open} onOpenChange={setOpen}>
+          <PopoverTrigger asChild>
+            <button
+              type="button"
+              id="series"
+              className="w-full flex items-center justify-between border border-gray-300 rounded p-1.5 mt-1"
+            >
+              {selected?.title ?? (series || "Select Series...")}
+              <ChevronDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+            </button>
+          </PopoverTrigger>
+          <PopoverContent className="w-full p-0">
+            <Command className="w-full text-gray-600">
+              <CommandInput
+                placeholder="Search or create a series..."
+                className="w-full"
+                aria-label="Search series"
+                value={query}
+                onValueChange={setQuery}
+              />
+              <CommandList>
+                {isLoading && <CommandEmpty>Loading series...</CommandEmpty>}
+                {error && <CommandEmpty>{error.message}</CommandEmpty>}
+                <CommandGroup>
+                  <CommandItem value="None" onSelect={() => handleSelect("")}>
+                    None
+                    <Check
+                      className={`ml-auto ${
+                        series ? "opacity-0" : "opacity-100"
+                      }`}
+                    />
+                  </CommandItem>
+                  {options.map((option) => (
+                    <CommandItem
+                      key={option.slug}
+                      value={option.title}
+                      onSelect={() => handleSelect(option.slug)}
+                    >
+                      {option.title}
+                      <span className="text-xs text-gray-400">
+                        {option._count.posts} parts
+                      </span>
+                      <Check
+                        className={`ml-auto ${
+                          option.slug === series ? "opacity-100" : "opacity-0"
+                        }`}
+                      />
+                    </CommandItem>
+                  ))}
+                  {canCreate && (
+                    <CommandItem
+                      value={query}
+                      disabled={isCreating}
+                      onSelect={handleCreate}
+                    >
+                      <Plus className="h-4 w-4" />
+                      Create &quot;{query.trim()}&quot;
+                    </CommandItem>
+                  )}
+                </CommandGroup>
+              </CommandList>
+            </Command>
+          </PopoverContent>
+        </Popover>
+      </div>
+
+      {series && (
+        <div className="sm:w-40">
+          <label htmlFor="seriesPosition" className="block text-sm font-medium">
+            Part
+          </label>
+          <input
+            type="number"
+            id="seriesPosition"
+            min={1}
+            step={1}
+            value={position ?? ""}
+            onChange={(e) =>
+              onChange(
+                series,
+                e.target.value ? Math.max(1, parseInt(e.target.value, 10)) : null
+              )
+            }
+            placeholder="Last"
+            className="w-full p-2 border rounded focus:ring-2 focus:ring-[#7B00D3] focus:border-[#7B00D3] outline-none mt-1"
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SeriesPicker;
@@ -0,0 +1,137 @@
+"use client";
+import { ShareChannel } from "@/generated/prisma";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { SHARE_CHANNEL_LABELS, shareLinks, toMarkdownLink } from "@/lib/share";
+import { useEffect, useState } from "react";
+import { FiCopy, FiShare2 } from "react-icons/fi";
+import { IoIosLink } from "react-icons/io";
+import { toast } from "sonner";
+
+// Tracking must never get in the way of sharing, so failures are ignored
+const trackShare = (slug: string, channel: ShareChannel) =>
+  fetch(`/api/blogs/${slug}/shares`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ channel }),
+    keepalive: true,
+  }).catch(() => undefined);
+
+const itemClassName =
+  "flex items-center gap-2 w-full px-3 py-2 rounded text-sm text-left hover:bg-[#7B00D3]/10 hover:text-[#7B00D3]";
+
+// The SHARE column of a post: the device's share sheet where supported,
+// links to the common networks, and copying the URL or a markdown link
+const SharePanel = ({
+  slug,
+  title,
+  text,
+}: {
+  slug: string;
+  title: string;
+  text?: string;
+}) => {
+  const [url, setUrl] = useState("");
+  const [canShareNatively, setCanShareNatively] = useState(false);
+  const [open, setOpen] = useState(false);
+
+  // Read on mount, as neither is known while rendering on the server
+  useEffect(() => {
+    setUrl(`${window.location.origin}/blog/${slug}`);
+    setCanShareNatively(typeof navigator.share === "function");
+  }, [slug]);
+
+  const handleNativeShare = async () => {
+    try {
+      await navigator.share({ title, text, url });
+      trackShare(slug, ShareChannel.NATIVE);
+      setOpen(false);
+    } catch (err) {
+      // Closing the share sheet is not an error
+      if (err instanceof Error && err.name === "AbortError") return;
+      toast.error("Sharing is not available here");
+    }
+  };
+
+  const handleCopy = async (
+    channel: typeof ShareChannel.COPY_LINK | typeof ShareChannel.COPY_MARKDOWN
+  ) => {
+    const value =
+      channel === ShareChannel.COPY_MARKDOWN ? toMarkdownLink(url, title) : url;
+    try {
+      await navigator.clipboard.writeText(value);
+      trackShare(slug, channel);
+      toast.success(
+        channel === ShareChannel.COPY_MARKDOWN
+          ? "Markdown link copied"
+          : "Link copied"
+      );
+      setOpen(false);
+    } catch {
+      toast.error("Could not copy to the clipboard");
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center justify-center gap-1">
+      <p className="text-gray text-xs lg:text-sm font-semibold">SHARE</p>
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <button
+            type="button"
+            aria-label="Share this post"
+            className="border-gray text-gray border rounded-full w-fit p-1.5 cursor-pointer active:bg-gray active:text-white"
+          >
+            <FiShare2 size={20} />
+          </button>
+        </PopoverTrigger>
+        <PopoverContent side="right" align="start" className="w-56 p-1">
+          {canShareNatively && (
+            <button
+              type="button"
+              onClick={handleNativeShare}
+              className={itemClassName}
+            >
+              <FiShare2 /> {SHARE_CHANNEL_LABELS.NATIVE}
+            </button>
+          )}
+          {shareLinks(url, title).map(({ channel, href }) => (
+            <a
+              key={channel}
+              href={href}
+              target="_blank"
+              rel="noopener noreferrer"
+              onClick={() => {
+                trackShare(slug, channel);
+                setOpen(false);
+              }}
+              className={itemClassName}
+            >
+              {SHARE_CHANNEL_LABELS[channel]}
+            </a>
+          ))}
+          <hr className="my-1" />
+          <button
+            type="button"
+            onClick={() => handleCopy(ShareChannel.COPY_LINK)}
+            className={itemClassName}
+          >
+            <IoIosLink /> {SHARE_CHANNEL_LABELS.COPY_LINK}
+          </button>
+          <button
+            type="button"
+            onClick={() => handleCopy(ShareChannel.COPY_MARKDOWN)}
+            className={itemClassName}
+          >
+            <FiCopy /> {SHARE_CHANNEL_LABELS.COPY_MARKDOWN}
+          </button>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+};
+
+export default SharePanel;
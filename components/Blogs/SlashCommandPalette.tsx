@@ -0,0 +1,71 @@
+"use client";
+import { useEffect, useRef } from "react";
+import { SlashCommand } from "./slashCommands";
+
+export const SLASH_PALETTE_ID = "slash-command-palette";
+
+export const slashOptionId = (command: SlashCommand) =>
+  `${SLASH_PALETTE_ID}-${command.id}`;
+
+interface SlashCommandPaletteProps {
+  commands: SlashCommand[];
+  selectedIndex: number;
+  // Where to open, relative to the textarea's container
+  position: { top: number; left: number };
+  onSelect: (command: SlashCommand) => void;
+  onHover: (index: number) => void;
+}
+
+// Commands matching what was typed after "/", shown under the caret. Focus
+// stays in the textarea, which moves through them with the arrow keys
+const SlashCommandPalette: React.FC<SlashCommandPaletteProps> = ({
+  commands,
+  selectedIndex,
+  position,
+  onSelect,
+  onHover,
+}) => {
+  const listRef = useRef<HTMLUListElement>(null);
+
+  useEffect(() => {
+    listRef.current?.children[selectedIndex]?.scrollIntoView({
+      block: "nearest",
+    });
+  }, [selectedIndex]);
+
+  return (
+    <ul
+      ref={listRef}
+      id={SLASH_PALETTE_ID}
+      role="listbox"
+      aria-label="Insert block"
+      style={position}
+      className="absolute bg-white border rounded-md shadow-md w-64 max-h-72 overflow-y-auto z-10 py-1"
+    >
+      {commands.length === 0 ? (
+        <li className="px-3 py-2 text-sm text-gray-500">No matching blocks</li>
+      ) : (
+        commands.map((command, index) => (
+          <li
+            key={command.id}
+            id={slashOptionId(command)}
+            role="option"
+            aria-selected={selectedIndex === index}
+            // Keeps the textarea focused, and its caret where it was
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => onSelect(command)}
+            onMouseEnter={() => onHover(index)}
+            className={`px-3 py-2 flex items-center gap-2 text-sm cursor-pointer ${
+              selectedIndex === index ? "bg-gray-200" : ""
+            }`}
+          >
+            <span className="text-gray-600">{command.icon}</span>
+            {command.name}
+          </li>
+        ))
+      )}
+    </ul>
+  );
+};
+
+export default SlashCommandPalette;
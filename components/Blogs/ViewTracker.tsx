@@ -0,0 +1,52 @@
+"use client";
+import { useCallback, useEffect, useRef } from "react";
+import { toDepthMilestone } from "@/lib/analytics";
+import { useHeadsObserver } from "@/utils/TOC";
+
+// Random id for the tab's lifetime; nothing identifies the reader and it is
+// gone once the tab closes
+const SESSION_KEY = "viewSession";
+
+const getSessionId = () => {
+  let id = sessionStorage.getItem(SESSION_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    sessionStorage.setItem(SESSION_KEY, id);
+  }
+  return id;
+};
+
+// Analytics must never get in the way of reading, so failures are ignored
+const sendView = (slug: string, depth: number) =>
+  fetch(`/api/blogs/${slug}/views`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ sessionId: getSessionId(), depth }),
+    keepalive: true,
+  }).catch(() => undefined);
+
+// Counts a view of the post once per session, then reports each scroll-depth
+// milestone as the reader passes the post's headings
+const ViewTracker = ({ slug }: { slug: string }) => {
+  const reachedRef = useRef(0);
+
+  useEffect(() => {
+    reachedRef.current = 0;
+    sendView(slug, 0);
+  }, [slug]);
+
+  const handleHeadingReached = useCallback(
+    (index: number, total: number) => {
+      const milestone = toDepthMilestone(((index + 1) / total) * 100);
+      if (milestone <= reachedRef.current) return;
+      reachedRef.current = milestone;
+      sendView(slug, milestone);
+    },
+    [slug]
+  );
+  useHeadsObserver(handleHeadingReached);
+
+  return null;
+};
+
+export default ViewTracker;
@@ -0,0 +1,220 @@
+import {
+  FaBold,
+  FaItalic,
+  FaStrikethrough,
+  FaListUl,
+  FaListOl,
+  FaQuoteRight,
+  FaLink,
+  FaCode,
+  FaHeading,
+  FaImage,
+  FaMinus,
+  FaCheckSquare,
+  FaTable,
+  FaSuperscript,
+} from "react-icons/fa";
+import {
+  MdOutlineSmartDisplay,
+  MdPhotoLibrary,
+  MdUnfoldMore,
+} from "react-icons/md";
+import { CALLOUT_LABELS, CALLOUT_TYPES } from "@/lib/markdownBlocks";
+import {
+  insertBlock,
+  insertFootnote,
+  insertText,
+  TextChange,
+  toggleHeading,
+  toggleWrap,
+} from "@/utils/markdownEditing";
+import { fuzzyFilter } from "@/utils/fuzzyMatch";
+import { CALLOUT_ICONS } from "./MarkdownBlocks";
+
+export interface SlashCommandContext {
+  // The content with the typed "/command" taken out, and where it was
+  value: string;
+  start: number;
+  end: number;
+  openImageLibrary: () => void;
+}
+
+export interface SlashCommand {
+  id: string;
+  name: string;
+  // Other words the command can be found by
+  keywords?: string[];
+  icon: React.ReactNode;
+  // The edit to make, or null for commands that open something instead
+  run: (context: SlashCommandContext) => TextChange | null;
+}
+
+const TABLE = [
+  "| Column 1 | Column 2 | Column 3 |",
+  "| --- | --- | --- |",
+  "|  |  |  |",
+  "|  |  |  |",
+].join("\n");
+
+const CODE_BLOCK = "```js\ncode\n```";
+
+// Commands offered after typing "/" in the editor, in the order shown before
+// anything is typed after the slash. A new command only needs an entry here
+export const SLASH_COMMANDS: SlashCommand[] = [
+  ...[1, 2, 3, 4, 5, 6].map(
+    (level): SlashCommand => ({
+      id: `heading-${level}`,
+      name: `Heading ${level}`,
+      keywords: [`h${level}`, "title"],
+      icon: <FaHeading />,
+      run: ({ value, start, end }) => toggleHeading(value, start, end, level),
+    })
+  ),
+  {
+    id: "bold",
+    name: "Bold",
+    keywords: ["strong"],
+    icon: <FaBold />,
+    run: ({ value, start, end }) => toggleWrap(value, start, end, "**"),
+  },
+  {
+    id: "italic",
+    name: "Italic",
+    keywords: ["emphasis"],
+    icon: <FaItalic />,
+    run: ({ value, start, end }) => toggleWrap(value, start, end, "*"),
+  },
+  {
+    id: "strikethrough",
+    name: "Strikethrough",
+    icon: <FaStrikethrough />,
+    run: ({ value, start, end }) => toggleWrap(value, start, end, "~~"),
+  },
+  {
+    id: "bullet-list",
+    name: "Bullet list",
+    keywords: ["unordered"],
+    icon: <FaListUl />,
+    run: ({ value, start, end }) => insertText(value, start, end, "- "),
+  },
+  {
+    id: "numbered-list",
+    name: "Numbered list",
+    keywords: ["ordered"],
+    icon: <FaListOl />,
+    run: ({ value, start, end }) => insertText(value, start, end, "1. "),
+  },
+  {
+    id: "task-list",
+    name: "Task list",
+    keywords: ["checkbox", "todo"],
+    icon: <FaCheckSquare />,
+    run: ({ value, start, end }) => insertText(value, start, end, "- [ ] "),
+  },
+  {
+    id: "quote",
+    name: "Quote",
+    keywords: ["blockquote"],
+    icon: <FaQuoteRight />,
+    run: ({ value, start, end }) => insertText(value, start, end, "> "),
+  },
+  {
+    id: "divider",
+    name: "Divider",
+    keywords: ["horizontal rule", "hr", "separator"],
+    icon: <FaMinus />,
+    run: ({ value, start, end }) => insertBlock(value, start, end, "---"),
+  },
+  {
+    id: "link",
+    name: "Link",
+    keywords: ["url"],
+    icon: <FaLink />,
+    run: ({ value, start, end }) =>
+      toggleWrap(value, start, end, "[", "](https://)"),
+  },
+  {
+    id: "code-block",
+    name: "Code block",
+    keywords: ["snippet", "pre"],
+    icon: <FaCode />,
+    run: ({ value, start, end }) =>
+      insertBlock(value, start, end, CODE_BLOCK, [6, 10]),
+  },
+  {
+    id: "table",
+    name: "Table",
+    keywords: ["grid", "columns"],
+    icon: <FaTable />,
+    run: ({ value, start, end }) =>
+      insertBlock(value, start, end, TABLE, [2, 10]),
+  },
+  ...CALLOUT_TYPES.map(
+    (type): SlashCommand => ({
+      id: `callout-${type}`,
+      name: `${CALLOUT_LABELS[type]} callout`,
+      keywords: ["callout", "alert", "admonition"],
+      icon: CALLOUT_ICONS[type],
+      run: ({ value, start, end }) => {
+        const marker = `> [!${type.toUpperCase()}]\n> `;
+        return insertBlock(value, start, end, `${marker}Text`, [
+          marker.length,
+          marker.length + 4,
+        ]);
+      },
+    })
+  ),
+  {
+    id: "details",
+    name: "Collapsible section",
+    keywords: ["details", "toggle", "spoiler", "accordion"],
+    icon: <MdUnfoldMore />,
+    run: ({ value, start, end }) =>
+      insertBlock(value, start, end, "> [!DETAILS] Summary\n> Hidden text", [
+        13, 20,
+      ]),
+  },
+  {
+    id: "embed",
+    name: "Embed",
+    keywords: ["youtube", "vimeo", "codepen", "video"],
+    icon: <MdOutlineSmartDisplay />,
+    run: ({ value, start, end }) =>
+      insertBlock(value, start, end, "> [!EMBED] https://"),
+  },
+  {
+    id: "footnote",
+    name: "Footnote",
+    keywords: ["reference", "citation"],
+    icon: <FaSuperscript />,
+    run: ({ value, start, end }) => insertFootnote(value, start, end),
+  },
+  {
+    id: "image",
+    name: "Image from URL",
+    keywords: ["picture", "photo"],
+    icon: <FaImage />,
+    run: ({ value, start, end }) => ({
+      ...insertText(value, start, end, "![Image](https://)"),
+      // Selects the alt text to describe the image
+      selectionStart: start + 2,
+      selectionEnd: start + 7,
+    }),
+  },
+  {
+    id: "image-library",
+    name: "Image from library",
+    keywords: ["picture", "photo", "upload", "media"],
+    icon: <MdPhotoLibrary />,
+    run: ({ openImageLibrary }) => {
+      openImageLibrary();
+      return null;
+    },
+  },
+];
+
+export const filterSlashCommands = (query: string) =>
+  fuzzyFilter(SLASH_COMMANDS, query, (command) => [
+    command.name,
+    ...(command.keywords ?? []),
+  ]);
@@ -0,0 +1,113 @@
+"use client";
+
+import { CommentStatus } from "@/generated/prisma";
+import { COMMENT_MAX_LENGTH, CommentRef } from "@/lib/comments";
+import { RootState } from "@/store/store";
+import { useState } from "react";
+import { useSelector } from "react-redux";
+import { toast } from "sonner";
+
+interface CommentFormProps {
+  slug: string;
+  parentId?: string;
+  onPosted: (comment: CommentRef) => void;
+  onCancel?: () => void;
+}
+
+// Validation errors come back as a zod tree, so only plain messages are shown
+const errorMessage = (errorData: { error?: unknown } | null) =>
+  typeof errorData?.error === "string" ? errorData.error : "Request failed";
+
+const CommentForm = ({
+  slug,
+  parentId,
+  onPosted,
+  onCancel,
+}: CommentFormProps) => {
+  const { user } = useSelector((state: RootState) => state.auth);
+  const [body, setBody] = useState("");
+  const [authorName, setAuthorName] = useState("");
+  const [isPosting, setIsPosting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsPosting(true);
+    try {
+      const response = await fetch(`/api/blogs/${slug}/comments`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          body,
+          parentId,
+          authorName: user ? undefined : authorName,
+        }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null);
+        throw new Error(errorMessage(errorData));
+      }
+      const comment: CommentRef = await response.json();
+      toast.success(
+        comment.status === CommentStatus.APPROVED
+          ? "Comment posted"
+          : "Thanks! Your comment is awaiting moderation"
+      );
+      setBody("");
+      onPosted(comment);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      {!user && (
+        <input
+          value={authorName}
+          onChange={(e) => setAuthorName(e.target.value)}
+          placeholder="Your name"
+          aria-label="Your name"
+          required
+          maxLength={80}
+          className="w-full sm:w-1/2 p-2 border rounded focus:ring-2 focus:ring-[#7B00D3] focus:border-[#7B00D3] outline-none"
+        />
+      )}
+      <textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder={
+          parentId
+            ? "Write a reply..."
+            : "Join the discussion (Markdown supported)"
+        }
+        aria-label={parentId ? "Reply" : "Comment"}
+        required
+        maxLength={COMMENT_MAX_LENGTH}
+        rows={parentId ? 3 : 4}
+        className="w-full p-2 border rounded focus:ring-2 focus:ring-[#7B00D3] focus:border-[#7B00D3] outline-none"
+      />
+      <div className="flex items-center justify-end gap-2">
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 border rounded hover:bg-gray-100"
+          >
+            Cancel
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={isPosting || !body.trim()}
+          className="px-4 py-2 bg-[#7B00D3] text-white rounded-md hover:bg-[#6A00B8] disabled:opacity-50"
+        >
+          {isPosting ? "Posting..." : parentId ? "Reply" : "Post comment"}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default CommentForm;
@@ -0,0 +1,186 @@
+"use client";
+
+import { CommentStatus } from "@/generated/prisma";
+import { buildCommentTree, CommentNode, CommentRef } from "@/lib/comments";
+import { can } from "@/lib/roles";
+import { RootState } from "@/store/store";
+import { formatDistanceToNow } from "date-fns";
+import { useMemo, useState } from "react";
+import { useSelector } from "react-redux";
+import { toast } from "sonner";
+import useSWR from "swr";
+import Markdown from "../Blogs/Markdown";
+import CommentForm from "./CommentForm";
+
+// Deeper replies stop indenting so threads stay readable on mobile
+const MAX_INDENT_DEPTH = 4;
+
+const fetcher = (url: string) =>
+  fetch(url).then((res) => {
+    if (!res.ok) throw new Error("Failed to fetch comments");
+    return res.json();
+  });
+
+const CommentItem = ({
+  comment,
+  slug,
+  depth,
+  onChange,
+}: {
+  comment: CommentNode;
+  slug: string;
+  depth: number;
+  onChange: () => void;
+}) => {
+  const { user } = useSelector((state: RootState) => state.auth);
+  const [isReplying, setIsReplying] = useState(false);
+
+  // Moderators can take a comment down straight from the thread
+  const moderate = async (status: CommentStatus) => {
+    const response = await fetch(
+      `/api/blogs/${slug}/comments/${comment.id}`,
+      {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status }),
+      }
+    );
+    if (!response.ok) {
+      toast.error("Failed to moderate comment");
+      return;
+    }
+    toast.success(
+      status === CommentStatus.SPAM ? "Marked as spam" : "Comment rejected"
+    );
+    onChange();
+  };
+
+  return (
+    <li>
+      <div className="border rounded-xl p-3">
+        <div className="flex items-center gap-2 text-xs text-gray-500">
+          <span className="font-semibold text-black">
+            {comment.authorName}
+          </span>
+          <span>
+            {formatDistanceToNow(new Date(comment.createdAt), {
+              addSuffix: true,
+            })}
+          </span>
+        </div>
+        <div className="text-sm">
+          <Markdown restricted>{comment.body}</Markdown>
+        </div>
+        <div className="flex items-center gap-3 text-xs">
+          <button
+            type="button"
+            onClick={() => setIsReplying((prev) => !prev)}
+            className="text-[#7B00D3] hover:text-[#6A00B8]"
+          >
+            Reply
+          </button>
+          {can(user, "moderateComments") && (
+            <>
+              <button
+                type="button"
+                onClick={() => moderate(CommentStatus.REJECTED)}
+                className="text-gray-500 hover:text-red-500"
+              >
+                Reject
+              </button>
+              <button
+                type="button"
+                onClick={() => moderate(CommentStatus.SPAM)}
+                className="text-gray-500 hover:text-red-500"
+              >
+                Spam
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {isReplying && (
+        <div className="mt-2 ml-4">
+          <CommentForm
+            slug={slug}
+            parentId={comment.id}
+            onPosted={() => {
+              setIsReplying(false);
+              onChange();
+            }}
+            onCancel={() => setIsReplying(false)}
+          />
+        </div>
+      )}
+
+      {comment.replies.length > 0 && (
+        <ul
+          className={`mt-3 space-y-3 ${
+            depth < MAX_INDENT_DEPTH ? "ml-4 pl-3 border-l-2" : ""
+          }`}
+        >
+          {comment.replies.map((reply) => (
+            <CommentItem
+              key={reply.id}
+              comment={reply}
+              slug={slug}
+              depth={depth + 1}
+              onChange={onChange}
+            />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+};
+
+const CommentSection = ({ slug }: { slug: string }) => {
+  const { data, error, isLoading, mutate } = useSWR<{
+    comments: CommentRef[];
+  }>(`/api/blogs/${slug}/comments`, fetcher);
+
+  const comments = data?.comments;
+  const tree = useMemo(() => buildCommentTree(comments ?? []), [comments]);
+
+  // Only approved comments show up straight away
+  const handlePosted = (comment: CommentRef) => {
+    if (comment.status === CommentStatus.APPROVED) mutate();
+  };
+
+  return (
+    <section className="mt-10 max-w-screen-lg" aria-labelledby="comments">
+      <p id="comments" className="text-xs font-semibold mb-3">
+        COMMENTS{comments?.length ? ` (${comments.length})` : ""}
+      </p>
+
+      <CommentForm slug={slug} onPosted={handlePosted} />
+
+      <div className="mt-6">
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading comments...</p>
+        ) : error ? (
+          <p className="text-sm text-red-500">Error: {error.message}</p>
+        ) : tree.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            No comments yet. Start the conversation!
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {tree.map((comment) => (
+              <CommentItem
+                key={comment.id}
+                comment={comment}
+                slug={slug}
+                depth={0}
+                onChange={() => mutate()}
+              />
+            ))}
+          </ul>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default CommentSection;
@@ -3,16 +3,20 @@
 import Link from "next/link";
 import Image from "next/image";
 import { useEffect, useState, useCallback, useRef } from "react";
-import { useDispatch } from "react-redux";
+import { useDispatch, useSelector } from "react-redux";
 import { useRouter } from "next/navigation";
 import { debounce } from "@/utils/debounce";
 import { motion, AnimatePresence } from "framer-motion";
 import { FiMenu, FiX } from "react-icons/fi";
 import { setSearchActivated } from "@/store/searchSlice";
+import { fetchSession, logout } from "@/store/authSlice";
+import { AppDispatch, RootState } from "@/store/store";
+import { can } from "@/lib/roles";
 import SearchBar from "./Blogs/Search/SearchBar";
 
 const Navbar = () => {
-  const dispatch = useDispatch();
+  const dispatch = useDispatch<AppDispatch>();
+  const { user } = useSelector((state: RootState) => state.auth);
   const router = useRouter();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const navRef = useRef<HTMLElement>(null);
@@ -25,6 +29,17 @@ const Navbar = () => {
     { href: "/topics", label: "Topics", shortcut: "$" },
   ];
 
+  // Load the current session once
+  useEffect(() => {
+    dispatch(fetchSession());
+  }, [dispatch]);
+
+  // Log out and refresh server-rendered pages
+  const handleLogout = useCallback(async () => {
+    await dispatch(logout());
+    router.refresh();
+  }, [dispatch, router]);
+
   // Debounced navigation handler
   const navigate = useCallback(
     debounce((path: string) => {
@@ -119,6 +134,60 @@ const Navbar = () => {
             </Link>
           ))}
         </nav>
+
+        {/* Session */}
+        {user ? (
+          <div className="flex items-center gap-3 text-sm">
+            <span className="hidden sm:inline font-medium">{user.name}</span>
+            <Link href="/bookmarks" className="hover:underline">
+              Bookmarks
+            </Link>
+            {can(user, "viewDrafts") && (
+              <Link href="/drafts" className="hover:underline">
+                Drafts
+              </Link>
+            )}
+            {can(user, "deleteBlog") && (
+              <Link href="/trash" className="hover:underline">
+                Trash
+              </Link>
+            )}
+            {can(user, "manageTaxonomy") && (
+              <Link href="/taxonomies" className="hover:underline">
+                Taxonomies
+              </Link>
+            )}
+            {can(user, "moderateComments") && (
+              <Link href="/comments" className="hover:underline">
+                Comments
+              </Link>
+            )}
+            {can(user, "viewAnalytics") && (
+              <Link href="/analytics" className="hover:underline">
+                Analytics
+              </Link>
+            )}
+            <button
+              type="button"
+              onClick={handleLogout}
+              className="px-3 py-1 border border-black rounded-full hover:bg-black hover:text-white transition-colors"
+            >
+              Log out
+            </button>
+          </div>
+        ) : (
+          <div className="flex items-center gap-3 text-sm">
+            <Link href="/bookmarks" className="hover:underline">
+              Bookmarks
+            </Link>
+            <Link
+              href="/login"
+              className="px-3 py-1 border border-black rounded-full hover:bg-black hover:text-white transition-colors"
+            >
+              Log in
+            </Link>
+          </div>
+        )}
       </div>
       {/* Search Bar */}
       <SearchBar />
@@ -0,0 +1,191 @@
+"use client";
+
+import Loading from "@/app/loading";
+import {
+  ANALYTICS_RANGES,
+  AnalyticsRange,
+  AnalyticsReport,
+  PostViewSeries,
+  ViewSeries,
+} from "@/lib/analytics";
+import { SHARE_CHANNEL_LABELS } from "@/lib/share";
+import { ShareChannel } from "@/generated/prisma";
+import { format, parseISO } from "date-fns";
+import Link from "next/link";
+import { useState } from "react";
+import useSWR from "swr";
+
+type Breakdown = "posts" | "tags" | "topics";
+
+const fetcher = (url: string) =>
+  fetch(url).then((res) => {
+    if (!res.ok) throw new Error("Failed to fetch analytics");
+    return res.json();
+  });
+
+const tabs: { breakdown: Breakdown; label: string }[] = [
+  { breakdown: "posts", label: "Posts" },
+  { breakdown: "tags", label: "Tags" },
+  { breakdown: "topics", label: "Topics" },
+];
+
+// Where each row of a breakdown links to
+const hrefFor = (breakdown: Breakdown, slug: string) =>
+  breakdown === "posts"
+    ? `/blog/${slug}`
+    : `/${breakdown}?q=${encodeURIComponent(slug)}`;
+
+// Total shares of a post, with the count per channel as a tooltip
+const ShareCount = ({
+  shares,
+}: {
+  shares: Partial<Record<ShareChannel, number>>;
+}) => {
+  const channels = Object.entries(shares) as [ShareChannel, number][];
+  const total = channels.reduce((sum, [, count]) => sum + count, 0);
+  if (total === 0) return null;
+
+  return (
+    <span
+      title={channels
+        .map(([channel, count]) => `${SHARE_CHANNEL_LABELS[channel]}: ${count}`)
+        .join("\n")}
+      className="underline decoration-dotted cursor-help"
+    >
+      {` · ${total} ${total === 1 ? "share" : "shares"}`}
+    </span>
+  );
+};
+
+// Daily views as bars scaled to the busiest day
+const ViewsChart = ({
+  days,
+  daily,
+  height = 32,
+}: {
+  days: string[];
+  daily: number[];
+  height?: number;
+}) => {
+  const peak = Math.max(1, ...daily);
+  return (
+    <div className="flex items-end gap-px w-full" style={{ height }}>
+      {daily.map((views, i) => (
+        <div
+          key={days[i]}
+          title={`${format(parseISO(days[i]), "MMM dd")}: ${views} views`}
+          className="flex-1 bg-[#7B00D3]/70 hover:bg-[#7B00D3] rounded-t-sm"
+          style={{ height: `${(views / peak) * 100}%`, minHeight: 1 }}
+        />
+      ))}
+    </div>
+  );
+};
+
+const Analytics = () => {
+  const [range, setRange] = useState<AnalyticsRange>(30);
+  const [breakdown, setBreakdown] = useState<Breakdown>("posts");
+  const { data, error, isLoading } = useSWR<AnalyticsReport>(
+    `/api/analytics?days=${range}`,
+    fetcher
+  );
+
+  const rows: (ViewSeries | PostViewSeries)[] = data?.[breakdown] ?? [];
+  const totalDaily =
+    data?.days.map((_, i) =>
+      data.posts.reduce((total, post) => total + post.daily[i], 0)
+    ) ?? [];
+
+  return (
+    <section className="max-w-5xl mx-auto p-4">
+      <h1 className="text-3xl font-bold mb-4">Analytics</h1>
+
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+        <div className="flex items-center bg-gray overflow-hidden w-fit rounded-lg text-white text-sm [&_button]:px-4 [&_button]:py-1">
+          {tabs.map((tab) => (
+            <button
+              key={tab.breakdown}
+              type="button"
+              onClick={() => setBreakdown(tab.breakdown)}
+              className={`${breakdown === tab.breakdown && "bg-black/60"}`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center bg-gray overflow-hidden w-fit rounded-lg text-white text-sm [&_button]:px-4 [&_button]:py-1">
+          {ANALYTICS_RANGES.map((days) => (
+            <button
+              key={days}
+              type="button"
+              onClick={() => setRange(days)}
+              className={`${range === days && "bg-black/60"}`}
+            >
+              {days} days
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <Loading />
+      ) : error || !data ? (
+        <p className="text-center text-red-500 py-10">
+          Error: {error?.message ?? "Failed to fetch analytics"}
+        </p>
+      ) : (
+        <>
+          <div className="border rounded-xl p-4 mb-6">
+            <p className="text-sm text-gray-500">
+              Views in the last {range} days
+            </p>
+            <p className="text-3xl font-semibold text-[#7B00D3]">
+              {data.totalViews.toLocaleString()}
+            </p>
+            <div className="mt-4">
+              <ViewsChart days={data.days} daily={totalDaily} height={96} />
+            </div>
+            <div className="flex justify-between text-xs text-gray-500 mt-1">
+              {[data.days[0], data.days[data.days.length - 1]].map((day) => (
+                <span key={day}>{format(parseISO(day), "MMM dd")}</span>
+              ))}
+            </div>
+          </div>
+
+          {rows.length === 0 ? (
+            <p className="text-center text-gray-500">No views yet</p>
+          ) : (
+            <ul className="space-y-3">
+              {rows.map((row) => (
+                <li
+                  key={row.slug}
+                  className="border rounded-xl p-3 flex flex-col sm:flex-row sm:items-center gap-3"
+                >
+                  <div className="sm:w-1/3 min-w-0">
+                    <Link
+                      href={hrefFor(breakdown, row.slug)}
+                      className="font-semibold line-clamp-1 hover:text-[#7B00D3]"
+                    >
+                      {row.name}
+                    </Link>
+                    <p className="text-xs text-gray-500">
+                      {row.views.toLocaleString()} views
+                      {"averageDepth" in row &&
+                        ` · ${row.averageDepth}% read on average`}
+                      {"shares" in row && <ShareCount shares={row.shares} />}
+                    </p>
+                  </div>
+                  <div className="flex-1">
+                    <ViewsChart days={data.days} daily={row.daily} />
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </section>
+  );
+};
+
+export default Analytics;
@@ -0,0 +1,113 @@
+"use client";
+
+import Loading from "@/app/loading";
+import { AuthorRef, BlogWithAuthors } from "@/lib/authors";
+import { format } from "date-fns";
+import Image from "next/image";
+import Link from "next/link";
+import useSWR from "swr";
+import { AuthorAvatar, AuthorLinks } from "../Authors/AuthorCard";
+
+const fetcher = (url: string) =>
+  fetch(url).then((res) => {
+    if (!res.ok) throw new Error("Failed to fetch author");
+    return res.json();
+  });
+
+const AuthorProfile = ({ handle }: { handle: string }) => {
+  const {
+    data: author,
+    error,
+    isLoading,
+  } = useSWR<AuthorRef>(`/api/authors?handle=${handle}`, fetcher);
+  const { data: posts, isLoading: isPostsLoading } = useSWR<{
+    blogs: BlogWithAuthors[];
+    pagination: { totalBlogs: number };
+  }>(`/api/blogs?author=${handle}`, fetcher);
+
+  if (isLoading) return <Loading />;
+
+  if (error || !author) {
+    return (
+      <p className="text-center text-gray-500 py-10">Author not found</p>
+    );
+  }
+
+  const blogs = posts?.blogs ?? [];
+
+  return (
+    <article className="container mx-auto px-4 py-8 max-w-screen-2xl">
+      <div className="flex flex-col sm:flex-row sm:items-center gap-4 mt-8">
+        <AuthorAvatar author={author} size={96} />
+        <div className="space-y-2">
+          <h1 className="font-semibold text-2xl sm:text-3xl lg:text-4xl text-[#7B00D3]">
+            {author.name}
+          </h1>
+          {author.bio && (
+            <p className="text-sm md:text-base text-gray-600 max-w-2xl">
+              {author.bio}
+            </p>
+          )}
+          <AuthorLinks author={author} />
+        </div>
+      </div>
+
+      <h2 className="text-xl font-semibold mt-10 mb-4">
+        Posts{posts ? ` (${posts.pagination.totalBlogs})` : ""}
+      </h2>
+
+      {isPostsLoading ? (
+        <Loading />
+      ) : blogs.length === 0 ? (
+        <p className="text-center text-gray-500">No posts yet</p>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+          {blogs.map((post) => (
+            <div
+              key={post.id}
+              className="group flex flex-col items-center h-fit"
+            >
+              <Link
+                href={`/blog/${post.slug}`}
+                className="h-full w-full rounded-xl overflow-hidden"
+                aria-label={`Read ${post.title}`}
+              >
+                <Image
+                  src={post.bannerUrl || "/placeholder.png"}
+                  alt={post.title || "Blog cover image"}
+                  width={500}
+                  height={500}
+                  loading="lazy"
+                  className="aspect-[4/3] w-full max-h-80 object-cover group-hover:scale-105 transition-transform duration-300"
+                  sizes="(max-width: 640px) 100vw, (max-width: 1024px) 50vw, 33vw"
+                />
+              </Link>
+              <div className="flex flex-col w-full mt-4 text-wrap">
+                <p className="text-gray-500 text-xs">
+                  {format(
+                    new Date(post.publishedAt ?? post.createdAt),
+                    "MMMM dd, yyyy"
+                  )}
+                </p>
+                <Link
+                  href={`/blog/${post.slug}`}
+                  className="inline-block my-1"
+                  aria-label={post.title}
+                >
+                  <h3 className="font-semibold capitalize text-base sm:text-lg hover:text-[#7B00D3] transition-colors">
+                    {post.title || "Untitled Blog"}
+                  </h3>
+                  <p className="line-clamp-2 text-xs text-gray-600">
+                    {post.subTitle || "No description available"}
+                  </p>
+                </Link>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </article>
+  );
+};
+
+export default AuthorProfile;
@@ -1,22 +1,57 @@
 "use client";
-import { fetchSlugBlog } from "@/store/blogSlice";
+import { deleteBlog, fetchSlugBlog } from "@/store/blogSlice";
 import { AppDispatch, RootState } from "@/store/store";
-import { format } from "date-fns";
+import { format, isAfter, isSameDay } from "date-fns";
 import Image from "next/image";
-import { useCallback, useEffect, useMemo } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { useDispatch, useSelector } from "react-redux";
-import { IoIosLink } from "react-icons/io";
-import { FiEdit } from "react-icons/fi";
+import { FiEdit, FiTrash2 } from "react-icons/fi";
 import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
 import Loading from "@/app/loading";
-import { Tags, Topics } from "@/generated/prisma";
+import { TaxonomyRef } from "@/lib/taxonomy";
+import { BlogWithAuthors } from "@/lib/authors";
+import { formatReadingTime } from "@/lib/contentStats";
 import BlogContent from "../Blogs/BlogContent";
+import SeriesNav from "../Blogs/SeriesNav";
+import ViewTracker from "../Blogs/ViewTracker";
+import Reactions from "../Blogs/Reactions";
+import BookmarkButton from "../Blogs/BookmarkButton";
+import SharePanel from "../Blogs/SharePanel";
+import AuthorCard, { AuthorAvatar } from "../Authors/AuthorCard";
+import CommentSection from "../Comments/CommentSection";
+import { can } from "@/lib/roles";
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 
-const BlogDetails = ({ slug }: { slug: string }) => {
+// Edits made on the day a post went live are not worth a separate date
+const isUpdatedLater = (blog: BlogWithAuthors) =>
+  !isSameDay(blog.updatedAt, blog.publishedAt ?? blog.createdAt) &&
+  isAfter(blog.updatedAt, blog.publishedAt ?? blog.createdAt);
+
+const BlogDetails = ({
+  slug,
+  initialBlog = null,
+}: {
+  slug: string;
+  // Server-rendered post, shown until the store has its own copy
+  initialBlog?: BlogWithAuthors | null;
+}) => {
   const dispatch = useDispatch<AppDispatch>();
   const { entities, slugBlogId, status, error } = useSelector(
     (state: RootState) => state.blog
   );
+  const { user } = useSelector((state: RootState) => state.auth);
+  const router = useRouter();
+  const [confirmDelete, setConfirmDelete] = useState(false);
 
   // Fetch blog by slug
   useEffect(() => {
@@ -25,28 +60,30 @@ const BlogDetails = ({ slug }: { slug: string }) => {
 
   // Memoize blog to stabilize reference
   const blog = useMemo(() => {
-    if (slugBlogId && entities.blogs[slugBlogId]) {
-      return entities.blogs[slugBlogId];
+    const stored = slugBlogId ? entities.blogs[slugBlogId] : undefined;
+    if (stored?.slug === slug) return stored;
+    return initialBlog;
+  }, [slugBlogId, entities.blogs, slug, initialBlog]);
+
+  // Move blog to trash
+  const handleDelete = useCallback(async () => {
+    const result = await dispatch(deleteBlog({ slug }));
+    setConfirmDelete(false);
+    if (deleteBlog.fulfilled.match(result)) {
+      toast.success("Blog moved to trash");
+      router.push("/blogs");
+    } else {
+      toast.error((result.payload as string) || "Failed to delete blog");
     }
-    return null;
-  }, [slugBlogId, entities.blogs]);
-
-  // Handle URL copy
-  const handleCopyUrl = useCallback(() => {
-    const url = window.location.href;
-    console.log("[handleCopyUrl] Copying URL:", url);
-    navigator.clipboard.writeText(url).then(() => {
-      console.log("[handleCopyUrl] URL copied successfully");
-    });
-  }, []);
+  }, [dispatch, router, slug]);
 
   // Loading state
-  if (status.fetchSlugBlog === "loading") {
+  if (status.fetchSlugBlog === "loading" && !blog) {
     return <Loading />;
   }
 
   // Error state
-  if (status.fetchSlugBlog === "failed") {
+  if (status.fetchSlugBlog === "failed" && !blog) {
     console.error("[BlogDetails] Rendering error state:", error.fetchSlugBlog);
     return (
       <p className="text-center text-red-500">
@@ -79,57 +116,159 @@ const BlogDetails = ({ slug }: { slug: string }) => {
 
       <div className="mt-8 w-full h-full px-3 md:px-6 flex justify-between gap-3 md:gap-8">
         <div className="h-full sticky top-20 left-0 sm:w-8 lg:w-12 text-center space-y-4">
-          <div className="flex flex-col items-center justify-center gap-1">
-            <p className="text-gray text-xs lg:text-sm font-semibold">SHARE</p>
+          <SharePanel
+            slug={blog.slug}
+            title={blog.title}
+            text={blog.subTitle}
+          />
+
+          <BookmarkButton slug={blog.slug} />
+
+          {can(user, "editBlog") && (
+            <Link
+              href={`/blog/edit/${blog.slug}`}
+              className="flex flex-col items-center justify-center gap-1"
+            >
+              <p className="text-gray text-xs lg:text-sm font-semibold">EDIT</p>
+              <div className="border-gray text-gray border rounded-full w-fit p-1.5 cursor-pointer">
+                <FiEdit size={20} />
+              </div>
+            </Link>
+          )}
+
+          {can(user, "deleteBlog") && (
             <button
-              onClick={handleCopyUrl}
-              className="border-gray text-gray border rounded-full w-fit p-1.5 cursor-pointer active:bg-gray active:text-white"
+              type="button"
+              onClick={() => setConfirmDelete(true)}
+              className="flex flex-col items-center justify-center gap-1 w-full"
             >
-              <IoIosLink size={20} />
+              <p className="text-gray text-xs lg:text-sm font-semibold">
+                DELETE
+              </p>
+              <div className="border-red-500 text-red-500 border rounded-full w-fit p-1.5 cursor-pointer">
+                <FiTrash2 size={20} />
+              </div>
             </button>
-          </div>
-
-          <Link
-            href={`/blog/edit/${blog.slug}`}
-            className="flex flex-col items-center justify-center gap-1"
-          >
-            <p className="text-gray text-xs lg:text-sm font-semibold">EDIT</p>
-            <div className="border-gray text-gray border rounded-full w-fit p-1.5 cursor-pointer">
-              <FiEdit size={20} />
-            </div>
-          </Link>
+          )}
         </div>
 
+        <Dialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Move this blog to trash?</DialogTitle>
+              <DialogDescription>
+                &quot;{blog.title}&quot; will be hidden from readers. You can
+                restore it later from the trash.
+              </DialogDescription>
+            </DialogHeader>
+            <DialogFooter>
+              <DialogClose asChild>
+                <button
+                  type="button"
+                  className="px-4 py-2 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300"
+                >
+                  Cancel
+                </button>
+              </DialogClose>
+              <button
+                type="button"
+                onClick={handleDelete}
+                disabled={status.deleteBlog === "loading"}
+                className="px-4 py-2 bg-red-500 text-white rounded-md hover:bg-red-600 disabled:opacity-50"
+              >
+                {status.deleteBlog === "loading" ? "Deleting..." : "Delete"}
+              </button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
         <div className="w-[95%]">
           <div className="w-full mt-2 mb-4">
             <p className="text-2xl lg:text-3xl font-semibold">{blog.title}</p>
             <p className="mt-1 text-sm lg:text-base">{blog.subTitle}</p>
 
+            {blog.authors.length > 0 && (
+              <div className="flex items-center gap-2 mt-3">
+                <div className="flex -space-x-2">
+                  {blog.authors.map(({ author }) => (
+                    <AuthorAvatar key={author.id} author={author} size={28} />
+                  ))}
+                </div>
+                <p className="text-sm">
+                  By{" "}
+                  {blog.authors.map(({ author }, i) => (
+                    <span key={author.id}>
+                      {i > 0 &&
+                        (i === blog.authors.length - 1 ? " and " : ", ")}
+                      <Link
+                        href={`/authors/${author.handle}`}
+                        className="font-semibold hover:text-[#7B00D3]"
+                      >
+                        {author.name}
+                      </Link>
+                    </span>
+                  ))}
+                </p>
+              </div>
+            )}
+
             <div className="flex flex-col xl:flex-row justify-between w-full xl:items-center mt-2 xl:mt-4">
               <div className="flex xl:flex-col items-center gap-2">
                 <p className="text-xs">Published on:</p>
-                {blog.createdAt ? (
+                {blog.publishedAt || blog.createdAt ? (
                   <p className="text-xs">
-                    {format(blog.createdAt, "MMMM dd, yyyy") || "No Date"}
+                    {format(blog.publishedAt ?? blog.createdAt, "MMMM dd, yyyy") ||
+                      "No Date"}
                   </p>
                 ) : (
                   <p className="text-xs">No date</p>
                 )}
+                {isUpdatedLater(blog) && (
+                  <>
+                    <p className="text-xs xl:mt-1">Updated on:</p>
+                    <p className="text-xs">
+                      {format(blog.updatedAt, "MMMM dd, yyyy")}
+                    </p>
+                  </>
+                )}
+                {blog.readingTime > 0 && (
+                  <p className="text-xs text-gray-500 xl:mt-1">
+                    {[
+                      formatReadingTime(blog.readingTime),
+                      `${blog.wordCount.toLocaleString("en-US")} words`,
+                      blog.codeBlockCount > 0 &&
+                        `${blog.codeBlockCount} code ${
+                          blog.codeBlockCount === 1 ? "block" : "blocks"
+                        }`,
+                      blog.headingCount > 0 &&
+                        `${blog.headingCount} ${
+                          blog.headingCount === 1 ? "section" : "sections"
+                        }`,
+                    ]
+                      .filter(Boolean)
+                      .join(" · ")}
+                  </p>
+                )}
               </div>
 
               <div className="flex flex-col w-full sm:w-fit sm:flex-row sm:items-center gap-2 xl:gap-4 mt-4 xl:mt-0">
                 <div className="space-y-2">
                   <p className="text-xs">Tags:</p>
                   <div className="flex items-center flex-wrap gap-2">
-                    {blog.tags.map((t: Tags, i: number) => {
+                    {blog.tags.map((t: TaxonomyRef, i: number) => {
                         return (
                           <Link
-                            href={`/tags?q=${t.toLowerCase()}`}
+                            href={`/tags?q=${t.slug}`}
                             key={i}
                             className="border border-[#7B00D3] rounded-full text-[#7B00D3] text-[11px] overflow-hidden group"
+                            style={
+                              t.color
+                                ? { borderColor: t.color, color: t.color }
+                                : undefined
+                            }
                           >
                             <p className="bg-gradient-to-r from-[#7B00D3] to-[#7B00D3] bg-[length:0px_30px] group-hover:text-white group-hover:bg-[length:100%_30px] bg-left-bottom bg-no-repeat transition-[background-size] duration-500 px-3 py-1">
-                              {t.replace("_", " ")}
+                              {t.name}
                             </p>
                           </Link>
                         );
@@ -139,15 +278,20 @@ const BlogDetails = ({ slug }: { slug: string }) => {
                 <div className="space-y-2">
                   <p className="text-xs">Topics:</p>
                   <div className="flex items-center flex-wrap gap-2">
-                    {blog.topics.map((t: Topics, i: number) => {
+                    {blog.topics.map((t: TaxonomyRef, i: number) => {
                         return (
                           <Link
-                            href={`/topics?q=${t.toLowerCase()}`}
+                            href={`/topics?q=${t.slug}`}
                             key={i}
                             className="border border-[#7B00D3] rounded-full text-[#7B00D3] text-[11px] overflow-hidden group"
+                            style={
+                              t.color
+                                ? { borderColor: t.color, color: t.color }
+                                : undefined
+                            }
                           >
                             <p className="bg-gradient-to-r from-[#7B00D3] to-[#7B00D3] bg-[length:0px_30px] group-hover:text-white group-hover:bg-[length:100%_30px] bg-left-bottom bg-no-repeat transition-[background-size] duration-500 px-3 py-1">
-                              {t.replace("_", " ")}
+                              {t.name}
                             </p>
                           </Link>
                         );
@@ -160,7 +304,34 @@ const BlogDetails = ({ slug }: { slug: string }) => {
 
           <hr className="bg-black h-[1px] my-4" />
 
+          {blog.series && (
+            <SeriesNav series={blog.series} slug={blog.slug} />
+          )}
+
           <BlogContent content={blog} />
+          <ViewTracker slug={blog.slug} />
+          <Reactions slug={blog.slug} />
+
+          {blog.series && (
+            <SeriesNav series={blog.series} slug={blog.slug} variant="pager" />
+          )}
+
+          {blog.authors.length > 0 && (
+            <div className="mt-8 space-y-3">
+              <p className="text-xs font-semibold">
+                {blog.authors.length > 1
+                  ? "ABOUT THE AUTHORS"
+                  : "ABOUT THE AUTHOR"}
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {blog.authors.map(({ author }) => (
+                  <AuthorCard key={author.id} author={author} />
+                ))}
+              </div>
+            </div>
+          )}
+
+          <CommentSection slug={blog.slug} />
         </div>
       </div>
     </div>
@@ -13,7 +13,13 @@ import { useRouter, useSearchParams } from "next/navigation";
 import Link from "next/link";
 import Image from "next/image";
 import { format } from "date-fns";
-import { fetchBlogs, fetchFilteredBlogs } from "@/store/blogSlice";
+import {
+  fetchBlogs,
+  fetchFilteredBlogs,
+  Pagination,
+} from "@/store/blogSlice";
+import { BlogWithAuthors } from "@/lib/authors";
+import { formatReadingTime } from "@/lib/contentStats";
 import { AppDispatch, RootState } from "@/store/store";
 import { ErrorBoundary } from "react-error-boundary";
 import MotionDiv from "../MotionDiv";
@@ -52,7 +58,12 @@ const BlogCardSkeleton = () => (
   </div>
 );
 
-const Blogs = () => {
+const Blogs = ({
+  initialBlogs,
+}: {
+  // First page rendered on the server, used instead of the first fetch
+  initialBlogs?: { blogs: BlogWithAuthors[]; pagination: Pagination };
+}) => {
   const dispatch = useDispatch<AppDispatch>();
   const router = useRouter();
   const searchParams = useSearchParams();
@@ -81,12 +92,16 @@ const Blogs = () => {
         dispatch(
           fetchFilteredBlogs({ tag: tag ?? undefined, topic: topic ?? undefined, page: initialPage, limit: 10 })
         );
+      } else if (initialBlogs && initialPage === 1) {
+        dispatch(
+          fetchBlogs.fulfilled(initialBlogs, "initial", { page: 1, limit: 10 })
+        );
       } else {
         dispatch(fetchBlogs({ page: initialPage, limit: 10 }));
       }
       hasFetchedInitial.current = true;
     }
-  }, [dispatch, searchParams]);
+  }, [dispatch, searchParams, initialBlogs]);
 
   // Infinite scroll for pagination
   useEffect(() => {
@@ -213,7 +228,7 @@ const Blogs = () => {
                     <div className="flex items-center gap-2">
                       <p className="uppercase border border-[#7B00D3] rounded-full text-[#7B00D3] text-xs overflow-hidden">
                         <span className="bg-gradient-to-r from-[#7B00D3] to-[#7B00D3] bg-[length:0px_20px] group-hover:text-white group-hover:bg-[length:100%_20px] bg-left-bottom bg-no-repeat transition-[background-size] duration-500 px-3 py-0.5">
-                          {p?.topics[0]?.replaceAll("_", " ") || "No Topic"}
+                          {p?.topics[0]?.name || "No Topic"}
                         </span>
                       </p>
                       <hr className="bg-gray-400 w-[1px] h-4" />
@@ -222,6 +237,14 @@ const Blogs = () => {
                           ? format(new Date(p.createdAt), "MMMM dd, yyyy")
                           : "No Date"}
                       </p>
+                      {p.readingTime > 0 && (
+                        <>
+                          <hr className="bg-gray-400 w-[1px] h-4" />
+                          <p className="text-gray-500 text-xs">
+                            {formatReadingTime(p.readingTime)}
+                          </p>
+                        </>
+                      )}
                     </div>
                     <Link
                       href={`/blog/${p.slug}`}
@@ -0,0 +1,92 @@
+"use client";
+
+import Loading from "@/app/loading";
+import { formatReadingTime } from "@/lib/contentStats";
+import { RootState } from "@/store/store";
+import { useBookmarks } from "@/utils/bookmarks";
+import { format } from "date-fns";
+import Image from "next/image";
+import Link from "next/link";
+import { FiTrash2 } from "react-icons/fi";
+import { useSelector } from "react-redux";
+
+const Bookmarks = () => {
+  const { user } = useSelector((state: RootState) => state.auth);
+  const { blogs, error, isLoading, toggleBookmark } = useBookmarks();
+
+  return (
+    <section className="container mx-auto px-4 py-8 max-w-screen-lg">
+      <h1 className="text-3xl font-bold">Bookmarks</h1>
+      {!user && (
+        <p className="text-sm text-gray-500 mt-1">
+          Saved in this browser only.{" "}
+          <Link
+            href="/login?next=%2Fbookmarks"
+            className="text-[#7B00D3] hover:underline"
+          >
+            Log in
+          </Link>{" "}
+          to keep them on every device.
+        </p>
+      )}
+
+      {isLoading ? (
+        <Loading />
+      ) : error ? (
+        <p className="text-center text-red-500 py-10">Error: {error.message}</p>
+      ) : blogs.length === 0 ? (
+        <p className="text-center text-gray-500 py-10">
+          Nothing saved yet. Use the bookmark button on a post to read it later.
+        </p>
+      ) : (
+        <ul className="mt-8 space-y-6">
+          {blogs.map((post) => (
+            <li key={post.id} className="flex flex-col sm:flex-row gap-4">
+              <Link
+                href={`/blog/${post.slug}`}
+                className="shrink-0"
+                aria-label={`Read ${post.title}`}
+              >
+                <Image
+                  src={post.bannerUrl || "/placeholder.png"}
+                  alt={post.title || "Blog cover image"}
+                  width={320}
+                  height={240}
+                  loading="lazy"
+                  className="aspect-[4/3] w-full sm:w-48 rounded-xl object-cover"
+                />
+              </Link>
+              <div className="flex flex-col flex-1 min-w-0">
+                <p className="text-gray-500 text-xs">
+                  {format(
+                    new Date(post.publishedAt ?? post.createdAt),
+                    "MMMM dd, yyyy"
+                  )}
+                  {post.readingTime > 0 &&
+                    ` · ${formatReadingTime(post.readingTime)}`}
+                </p>
+                <Link href={`/blog/${post.slug}`} className="inline-block my-1">
+                  <h2 className="font-semibold capitalize text-base sm:text-lg hover:text-[#7B00D3] transition-colors">
+                    {post.title || "Untitled Blog"}
+                  </h2>
+                  <p className="line-clamp-2 text-xs text-gray-600">
+                    {post.subTitle || "No description available"}
+                  </p>
+                </Link>
+                <button
+                  type="button"
+                  onClick={() => toggleBookmark(post.slug)}
+                  className="flex items-center gap-1 w-fit mt-2 text-xs text-red-500 hover:text-red-600"
+                >
+                  <FiTrash2 /> Remove
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default Bookmarks;
@@ -0,0 +1,169 @@
+"use client";
+
+import Loading from "@/app/loading";
+import { CommentStatus } from "@/generated/prisma";
+import { CommentRef } from "@/lib/comments";
+import { format } from "date-fns";
+import Link from "next/link";
+import { useState } from "react";
+import { toast } from "sonner";
+import useSWR from "swr";
+import Markdown from "../Blogs/Markdown";
+
+type QueuedComment = CommentRef & { blog: { slug: string; title: string } };
+
+const fetcher = (url: string) =>
+  fetch(url).then((res) => {
+    if (!res.ok) throw new Error("Failed to fetch comments");
+    return res.json();
+  });
+
+const tabs = [
+  { status: CommentStatus.PENDING, label: "Pending" },
+  { status: CommentStatus.APPROVED, label: "Approved" },
+  { status: CommentStatus.REJECTED, label: "Rejected" },
+  { status: CommentStatus.SPAM, label: "Spam" },
+];
+
+// Moderation decisions offered for a comment in each state
+const actions = [
+  {
+    status: CommentStatus.APPROVED,
+    label: "Approve",
+    className: "bg-[#7B00D3] hover:bg-[#6A00B8]",
+  },
+  {
+    status: CommentStatus.REJECTED,
+    label: "Reject",
+    className: "bg-gray-500 hover:bg-gray-600",
+  },
+  {
+    status: CommentStatus.SPAM,
+    label: "Spam",
+    className: "bg-red-500 hover:bg-red-600",
+  },
+];
+
+const Comments = () => {
+  const [activeStatus, setActiveStatus] = useState<CommentStatus>(
+    CommentStatus.PENDING
+  );
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const { data, error, isLoading, mutate } = useSWR<{
+    comments: QueuedComment[];
+  }>(`/api/comments?status=${activeStatus}`, fetcher);
+
+  const comments = data?.comments ?? [];
+
+  const request = async (
+    comment: QueuedComment,
+    method: "PATCH" | "DELETE",
+    status?: CommentStatus
+  ) => {
+    setPendingId(comment.id);
+    try {
+      const response = await fetch(
+        `/api/blogs/${comment.blog.slug}/comments/${comment.id}`,
+        {
+          method,
+          headers: { "Content-Type": "application/json" },
+          body: status ? JSON.stringify({ status }) : undefined,
+        }
+      );
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null);
+        throw new Error(errorData?.error || "Request failed");
+      }
+      toast.success(
+        method === "DELETE" ? "Comment deleted" : "Comment updated"
+      );
+      mutate();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleDelete = (comment: QueuedComment) => {
+    const confirmed = window.confirm(
+      "Delete this comment and all of its replies permanently?"
+    );
+    if (confirmed) request(comment, "DELETE");
+  };
+
+  return (
+    <section className="max-w-4xl mx-auto p-4">
+      <h1 className="text-3xl font-bold mb-4">Comment moderation</h1>
+
+      <div className="flex items-center bg-gray overflow-hidden w-fit rounded-lg text-white text-sm mb-6 [&_button]:px-4 [&_button]:py-1">
+        {tabs.map((tab) => (
+          <button
+            key={tab.status}
+            type="button"
+            onClick={() => setActiveStatus(tab.status)}
+            className={`${activeStatus === tab.status && "bg-black/60"}`}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      {isLoading ? (
+        <Loading />
+      ) : error ? (
+        <p className="text-center text-red-500 py-10">Error: {error.message}</p>
+      ) : comments.length === 0 ? (
+        <p className="text-center text-gray-500">Nothing here yet</p>
+      ) : (
+        <ul className="space-y-4">
+          {comments.map((comment) => (
+            <li key={comment.id} className="border rounded-xl p-3">
+              <p className="text-xs text-gray-500">
+                <span className="font-semibold text-black">
+                  {comment.authorName}
+                </span>{" "}
+                {comment.parentId ? "replied on" : "commented on"}{" "}
+                <Link
+                  href={`/blog/${comment.blog.slug}`}
+                  className="text-[#7B00D3] hover:underline"
+                >
+                  {comment.blog.title}
+                </Link>{" "}
+                · {format(new Date(comment.createdAt), "MMMM dd, yyyy HH:mm")}
+              </p>
+              <div className="text-sm">
+                <Markdown restricted>{comment.body}</Markdown>
+              </div>
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                {actions
+                  .filter((action) => action.status !== activeStatus)
+                  .map((action) => (
+                    <button
+                      key={action.status}
+                      type="button"
+                      disabled={pendingId === comment.id}
+                      onClick={() => request(comment, "PATCH", action.status)}
+                      className={`px-3 py-1 text-white rounded-md disabled:opacity-50 ${action.className}`}
+                    >
+                      {action.label}
+                    </button>
+                  ))}
+                <button
+                  type="button"
+                  disabled={pendingId === comment.id}
+                  onClick={() => handleDelete(comment)}
+                  className="px-3 py-1 border rounded-md hover:bg-gray-100 disabled:opacity-50"
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default Comments;
@@ -0,0 +1,103 @@
+"use client";
+
+import Loading from "@/app/loading";
+import { Blog, BlogStatus } from "@/generated/prisma";
+import { format } from "date-fns";
+import Link from "next/link";
+import { useState } from "react";
+import useSWR from "swr";
+
+const fetcher = (url: string) =>
+  fetch(url).then((res) => {
+    if (!res.ok) throw new Error("Failed to fetch posts");
+    return res.json();
+  });
+
+const tabs = [
+  { status: BlogStatus.DRAFT, label: "Drafts" },
+  { status: BlogStatus.SCHEDULED, label: "Scheduled" },
+  { status: BlogStatus.ARCHIVED, label: "Archived" },
+];
+
+interface DraftsProps {
+  // Editors can open any post; authors only their own drafts
+  canEditAll: boolean;
+}
+
+const Drafts: React.FC<DraftsProps> = ({ canEditAll }) => {
+  const [activeStatus, setActiveStatus] = useState<BlogStatus>(
+    BlogStatus.DRAFT
+  );
+  const { data, error, isLoading } = useSWR<{ blogs: Blog[] }>(
+    `/api/blogs?status=${activeStatus}`,
+    fetcher
+  );
+
+  const blogs = data?.blogs ?? [];
+
+  return (
+    <section className="max-w-4xl mx-auto p-4">
+      <h1 className="text-3xl font-bold mb-4">Unpublished posts</h1>
+
+      <div className="flex items-center bg-gray overflow-hidden w-fit rounded-lg text-white text-sm mb-6 [&_button]:px-4 [&_button]:py-1">
+        {tabs.map((tab) => (
+          <button
+            key={tab.status}
+            type="button"
+            onClick={() => setActiveStatus(tab.status)}
+            className={`${activeStatus === tab.status && "bg-black/60"}`}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      {isLoading ? (
+        <Loading />
+      ) : error ? (
+        <p className="text-center text-red-500 py-10">Error: {error.message}</p>
+      ) : blogs.length === 0 ? (
+        <p className="text-center text-gray-500">Nothing here yet</p>
+      ) : (
+        <ul className="space-y-4">
+          {blogs.map((blog) => (
+            <li
+              key={blog.id}
+              className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 border rounded-xl p-3"
+            >
+              <div>
+                <h2 className="font-semibold capitalize">
+                  {blog.title || "Untitled Blog"}
+                </h2>
+                <p className="line-clamp-2 text-xs text-gray-600">
+                  {blog.subTitle || "No description available"}
+                </p>
+                <p className="text-xs text-gray-500 mt-1">
+                  {blog.status === BlogStatus.SCHEDULED && blog.scheduledFor
+                    ? `Goes live on ${format(
+                        new Date(blog.scheduledFor),
+                        "MMMM dd, yyyy HH:mm"
+                      )}`
+                    : `Last saved on ${format(
+                        new Date(blog.updatedAt),
+                        "MMMM dd, yyyy"
+                      )}`}
+                </p>
+              </div>
+              {(canEditAll || blog.status === BlogStatus.DRAFT) && (
+                <Link
+                  href={`/blog/edit/${blog.slug}`}
+                  className="px-4 py-2 bg-[#7B00D3] text-white rounded-md hover:bg-[#6A00B8] w-fit"
+                >
+                  Edit
+                </Link>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default Drafts;
@@ -0,0 +1,138 @@
+"use client";
+
+import { login, register } from "@/store/authSlice";
+import { AppDispatch, RootState } from "@/store/store";
+import { useRouter, useSearchParams } from "next/navigation";
+import { useState } from "react";
+import { useDispatch, useSelector } from "react-redux";
+import { toast } from "sonner";
+
+const Login = () => {
+  const dispatch = useDispatch<AppDispatch>();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { status } = useSelector((state: RootState) => state.auth);
+  const [mode, setMode] = useState<"login" | "register">("login");
+  const [formData, setFormData] = useState({
+    name: "",
+    email: "",
+    password: "",
+  });
+
+  const isLoading =
+    status.login === "loading" || status.register === "loading";
+
+  // Only allow relative redirects back into the app
+  const next = searchParams.get("next");
+  const redirectTo = next && next.startsWith("/") ? next : "/";
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    const result =
+      mode === "login"
+        ? await dispatch(
+            login({ email: formData.email, password: formData.password })
+          )
+        : await dispatch(register(formData));
+
+    if (login.fulfilled.match(result) || register.fulfilled.match(result)) {
+      toast.success(
+        mode === "login" ? "Logged in successfully" : "Account created"
+      );
+      router.push(redirectTo);
+      router.refresh();
+    } else {
+      toast.error((result.payload as string) || "Authentication failed");
+    }
+  };
+
+  return (
+    <section className="max-w-md mx-auto p-4 mt-12">
+      <h1 className="text-3xl font-bold mb-4">
+        {mode === "login" ? "Log in" : "Create account"}
+      </h1>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        {mode === "register" && (
+          <div>
+            <label htmlFor="name" className="block text-sm font-medium">
+              Name
+            </label>
+            <input
+              type="text"
+              id="name"
+              name="name"
+              value={formData.name}
+              onChange={handleChange}
+              placeholder="Your name"
+              required
+              className="w-full p-2 border rounded focus:ring-2 focus:ring-[#7B00D3] focus:border-[#7B00D3] outline-none mt-1"
+            />
+          </div>
+        )}
+        <div>
+          <label htmlFor="email" className="block text-sm font-medium">
+            Email
+          </label>
+          <input
+            type="email"
+            id="email"
+            name="email"
+            value={formData.email}
+            onChange={handleChange}
+            placeholder="you@example.com"
+            autoComplete="email"
+            required
+            className="w-full p-2 border rounded focus:ring-2 focus:ring-[#7B00D3] focus:border-[#7B00D3] outline-none mt-1"
+          />
+        </div>
+        <div>
+          <label htmlFor="password" className="block text-sm font-medium">
+            Password
+          </label>
+          <input
+            type="password"
+            id="password"
+            name="password"
+            value={formData.password}
+            onChange={handleChange}
+            autoComplete={
+              mode === "login" ? "current-password" : "new-password"
+            }
+            required
+            className="w-full p-2 border rounded focus:ring-2 focus:ring-[#7B00D3] focus:border-[#7B00D3] outline-none mt-1"
+          />
+        </div>
+
+        <button
+          type="submit"
+          disabled={isLoading}
+          className="w-full bg-[#7B00D3] text-white px-4 py-2 rounded hover:bg-[#6A00B8] disabled:opacity-60"
+        >
+          {isLoading
+            ? "Please wait..."
+            : mode === "login"
+            ? "Log in"
+            : "Sign up"}
+        </button>
+      </form>
+
+      <button
+        type="button"
+        onClick={() => setMode((prev) => (prev === "login" ? "register" : "login"))}
+        className="mt-4 text-sm text-[#7B00D3] hover:underline"
+      >
+        {mode === "login"
+          ? "Don't have an account? Sign up"
+          : "Already have an account? Log in"}
+      </button>
+    </section>
+  );
+};
+
+export default Login;
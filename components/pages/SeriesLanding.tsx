@@ -0,0 +1,91 @@
+"use client";
+
+import { SeriesWithParts } from "@/lib/series";
+import { formatReadingTime } from "@/lib/contentStats";
+import { format } from "date-fns";
+import Image from "next/image";
+import Link from "next/link";
+import { useSeries } from "../Blogs/SeriesNav";
+
+const SeriesLanding = ({
+  slug,
+  initialSeries,
+}: {
+  slug: string;
+  initialSeries: SeriesWithParts;
+}) => {
+  const { data } = useSeries(slug, initialSeries);
+  const series = data ?? initialSeries;
+  const parts = series.posts;
+  const totalReadingTime = parts.reduce(
+    (total, part) => total + part.readingTime,
+    0
+  );
+
+  return (
+    <article className="container mx-auto px-4 py-8 max-w-screen-lg">
+      <div className="mt-8 space-y-2">
+        <p className="text-xs font-semibold text-gray-500">SERIES</p>
+        <h1 className="font-semibold text-2xl sm:text-3xl lg:text-4xl text-[#7B00D3]">
+          {series.title}
+        </h1>
+        {series.description && (
+          <p className="text-sm md:text-base text-gray-600 max-w-2xl">
+            {series.description}
+          </p>
+        )}
+        <p className="text-sm text-gray-500">
+          {parts.length} {parts.length === 1 ? "part" : "parts"}
+          {totalReadingTime > 0 &&
+            ` · ${formatReadingTime(totalReadingTime)} in total`}
+        </p>
+      </div>
+
+      {parts.length === 0 ? (
+        <p className="text-center text-gray-500 mt-10">No parts yet</p>
+      ) : (
+        <ol className="mt-10 space-y-6">
+          {parts.map((part, i) => (
+            <li key={part.id}>
+              <Link
+                href={`/blog/${part.slug}`}
+                className="group flex flex-col sm:flex-row gap-4"
+                aria-label={`Read part ${i + 1}: ${part.title}`}
+              >
+                <Image
+                  src={part.bannerUrl || "/placeholder.png"}
+                  alt={part.title || "Blog cover image"}
+                  width={320}
+                  height={240}
+                  loading="lazy"
+                  className="aspect-[4/3] w-full sm:w-48 rounded-xl object-cover"
+                />
+                <div className="flex flex-col">
+                  <p className="text-xs font-semibold text-[#7B00D3]">
+                    PART {i + 1}
+                  </p>
+                  <h2 className="font-semibold capitalize text-base sm:text-lg group-hover:text-[#7B00D3] transition-colors">
+                    {part.title || "Untitled Blog"}
+                  </h2>
+                  <p className="line-clamp-2 text-xs text-gray-600">
+                    {part.subTitle || "No description available"}
+                  </p>
+                  <p className="mt-1 text-xs text-gray-500">
+                    {format(
+                      new Date(part.publishedAt ?? part.createdAt),
+                      "MMMM dd, yyyy"
+                    )}
+                    {part.readingTime > 0 &&
+                      ` · ${formatReadingTime(part.readingTime)}`}
+                  </p>
+                </div>
+              </Link>
+            </li>
+          ))}
+        </ol>
+      )}
+    </article>
+  );
+};
+
+export default SeriesLanding;
@@ -20,19 +20,27 @@ import {
   clearTags,
   fetchAvailableTags,
   fetchBlogs,
+  Pagination,
   setSelectedTags,
 } from "@/store/tagSlice";
 import Loading from "@/app/loading";
 import { debounce } from "@/utils/debounce";
-import { Blog, Tags } from "@/generated/prisma";
+import { BlogWithTaxonomy, Taxonomy, toTaxonomySlug } from "@/lib/taxonomy";
 
-const TagsComponent = () => {
+const TagsComponent = ({
+  initialTags,
+  initialBlogs,
+}: {
+  // Server-rendered data, used instead of the first fetches
+  initialTags?: Taxonomy[];
+  initialBlogs?: { blogs: BlogWithTaxonomy[]; pagination: Pagination };
+}) => {
   const dispatch = useDispatch<AppDispatch>();
   const router = useRouter();
   const searchParams = useSearchParams();
   const [tagsQuery, setTagsQuery] = useState("");
-  const [filteredTags, setFilteredTags] = useState<Tags[]>([]);
-  const [filteredBlogs, setFilteredBlogs] = useState<Blog[]>([]);
+  const [filteredTags, setFilteredTags] = useState<Taxonomy[]>([]);
+  const [filteredBlogs, setFilteredBlogs] = useState<BlogWithTaxonomy[]>([]);
   const [isFocused, setIsFocused] = useState(false);
   const observerRef = useRef<IntersectionObserver | null>(null);
   const loadMoreRef = useRef<HTMLDivElement | null>(null);
@@ -50,7 +58,7 @@ const TagsComponent = () => {
   // Debounced tag search
   const debouncedFetchBlogs = useCallback(
     debounce((tag: string) => {
-      dispatch(setSelectedTags([tag as Tags]));
+      dispatch(setSelectedTags([toTaxonomySlug(tag)]));
       dispatch(fetchBlogs({ tag: tag || undefined, page: 1, limit: 12 }));
     }, 300).debounced,
     [dispatch]
@@ -83,23 +91,39 @@ const TagsComponent = () => {
   // Fetch initial data
   useEffect(() => {
     if (!hasFetchedInitial.current) {
-      dispatch(fetchAvailableTags());
+      dispatch(
+        initialTags
+          ? fetchAvailableTags.fulfilled(initialTags, "initial")
+          : fetchAvailableTags()
+      );
       const tag = searchParams.get("tag");
-      dispatch(fetchBlogs({ tag: tag || undefined, page: 1, limit: 12 }));
+      if (!tag && initialBlogs) {
+        dispatch(
+          fetchBlogs.fulfilled(initialBlogs, "initial", { page: 1, limit: 12 })
+        );
+      } else {
+        dispatch(fetchBlogs({ tag: tag || undefined, page: 1, limit: 12 }));
+      }
       hasFetchedInitial.current = true;
     }
-  }, [dispatch, searchParams]);
+  }, [dispatch, searchParams, initialTags, initialBlogs]);
 
   // Client-side filtering with memoization
   const filteredResults = useMemo(() => {
     const lowerQuery = tagsQuery.toLowerCase();
     const results = {
-      tags: availableTags.filter((tag) =>
-        tag.toLowerCase().includes(lowerQuery)
+      tags: availableTags.filter(
+        (tag) =>
+          tag.slug.includes(lowerQuery) ||
+          tag.name.toLowerCase().includes(lowerQuery)
       ),
       blogs: tagsQuery
         ? blogs.filter((blog) =>
-            blog.tags.some((tag) => tag.toLowerCase().includes(lowerQuery))
+            blog.tags.some(
+              (tag) =>
+                tag.slug.includes(lowerQuery) ||
+                tag.name.toLowerCase().includes(lowerQuery)
+            )
           )
         : blogs,
     };
@@ -192,7 +216,7 @@ const TagsComponent = () => {
 
   const handleTagClick = useCallback(
     (tag: string) => {
-      dispatch(setSelectedTags([tag as Tags]));
+      dispatch(setSelectedTags([toTaxonomySlug(tag)]));
       setTagsQuery(tag);
       dispatch(fetchBlogs({ tag, page: 1, limit: 12 }));
     },
@@ -229,7 +253,7 @@ const TagsComponent = () => {
           <h1 className="font-semibold text-2xl sm:text-3xl lg:text-4xl text-[#7B00D3]">
             #
             {tagsQuery
-              ? capitalizeFirstLetter(tagsQuery).replace("_", " ")
+              ? capitalizeFirstLetter(tagsQuery).replaceAll("-", " ")
               : "Tags"}
           </h1>
           <p className="mt-2 text-sm md:text-base text-gray-600">
@@ -248,7 +272,7 @@ const TagsComponent = () => {
             type="text"
             className="border-none focus:outline-none w-full text-base sm:text-lg px-2 py-1"
             placeholder="Search Tags..."
-            value={tagsQuery.replaceAll("_", " ")}
+            value={tagsQuery.replaceAll("-", " ")}
             onChange={handleInputChange}
             aria-label="Search blogs by tag"
           />
@@ -292,20 +316,20 @@ const TagsComponent = () => {
           <AnimatePresence>
             {filteredTags.map((tag) => (
               <motion.button
-                key={tag}
+                key={tag.slug}
                 variants={tagVariants}
                 initial="hidden"
                 animate="visible"
                 exit="hidden"
-                onClick={() => handleTagClick(tag)}
+                onClick={() => handleTagClick(tag.slug)}
                 className={`py-1.5 px-4 sm:px-6 rounded-full border-2 border-[#7B00D3] text-sm sm:text-base cursor-pointer text-nowrap hover:bg-[#7B00D3]/10 transition-colors focus:outline-none focus:ring-2 focus:ring-[#7B00D3] focus:ring-offset-2 ${
-                  tag.toLowerCase() === tagsQuery.toLowerCase()
+                  tag.slug === tagsQuery.toLowerCase()
                     ? "bg-[#7B00D3] text-white"
                     : "text-[#7B00D3]"
                 }`}
-                aria-label={`Filter by tag: ${tag.replace("_", " ")}`}
+                aria-label={`Filter by tag: ${tag.name}`}
               >
-                {tag.replace("_", " ")}
+                {tag.name}
               </motion.button>
             ))}
           </AnimatePresence>
@@ -361,7 +385,7 @@ const TagsComponent = () => {
                   <div className="flex items-center gap-2">
                     <p className="uppercase border border-[#7B00D3] rounded-full text-[#7B00D3] text-xs overflow-hidden">
                       <span className="bg-gradient-to-r from-[#7B00D3] to-[#7B00D3] bg-[length:0px_20px] group-hover:text-white group-hover:bg-[length:100%_20px] bg-left-bottom bg-no-repeat transition-[background-size] duration-500 px-3 py-0.5">
-                        {post.tags[0]?.replace("_", " ") || "No Tag"}
+                        {post.tags[0]?.name || "No Tag"}
                       </span>
                     </p>
                     <hr className="bg-gray-400 w-[1px] h-4" />
@@ -413,9 +437,9 @@ const TagsComponent = () => {
   );
 };
 
-const TagsPage = () => (
+const TagsPage = (props: React.ComponentProps<typeof TagsComponent>) => (
   <Suspense fallback={<Loading />}>
-    <TagsComponent />
+    <TagsComponent {...props} />
   </Suspense>
 );
 
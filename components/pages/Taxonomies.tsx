@@ -0,0 +1,303 @@
+"use client";
+
+import Loading from "@/app/loading";
+import { Taxonomy, TaxonomyKind } from "@/lib/taxonomy";
+import { AppDispatch } from "@/store/store";
+import { fetchAvailableTags } from "@/store/tagSlice";
+import { fetchAvailableTopics } from "@/store/topicSlice";
+import { useState } from "react";
+import { useDispatch } from "react-redux";
+import { toast } from "sonner";
+import useSWR from "swr";
+
+type TaxonomyRow = Taxonomy & { _count: { blogs: number } };
+
+interface TaxonomyFormValues {
+  name: string;
+  slug: string;
+  description: string;
+  color: string;
+}
+
+const emptyForm: TaxonomyFormValues = {
+  name: "",
+  slug: "",
+  description: "",
+  color: "#7B00D3",
+};
+
+const fetcher = (url: string) =>
+  fetch(url).then((res) => {
+    if (!res.ok) throw new Error("Failed to fetch taxonomy");
+    return res.json();
+  });
+
+const tabs: { kind: TaxonomyKind; label: string }[] = [
+  { kind: "tags", label: "Tags" },
+  { kind: "topics", label: "Topics" },
+];
+
+// Validation errors come back as a zod tree, so only plain messages are shown
+const errorMessage = (errorData: { error?: unknown } | null) =>
+  typeof errorData?.error === "string" ? errorData.error : "Request failed";
+
+const TaxonomyForm = ({
+  initialValues,
+  submitLabel,
+  isSaving,
+  onSubmit,
+  onCancel,
+}: {
+  initialValues: TaxonomyFormValues;
+  submitLabel: string;
+  isSaving: boolean;
+  onSubmit: (values: TaxonomyFormValues) => Promise<boolean>;
+  onCancel?: () => void;
+}) => {
+  const [values, setValues] = useState(initialValues);
+
+  const handleChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
+  ) => {
+    const { name, value } = e.target;
+    setValues((prev) => ({ ...prev, [name]: value }));
+  };
+
+  return (
+    <form
+      onSubmit={async (e) => {
+        e.preventDefault();
+        // The create form starts over once the item is saved
+        if ((await onSubmit(values)) && !onCancel) setValues(initialValues);
+      }}
+      className="grid grid-cols-1 sm:grid-cols-2 gap-2"
+    >
+      <input
+        name="name"
+        value={values.name}
+        onChange={handleChange}
+        placeholder="Display name"
+        aria-label="Display name"
+        required
+        className="p-2 border rounded focus:outline-none"
+      />
+      <input
+        name="slug"
+        value={values.slug}
+        onChange={handleChange}
+        placeholder="Slug (generated from the name)"
+        aria-label="Slug"
+        className="p-2 border rounded focus:outline-none"
+      />
+      <textarea
+        name="description"
+        value={values.description}
+        onChange={handleChange}
+        placeholder="Description"
+        aria-label="Description"
+        className="p-2 border rounded focus:outline-none sm:col-span-2"
+      />
+      <div className="flex items-center gap-2">
+        <label htmlFor={`color-${submitLabel}`} className="text-sm">
+          Color
+        </label>
+        <input
+          type="color"
+          id={`color-${submitLabel}`}
+          name="color"
+          value={values.color}
+          onChange={handleChange}
+          className="h-9 w-12 border rounded"
+        />
+      </div>
+      <div className="flex items-center gap-2 sm:justify-end">
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 border rounded hover:bg-gray-100"
+          >
+            Cancel
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="px-4 py-2 bg-[#7B00D3] text-white rounded-md hover:bg-[#6A00B8] disabled:opacity-50"
+        >
+          {isSaving ? "Saving..." : submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+const Taxonomies = () => {
+  const dispatch = useDispatch<AppDispatch>();
+  const [activeKind, setActiveKind] = useState<TaxonomyKind>("tags");
+  const [editingSlug, setEditingSlug] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const { data, error, isLoading, mutate } = useSWR<
+    Record<TaxonomyKind, TaxonomyRow[]>
+  >(`/api/taxonomies/${activeKind}`, fetcher);
+
+  const items = data?.[activeKind] ?? [];
+  const singular = activeKind === "tags" ? "Tag" : "Topic";
+
+  // Send a change, then refresh this list and the pickers' lists
+  const request = async (
+    method: "POST" | "PATCH" | "DELETE",
+    slug?: string,
+    values?: TaxonomyFormValues
+  ) => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(
+        `/api/taxonomies/${activeKind}${slug ? `?slug=${slug}` : ""}`,
+        {
+          method,
+          headers: { "Content-Type": "application/json" },
+          body: values
+            ? JSON.stringify({
+                ...values,
+                slug: values.slug || undefined,
+              })
+            : undefined,
+        }
+      );
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null);
+        throw new Error(errorMessage(errorData));
+      }
+      toast.success(
+        method === "POST"
+          ? `${singular} created`
+          : method === "PATCH"
+          ? `${singular} updated`
+          : `${singular} deleted`
+      );
+      setEditingSlug(null);
+      mutate();
+      dispatch(
+        activeKind === "tags" ? fetchAvailableTags() : fetchAvailableTopics()
+      );
+      return true;
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "An error occurred");
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = (item: TaxonomyRow) => {
+    const confirmed = window.confirm(
+      `Delete "${item.name}"? It will be removed from ${item._count.blogs} post(s).`
+    );
+    if (confirmed) request("DELETE", item.slug);
+  };
+
+  return (
+    <section className="max-w-4xl mx-auto p-4">
+      <h1 className="text-3xl font-bold mb-4">Tags & topics</h1>
+
+      <div className="flex items-center bg-gray overflow-hidden w-fit rounded-lg text-white text-sm mb-6 [&_button]:px-4 [&_button]:py-1">
+        {tabs.map((tab) => (
+          <button
+            key={tab.kind}
+            type="button"
+            onClick={() => {
+              setActiveKind(tab.kind);
+              setEditingSlug(null);
+            }}
+            className={`${activeKind === tab.kind && "bg-black/60"}`}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="border rounded-xl p-3 mb-6">
+        <h2 className="font-semibold mb-2">New {singular.toLowerCase()}</h2>
+        <TaxonomyForm
+          key={activeKind}
+          initialValues={emptyForm}
+          submitLabel={`Create ${singular.toLowerCase()}`}
+          isSaving={isSaving}
+          onSubmit={(values) => request("POST", undefined, values)}
+        />
+      </div>
+
+      {isLoading ? (
+        <Loading />
+      ) : error ? (
+        <p className="text-center text-red-500 py-10">Error: {error.message}</p>
+      ) : items.length === 0 ? (
+        <p className="text-center text-gray-500">Nothing here yet</p>
+      ) : (
+        <ul className="space-y-3">
+          {items.map((item) => (
+            <li key={item.id} className="border rounded-xl p-3">
+              {editingSlug === item.slug ? (
+                <TaxonomyForm
+                  initialValues={{
+                    name: item.name,
+                    slug: item.slug,
+                    description: item.description ?? "",
+                    color: item.color ?? emptyForm.color,
+                  }}
+                  submitLabel="Save"
+                  isSaving={isSaving}
+                  onSubmit={(values) => request("PATCH", item.slug, values)}
+                  onCancel={() => setEditingSlug(null)}
+                />
+              ) : (
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                  <div>
+                    <p className="flex items-center gap-2 font-semibold">
+                      <span
+                        className="inline-block size-3 rounded-full border"
+                        style={{ backgroundColor: item.color ?? undefined }}
+                      />
+                      {item.name}
+                      <span className="text-xs font-normal text-gray-500">
+                        {item.slug}
+                      </span>
+                    </p>
+                    {item.description && (
+                      <p className="text-xs text-gray-600 mt-1">
+                        {item.description}
+                      </p>
+                    )}
+                    <p className="text-xs text-gray-500 mt-1">
+                      Used by {item._count.blogs} post(s)
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <button
+                      type="button"
+                      onClick={() => setEditingSlug(item.slug)}
+                      className="px-4 py-2 bg-[#7B00D3] text-white rounded-md hover:bg-[#6A00B8]"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      type="button"
+                      disabled={isSaving}
+                      onClick={() => handleDelete(item)}
+                      className="px-4 py-2 bg-red-500 text-white rounded-md hover:bg-red-600 disabled:opacity-50"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default Taxonomies;
@@ -20,19 +20,27 @@ import {
   clearTopics,
   fetchAvailableTopics,
   fetchBlogs,
+  Pagination,
   setSelectedTopics,
 } from "@/store/topicSlice";
 import Loading from "@/app/loading";
 import { debounce } from "@/utils/debounce";
-import { Blog, Topics } from "@/generated/prisma";
+import { BlogWithTaxonomy, Taxonomy, toTaxonomySlug } from "@/lib/taxonomy";
 
-const TopicsComponent = () => {
+const TopicsComponent = ({
+  initialTopics,
+  initialBlogs,
+}: {
+  // Server-rendered data, used instead of the first fetches
+  initialTopics?: Taxonomy[];
+  initialBlogs?: { blogs: BlogWithTaxonomy[]; pagination: Pagination };
+}) => {
   const dispatch = useDispatch<AppDispatch>();
   const router = useRouter();
   const searchParams = useSearchParams();
   const [topicsQuery, setTopicsQuery] = useState("");
-  const [filteredTopics, setFilteredTopics] = useState<Topics[]>([]);
-  const [filteredBlogs, setFilteredBlogs] = useState<Blog[]>([]);
+  const [filteredTopics, setFilteredTopics] = useState<Taxonomy[]>([]);
+  const [filteredBlogs, setFilteredBlogs] = useState<BlogWithTaxonomy[]>([]);
   const [isFocused, setIsFocused] = useState(false);
   const observerRef = useRef<IntersectionObserver | null>(null);
   const loadMoreRef = useRef<HTMLDivElement | null>(null);
@@ -50,7 +58,7 @@ const TopicsComponent = () => {
   // Debounced topic search
   const debouncedFetchBlogs = useCallback(
     debounce((topic: string) => {
-      dispatch(setSelectedTopics([topic as Topics]));
+      dispatch(setSelectedTopics([toTaxonomySlug(topic)]));
       dispatch(fetchBlogs({ topic: topic || undefined, page: 1, limit: 12 }));
     }, 300).debounced,
     [dispatch]
@@ -84,24 +92,38 @@ const TopicsComponent = () => {
   useEffect(() => {
     if (!hasFetchedInitial.current) {
      ("[Initial Fetch Effect] Fetching initial data");
-      dispatch(fetchAvailableTopics());
+      dispatch(
+        initialTopics
+          ? fetchAvailableTopics.fulfilled(initialTopics, "initial")
+          : fetchAvailableTopics()
+      );
       const topic = searchParams.get("q");
-      dispatch(fetchBlogs({ topic: topic || undefined, page: 1, limit: 12 }));
+      if (!topic && initialBlogs) {
+        dispatch(
+          fetchBlogs.fulfilled(initialBlogs, "initial", { page: 1, limit: 12 })
+        );
+      } else {
+        dispatch(fetchBlogs({ topic: topic || undefined, page: 1, limit: 12 }));
+      }
       hasFetchedInitial.current = true;
     }
-  }, [dispatch, searchParams]);
+  }, [dispatch, searchParams, initialTopics, initialBlogs]);
 
   // Client-side filtering with memoization
   const filteredResults = useMemo(() => {
     const lowerQuery = topicsQuery.toLowerCase();
     const results = {
-      topics: availableTopics.filter((topic) =>
-        topic.toLowerCase().includes(lowerQuery)
+      topics: availableTopics.filter(
+        (topic) =>
+          topic.slug.includes(lowerQuery) ||
+          topic.name.toLowerCase().includes(lowerQuery)
       ),
       blogs: topicsQuery
         ? blogs.filter((blog) =>
-            blog.topics.some((topic) =>
-              topic.toLowerCase().includes(lowerQuery)
+            blog.topics.some(
+              (topic) =>
+                topic.slug.includes(lowerQuery) ||
+                topic.name.toLowerCase().includes(lowerQuery)
             )
           )
         : blogs,
@@ -196,7 +218,7 @@ const TopicsComponent = () => {
 
   const handleTopicClick = useCallback(
     (topic: string) => {
-      dispatch(setSelectedTopics([topic as Topics]));
+      dispatch(setSelectedTopics([toTaxonomySlug(topic)]));
       setTopicsQuery(topic);
       dispatch(fetchBlogs({ topic, page: 1, limit: 12 }));
     },
@@ -233,7 +255,7 @@ const TopicsComponent = () => {
           <h1 className="font-semibold text-2xl sm:text-3xl lg:text-4xl text-[#7B00D3]">
             #
             {topicsQuery
-              ? capitalizeFirstLetter(topicsQuery).replace("_", " ")
+              ? capitalizeFirstLetter(topicsQuery).replaceAll("-", " ")
               : "Topics"}
           </h1>
           <p className="mt-2 text-sm md:text-base text-gray-600">
@@ -252,7 +274,7 @@ const TopicsComponent = () => {
             type="text"
             className="border-none focus:outline-none w-full text-base sm:text-lg px-2 py-1"
             placeholder="Search Topics..."
-            value={topicsQuery.replaceAll("_", " ")}
+            value={topicsQuery.replaceAll("-", " ")}
             onChange={handleInputChange}
             aria-label="Search blogs by topic"
           />
@@ -296,20 +318,20 @@ const TopicsComponent = () => {
           <AnimatePresence>
             {filteredTopics.map((topic) => (
               <motion.button
-                key={topic}
+                key={topic.slug}
                 variants={topicVariants}
                 initial="hidden"
                 animate="visible"
                 exit="hidden"
-                onClick={() => handleTopicClick(topic)}
+                onClick={() => handleTopicClick(topic.slug)}
                 className={`py-1.5 px-4 sm:px-6 rounded-full border-2 border-[#7B00D3] text-sm sm:text-base cursor-pointer text-nowrap hover:bg-[#7B00D3]/10 transition-colors focus:outline-none focus:ring-2 focus:ring-[#7B00D3] focus:ring-offset-2 ${
-                  topic.toLowerCase() === topicsQuery.toLowerCase()
+                  topic.slug === topicsQuery.toLowerCase()
                     ? "bg-[#7B00D3] text-white"
                     : "text-[#7B00D3]"
                 }`}
-                aria-label={`Filter by topic: ${topic.replace("_", " ")}`}
+                aria-label={`Filter by topic: ${topic.name}`}
               >
-                {topic.replace("_", " ")}
+                {topic.name}
               </motion.button>
             ))}
           </AnimatePresence>
@@ -365,7 +387,7 @@ const TopicsComponent = () => {
                   <div className="flex items-center gap-2">
                     <p className="uppercase border border-[#7B00D3] rounded-full text-[#7B00D3] text-xs overflow-hidden">
                       <span className="bg-gradient-to-r from-[#7B00D3] to-[#7B00D3] bg-[length:0px_20px] group-hover:text-white group-hover:bg-[length:100%_20px] bg-left-bottom bg-no-repeat transition-[background-size] duration-500 px-3 py-0.5">
-                        {post.topics[0]?.replace("_", " ") || "No Topic"}
+                        {post.topics[0]?.name || "No Topic"}
                       </span>
                     </p>
                     <hr className="bg-gray-400 w-[1px] h-4" />
@@ -417,9 +439,9 @@ const TopicsComponent = () => {
   );
 };
 
-const TopicsPage = () => (
+const TopicsPage = (props: React.ComponentProps<typeof TopicsComponent>) => (
   <Suspense fallback={<Loading />}>
-    <TopicsComponent />
+    <TopicsComponent {...props} />
   </Suspense>
 );
 
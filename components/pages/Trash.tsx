@@ -0,0 +1,136 @@
+"use client";
+
+import Loading from "@/app/loading";
+import { can } from "@/lib/roles";
+import { RootState } from "@/store/store";
+import { format } from "date-fns";
+import Image from "next/image";
+import { FaRegImage } from "react-icons/fa";
+import { useState } from "react";
+import { useSelector } from "react-redux";
+import { toast } from "sonner";
+import useSWR from "swr";
+
+interface TrashedBlog {
+  id: string;
+  title: string;
+  subTitle: string;
+  slug: string;
+  bannerUrl: string;
+  createdAt: string;
+  deletedAt: string;
+}
+
+const fetcher = (url: string) =>
+  fetch(url).then((res) => {
+    if (!res.ok) throw new Error("Failed to fetch trashed blogs");
+    return res.json();
+  });
+
+const Trash = () => {
+  const { data, error, isLoading, mutate } = useSWR<{ blogs: TrashedBlog[] }>(
+    "/api/blogs/trash",
+    fetcher
+  );
+  const { user } = useSelector((state: RootState) => state.auth);
+  const [pendingSlug, setPendingSlug] = useState<string | null>(null);
+
+  // Restore or permanently delete a trashed blog
+  const handleAction = async (slug: string, method: "PATCH" | "DELETE") => {
+    setPendingSlug(slug);
+    try {
+      const response = await fetch(`/api/blogs/trash?slug=${slug}`, {
+        method,
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData?.error || "Request failed");
+      }
+      toast.success(
+        method === "PATCH" ? "Blog restored" : "Blog deleted permanently"
+      );
+      mutate();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setPendingSlug(null);
+    }
+  };
+
+  if (isLoading) {
+    return <Loading />;
+  }
+
+  if (error) {
+    return (
+      <p className="text-center text-red-500 py-10">Error: {error.message}</p>
+    );
+  }
+
+  const blogs = data?.blogs ?? [];
+
+  return (
+    <section className="max-w-4xl mx-auto p-4">
+      <h1 className="text-3xl font-bold mb-4">Trash</h1>
+
+      {blogs.length === 0 ? (
+        <p className="text-center text-gray-500">Trash is empty</p>
+      ) : (
+        <ul className="space-y-4">
+          {blogs.map((blog) => (
+            <li
+              key={blog.id}
+              className="flex flex-col sm:flex-row sm:items-center gap-4 border rounded-xl p-3"
+            >
+              {/* Drafts can be trashed before they have a banner */}
+              {blog.bannerUrl ? (
+                <Image
+                  src={blog.bannerUrl}
+                  alt={blog.title || "Blog cover image"}
+                  width={160}
+                  height={120}
+                  className="aspect-[4/3] w-40 object-cover rounded-lg"
+                />
+              ) : (
+                <div className="aspect-[4/3] w-40 flex items-center justify-center rounded-lg bg-gray-100 text-gray-400">
+                  <FaRegImage size={28} aria-label="No cover image" />
+                </div>
+              )}
+              <div className="flex-1">
+                <h2 className="font-semibold capitalize">{blog.title}</h2>
+                <p className="line-clamp-2 text-xs text-gray-600">
+                  {blog.subTitle}
+                </p>
+                <p className="text-xs text-gray-500 mt-1">
+                  Deleted on {format(new Date(blog.deletedAt), "MMMM dd, yyyy")}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  type="button"
+                  disabled={pendingSlug === blog.slug}
+                  onClick={() => handleAction(blog.slug, "PATCH")}
+                  className="px-4 py-2 bg-[#7B00D3] text-white rounded-md hover:bg-[#6A00B8] disabled:opacity-50"
+                >
+                  Restore
+                </button>
+                {can(user, "purgeBlog") && (
+                  <button
+                    type="button"
+                    disabled={pendingSlug === blog.slug}
+                    onClick={() => handleAction(blog.slug, "DELETE")}
+                    className="px-4 py-2 bg-red-500 text-white rounded-md hover:bg-red-600 disabled:opacity-50"
+                  >
+                    Delete forever
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default Trash;
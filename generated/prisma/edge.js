@@ -100,8 +100,157 @@ exports.Prisma.BlogScalarFieldEnum = {
   content: 'content',
   bannerUrl: 'bannerUrl',
   video: 'video',
+  status: 'status',
+  publishedAt: 'publishedAt',
+  scheduledFor: 'scheduledFor',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  deletedAt: 'deletedAt',
+  wordCount: 'wordCount',
+  readingTime: 'readingTime',
+  codeBlockCount: 'codeBlockCount',
+  headingCount: 'headingCount',
+  seriesId: 'seriesId',
+  seriesPosition: 'seriesPosition'
+};
+
+exports.Prisma.BlogViewScalarFieldEnum = {
+  id: 'id',
+  blogId: 'blogId',
+  visitorId: 'visitorId',
+  maxDepth: 'maxDepth',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.BlogShareScalarFieldEnum = {
+  id: 'id',
+  blogId: 'blogId',
+  channel: 'channel',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.ReactionScalarFieldEnum = {
+  blogId: 'blogId',
+  userId: 'userId',
+  type: 'type',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.BookmarkScalarFieldEnum = {
+  userId: 'userId',
+  blogId: 'blogId',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.DraftScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  blogId: 'blogId',
+  key: 'key',
+  data: 'data',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.CollabDocumentScalarFieldEnum = {
+  blogId: 'blogId',
+  content: 'content',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.BlogRevisionScalarFieldEnum = {
+  id: 'id',
+  blogId: 'blogId',
+  version: 'version',
+  title: 'title',
+  subTitle: 'subTitle',
+  content: 'content',
+  bannerUrl: 'bannerUrl',
+  video: 'video',
   tags: 'tags',
   topics: 'topics',
+  editorId: 'editorId',
+  restoredFromVersion: 'restoredFromVersion',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.UserScalarFieldEnum = {
+  id: 'id',
+  email: 'email',
+  name: 'name',
+  passwordHash: 'passwordHash',
+  role: 'role',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.SessionScalarFieldEnum = {
+  id: 'id',
+  tokenHash: 'tokenHash',
+  userId: 'userId',
+  expiresAt: 'expiresAt',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.AuthorScalarFieldEnum = {
+  id: 'id',
+  handle: 'handle',
+  name: 'name',
+  bio: 'bio',
+  avatarUrl: 'avatarUrl',
+  website: 'website',
+  twitter: 'twitter',
+  github: 'github',
+  linkedin: 'linkedin',
+  userId: 'userId',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.BlogAuthorScalarFieldEnum = {
+  blogId: 'blogId',
+  authorId: 'authorId',
+  position: 'position'
+};
+
+exports.Prisma.SeriesScalarFieldEnum = {
+  id: 'id',
+  slug: 'slug',
+  title: 'title',
+  description: 'description',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.CommentScalarFieldEnum = {
+  id: 'id',
+  blogId: 'blogId',
+  parentId: 'parentId',
+  body: 'body',
+  userId: 'userId',
+  authorName: 'authorName',
+  status: 'status',
+  moderatedAt: 'moderatedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.TagScalarFieldEnum = {
+  id: 'id',
+  slug: 'slug',
+  name: 'name',
+  description: 'description',
+  color: 'color',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.TopicScalarFieldEnum = {
+  id: 'id',
+  slug: 'slug',
+  name: 'name',
+  description: 'description',
+  color: 'color',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 };
@@ -111,6 +260,10 @@ exports.Prisma.SortOrder = {
   desc: 'desc'
 };
 
+exports.Prisma.JsonNullValueInput = {
+  JsonNull: Prisma.JsonNull
+};
+
 exports.Prisma.QueryMode = {
   default: 'default',
   insensitive: 'insensitive'
@@ -120,189 +273,69 @@ exports.Prisma.NullsOrder = {
   first: 'first',
   last: 'last'
 };
-exports.Tags = exports.$Enums.Tags = {
-  HTML: 'HTML',
-  CSS: 'CSS',
-  TAILWIND_CSS: 'TAILWIND_CSS',
-  JAVASCRIPT: 'JAVASCRIPT',
-  TYPESCRIPT: 'TYPESCRIPT',
-  REACT_JS: 'REACT_JS',
-  NEXT_JS: 'NEXT_JS',
-  NODEJS: 'NODEJS',
-  MONGODB: 'MONGODB',
-  EXPRESS: 'EXPRESS',
-  PRISMA: 'PRISMA',
-  GIT: 'GIT',
-  DOCKER: 'DOCKER',
-  KUBERNETES: 'KUBERNETES',
-  AWS: 'AWS',
-  AZURE: 'AZURE',
-  GOOGLE_CLOUD: 'GOOGLE_CLOUD',
-  FIREBASE: 'FIREBASE',
-  GRAPHQL: 'GRAPHQL',
-  REST: 'REST',
-  ERROR_HANDLING: 'ERROR_HANDLING',
-  PERFORMANCE: 'PERFORMANCE',
-  SCALABILITY: 'SCALABILITY',
-  RELIABILITY: 'RELIABILITY',
-  MAINTAINABILITY: 'MAINTAINABILITY',
-  READABILITY: 'READABILITY',
-  CODEQUALITY: 'CODEQUALITY',
-  BEST_PRACTICES: 'BEST_PRACTICES',
-  RISK_MANAGEMENT: 'RISK_MANAGEMENT',
-  VULNERABILITY_ASSESSMENT: 'VULNERABILITY_ASSESSMENT',
-  PENETRATION_TESTING: 'PENETRATION_TESTING',
-  SECURITY_TESTING: 'SECURITY_TESTING',
-  CODE_REVIEW: 'CODE_REVIEW',
-  CODE_ANALYSIS: 'CODE_ANALYSIS',
-  CODE_INSPECTION: 'CODE_INSPECTION',
-  REFACTORING: 'REFACTORING',
-  CODE_OPTIMIZATION: 'CODE_OPTIMIZATION',
-  WEB_DESIGN: 'WEB_DESIGN',
-  FIGMA: 'FIGMA',
-  VSCODE: 'VSCODE',
-  REDUX: 'REDUX',
-  VUE_JS: 'VUE_JS',
-  ANGULAR: 'ANGULAR',
-  POSTGRESQL: 'POSTGRESQL',
-  MYSQL: 'MYSQL',
-  REDIS: 'REDIS',
-  CI_CD: 'CI_CD',
-  SERVERLESS: 'SERVERLESS',
-  PWA: 'PWA',
-  WEB_SOCKETS: 'WEB_SOCKETS',
-  SEO: 'SEO',
-  ACCESSIBILITY: 'ACCESSIBILITY',
-  UNIT_TESTING: 'UNIT_TESTING',
-  INTEGRATION_TESTING: 'INTEGRATION_TESTING',
-  E2E_TESTING: 'E2E_TESTING',
-  WEBPACK: 'WEBPACK',
-  BABEL: 'BABEL',
-  ESLINT: 'ESLINT',
-  PRETTIER: 'PRETTIER',
-  JEST: 'JEST',
-  CYPRESS: 'CYPRESS',
-  PYTHON: 'PYTHON',
-  DEEP_LEARNING: 'DEEP_LEARNING',
-  NEURAL_NETWORKS: 'NEURAL_NETWORKS',
-  DATA_ANALYSIS: 'DATA_ANALYSIS',
-  PANDAS: 'PANDAS',
-  NUMPY: 'NUMPY',
-  TENSORFLOW: 'TENSORFLOW',
-  DATA_VISUALIZATION: 'DATA_VISUALIZATION',
-  BIGDATA: 'BIGDATA',
-  SQL: 'SQL',
-  NOSQL: 'NOSQL',
-  ETL: 'ETL',
-  CLOUD_DATA_ENGINEERING: 'CLOUD_DATA_ENGINEERING',
-  STATISTICS: 'STATISTICS',
-  MODEL_DEPLOYMENT: 'MODEL_DEPLOYMENT',
-  COMPUTER_VISION: 'COMPUTER_VISION',
-  KAGGLE: 'KAGGLE',
-  INTERACTION_DESIGN: 'INTERACTION_DESIGN',
-  WIREFRAMING: 'WIREFRAMING',
-  PROTOTYPING: 'PROTOTYPING',
-  COLOR_THEORY: 'COLOR_THEORY',
-  TYPOGRAPHY: 'TYPOGRAPHY',
-  MOTION_DESIGN: 'MOTION_DESIGN',
-  HEADLESS_CMS: 'HEADLESS_CMS',
-  WEB_COMPONENTS: 'WEB_COMPONENTS',
-  WEB_PERFORMANCE: 'WEB_PERFORMANCE',
-  WEB_ANIMATIONS: 'WEB_ANIMATIONS',
-  RESPONSIVE_DESIGN: 'RESPONSIVE_DESIGN',
-  CROSS_BROWSER_COMPATIBILITY: 'CROSS_BROWSER_COMPATIBILITY',
-  NETWORK_SECURITY: 'NETWORK_SECURITY',
-  CRYPTOGRAPHY: 'CRYPTOGRAPHY',
-  SECURE_CODING: 'SECURE_CODING',
-  MALWARE_ANALYSIS: 'MALWARE_ANALYSIS',
-  DIGITAL_FORENSICS: 'DIGITAL_FORENSICS',
-  HACKATHONS: 'HACKATHONS',
-  TECH_INTERVIEWS: 'TECH_INTERVIEWS',
-  PORTFOLIO_BUILDING: 'PORTFOLIO_BUILDING',
-  METAVERSE: 'METAVERSE'
+
+exports.Prisma.JsonNullValueFilter = {
+  DbNull: Prisma.DbNull,
+  JsonNull: Prisma.JsonNull,
+  AnyNull: Prisma.AnyNull
+};
+exports.ShareChannel = exports.$Enums.ShareChannel = {
+  NATIVE: 'NATIVE',
+  X: 'X',
+  LINKEDIN: 'LINKEDIN',
+  REDDIT: 'REDDIT',
+  HACKER_NEWS: 'HACKER_NEWS',
+  EMAIL: 'EMAIL',
+  COPY_LINK: 'COPY_LINK',
+  COPY_MARKDOWN: 'COPY_MARKDOWN'
 };
 
-exports.Topics = exports.$Enums.Topics = {
-  FRONTEND: 'FRONTEND',
-  BACKEND: 'BACKEND',
-  FULLSTACK: 'FULLSTACK',
-  DEVOPS: 'DEVOPS',
-  CLOUD: 'CLOUD',
-  SECURITY: 'SECURITY',
-  TESTING: 'TESTING',
-  DEPLOYMENT: 'DEPLOYMENT',
-  AUTOMATION: 'AUTOMATION',
-  MONITORING: 'MONITORING',
-  GITHUB: 'GITHUB',
-  DESIGNS: 'DESIGNS',
-  PROGRAMMING: 'PROGRAMMING',
-  WEB_DEVELOPMENT: 'WEB_DEVELOPMENT',
-  TECHNOLOGIES: 'TECHNOLOGIES',
-  TRENDS: 'TRENDS',
-  NEWS: 'NEWS',
-  BLOG: 'BLOG',
-  CODE: 'CODE',
-  TOOLS: 'TOOLS',
-  FRAMEWORKS: 'FRAMEWORKS',
-  LIBRARIES: 'LIBRARIES',
-  LANGUAGES: 'LANGUAGES',
-  DATABASES: 'DATABASES',
-  APIS: 'APIS',
-  MICROSERVICES: 'MICROSERVICES',
-  ARCHITECTURE: 'ARCHITECTURE',
-  RESOURCES: 'RESOURCES',
-  TIPS_TRICKS: 'TIPS_TRICKS',
-  TECH: 'TECH',
-  TECH_TRENDS: 'TECH_TRENDS',
-  TECH_NEWS: 'TECH_NEWS',
-  TECH_BLOG: 'TECH_BLOG',
-  MOBILE_DEVELOPMENT: 'MOBILE_DEVELOPMENT',
-  AI_ML: 'AI_ML',
-  DATA_SCIENCE: 'DATA_SCIENCE',
-  BLOCKCHAIN: 'BLOCKCHAIN',
-  CYBER_SECURITY: 'CYBER_SECURITY',
-  UX_UI: 'UX_UI',
-  PRODUCT_MANAGEMENT: 'PRODUCT_MANAGEMENT',
-  AGILE: 'AGILE',
-  SOFTWARE_ENGINEERING: 'SOFTWARE_ENGINEERING',
-  SYSTEM_DESIGN: 'SYSTEM_DESIGN',
-  CODE_REVIEWS: 'CODE_REVIEWS',
-  CAREER_DEVELOPMENT: 'CAREER_DEVELOPMENT',
-  OPEN_SOURCE: 'OPEN_SOURCE',
-  ETHICAL_HACKING: 'ETHICAL_HACKING',
-  CLOUD_NATIVE: 'CLOUD_NATIVE',
-  EDGE_COMPUTING: 'EDGE_COMPUTING',
-  QUANTUM_COMPUTING: 'QUANTUM_COMPUTING',
-  AR_VR: 'AR_VR',
-  ROBOTICS: 'ROBOTICS',
-  GREENTECH: 'GREENTECH',
-  FINTECH: 'FINTECH',
-  HEALTHTECH: 'HEALTHTECH',
-  EDTECH: 'EDTECH',
-  DATA_MINING: 'DATA_MINING',
-  DATA_ANALYTICS: 'DATA_ANALYTICS',
-  PREDICTIVE_ANALYTICS: 'PREDICTIVE_ANALYTICS',
-  MACHINE_LEARNING: 'MACHINE_LEARNING',
-  STATISTICS: 'STATISTICS',
-  DATA_ENGINEERING: 'DATA_ENGINEERING',
-  ARTIFICIAL_INTELLIGENCE: 'ARTIFICIAL_INTELLIGENCE',
-  NATURAL_LANGUAGE_PROCESSING: 'NATURAL_LANGUAGE_PROCESSING',
-  REINFORCEMENT_LEARNING: 'REINFORCEMENT_LEARNING',
-  DATA_INTEGRATION: 'DATA_INTEGRATION',
-  DATA_SECURITY: 'DATA_SECURITY',
-  CLOUD_DATA: 'CLOUD_DATA',
-  BUSINESS_INTELLIGENCE: 'BUSINESS_INTELLIGENCE',
-  KAGGLE: 'KAGGLE',
-  SQL_ANALYSIS: 'SQL_ANALYSIS',
-  DATA_WAREHOUSING: 'DATA_WAREHOUSING',
-  ETL_PROCESS: 'ETL_PROCESS',
-  INTERVIEWS: 'INTERVIEWS',
-  TUTORIALS: 'TUTORIALS',
-  HOW_TO_GUIDES: 'HOW_TO_GUIDES'
+exports.ReactionType = exports.$Enums.ReactionType = {
+  LIKE: 'LIKE',
+  INSIGHTFUL: 'INSIGHTFUL',
+  LOVE: 'LOVE',
+  FUNNY: 'FUNNY',
+  CELEBRATE: 'CELEBRATE'
+};
+
+exports.BlogStatus = exports.$Enums.BlogStatus = {
+  DRAFT: 'DRAFT',
+  SCHEDULED: 'SCHEDULED',
+  PUBLISHED: 'PUBLISHED',
+  ARCHIVED: 'ARCHIVED'
+};
+
+exports.CommentStatus = exports.$Enums.CommentStatus = {
+  PENDING: 'PENDING',
+  APPROVED: 'APPROVED',
+  REJECTED: 'REJECTED',
+  SPAM: 'SPAM'
+};
+
+exports.Role = exports.$Enums.Role = {
+  ADMIN: 'ADMIN',
+  EDITOR: 'EDITOR',
+  AUTHOR: 'AUTHOR',
+  READER: 'READER'
 };
 
 exports.Prisma.ModelName = {
-  Blog: 'Blog'
+  Blog: 'Blog',
+  BlogView: 'BlogView',
+  BlogShare: 'BlogShare',
+  Reaction: 'Reaction',
+  Bookmark: 'Bookmark',
+  Draft: 'Draft',
+  CollabDocument: 'CollabDocument',
+  BlogRevision: 'BlogRevision',
+  User: 'User',
+  Session: 'Session',
+  Author: 'Author',
+  BlogAuthor: 'BlogAuthor',
+  Series: 'Series',
+  Comment: 'Comment',
+  Tag: 'Tag',
+  Topic: 'Topic'
 };
 /**
  * Create the Client
@@ -328,7 +361,9 @@ const config = {
         "native": true
       }
     ],
-    "previewFeatures": [],
+    "previewFeatures": [
+      "postgresqlExtensions"
+    ],
     "sourceFilePath": "C:\\Users\\Aayush\\Webs\\blog-web\\prisma\\schema.prisma",
     "isCustomOutput": true
   },
@@ -352,13 +387,13 @@ const config = {
       }
     }
   },
-  "inlineSchema": "// This is your Prisma schema file,\n// learn more about it in the docs: https://pris.ly/d/prisma-schema\n\n// Looking for ways to speed up your queries, or scale easily with your serverless or edge functions?\n// Try Prisma Accelerate: https://pris.ly/cli/accelerate-init\n\ngenerator client {\n  provider = \"prisma-client-js\"\n  output   = \"../generated/prisma\"\n}\n\ndatasource db {\n  provider = \"postgresql\"\n  url      = env(\"DATABASE_URL\")\n}\n\nmodel Blog {\n  id        String   @id @default(uuid())\n  title     String\n  subTitle  String\n  slug      String   @unique\n  content   String\n  bannerUrl String\n  video     String?\n  tags      Tags[]\n  topics    Topics[]\n  createdAt DateTime @default(now())\n  updatedAt DateTime @default(now())\n}\n\nenum Tags {\n  HTML\n  CSS\n  TAILWIND_CSS\n  JAVASCRIPT\n  TYPESCRIPT\n  REACT_JS\n  NEXT_JS\n  NODEJS\n  MONGODB\n  EXPRESS\n  PRISMA\n  GIT\n  DOCKER\n  KUBERNETES\n  AWS\n  AZURE\n  GOOGLE_CLOUD\n  FIREBASE\n  GRAPHQL\n  REST\n  ERROR_HANDLING\n  PERFORMANCE\n  SCALABILITY\n  RELIABILITY\n  MAINTAINABILITY\n  READABILITY\n  CODEQUALITY\n  BEST_PRACTICES\n  RISK_MANAGEMENT\n  VULNERABILITY_ASSESSMENT\n  PENETRATION_TESTING\n  SECURITY_TESTING\n  CODE_REVIEW\n  CODE_ANALYSIS\n  CODE_INSPECTION\n  REFACTORING\n  CODE_OPTIMIZATION\n  WEB_DESIGN\n  FIGMA\n  VSCODE\n  REDUX\n  VUE_JS\n  ANGULAR\n  POSTGRESQL\n  MYSQL\n  REDIS\n  CI_CD\n  SERVERLESS\n  PWA\n  WEB_SOCKETS\n  SEO\n  ACCESSIBILITY\n  UNIT_TESTING\n  INTEGRATION_TESTING\n  E2E_TESTING\n  WEBPACK\n  BABEL\n  ESLINT\n  PRETTIER\n  JEST\n  CYPRESS\n  PYTHON\n  DEEP_LEARNING\n  NEURAL_NETWORKS\n  DATA_ANALYSIS\n  PANDAS\n  NUMPY\n  TENSORFLOW\n  DATA_VISUALIZATION\n  BIGDATA\n  SQL\n  NOSQL\n  ETL\n  CLOUD_DATA_ENGINEERING\n  STATISTICS\n  MODEL_DEPLOYMENT\n  COMPUTER_VISION\n  KAGGLE\n  INTERACTION_DESIGN\n  WIREFRAMING\n  PROTOTYPING\n  COLOR_THEORY\n  TYPOGRAPHY\n  MOTION_DESIGN\n  HEADLESS_CMS\n  WEB_COMPONENTS\n  WEB_PERFORMANCE\n  WEB_ANIMATIONS\n  RESPONSIVE_DESIGN\n  CROSS_BROWSER_COMPATIBILITY\n  NETWORK_SECURITY\n  CRYPTOGRAPHY\n  SECURE_CODING\n  MALWARE_ANALYSIS\n  DIGITAL_FORENSICS\n  HACKATHONS\n  TECH_INTERVIEWS\n  PORTFOLIO_BUILDING\n  METAVERSE\n}\n\nenum Topics {\n  FRONTEND\n  BACKEND\n  FULLSTACK\n  DEVOPS\n  CLOUD\n  SECURITY\n  TESTING\n  DEPLOYMENT\n  AUTOMATION\n  MONITORING\n  GITHUB\n  DESIGNS\n  PROGRAMMING\n  WEB_DEVELOPMENT\n  TECHNOLOGIES\n  TRENDS\n  NEWS\n  BLOG\n  CODE\n  TOOLS\n  FRAMEWORKS\n  LIBRARIES\n  LANGUAGES\n  DATABASES\n  APIS\n  MICROSERVICES\n  ARCHITECTURE\n  RESOURCES\n  TIPS_TRICKS\n  TECH\n  TECH_TRENDS\n  TECH_NEWS\n  TECH_BLOG\n  MOBILE_DEVELOPMENT\n  AI_ML\n  DATA_SCIENCE\n  BLOCKCHAIN\n  CYBER_SECURITY\n  UX_UI\n  PRODUCT_MANAGEMENT\n  AGILE\n  SOFTWARE_ENGINEERING\n  SYSTEM_DESIGN\n  CODE_REVIEWS\n  CAREER_DEVELOPMENT\n  OPEN_SOURCE\n  ETHICAL_HACKING\n  CLOUD_NATIVE\n  EDGE_COMPUTING\n  QUANTUM_COMPUTING\n  AR_VR\n  ROBOTICS\n  GREENTECH\n  FINTECH\n  HEALTHTECH\n  EDTECH\n  DATA_MINING\n  DATA_ANALYTICS\n  PREDICTIVE_ANALYTICS\n  MACHINE_LEARNING\n  STATISTICS\n  DATA_ENGINEERING\n  ARTIFICIAL_INTELLIGENCE\n  NATURAL_LANGUAGE_PROCESSING\n  REINFORCEMENT_LEARNING\n  DATA_INTEGRATION\n  DATA_SECURITY\n  CLOUD_DATA\n  BUSINESS_INTELLIGENCE\n  KAGGLE\n  SQL_ANALYSIS\n  DATA_WAREHOUSING\n  ETL_PROCESS\n  INTERVIEWS\n  TUTORIALS\n  HOW_TO_GUIDES\n}\n",
-  "inlineSchemaHash": "f801016eb129097d9a399598b19842df64fa0be9940043d7a47224e401c1176c",
+  "inlineSchema": "// This is your Prisma schema file,\n// learn more about it in the docs: https://pris.ly/d/prisma-schema\n\n// Looking for ways to speed up your queries, or scale easily with your serverless or edge functions?\n// Try Prisma Accelerate: https://pris.ly/cli/accelerate-init\n\ngenerator client {\n  provider        = \"prisma-client-js\"\n  output          = \"../generated/prisma\"\n  previewFeatures = [\"postgresqlExtensions\"]\n}\n\ndatasource db {\n  provider   = \"postgresql\"\n  url        = env(\"DATABASE_URL\")\n  // Trigram matching for typo-tolerant search and suggestions\n  extensions = [pg_trgm]\n}\n\nmodel Blog {\n  id             String                   @id @default(uuid())\n  title          String\n  subTitle       String\n  slug           String                   @unique\n  content        String\n  bannerUrl      String\n  video          String?\n  tags           Tag[]\n  topics         Topic[]\n  // Defaults to PUBLISHED so posts created before the lifecycle stay live\n  status         BlogStatus               @default(PUBLISHED)\n  publishedAt    DateTime?\n  scheduledFor   DateTime?\n  createdAt      DateTime                 @default(now())\n  // Bumped by Prisma on every content edit; trash moves keep it unchanged\n  updatedAt      DateTime                 @default(now()) @updatedAt\n  deletedAt      DateTime?\n  // Derived from content on every save, see lib/contentStats.ts\n  wordCount      Int                      @default(0)\n  // Estimated minutes to read\n  readingTime    Int                      @default(0)\n  codeBlockCount Int                      @default(0)\n  headingCount   Int                      @default(0)\n  // Optional series this post is a part of, ordered by seriesPosition\n  seriesId       String?\n  series         Series?                  @relation(fields: [seriesId], references: [id], onDelete: SetNull)\n  seriesPosition Int?\n  revisions      BlogRevision[]\n  authors        BlogAuthor[]\n  comments       Comment[]\n  views          BlogView[]\n  shares         BlogShare[]\n  reactions      Reaction[]\n  bookmarks      Bookmark[]\n  drafts         Draft[]\n  collabDocument CollabDocument?\n  // Weighted title > subTitle > content; kept in sync by the trigger in\n  // prisma/search-migration.sql\n  searchVector   Unsupported(\"tsvector\")?\n\n  @@index([deletedAt])\n  @@index([updatedAt])\n  @@index([readingTime])\n  @@index([seriesId, seriesPosition])\n  @@index([status, scheduledFor])\n  @@index([searchVector], type: Gin)\n  @@index([title(ops: raw(\"gin_trgm_ops\"))], type: Gin)\n}\n\n// One row per reading session of a post. Kept apart from Blog so counting\n// a view never bumps the post's updatedAt\nmodel BlogView {\n  id        String   @id @default(uuid())\n  blogId    String\n  blog      Blog     @relation(fields: [blogId], references: [id], onDelete: Cascade)\n  // Hash of the reader's tab session and the post; no IP or cookie is kept\n  visitorId String\n  // Furthest scroll-depth milestone reached, in percent\n  maxDepth  Int      @default(0)\n  createdAt DateTime @default(now())\n\n  @@unique([blogId, visitorId])\n  @@index([createdAt])\n}\n\n// One use of a share button; only the channel and time are kept\nmodel BlogShare {\n  id        String       @id @default(uuid())\n  blogId    String\n  blog      Blog         @relation(fields: [blogId], references: [id], onDelete: Cascade)\n  channel   ShareChannel\n  createdAt DateTime     @default(now())\n\n  @@index([blogId, channel])\n  @@index([createdAt])\n}\n\nenum ShareChannel {\n  NATIVE\n  X\n  LINKEDIN\n  REDDIT\n  HACKER_NEWS\n  EMAIL\n  COPY_LINK\n  COPY_MARKDOWN\n}\n\n// A signed-in reader's reaction to a post; one of each type per reader\nmodel Reaction {\n  blogId    String\n  blog      Blog         @relation(fields: [blogId], references: [id], onDelete: Cascade)\n  userId    String\n  user      User         @relation(fields: [userId], references: [id], onDelete: Cascade)\n  type      ReactionType\n  createdAt DateTime     @default(now())\n\n  @@id([blogId, userId, type])\n  @@index([userId])\n}\n\nenum ReactionType {\n  LIKE\n  INSIGHTFUL\n  LOVE\n  FUNNY\n  CELEBRATE\n}\n\n// A post on a signed-in reader's reading list; anonymous readers keep\n// theirs in local storage\nmodel Bookmark {\n  userId    String\n  user      User     @relation(fields: [userId], references: [id], onDelete: Cascade)\n  blogId    String\n  blog      Blog     @relation(fields: [blogId], references: [id], onDelete: Cascade)\n  createdAt DateTime @default(now())\n\n  @@id([userId, blogId])\n  @@index([blogId])\n}\n\n// Unsaved editor changes, autosaved so they survive a closed tab and follow\n// the writer to other devices\nmodel Draft {\n  id        String   @id @default(uuid())\n  userId    String\n  user      User     @relation(fields: [userId], references: [id], onDelete: Cascade)\n  // The post being edited; null while writing a new one\n  blogId    String?\n  blog      Blog?    @relation(fields: [blogId], references: [id], onDelete: Cascade)\n  // blogId, or \"new\", so each writer has one draft per post\n  key       String\n  // Editor form fields as they were left\n  data      Json\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  @@unique([userId, key])\n}\n\n// Content of a post being edited together, saved by the sync server between\n// sessions. Readers only see it once an editor saves the post\nmodel CollabDocument {\n  blogId    String   @id\n  blog      Blog     @relation(fields: [blogId], references: [id], onDelete: Cascade)\n  content   String\n  updatedAt DateTime @updatedAt\n}\n\nmodel BlogRevision {\n  id                  String   @id @default(uuid())\n  blogId              String\n  blog                Blog     @relation(fields: [blogId], references: [id], onDelete: Cascade)\n  version             Int\n  title               String\n  subTitle            String\n  content             String\n  bannerUrl           String\n  video               String?\n  // Tag and topic slugs at the time of the save\n  tags                String[]\n  topics              String[]\n  editorId            String?\n  editor              User?    @relation(fields: [editorId], references: [id], onDelete: SetNull)\n  // Set when this revision was created by rolling back to an older one\n  restoredFromVersion Int?\n  createdAt           DateTime @default(now())\n\n  @@unique([blogId, version])\n}\n\nenum BlogStatus {\n  DRAFT\n  SCHEDULED\n  PUBLISHED\n  ARCHIVED\n}\n\nmodel User {\n  id           String         @id @default(uuid())\n  email        String         @unique\n  name         String\n  passwordHash String\n  role         Role           @default(READER)\n  sessions     Session[]\n  revisions    BlogRevision[]\n  author       Author?\n  comments     Comment[]\n  reactions    Reaction[]\n  bookmarks    Bookmark[]\n  drafts       Draft[]\n  createdAt    DateTime       @default(now())\n  updatedAt    DateTime       @updatedAt\n}\n\nmodel Session {\n  id        String   @id @default(uuid())\n  tokenHash String   @unique\n  userId    String\n  user      User     @relation(fields: [userId], references: [id], onDelete: Cascade)\n  expiresAt DateTime\n  createdAt DateTime @default(now())\n\n  @@index([userId])\n}\n\nmodel Author {\n  id        String       @id @default(uuid())\n  handle    String       @unique\n  name      String\n  bio       String?\n  avatarUrl String?\n  // Social links, stored as full URLs\n  website   String?\n  twitter   String?\n  github    String?\n  linkedin  String?\n  // The account that writes as this author, if any\n  userId    String?      @unique\n  user      User?        @relation(fields: [userId], references: [id], onDelete: SetNull)\n  blogs     BlogAuthor[]\n  createdAt DateTime     @default(now())\n  updatedAt DateTime     @updatedAt\n}\n\nmodel BlogAuthor {\n  blogId   String\n  blog     Blog   @relation(fields: [blogId], references: [id], onDelete: Cascade)\n  authorId String\n  author   Author @relation(fields: [authorId], references: [id], onDelete: Cascade)\n  // Byline order; 0 is the primary author\n  position Int    @default(0)\n\n  @@id([blogId, authorId])\n  @@index([authorId])\n}\n\n// Multi-part posts such as tutorials, read in seriesPosition order\nmodel Series {\n  id          String   @id @default(uuid())\n  slug        String   @unique\n  title       String\n  description String?\n  posts       Blog[]\n  createdAt   DateTime @default(now())\n  updatedAt   DateTime @updatedAt\n}\n\nmodel Comment {\n  id          String        @id @default(uuid())\n  blogId      String\n  blog        Blog          @relation(fields: [blogId], references: [id], onDelete: Cascade)\n  // Top-level comments have no parent; removing a comment removes its replies\n  parentId    String?\n  parent      Comment?      @relation(\"CommentReplies\", fields: [parentId], references: [id], onDelete: Cascade)\n  replies     Comment[]     @relation(\"CommentReplies\")\n  // Markdown source, rendered like post content\n  body        String\n  // Signed-in commenters are linked; guests only leave a name\n  userId      String?\n  user        User?         @relation(fields: [userId], references: [id], onDelete: SetNull)\n  authorName  String\n  status      CommentStatus @default(PENDING)\n  moderatedAt DateTime?\n  createdAt   DateTime      @default(now())\n  updatedAt   DateTime      @updatedAt\n\n  @@index([blogId, status])\n  @@index([status, createdAt])\n}\n\nenum CommentStatus {\n  PENDING\n  APPROVED\n  REJECTED\n  SPAM\n}\n\nenum Role {\n  ADMIN\n  EDITOR\n  AUTHOR\n  READER\n}\n\nmodel Tag {\n  id          String   @id @default(uuid())\n  slug        String   @unique\n  name        String\n  description String?\n  // Hex colour used for the tag's badge\n  color       String?\n  blogs       Blog[]\n  createdAt   DateTime @default(now())\n  updatedAt   DateTime @updatedAt\n}\n\nmodel Topic {\n  id          String   @id @default(uuid())\n  slug        String   @unique\n  name        String\n  description String?\n  // Hex colour used for the topic's badge\n  color       String?\n  blogs       Blog[]\n  createdAt   DateTime @default(now())\n  updatedAt   DateTime @updatedAt\n}\n",
+  "inlineSchemaHash": "1dcc9a542d941fa2f9dc353fbeed436d3f68f338f9f7731aa605be7c3152a9ba",
   "copyEngine": true
 }
 config.dirname = '/'
 
-config.runtimeDataModel = JSON.parse("{\"models\":{\"Blog\":{\"dbName\":null,\"schema\":null,\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":true,\"isReadOnly\":false,\"hasDefaultValue\":true,\"type\":\"String\",\"nativeType\":null,\"default\":{\"name\":\"uuid\",\"args\":[4]},\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"title\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"subTitle\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"slug\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":true,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"content\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"bannerUrl\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"video\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":false,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"tags\",\"kind\":\"enum\",\"isList\":true,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"Tags\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"topics\",\"kind\":\"enum\",\"isList\":true,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"Topics\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":true,\"type\":\"DateTime\",\"nativeType\":null,\"default\":{\"name\":\"now\",\"args\":[]},\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":true,\"type\":\"DateTime\",\"nativeType\":null,\"default\":{\"name\":\"now\",\"args\":[]},\"isGenerated\":false,\"isUpdatedAt\":false}],\"primaryKey\":null,\"uniqueFields\":[],\"uniqueIndexes\":[],\"isGenerated\":false}},\"enums\":{\"Tags\":{\"values\":[{\"name\":\"HTML\",\"dbName\":null},{\"name\":\"CSS\",\"dbName\":null},{\"name\":\"TAILWIND_CSS\",\"dbName\":null},{\"name\":\"JAVASCRIPT\",\"dbName\":null},{\"name\":\"TYPESCRIPT\",\"dbName\":null},{\"name\":\"REACT_JS\",\"dbName\":null},{\"name\":\"NEXT_JS\",\"dbName\":null},{\"name\":\"NODEJS\",\"dbName\":null},{\"name\":\"MONGODB\",\"dbName\":null},{\"name\":\"EXPRESS\",\"dbName\":null},{\"name\":\"PRISMA\",\"dbName\":null},{\"name\":\"GIT\",\"dbName\":null},{\"name\":\"DOCKER\",\"dbName\":null},{\"name\":\"KUBERNETES\",\"dbName\":null},{\"name\":\"AWS\",\"dbName\":null},{\"name\":\"AZURE\",\"dbName\":null},{\"name\":\"GOOGLE_CLOUD\",\"dbName\":null},{\"name\":\"FIREBASE\",\"dbName\":null},{\"name\":\"GRAPHQL\",\"dbName\":null},{\"name\":\"REST\",\"dbName\":null},{\"name\":\"ERROR_HANDLING\",\"dbName\":null},{\"name\":\"PERFORMANCE\",\"dbName\":null},{\"name\":\"SCALABILITY\",\"dbName\":null},{\"name\":\"RELIABILITY\",\"dbName\":null},{\"name\":\"MAINTAINABILITY\",\"dbName\":null},{\"name\":\"READABILITY\",\"dbName\":null},{\"name\":\"CODEQUALITY\",\"dbName\":null},{\"name\":\"BEST_PRACTICES\",\"dbName\":null},{\"name\":\"RISK_MANAGEMENT\",\"dbName\":null},{\"name\":\"VULNERABILITY_ASSESSMENT\",\"dbName\":null},{\"name\":\"PENETRATION_TESTING\",\"dbName\":null},{\"name\":\"SECURITY_TESTING\",\"dbName\":null},{\"name\":\"CODE_REVIEW\",\"dbName\":null},{\"name\":\"CODE_ANALYSIS\",\"dbName\":null},{\"name\":\"CODE_INSPECTION\",\"dbName\":null},{\"name\":\"REFACTORING\",\"dbName\":null},{\"name\":\"CODE_OPTIMIZATION\",\"dbName\":null},{\"name\":\"WEB_DESIGN\",\"dbName\":null},{\"name\":\"FIGMA\",\"dbName\":null},{\"name\":\"VSCODE\",\"dbName\":null},{\"name\":\"REDUX\",\"dbName\":null},{\"name\":\"VUE_JS\",\"dbName\":null},{\"name\":\"ANGULAR\",\"dbName\":null},{\"name\":\"POSTGRESQL\",\"dbName\":null},{\"name\":\"MYSQL\",\"dbName\":null},{\"name\":\"REDIS\",\"dbName\":null},{\"name\":\"CI_CD\",\"dbName\":null},{\"name\":\"SERVERLESS\",\"dbName\":null},{\"name\":\"PWA\",\"dbName\":null},{\"name\":\"WEB_SOCKETS\",\"dbName\":null},{\"name\":\"SEO\",\"dbName\":null},{\"name\":\"ACCESSIBILITY\",\"dbName\":null},{\"name\":\"UNIT_TESTING\",\"dbName\":null},{\"name\":\"INTEGRATION_TESTING\",\"dbName\":null},{\"name\":\"E2E_TESTING\",\"dbName\":null},{\"name\":\"WEBPACK\",\"dbName\":null},{\"name\":\"BABEL\",\"dbName\":null},{\"name\":\"ESLINT\",\"dbName\":null},{\"name\":\"PRETTIER\",\"dbName\":null},{\"name\":\"JEST\",\"dbName\":null},{\"name\":\"CYPRESS\",\"dbName\":null},{\"name\":\"PYTHON\",\"dbName\":null},{\"name\":\"DEEP_LEARNING\",\"dbName\":null},{\"name\":\"NEURAL_NETWORKS\",\"dbName\":null},{\"name\":\"DATA_ANALYSIS\",\"dbName\":null},{\"name\":\"PANDAS\",\"dbName\":null},{\"name\":\"NUMPY\",\"dbName\":null},{\"name\":\"TENSORFLOW\",\"dbName\":null},{\"name\":\"DATA_VISUALIZATION\",\"dbName\":null},{\"name\":\"BIGDATA\",\"dbName\":null},{\"name\":\"SQL\",\"dbName\":null},{\"name\":\"NOSQL\",\"dbName\":null},{\"name\":\"ETL\",\"dbName\":null},{\"name\":\"CLOUD_DATA_ENGINEERING\",\"dbName\":null},{\"name\":\"STATISTICS\",\"dbName\":null},{\"name\":\"MODEL_DEPLOYMENT\",\"dbName\":null},{\"name\":\"COMPUTER_VISION\",\"dbName\":null},{\"name\":\"KAGGLE\",\"dbName\":null},{\"name\":\"INTERACTION_DESIGN\",\"dbName\":null},{\"name\":\"WIREFRAMING\",\"dbName\":null},{\"name\":\"PROTOTYPING\",\"dbName\":null},{\"name\":\"COLOR_THEORY\",\"dbName\":null},{\"name\":\"TYPOGRAPHY\",\"dbName\":null},{\"name\":\"MOTION_DESIGN\",\"dbName\":null},{\"name\":\"HEADLESS_CMS\",\"dbName\":null},{\"name\":\"WEB_COMPONENTS\",\"dbName\":null},{\"name\":\"WEB_PERFORMANCE\",\"dbName\":null},{\"name\":\"WEB_ANIMATIONS\",\"dbName\":null},{\"name\":\"RESPONSIVE_DESIGN\",\"dbName\":null},{\"name\":\"CROSS_BROWSER_COMPATIBILITY\",\"dbName\":null},{\"name\":\"NETWORK_SECURITY\",\"dbName\":null},{\"name\":\"CRYPTOGRAPHY\",\"dbName\":null},{\"name\":\"SECURE_CODING\",\"dbName\":null},{\"name\":\"MALWARE_ANALYSIS\",\"dbName\":null},{\"name\":\"DIGITAL_FORENSICS\",\"dbName\":null},{\"name\":\"HACKATHONS\",\"dbName\":null},{\"name\":\"TECH_INTERVIEWS\",\"dbName\":null},{\"name\":\"PORTFOLIO_BUILDING\",\"dbName\":null},{\"name\":\"METAVERSE\",\"dbName\":null}],\"dbName\":null},\"Topics\":{\"values\":[{\"name\":\"FRONTEND\",\"dbName\":null},{\"name\":\"BACKEND\",\"dbName\":null},{\"name\":\"FULLSTACK\",\"dbName\":null},{\"name\":\"DEVOPS\",\"dbName\":null},{\"name\":\"CLOUD\",\"dbName\":null},{\"name\":\"SECURITY\",\"dbName\":null},{\"name\":\"TESTING\",\"dbName\":null},{\"name\":\"DEPLOYMENT\",\"dbName\":null},{\"name\":\"AUTOMATION\",\"dbName\":null},{\"name\":\"MONITORING\",\"dbName\":null},{\"name\":\"GITHUB\",\"dbName\":null},{\"name\":\"DESIGNS\",\"dbName\":null},{\"name\":\"PROGRAMMING\",\"dbName\":null},{\"name\":\"WEB_DEVELOPMENT\",\"dbName\":null},{\"name\":\"TECHNOLOGIES\",\"dbName\":null},{\"name\":\"TRENDS\",\"dbName\":null},{\"name\":\"NEWS\",\"dbName\":null},{\"name\":\"BLOG\",\"dbName\":null},{\"name\":\"CODE\",\"dbName\":null},{\"name\":\"TOOLS\",\"dbName\":null},{\"name\":\"FRAMEWORKS\",\"dbName\":null},{\"name\":\"LIBRARIES\",\"dbName\":null},{\"name\":\"LANGUAGES\",\"dbName\":null},{\"name\":\"DATABASES\",\"dbName\":null},{\"name\":\"APIS\",\"dbName\":null},{\"name\":\"MICROSERVICES\",\"dbName\":null},{\"name\":\"ARCHITECTURE\",\"dbName\":null},{\"name\":\"RESOURCES\",\"dbName\":null},{\"name\":\"TIPS_TRICKS\",\"dbName\":null},{\"name\":\"TECH\",\"dbName\":null},{\"name\":\"TECH_TRENDS\",\"dbName\":null},{\"name\":\"TECH_NEWS\",\"dbName\":null},{\"name\":\"TECH_BLOG\",\"dbName\":null},{\"name\":\"MOBILE_DEVELOPMENT\",\"dbName\":null},{\"name\":\"AI_ML\",\"dbName\":null},{\"name\":\"DATA_SCIENCE\",\"dbName\":null},{\"name\":\"BLOCKCHAIN\",\"dbName\":null},{\"name\":\"CYBER_SECURITY\",\"dbName\":null},{\"name\":\"UX_UI\",\"dbName\":null},{\"name\":\"PRODUCT_MANAGEMENT\",\"dbName\":null},{\"name\":\"AGILE\",\"dbName\":null},{\"name\":\"SOFTWARE_ENGINEERING\",\"dbName\":null},{\"name\":\"SYSTEM_DESIGN\",\"dbName\":null},{\"name\":\"CODE_REVIEWS\",\"dbName\":null},{\"name\":\"CAREER_DEVELOPMENT\",\"dbName\":null},{\"name\":\"OPEN_SOURCE\",\"dbName\":null},{\"name\":\"ETHICAL_HACKING\",\"dbName\":null},{\"name\":\"CLOUD_NATIVE\",\"dbName\":null},{\"name\":\"EDGE_COMPUTING\",\"dbName\":null},{\"name\":\"QUANTUM_COMPUTING\",\"dbName\":null},{\"name\":\"AR_VR\",\"dbName\":null},{\"name\":\"ROBOTICS\",\"dbName\":null},{\"name\":\"GREENTECH\",\"dbName\":null},{\"name\":\"FINTECH\",\"dbName\":null},{\"name\":\"HEALTHTECH\",\"dbName\":null},{\"name\":\"EDTECH\",\"dbName\":null},{\"name\":\"DATA_MINING\",\"dbName\":null},{\"name\":\"DATA_ANALYTICS\",\"dbName\":null},{\"name\":\"PREDICTIVE_ANALYTICS\",\"dbName\":null},{\"name\":\"MACHINE_LEARNING\",\"dbName\":null},{\"name\":\"STATISTICS\",\"dbName\":null},{\"name\":\"DATA_ENGINEERING\",\"dbName\":null},{\"name\":\"ARTIFICIAL_INTELLIGENCE\",\"dbName\":null},{\"name\":\"NATURAL_LANGUAGE_PROCESSING\",\"dbName\":null},{\"name\":\"REINFORCEMENT_LEARNING\",\"dbName\":null},{\"name\":\"DATA_INTEGRATION\",\"dbName\":null},{\"name\":\"DATA_SECURITY\",\"dbName\":null},{\"name\":\"CLOUD_DATA\",\"dbName\":null},{\"name\":\"BUSINESS_INTELLIGENCE\",\"dbName\":null},{\"name\":\"KAGGLE\",\"dbName\":null},{\"name\":\"SQL_ANALYSIS\",\"dbName\":null},{\"name\":\"DATA_WAREHOUSING\",\"dbName\":null},{\"name\":\"ETL_PROCESS\",\"dbName\":null},{\"name\":\"INTERVIEWS\",\"dbName\":null},{\"name\":\"TUTORIALS\",\"dbName\":null},{\"name\":\"HOW_TO_GUIDES\",\"dbName\":null}],\"dbName\":null}},\"types\":{}}")
+config.runtimeDataModel = JSON.parse("{\"models\":{\"Blog\":{\"dbName\":null,\"schema\":null,\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":true,\"isReadOnly\":false,\"hasDefaultValue\":true,\"type\":\"String\",\"nativeType\":null,\"default\":{\"name\":\"uuid\",\"args\":[4]},\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"title\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"subTitle\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"slug\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":true,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"content\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"bannerUrl\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"video\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":false,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"tags\",\"kind\":\"object\",\"isList\":true,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"Tag\",\"nativeType\":null,\"relationName\":\"BlogToTag\",\"relationFromFields\":[],\"relationToFields\":[],\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"topics\",\"kind\":\"object\",\"isList\":true,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"Topic\",\"nativeType\":null,\"relationName\":\"BlogToTopic\",\"relationFromFields\":[],\"relationToFields\":[],\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"status\",\"kind\":\"enum\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":true,\"type\":\"BlogStatus\",\"nativeType\":null,\"default\":\"PUBLISHED\",\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"publishedAt\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":false,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"DateTime\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"scheduledFor\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":false,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"DateTime\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":true,\"type\":\"DateTime\",\"nativeType\":null,\"default\":{\"name\":\"now\",\"args\":[]},\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":true,\"type\":\"DateTime\",\"nativeType\":null,\"default\":{\"name\":\"now\",\"args\":[]},\"isGenerated\":false,\"isUpdatedAt\":true},{\"name\":\"deletedAt\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":false,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"DateTime\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"wordCount\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":true,\"type\":\"Int\",\"nativeType\":null,\"default\":0,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"readingTime\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":true,\"type\":\"Int\",\"nativeType\":null,\"default\":0,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"codeBlockCount\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":true,\"type\":\"Int\",\"nativeType\":null,\"default\":0,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"headingCount\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":true,\"type\":\"Int\",\"nativeType\":null,\"default\":0,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"seriesId\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":false,\"isUnique\":false,\"isId\":false,\"isReadOnly\":true,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"series\",\"kind\":\"object\",\"isList\":false,\"isRequired\":false,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"Series\",\"nativeType\":null,\"relationName\":\"BlogToSeries\",\"relationFromFields\":[\"seriesId\"],\"relationToFields\":[\"id\"],\"relationOnDelete\":\"SetNull\",\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"seriesPosition\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":false,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"Int\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"revisions\",\"kind\":\"object\",\"isList\":true,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"BlogRevision\",\"nativeType\":null,\"relationName\":\"BlogToBlogRevision\",\"relationFromFields\":[],\"relationToFields\":[],\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"authors\",\"kind\":\"object\",\"isList\":true,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"BlogAuthor\",\"nativeType\":null,\"relationName\":\"BlogToBlogAuthor\",\"relationFromFields\":[],\"relationToFields\":[],\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"comments\",\"kind\":\"object\",\"isList\":true,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"Comment\",\"nativeType\":null,\"relationName\":\"BlogToComment\",\"relationFromFields\":[],\"relationToFields\":[],\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"views\",\"kind\":\"object\",\"isList\":true,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"BlogView\",\"nativeType\":null,\"relationName\":\"BlogToBlogView\",\"relationFromFields\":[],\"relationToFields\":[],\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"shares\",\"kind\":\"object\",\"isList\":true,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"BlogShare\",\"nativeType\":null,\"relationName\":\"BlogToBlogShare\",\"relationFromFields\":[],\"relationToFields\":[],\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"reactions\",\"kind\":\"object\",\"isList\":true,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"Reaction\",\"nativeType\":null,\"relationName\":\"BlogToReaction\",\"relationFromFields\":[],\"relationToFields\":[],\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"bookmarks\",\"kind\":\"object\",\"isList\":true,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"Bookmark\",\"nativeType\":null,\"relationName\":\"BlogToBookmark\",\"relationFromFields\":[],\"relationToFields\":[],\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"drafts\",\"kind\":\"object\",\"isList\":true,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"Draft\",\"nativeType\":null,\"relationName\":\"BlogToDraft\",\"relationFromFields\":[],\"relationToFields\":[],\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"collabDocument\",\"kind\":\"object\",\"isList\":false,\"isRequired\":false,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"CollabDocument\",\"nativeType\":null,\"relationName\":\"BlogToCollabDocument\",\"relationFromFields\":[],\"relationToFields\":[],\"isGenerated\":false,\"isUpdatedAt\":false}],\"primaryKey\":null,\"uniqueFields\":[],\"uniqueIndexes\":[],\"isGenerated\":false},\"BlogView\":{\"dbName\":null,\"schema\":null,\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":true,\"isReadOnly\":false,\"hasDefaultValue\":true,\"type\":\"String\",\"nativeType\":null,\"default\":{\"name\":\"uuid\",\"args\":[4]},\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"blogId\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":true,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"blog\",\"kind\":\"object\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"Blog\",\"nativeType\":null,\"relationName\":\"BlogToBlogView\",\"relationFromFields\":[\"blogId\"],\"relationToFields\":[\"id\"],\"relationOnDelete\":\"Cascade\",\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"visitorId\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"maxDepth\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":true,\"type\":\"Int\",\"nativeType\":null,\"default\":0,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":true,\"type\":\"DateTime\",\"nativeType\":null,\"default\":{\"name\":\"now\",\"args\":[]},\"isGenerated\":false,\"isUpdatedAt\":false}],\"primaryKey\":null,\"uniqueFields\":[[\"blogId\",\"visitorId\"]],\"uniqueIndexes\":[{\"name\":null,\"fields\":[\"blogId\",\"visitorId\"]}],\"isGenerated\":false},\"BlogShare\":{\"dbName\":null,\"schema\":null,\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":true,\"isReadOnly\":false,\"hasDefaultValue\":true,\"type\":\"String\",\"nativeType\":null,\"default\":{\"name\":\"uuid\",\"args\":[4]},\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"blogId\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":true,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"blog\",\"kind\":\"object\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"Blog\",\"nativeType\":null,\"relationName\":\"BlogToBlogShare\",\"relationFromFields\":[\"blogId\"],\"relationToFields\":[\"id\"],\"relationOnDelete\":\"Cascade\",\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"channel\",\"kind\":\"enum\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"ShareChannel\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":true,\"type\":\"DateTime\",\"nativeType\":null,\"default\":{\"name\":\"now\",\"args\":[]},\"isGenerated\":false,\"isUpdatedAt\":false}],\"primaryKey\":null,\"uniqueFields\":[],\"uniqueIndexes\":[],\"isGenerated\":false},\"Reaction\":{\"dbName\":null,\"schema\":null,\"fields\":[{\"name\":\"blogId\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":true,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"blog\",\"kind\":\"object\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"Blog\",\"nativeType\":null,\"relationName\":\"BlogToReaction\",\"relationFromFields\":[\"blogId\"],\"relationToFields\":[\"id\"],\"relationOnDelete\":\"Cascade\",\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"userId\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":true,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"user\",\"kind\":\"object\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"User\",\"nativeType\":null,\"relationName\":\"ReactionToUser\",\"relationFromFields\":[\"userId\"],\"relationToFields\":[\"id\"],\"relationOnDelete\":\"Cascade\",\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"type\",\"kind\":\"enum\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"ReactionType\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":true,\"type\":\"DateTime\",\"nativeType\":null,\"default\":{\"name\":\"now\",\"args\":[]},\"isGenerated\":false,\"isUpdatedAt\":false}],\"primaryKey\":{\"name\":null,\"fields\":[\"blogId\",\"userId\",\"type\"]},\"uniqueFields\":[],\"uniqueIndexes\":[],\"isGenerated\":false},\"Bookmark\":{\"dbName\":null,\"schema\":null,\"fields\":[{\"name\":\"userId\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":true,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"user\",\"kind\":\"object\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"User\",\"nativeType\":null,\"relationName\":\"BookmarkToUser\",\"relationFromFields\":[\"userId\"],\"relationToFields\":[\"id\"],\"relationOnDelete\":\"Cascade\",\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"blogId\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":true,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"blog\",\"kind\":\"object\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"Blog\",\"nativeType\":null,\"relationName\":\"BlogToBookmark\",\"relationFromFields\":[\"blogId\"],\"relationToFields\":[\"id\"],\"relationOnDelete\":\"Cascade\",\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":true,\"type\":\"DateTime\",\"nativeType\":null,\"default\":{\"name\":\"now\",\"args\":[]},\"isGenerated\":false,\"isUpdatedAt\":false}],\"primaryKey\":{\"name\":null,\"fields\":[\"userId\",\"blogId\"]},\"uniqueFields\":[],\"uniqueIndexes\":[],\"isGenerated\":false},\"Draft\":{\"dbName\":null,\"schema\":null,\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":true,\"isReadOnly\":false,\"hasDefaultValue\":true,\"type\":\"String\",\"nativeType\":null,\"default\":{\"name\":\"uuid\",\"args\":[4]},\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"userId\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":true,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"user\",\"kind\":\"object\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"User\",\"nativeType\":null,\"relationName\":\"DraftToUser\",\"relationFromFields\":[\"userId\"],\"relationToFields\":[\"id\"],\"relationOnDelete\":\"Cascade\",\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"blogId\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":false,\"isUnique\":false,\"isId\":false,\"isReadOnly\":true,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"blog\",\"kind\":\"object\",\"isList\":false,\"isRequired\":false,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"Blog\",\"nativeType\":null,\"relationName\":\"BlogToDraft\",\"relationFromFields\":[\"blogId\"],\"relationToFields\":[\"id\"],\"relationOnDelete\":\"Cascade\",\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"key\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"data\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"Json\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":true,\"type\":\"DateTime\",\"nativeType\":null,\"default\":{\"name\":\"now\",\"args\":[]},\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"DateTime\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":true}],\"primaryKey\":null,\"uniqueFields\":[[\"userId\",\"key\"]],\"uniqueIndexes\":[{\"name\":null,\"fields\":[\"userId\",\"key\"]}],\"isGenerated\":false},\"CollabDocument\":{\"dbName\":null,\"schema\":null,\"fields\":[{\"name\":\"blogId\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":true,\"isReadOnly\":true,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"blog\",\"kind\":\"object\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"Blog\",\"nativeType\":null,\"relationName\":\"BlogToCollabDocument\",\"relationFromFields\":[\"blogId\"],\"relationToFields\":[\"id\"],\"relationOnDelete\":\"Cascade\",\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"content\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"DateTime\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":true}],\"primaryKey\":null,\"uniqueFields\":[],\"uniqueIndexes\":[],\"isGenerated\":false},\"BlogRevision\":{\"dbName\":null,\"schema\":null,\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":true,\"isReadOnly\":false,\"hasDefaultValue\":true,\"type\":\"String\",\"nativeType\":null,\"default\":{\"name\":\"uuid\",\"args\":[4]},\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"blogId\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":true,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"blog\",\"kind\":\"object\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"Blog\",\"nativeType\":null,\"relationName\":\"BlogToBlogRevision\",\"relationFromFields\":[\"blogId\"],\"relationToFields\":[\"id\"],\"relationOnDelete\":\"Cascade\",\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"version\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"Int\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"title\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"subTitle\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"content\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"bannerUrl\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"video\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":false,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"tags\",\"kind\":\"scalar\",\"isList\":true,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"topics\",\"kind\":\"scalar\",\"isList\":true,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"editorId\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":false,\"isUnique\":false,\"isId\":false,\"isReadOnly\":true,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"editor\",\"kind\":\"object\",\"isList\":false,\"isRequired\":false,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"User\",\"nativeType\":null,\"relationName\":\"BlogRevisionToUser\",\"relationFromFields\":[\"editorId\"],\"relationToFields\":[\"id\"],\"relationOnDelete\":\"SetNull\",\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"restoredFromVersion\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":false,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"Int\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":true,\"type\":\"DateTime\",\"nativeType\":null,\"default\":{\"name\":\"now\",\"args\":[]},\"isGenerated\":false,\"isUpdatedAt\":false}],\"primaryKey\":null,\"uniqueFields\":[[\"blogId\",\"version\"]],\"uniqueIndexes\":[{\"name\":null,\"fields\":[\"blogId\",\"version\"]}],\"isGenerated\":false},\"User\":{\"dbName\":null,\"schema\":null,\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":true,\"isReadOnly\":false,\"hasDefaultValue\":true,\"type\":\"String\",\"nativeType\":null,\"default\":{\"name\":\"uuid\",\"args\":[4]},\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"email\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":true,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"name\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"passwordHash\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"role\",\"kind\":\"enum\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":true,\"type\":\"Role\",\"nativeType\":null,\"default\":\"READER\",\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"sessions\",\"kind\":\"object\",\"isList\":true,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"Session\",\"nativeType\":null,\"relationName\":\"SessionToUser\",\"relationFromFields\":[],\"relationToFields\":[],\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"revisions\",\"kind\":\"object\",\"isList\":true,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"BlogRevision\",\"nativeType\":null,\"relationName\":\"BlogRevisionToUser\",\"relationFromFields\":[],\"relationToFields\":[],\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"author\",\"kind\":\"object\",\"isList\":false,\"isRequired\":false,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"Author\",\"nativeType\":null,\"relationName\":\"AuthorToUser\",\"relationFromFields\":[],\"relationToFields\":[],\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"comments\",\"kind\":\"object\",\"isList\":true,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"Comment\",\"nativeType\":null,\"relationName\":\"CommentToUser\",\"relationFromFields\":[],\"relationToFields\":[],\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"reactions\",\"kind\":\"object\",\"isList\":true,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"Reaction\",\"nativeType\":null,\"relationName\":\"ReactionToUser\",\"relationFromFields\":[],\"relationToFields\":[],\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"bookmarks\",\"kind\":\"object\",\"isList\":true,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"Bookmark\",\"nativeType\":null,\"relationName\":\"BookmarkToUser\",\"relationFromFields\":[],\"relationToFields\":[],\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"drafts\",\"kind\":\"object\",\"isList\":true,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"Draft\",\"nativeType\":null,\"relationName\":\"DraftToUser\",\"relationFromFields\":[],\"relationToFields\":[],\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":true,\"type\":\"DateTime\",\"nativeType\":null,\"default\":{\"name\":\"now\",\"args\":[]},\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"DateTime\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":true}],\"primaryKey\":null,\"uniqueFields\":[],\"uniqueIndexes\":[],\"isGenerated\":false},\"Session\":{\"dbName\":null,\"schema\":null,\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":true,\"isReadOnly\":false,\"hasDefaultValue\":true,\"type\":\"String\",\"nativeType\":null,\"default\":{\"name\":\"uuid\",\"args\":[4]},\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"tokenHash\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":true,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"userId\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":true,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"user\",\"kind\":\"object\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"User\",\"nativeType\":null,\"relationName\":\"SessionToUser\",\"relationFromFields\":[\"userId\"],\"relationToFields\":[\"id\"],\"relationOnDelete\":\"Cascade\",\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"DateTime\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":true,\"type\":\"DateTime\",\"nativeType\":null,\"default\":{\"name\":\"now\",\"args\":[]},\"isGenerated\":false,\"isUpdatedAt\":false}],\"primaryKey\":null,\"uniqueFields\":[],\"uniqueIndexes\":[],\"isGenerated\":false},\"Author\":{\"dbName\":null,\"schema\":null,\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":true,\"isReadOnly\":false,\"hasDefaultValue\":true,\"type\":\"String\",\"nativeType\":null,\"default\":{\"name\":\"uuid\",\"args\":[4]},\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"handle\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":true,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"name\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"bio\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":false,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"avatarUrl\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":false,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"website\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":false,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"twitter\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":false,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"github\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":false,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"linkedin\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":false,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"userId\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":false,\"isUnique\":true,\"isId\":false,\"isReadOnly\":true,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"user\",\"kind\":\"object\",\"isList\":false,\"isRequired\":false,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"User\",\"nativeType\":null,\"relationName\":\"AuthorToUser\",\"relationFromFields\":[\"userId\"],\"relationToFields\":[\"id\"],\"relationOnDelete\":\"SetNull\",\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"blogs\",\"kind\":\"object\",\"isList\":true,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"BlogAuthor\",\"nativeType\":null,\"relationName\":\"AuthorToBlogAuthor\",\"relationFromFields\":[],\"relationToFields\":[],\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":true,\"type\":\"DateTime\",\"nativeType\":null,\"default\":{\"name\":\"now\",\"args\":[]},\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"DateTime\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":true}],\"primaryKey\":null,\"uniqueFields\":[],\"uniqueIndexes\":[],\"isGenerated\":false},\"BlogAuthor\":{\"dbName\":null,\"schema\":null,\"fields\":[{\"name\":\"blogId\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":true,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"blog\",\"kind\":\"object\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"Blog\",\"nativeType\":null,\"relationName\":\"BlogToBlogAuthor\",\"relationFromFields\":[\"blogId\"],\"relationToFields\":[\"id\"],\"relationOnDelete\":\"Cascade\",\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"authorId\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":true,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"author\",\"kind\":\"object\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"Author\",\"nativeType\":null,\"relationName\":\"AuthorToBlogAuthor\",\"relationFromFields\":[\"authorId\"],\"relationToFields\":[\"id\"],\"relationOnDelete\":\"Cascade\",\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"position\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":true,\"type\":\"Int\",\"nativeType\":null,\"default\":0,\"isGenerated\":false,\"isUpdatedAt\":false}],\"primaryKey\":{\"name\":null,\"fields\":[\"blogId\",\"authorId\"]},\"uniqueFields\":[],\"uniqueIndexes\":[],\"isGenerated\":false},\"Series\":{\"dbName\":null,\"schema\":null,\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":true,\"isReadOnly\":false,\"hasDefaultValue\":true,\"type\":\"String\",\"nativeType\":null,\"default\":{\"name\":\"uuid\",\"args\":[4]},\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"slug\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":true,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"title\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"description\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":false,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"posts\",\"kind\":\"object\",\"isList\":true,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"Blog\",\"nativeType\":null,\"relationName\":\"BlogToSeries\",\"relationFromFields\":[],\"relationToFields\":[],\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":true,\"type\":\"DateTime\",\"nativeType\":null,\"default\":{\"name\":\"now\",\"args\":[]},\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"DateTime\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":true}],\"primaryKey\":null,\"uniqueFields\":[],\"uniqueIndexes\":[],\"isGenerated\":false},\"Comment\":{\"dbName\":null,\"schema\":null,\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":true,\"isReadOnly\":false,\"hasDefaultValue\":true,\"type\":\"String\",\"nativeType\":null,\"default\":{\"name\":\"uuid\",\"args\":[4]},\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"blogId\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":true,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"blog\",\"kind\":\"object\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"Blog\",\"nativeType\":null,\"relationName\":\"BlogToComment\",\"relationFromFields\":[\"blogId\"],\"relationToFields\":[\"id\"],\"relationOnDelete\":\"Cascade\",\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"parentId\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":false,\"isUnique\":false,\"isId\":false,\"isReadOnly\":true,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"parent\",\"kind\":\"object\",\"isList\":false,\"isRequired\":false,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"Comment\",\"nativeType\":null,\"relationName\":\"CommentReplies\",\"relationFromFields\":[\"parentId\"],\"relationToFields\":[\"id\"],\"relationOnDelete\":\"Cascade\",\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"replies\",\"kind\":\"object\",\"isList\":true,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"Comment\",\"nativeType\":null,\"relationName\":\"CommentReplies\",\"relationFromFields\":[],\"relationToFields\":[],\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"body\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"userId\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":false,\"isUnique\":false,\"isId\":false,\"isReadOnly\":true,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"user\",\"kind\":\"object\",\"isList\":false,\"isRequired\":false,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"User\",\"nativeType\":null,\"relationName\":\"CommentToUser\",\"relationFromFields\":[\"userId\"],\"relationToFields\":[\"id\"],\"relationOnDelete\":\"SetNull\",\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"authorName\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"status\",\"kind\":\"enum\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":true,\"type\":\"CommentStatus\",\"nativeType\":null,\"default\":\"PENDING\",\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"moderatedAt\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":false,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"DateTime\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":true,\"type\":\"DateTime\",\"nativeType\":null,\"default\":{\"name\":\"now\",\"args\":[]},\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"DateTime\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":true}],\"primaryKey\":null,\"uniqueFields\":[],\"uniqueIndexes\":[],\"isGenerated\":false},\"Tag\":{\"dbName\":null,\"schema\":null,\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":true,\"isReadOnly\":false,\"hasDefaultValue\":true,\"type\":\"String\",\"nativeType\":null,\"default\":{\"name\":\"uuid\",\"args\":[4]},\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"slug\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":true,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"name\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"description\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":false,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"color\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":false,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"blogs\",\"kind\":\"object\",\"isList\":true,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"Blog\",\"nativeType\":null,\"relationName\":\"BlogToTag\",\"relationFromFields\":[],\"relationToFields\":[],\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":true,\"type\":\"DateTime\",\"nativeType\":null,\"default\":{\"name\":\"now\",\"args\":[]},\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"DateTime\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":true}],\"primaryKey\":null,\"uniqueFields\":[],\"uniqueIndexes\":[],\"isGenerated\":false},\"Topic\":{\"dbName\":null,\"schema\":null,\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":true,\"isReadOnly\":false,\"hasDefaultValue\":true,\"type\":\"String\",\"nativeType\":null,\"default\":{\"name\":\"uuid\",\"args\":[4]},\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"slug\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":true,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"name\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"description\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":false,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"color\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":false,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"String\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"blogs\",\"kind\":\"object\",\"isList\":true,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"Blog\",\"nativeType\":null,\"relationName\":\"BlogToTopic\",\"relationFromFields\":[],\"relationToFields\":[],\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":true,\"type\":\"DateTime\",\"nativeType\":null,\"default\":{\"name\":\"now\",\"args\":[]},\"isGenerated\":false,\"isUpdatedAt\":false},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"isList\":false,\"isRequired\":true,\"isUnique\":false,\"isId\":false,\"isReadOnly\":false,\"hasDefaultValue\":false,\"type\":\"DateTime\",\"nativeType\":null,\"isGenerated\":false,\"isUpdatedAt\":true}],\"primaryKey\":null,\"uniqueFields\":[],\"uniqueIndexes\":[],\"isGenerated\":false}},\"enums\":{\"ShareChannel\":{\"values\":[{\"name\":\"NATIVE\",\"dbName\":null},{\"name\":\"X\",\"dbName\":null},{\"name\":\"LINKEDIN\",\"dbName\":null},{\"name\":\"REDDIT\",\"dbName\":null},{\"name\":\"HACKER_NEWS\",\"dbName\":null},{\"name\":\"EMAIL\",\"dbName\":null},{\"name\":\"COPY_LINK\",\"dbName\":null},{\"name\":\"COPY_MARKDOWN\",\"dbName\":null}],\"dbName\":null},\"ReactionType\":{\"values\":[{\"name\":\"LIKE\",\"dbName\":null},{\"name\":\"INSIGHTFUL\",\"dbName\":null},{\"name\":\"LOVE\",\"dbName\":null},{\"name\":\"FUNNY\",\"dbName\":null},{\"name\":\"CELEBRATE\",\"dbName\":null}],\"dbName\":null},\"BlogStatus\":{\"values\":[{\"name\":\"DRAFT\",\"dbName\":null},{\"name\":\"SCHEDULED\",\"dbName\":null},{\"name\":\"PUBLISHED\",\"dbName\":null},{\"name\":\"ARCHIVED\",\"dbName\":null}],\"dbName\":null},\"CommentStatus\":{\"values\":[{\"name\":\"PENDING\",\"dbName\":null},{\"name\":\"APPROVED\",\"dbName\":null},{\"name\":\"REJECTED\",\"dbName\":null},{\"name\":\"SPAM\",\"dbName\":null}],\"dbName\":null},\"Role\":{\"values\":[{\"name\":\"ADMIN\",\"dbName\":null},{\"name\":\"EDITOR\",\"dbName\":null},{\"name\":\"AUTHOR\",\"dbName\":null},{\"name\":\"READER\",\"dbName\":null}],\"dbName\":null}},\"types\":{}}")
 defineDmmfProperty(exports.Prisma, config.runtimeDataModel)
 config.engineWasm = undefined
 config.compilerWasm = undefined
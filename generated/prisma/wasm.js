@@ -128,8 +128,157 @@ exports.Prisma.BlogScalarFieldEnum = {
   content: 'content',
   bannerUrl: 'bannerUrl',
   video: 'video',
+  status: 'status',
+  publishedAt: 'publishedAt',
+  scheduledFor: 'scheduledFor',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  deletedAt: 'deletedAt',
+  wordCount: 'wordCount',
+  readingTime: 'readingTime',
+  codeBlockCount: 'codeBlockCount',
+  headingCount: 'headingCount',
+  seriesId: 'seriesId',
+  seriesPosition: 'seriesPosition'
+};
+
+exports.Prisma.BlogViewScalarFieldEnum = {
+  id: 'id',
+  blogId: 'blogId',
+  visitorId: 'visitorId',
+  maxDepth: 'maxDepth',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.BlogShareScalarFieldEnum = {
+  id: 'id',
+  blogId: 'blogId',
+  channel: 'channel',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.ReactionScalarFieldEnum = {
+  blogId: 'blogId',
+  userId: 'userId',
+  type: 'type',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.BookmarkScalarFieldEnum = {
+  userId: 'userId',
+  blogId: 'blogId',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.DraftScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  blogId: 'blogId',
+  key: 'key',
+  data: 'data',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.CollabDocumentScalarFieldEnum = {
+  blogId: 'blogId',
+  content: 'content',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.BlogRevisionScalarFieldEnum = {
+  id: 'id',
+  blogId: 'blogId',
+  version: 'version',
+  title: 'title',
+  subTitle: 'subTitle',
+  content: 'content',
+  bannerUrl: 'bannerUrl',
+  video: 'video',
   tags: 'tags',
   topics: 'topics',
+  editorId: 'editorId',
+  restoredFromVersion: 'restoredFromVersion',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.UserScalarFieldEnum = {
+  id: 'id',
+  email: 'email',
+  name: 'name',
+  passwordHash: 'passwordHash',
+  role: 'role',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.SessionScalarFieldEnum = {
+  id: 'id',
+  tokenHash: 'tokenHash',
+  userId: 'userId',
+  expiresAt: 'expiresAt',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.AuthorScalarFieldEnum = {
+  id: 'id',
+  handle: 'handle',
+  name: 'name',
+  bio: 'bio',
+  avatarUrl: 'avatarUrl',
+  website: 'website',
+  twitter: 'twitter',
+  github: 'github',
+  linkedin: 'linkedin',
+  userId: 'userId',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.BlogAuthorScalarFieldEnum = {
+  blogId: 'blogId',
+  authorId: 'authorId',
+  position: 'position'
+};
+
+exports.Prisma.SeriesScalarFieldEnum = {
+  id: 'id',
+  slug: 'slug',
+  title: 'title',
+  description: 'description',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.CommentScalarFieldEnum = {
+  id: 'id',
+  blogId: 'blogId',
+  parentId: 'parentId',
+  body: 'body',
+  userId: 'userId',
+  authorName: 'authorName',
+  status: 'status',
+  moderatedAt: 'moderatedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.TagScalarFieldEnum = {
+  id: 'id',
+  slug: 'slug',
+  name: 'name',
+  description: 'description',
+  color: 'color',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.TopicScalarFieldEnum = {
+  id: 'id',
+  slug: 'slug',
+  name: 'name',
+  description: 'description',
+  color: 'color',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 };
@@ -139,6 +288,10 @@ exports.Prisma.SortOrder = {
   desc: 'desc'
 };
 
+exports.Prisma.JsonNullValueInput = {
+  JsonNull: Prisma.JsonNull
+};
+
 exports.Prisma.QueryMode = {
   default: 'default',
   insensitive: 'insensitive'
@@ -148,189 +301,69 @@ exports.Prisma.NullsOrder = {
   first: 'first',
   last: 'last'
 };
-exports.Tags = exports.$Enums.Tags = {
-  HTML: 'HTML',
-  CSS: 'CSS',
-  TAILWIND_CSS: 'TAILWIND_CSS',
-  JAVASCRIPT: 'JAVASCRIPT',
-  TYPESCRIPT: 'TYPESCRIPT',
-  REACT_JS: 'REACT_JS',
-  NEXT_JS: 'NEXT_JS',
-  NODEJS: 'NODEJS',
-  MONGODB: 'MONGODB',
-  EXPRESS: 'EXPRESS',
-  PRISMA: 'PRISMA',
-  GIT: 'GIT',
-  DOCKER: 'DOCKER',
-  KUBERNETES: 'KUBERNETES',
-  AWS: 'AWS',
-  AZURE: 'AZURE',
-  GOOGLE_CLOUD: 'GOOGLE_CLOUD',
-  FIREBASE: 'FIREBASE',
-  GRAPHQL: 'GRAPHQL',
-  REST: 'REST',
-  ERROR_HANDLING: 'ERROR_HANDLING',
-  PERFORMANCE: 'PERFORMANCE',
-  SCALABILITY: 'SCALABILITY',
-  RELIABILITY: 'RELIABILITY',
-  MAINTAINABILITY: 'MAINTAINABILITY',
-  READABILITY: 'READABILITY',
-  CODEQUALITY: 'CODEQUALITY',
-  BEST_PRACTICES: 'BEST_PRACTICES',
-  RISK_MANAGEMENT: 'RISK_MANAGEMENT',
-  VULNERABILITY_ASSESSMENT: 'VULNERABILITY_ASSESSMENT',
-  PENETRATION_TESTING: 'PENETRATION_TESTING',
-  SECURITY_TESTING: 'SECURITY_TESTING',
-  CODE_REVIEW: 'CODE_REVIEW',
-  CODE_ANALYSIS: 'CODE_ANALYSIS',
-  CODE_INSPECTION: 'CODE_INSPECTION',
-  REFACTORING: 'REFACTORING',
-  CODE_OPTIMIZATION: 'CODE_OPTIMIZATION',
-  WEB_DESIGN: 'WEB_DESIGN',
-  FIGMA: 'FIGMA',
-  VSCODE: 'VSCODE',
-  REDUX: 'REDUX',
-  VUE_JS: 'VUE_JS',
-  ANGULAR: 'ANGULAR',
-  POSTGRESQL: 'POSTGRESQL',
-  MYSQL: 'MYSQL',
-  REDIS: 'REDIS',
-  CI_CD: 'CI_CD',
-  SERVERLESS: 'SERVERLESS',
-  PWA: 'PWA',
-  WEB_SOCKETS: 'WEB_SOCKETS',
-  SEO: 'SEO',
-  ACCESSIBILITY: 'ACCESSIBILITY',
-  UNIT_TESTING: 'UNIT_TESTING',
-  INTEGRATION_TESTING: 'INTEGRATION_TESTING',
-  E2E_TESTING: 'E2E_TESTING',
-  WEBPACK: 'WEBPACK',
-  BABEL: 'BABEL',
-  ESLINT: 'ESLINT',
-  PRETTIER: 'PRETTIER',
-  JEST: 'JEST',
-  CYPRESS: 'CYPRESS',
-  PYTHON: 'PYTHON',
-  DEEP_LEARNING: 'DEEP_LEARNING',
-  NEURAL_NETWORKS: 'NEURAL_NETWORKS',
-  DATA_ANALYSIS: 'DATA_ANALYSIS',
-  PANDAS: 'PANDAS',
-  NUMPY: 'NUMPY',
-  TENSORFLOW: 'TENSORFLOW',
-  DATA_VISUALIZATION: 'DATA_VISUALIZATION',
-  BIGDATA: 'BIGDATA',
-  SQL: 'SQL',
-  NOSQL: 'NOSQL',
-  ETL: 'ETL',
-  CLOUD_DATA_ENGINEERING: 'CLOUD_DATA_ENGINEERING',
-  STATISTICS: 'STATISTICS',
-  MODEL_DEPLOYMENT: 'MODEL_DEPLOYMENT',
-  COMPUTER_VISION: 'COMPUTER_VISION',
-  KAGGLE: 'KAGGLE',
-  INTERACTION_DESIGN: 'INTERACTION_DESIGN',
-  WIREFRAMING: 'WIREFRAMING',
-  PROTOTYPING: 'PROTOTYPING',
-  COLOR_THEORY: 'COLOR_THEORY',
-  TYPOGRAPHY: 'TYPOGRAPHY',
-  MOTION_DESIGN: 'MOTION_DESIGN',
-  HEADLESS_CMS: 'HEADLESS_CMS',
-  WEB_COMPONENTS: 'WEB_COMPONENTS',
-  WEB_PERFORMANCE: 'WEB_PERFORMANCE',
-  WEB_ANIMATIONS: 'WEB_ANIMATIONS',
-  RESPONSIVE_DESIGN: 'RESPONSIVE_DESIGN',
-  CROSS_BROWSER_COMPATIBILITY: 'CROSS_BROWSER_COMPATIBILITY',
-  NETWORK_SECURITY: 'NETWORK_SECURITY',
-  CRYPTOGRAPHY: 'CRYPTOGRAPHY',
-  SECURE_CODING: 'SECURE_CODING',
-  MALWARE_ANALYSIS: 'MALWARE_ANALYSIS',
-  DIGITAL_FORENSICS: 'DIGITAL_FORENSICS',
-  HACKATHONS: 'HACKATHONS',
-  TECH_INTERVIEWS: 'TECH_INTERVIEWS',
-  PORTFOLIO_BUILDING: 'PORTFOLIO_BUILDING',
-  METAVERSE: 'METAVERSE'
+
+exports.Prisma.JsonNullValueFilter = {
+  DbNull: Prisma.DbNull,
+  JsonNull: Prisma.JsonNull,
+  AnyNull: Prisma.AnyNull
+};
+exports.BlogStatus = exports.$Enums.BlogStatus = {
+  DRAFT: 'DRAFT',
+  SCHEDULED: 'SCHEDULED',
+  PUBLISHED: 'PUBLISHED',
+  ARCHIVED: 'ARCHIVED'
+};
+
+exports.ShareChannel = exports.$Enums.ShareChannel = {
+  NATIVE: 'NATIVE',
+  X: 'X',
+  LINKEDIN: 'LINKEDIN',
+  REDDIT: 'REDDIT',
+  HACKER_NEWS: 'HACKER_NEWS',
+  EMAIL: 'EMAIL',
+  COPY_LINK: 'COPY_LINK',
+  COPY_MARKDOWN: 'COPY_MARKDOWN'
+};
+
+exports.ReactionType = exports.$Enums.ReactionType = {
+  LIKE: 'LIKE',
+  INSIGHTFUL: 'INSIGHTFUL',
+  LOVE: 'LOVE',
+  FUNNY: 'FUNNY',
+  CELEBRATE: 'CELEBRATE'
+};
+
+exports.Role = exports.$Enums.Role = {
+  ADMIN: 'ADMIN',
+  EDITOR: 'EDITOR',
+  AUTHOR: 'AUTHOR',
+  READER: 'READER'
 };
 
-exports.Topics = exports.$Enums.Topics = {
-  FRONTEND: 'FRONTEND',
-  BACKEND: 'BACKEND',
-  FULLSTACK: 'FULLSTACK',
-  DEVOPS: 'DEVOPS',
-  CLOUD: 'CLOUD',
-  SECURITY: 'SECURITY',
-  TESTING: 'TESTING',
-  DEPLOYMENT: 'DEPLOYMENT',
-  AUTOMATION: 'AUTOMATION',
-  MONITORING: 'MONITORING',
-  GITHUB: 'GITHUB',
-  DESIGNS: 'DESIGNS',
-  PROGRAMMING: 'PROGRAMMING',
-  WEB_DEVELOPMENT: 'WEB_DEVELOPMENT',
-  TECHNOLOGIES: 'TECHNOLOGIES',
-  TRENDS: 'TRENDS',
-  NEWS: 'NEWS',
-  BLOG: 'BLOG',
-  CODE: 'CODE',
-  TOOLS: 'TOOLS',
-  FRAMEWORKS: 'FRAMEWORKS',
-  LIBRARIES: 'LIBRARIES',
-  LANGUAGES: 'LANGUAGES',
-  DATABASES: 'DATABASES',
-  APIS: 'APIS',
-  MICROSERVICES: 'MICROSERVICES',
-  ARCHITECTURE: 'ARCHITECTURE',
-  RESOURCES: 'RESOURCES',
-  TIPS_TRICKS: 'TIPS_TRICKS',
-  TECH: 'TECH',
-  TECH_TRENDS: 'TECH_TRENDS',
-  TECH_NEWS: 'TECH_NEWS',
-  TECH_BLOG: 'TECH_BLOG',
-  MOBILE_DEVELOPMENT: 'MOBILE_DEVELOPMENT',
-  AI_ML: 'AI_ML',
-  DATA_SCIENCE: 'DATA_SCIENCE',
-  BLOCKCHAIN: 'BLOCKCHAIN',
-  CYBER_SECURITY: 'CYBER_SECURITY',
-  UX_UI: 'UX_UI',
-  PRODUCT_MANAGEMENT: 'PRODUCT_MANAGEMENT',
-  AGILE: 'AGILE',
-  SOFTWARE_ENGINEERING: 'SOFTWARE_ENGINEERING',
-  SYSTEM_DESIGN: 'SYSTEM_DESIGN',
-  CODE_REVIEWS: 'CODE_REVIEWS',
-  CAREER_DEVELOPMENT: 'CAREER_DEVELOPMENT',
-  OPEN_SOURCE: 'OPEN_SOURCE',
-  ETHICAL_HACKING: 'ETHICAL_HACKING',
-  CLOUD_NATIVE: 'CLOUD_NATIVE',
-  EDGE_COMPUTING: 'EDGE_COMPUTING',
-  QUANTUM_COMPUTING: 'QUANTUM_COMPUTING',
-  AR_VR: 'AR_VR',
-  ROBOTICS: 'ROBOTICS',
-  GREENTECH: 'GREENTECH',
-  FINTECH: 'FINTECH',
-  HEALTHTECH: 'HEALTHTECH',
-  EDTECH: 'EDTECH',
-  DATA_MINING: 'DATA_MINING',
-  DATA_ANALYTICS: 'DATA_ANALYTICS',
-  PREDICTIVE_ANALYTICS: 'PREDICTIVE_ANALYTICS',
-  MACHINE_LEARNING: 'MACHINE_LEARNING',
-  STATISTICS: 'STATISTICS',
-  DATA_ENGINEERING: 'DATA_ENGINEERING',
-  ARTIFICIAL_INTELLIGENCE: 'ARTIFICIAL_INTELLIGENCE',
-  NATURAL_LANGUAGE_PROCESSING: 'NATURAL_LANGUAGE_PROCESSING',
-  REINFORCEMENT_LEARNING: 'REINFORCEMENT_LEARNING',
-  DATA_INTEGRATION: 'DATA_INTEGRATION',
-  DATA_SECURITY: 'DATA_SECURITY',
-  CLOUD_DATA: 'CLOUD_DATA',
-  BUSINESS_INTELLIGENCE: 'BUSINESS_INTELLIGENCE',
-  KAGGLE: 'KAGGLE',
-  SQL_ANALYSIS: 'SQL_ANALYSIS',
-  DATA_WAREHOUSING: 'DATA_WAREHOUSING',
-  ETL_PROCESS: 'ETL_PROCESS',
-  INTERVIEWS: 'INTERVIEWS',
-  TUTORIALS: 'TUTORIALS',
-  HOW_TO_GUIDES: 'HOW_TO_GUIDES'
+exports.CommentStatus = exports.$Enums.CommentStatus = {
+  PENDING: 'PENDING',
+  APPROVED: 'APPROVED',
+  REJECTED: 'REJECTED',
+  SPAM: 'SPAM'
 };
 
 exports.Prisma.ModelName = {
-  Blog: 'Blog'
+  Blog: 'Blog',
+  BlogView: 'BlogView',
+  BlogShare: 'BlogShare',
+  Reaction: 'Reaction',
+  Bookmark: 'Bookmark',
+  Draft: 'Draft',
+  CollabDocument: 'CollabDocument',
+  BlogRevision: 'BlogRevision',
+  User: 'User',
+  Session: 'Session',
+  Author: 'Author',
+  BlogAuthor: 'BlogAuthor',
+  Series: 'Series',
+  Comment: 'Comment',
+  Tag: 'Tag',
+  Topic: 'Topic'
 };
 
 /**
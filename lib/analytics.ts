@@ -0,0 +1,39 @@
+import { ShareChannel } from "@/generated/prisma";
+
+// Scroll-depth milestones recorded per view, in percent of the post read
+export const DEPTH_MILESTONES = [25, 50, 75, 100] as const;
+
+// Date ranges offered by the dashboard, in days
+export const ANALYTICS_RANGES = [7, 30, 90] as const;
+export type AnalyticsRange = (typeof ANALYTICS_RANGES)[number];
+
+export const isAnalyticsRange = (value: number): value is AnalyticsRange =>
+  ANALYTICS_RANGES.includes(value as AnalyticsRange);
+
+// The highest milestone reached at a percentage, 0 before the first one
+export const toDepthMilestone = (percent: number) =>
+  DEPTH_MILESTONES.filter((milestone) => milestone <= percent).pop() ?? 0;
+
+// Views of one post, tag or topic, with a count for every day in the range
+export interface ViewSeries {
+  slug: string;
+  name: string;
+  views: number;
+  daily: number[];
+}
+
+export interface PostViewSeries extends ViewSeries {
+  // Mean furthest milestone reached, in percent
+  averageDepth: number;
+  // Shares in the range through each channel used
+  shares: Partial<Record<ShareChannel, number>>;
+}
+
+export interface AnalyticsReport {
+  // UTC dates, oldest first, matching each series' daily counts
+  days: string[];
+  totalViews: number;
+  posts: PostViewSeries[];
+  tags: ViewSeries[];
+  topics: ViewSeries[];
+}
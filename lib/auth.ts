@@ -0,0 +1,181 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { cookies } from "next/headers";
+import { redirect } from "next/navigation";
+import { NextResponse } from "next/server";
+import { BlogStatus } from "@/generated/prisma";
+import prisma from "@/lib/db";
+import { writtenByUser } from "@/lib/authors";
+import { can, Permission, SessionUser } from "@/lib/roles";
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number
+) => Promise<Buffer>;
+
+export const SESSION_COOKIE = "session";
+const SESSION_DURATION = 30 * 24 * 60 * 60 * 1000; // 30 days
+const KEY_LENGTH = 64;
+
+// Passwords are stored as "<salt>:<derived key>" in hex
+export const hashPassword = async (password: string) => {
+  const salt = randomBytes(16);
+  const key = await scryptAsync(password, salt, KEY_LENGTH);
+  return `${salt.toString("hex")}:${key.toString("hex")}`;
+};
+
+export const verifyPassword = async (password: string, stored: string) => {
+  const [salt, key] = stored.split(":");
+  if (!salt || !key) return false;
+  const derived = await scryptAsync(
+    password,
+    Buffer.from(salt, "hex"),
+    KEY_LENGTH
+  );
+  const expected = Buffer.from(key, "hex");
+  return (
+    derived.length === expected.length && timingSafeEqual(derived, expected)
+  );
+};
+
+// Only a hash of the session token is persisted, the raw token lives in the cookie
+const hashToken = (token: string) =>
+  createHash("sha256").update(token).digest("hex");
+
+export const createSession = async (userId: string) => {
+  const token = randomBytes(32).toString("hex");
+  const expiresAt = new Date(Date.now() + SESSION_DURATION);
+  await prisma.session.create({
+    data: { tokenHash: hashToken(token), userId, expiresAt },
+  });
+  return { token, expiresAt };
+};
+
+export const deleteSession = async (token: string) => {
+  await prisma.session.deleteMany({ where: { tokenHash: hashToken(token) } });
+};
+
+export const setSessionCookie = (
+  response: NextResponse,
+  token: string,
+  expiresAt: Date
+) => {
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    expires: expiresAt,
+  });
+};
+
+export const clearSessionCookie = (response: NextResponse) => {
+  response.cookies.delete(SESSION_COOKIE);
+};
+
+// Resolve the user behind the current request's session cookie
+export const getCurrentUser = async (): Promise<SessionUser | null> => {
+  const cookieStore = await cookies();
+  const token = cookieStore.get(SESSION_COOKIE)?.value;
+  if (!token) return null;
+
+  const session = await prisma.session.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: {
+      user: { select: { id: true, email: true, name: true, role: true } },
+    },
+  });
+  if (!session) return null;
+
+  if (session.expiresAt < new Date()) {
+    await prisma.session.delete({ where: { id: session.id } });
+    return null;
+  }
+
+  return session.user;
+};
+
+type Authorization =
+  | { user: SessionUser; response: null }
+  | { user: null; response: NextResponse };
+
+const unauthenticated = (): Authorization => ({
+  user: null,
+  response: NextResponse.json(
+    { error: "Authentication required" },
+    { status: 401 }
+  ),
+});
+
+const forbidden = (): Authorization => ({
+  user: null,
+  response: NextResponse.json(
+    { error: "You do not have permission to perform this action" },
+    { status: 403 }
+  ),
+});
+
+// Guard for route handlers: returns the user, or the error response to send back
+export const authorize = async (
+  permission: Permission
+): Promise<Authorization> => {
+  const user = await getCurrentUser();
+  if (!user) return unauthenticated();
+  if (!can(user, permission)) return forbidden();
+  return { user, response: null };
+};
+
+// Editors can edit any post; authors only the drafts they are credited on,
+// so they can finish what they started
+export const canEditBlog = async (user: SessionUser | null, slug: string) => {
+  if (can(user, "editBlog")) return true;
+  if (!user || !can(user, "createBlog")) return false;
+  const owned = await prisma.blog.count({
+    where: {
+      slug,
+      status: BlogStatus.DRAFT,
+      deletedAt: null,
+      ...writtenByUser(user.id),
+    },
+  });
+  return owned > 0;
+};
+
+// authorize("editBlog") for one post, letting authors through for their own
+// drafts
+export const authorizeBlogEdit = async (
+  slug: string
+): Promise<Authorization> => {
+  const user = await getCurrentUser();
+  if (!user) return unauthenticated();
+  if (!(await canEditBlog(user, slug))) return forbidden();
+  return { user, response: null };
+};
+
+// Guard for server-rendered pages: redirects instead of rendering
+export const requirePermission = async (
+  permission: Permission,
+  returnTo: string
+) => {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect(`/login?next=${encodeURIComponent(returnTo)}`);
+  }
+  if (!can(user, permission)) {
+    redirect("/");
+  }
+  return user;
+};
+
+// requirePermission("editBlog") for one post, see canEditBlog
+export const requireBlogEdit = async (slug: string, returnTo: string) => {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect(`/login?next=${encodeURIComponent(returnTo)}`);
+  }
+  if (!(await canEditBlog(user, slug))) {
+    redirect("/");
+  }
+  return user;
+};
@@ -0,0 +1,74 @@
+import { Author, Prisma } from "@/generated/prisma";
+import { SessionUser } from "@/lib/roles";
+import { blogSeriesInclude, SeriesRef } from "@/lib/series";
+import {
+  blogTaxonomyInclude,
+  BlogWithTaxonomy,
+  toTaxonomySlug,
+} from "@/lib/taxonomy";
+
+// Public author fields sent with blogs and profile pages
+export const authorSelect = {
+  id: true,
+  handle: true,
+  name: true,
+  bio: true,
+  avatarUrl: true,
+  website: true,
+  twitter: true,
+  github: true,
+  linkedin: true,
+} satisfies Prisma.AuthorSelect;
+
+export type AuthorRef = Pick<Author, keyof typeof authorSelect>;
+
+export const blogAuthorsInclude = {
+  authors: {
+    orderBy: { position: "asc" },
+    select: { author: { select: authorSelect } },
+  },
+} satisfies Prisma.BlogInclude;
+
+export type BlogWithAuthors = BlogWithTaxonomy & {
+  authors: { author: AuthorRef }[];
+  series: SeriesRef | null;
+};
+
+// Handles follow the same rules as tag slugs
+export const toAuthorHandle = toTaxonomySlug;
+
+// Finds the author profile of a user, creating one on their first post
+export const ensureAuthorForUser = async (
+  tx: Prisma.TransactionClient,
+  user: SessionUser
+) => {
+  const existing = await tx.author.findUnique({ where: { userId: user.id } });
+  if (existing) return existing;
+
+  const base = toAuthorHandle(user.name) || "author";
+  let handle = base;
+  for (let i = 2; await tx.author.findUnique({ where: { handle } }); i++) {
+    handle = `${base}-${i}`;
+  }
+
+  return tx.author.create({
+    data: { handle, name: user.name, userId: user.id },
+  });
+};
+
+// Posts credited to the author profile of a user
+export const writtenByUser = (userId: string) =>
+  ({
+    authors: { some: { author: { userId } } },
+  }) satisfies Prisma.BlogWhereInput;
+
+// Rows for the BlogAuthor join table, keeping the byline order
+export const toBlogAuthorRows = (authorIds: string[]) =>
+  authorIds.map((authorId, position) => ({ authorId, position }));
+
+// Taxonomy, byline and series, the full include for blog payloads
+export const blogWithAuthorsInclude = {
+  ...blogTaxonomyInclude,
+  ...blogAuthorsInclude,
+  ...blogSeriesInclude,
+} satisfies Prisma.BlogInclude;
@@ -0,0 +1,142 @@
+import { revalidatePath, revalidateTag, unstable_cache } from "next/cache";
+import { Prisma } from "@/generated/prisma";
+import prisma from "@/lib/db";
+import { blogWithAuthorsInclude } from "@/lib/authors";
+import { publishedBlogFilter } from "@/lib/publishing";
+import {
+  seriesPartOrder,
+  seriesPartSelect,
+  seriesSelect,
+} from "@/lib/series";
+import { blogPath } from "@/lib/seo";
+import { TaxonomyKind } from "@/lib/taxonomy";
+
+export interface BlogListFilters {
+  tag?: string;
+  topic?: string;
+  author?: string;
+}
+
+// Narrows a base filter to one tag, topic or author slug
+export const withListFilters = (
+  where: Prisma.BlogWhereInput,
+  { tag, topic, author }: BlogListFilters
+): Prisma.BlogWhereInput => ({
+  ...where,
+  ...(tag && { tags: { some: { slug: tag } } }),
+  ...(topic && { topics: { some: { slug: topic } } }),
+  ...(author && { authors: { some: { author: { handle: author } } } }),
+});
+
+// Newest posts first, as listed by /api/blogs and the feeds
+export const findBlogList = (
+  where: Prisma.BlogWhereInput,
+  { take, skip = 0 }: { take: number; skip?: number }
+) =>
+  prisma.blog.findMany({
+    where,
+    orderBy: { createdAt: "desc" },
+    take,
+    skip,
+    include: blogWithAuthorsInclude,
+  });
+
+// A single post by slug; unpublished ones only for writers
+export const findBlogBySlug = (slug: string, includeUnpublished = false) =>
+  prisma.blog.findFirst({
+    where: includeUnpublished
+      ? { slug, deletedAt: null }
+      : { slug, ...publishedBlogFilter() },
+    include: blogWithAuthorsInclude,
+  });
+
+// A series with its live parts in reading order
+export const findSeriesBySlug = (slug: string) =>
+  prisma.series.findUnique({
+    where: { slug },
+    select: {
+      ...seriesSelect,
+      posts: {
+        where: publishedBlogFilter(),
+        orderBy: seriesPartOrder,
+        select: seriesPartSelect,
+      },
+    },
+  });
+
+// Cache tag shared by every cached read of posts and their tags and topics
+export const BLOGS_CACHE_TAG = "blogs";
+
+// Fallback for changes no handler revalidates, like a scheduled post going live
+const BLOGS_REVALIDATE = 300;
+
+// Round-trips through JSON so server-rendered data has the API's shape
+export const toApiShape = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+export const getCachedPublishedBlog = (slug: string) =>
+  unstable_cache(
+    async () => toApiShape(await findBlogBySlug(slug)),
+    ["published-blog", slug],
+    { tags: [BLOGS_CACHE_TAG], revalidate: BLOGS_REVALIDATE }
+  )();
+
+// One page of published posts, shaped like the GET /api/blogs response
+export const getCachedBlogList = unstable_cache(
+  async (page: number, limit: number) => {
+    const where = publishedBlogFilter();
+    const [blogs, totalBlogs] = await prisma.$transaction([
+      findBlogList(where, { take: limit, skip: (page - 1) * limit }),
+      prisma.blog.count({ where }),
+    ]);
+    return toApiShape({
+      blogs,
+      pagination: {
+        currentPage: page,
+        totalPages: Math.ceil(totalBlogs / limit),
+        totalBlogs,
+        limit,
+      },
+    });
+  },
+  ["blog-list"],
+  { tags: [BLOGS_CACHE_TAG], revalidate: BLOGS_REVALIDATE }
+);
+
+export const getCachedPublishedSlugs = unstable_cache(
+  async () => {
+    const blogs = await prisma.blog.findMany({
+      where: publishedBlogFilter(),
+      select: { slug: true },
+    });
+    return blogs.map(({ slug }) => slug);
+  },
+  ["published-slugs"],
+  { tags: [BLOGS_CACHE_TAG], revalidate: BLOGS_REVALIDATE }
+);
+
+export const getCachedTaxonomyList = unstable_cache(
+  async (kind: TaxonomyKind) =>
+    toApiShape(
+      kind === "tags"
+        ? await prisma.tag.findMany({ orderBy: { name: "asc" } })
+        : await prisma.topic.findMany({ orderBy: { name: "asc" } })
+    ),
+  ["taxonomy-list"],
+  { tags: [BLOGS_CACHE_TAG], revalidate: BLOGS_REVALIDATE }
+);
+
+export const getCachedSeries = (slug: string) =>
+  unstable_cache(
+    async () => toApiShape(await findSeriesBySlug(slug)),
+    ["series", slug],
+    { tags: [BLOGS_CACHE_TAG], revalidate: BLOGS_REVALIDATE }
+  )();
+
+// Drops every cached post and listing, and the pages of the given slugs so
+// an edit or rename is live on the next request
+export const revalidateBlogs = (...slugs: (string | null | undefined)[]) => {
+  revalidateTag(BLOGS_CACHE_TAG);
+  new Set(slugs).forEach((slug) => {
+    if (slug) revalidatePath(blogPath(slug));
+  });
+};
@@ -0,0 +1,46 @@
+// Address of the sync server started with `npm run collab`; collaborative
+// editing is off when it isn't set
+export const COLLAB_URL = process.env.NEXT_PUBLIC_COLLAB_URL || "";
+
+// Name of the shared text holding a post's markdown
+export const COLLAB_TEXT = "content";
+
+// Codes the sync server closes a connection with. Clients don't reconnect
+// after a close in the 4400-4499 range
+export const COLLAB_CLOSE = {
+  unauthorized: 4401,
+  forbidden: 4403,
+  notFound: 4404,
+} as const;
+
+export type CollabStatus = "connecting" | "connected" | "offline";
+
+// What each editor shares about themself with the others in the room
+export interface CollabUser {
+  name: string;
+  color: string;
+}
+
+export interface CollabPeer extends CollabUser {
+  clientId: number;
+  // Caret and selection end as text offsets, null while not in the editor
+  cursor: { anchor: number; head: number } | null;
+}
+
+const PRESENCE_COLORS = [
+  "#7B00D3",
+  "#E11D48",
+  "#0284C7",
+  "#059669",
+  "#D97706",
+  "#DB2777",
+  "#4F46E5",
+  "#0D9488",
+];
+
+// Gives each editor the same colour on every visit
+export const toPresenceColor = (id: string) => {
+  let hash = 0;
+  for (const char of id) hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  return PRESENCE_COLORS[Math.abs(hash) % PRESENCE_COLORS.length];
+};
@@ -0,0 +1,35 @@
+import { Comment, CommentStatus, Prisma } from "@/generated/prisma";
+
+export const COMMENT_MAX_LENGTH = 5000;
+
+// The fields readers see for each comment
+export const commentSelect = {
+  id: true,
+  parentId: true,
+  body: true,
+  authorName: true,
+  status: true,
+  createdAt: true,
+} satisfies Prisma.CommentSelect;
+
+export type CommentRef = Pick<Comment, keyof typeof commentSelect>;
+
+export type CommentNode = CommentRef & { replies: CommentNode[] };
+
+export const isCommentStatus = (value: unknown): value is CommentStatus =>
+  Object.values(CommentStatus).includes(value as CommentStatus);
+
+// Nests a flat, oldest-first list; replies to hidden comments are dropped
+export const buildCommentTree = (comments: CommentRef[]): CommentNode[] => {
+  const nodes = new Map<string, CommentNode>(
+    comments.map((comment) => [comment.id, { ...comment, replies: [] }])
+  );
+  const roots: CommentNode[] = [];
+
+  nodes.forEach((node) => {
+    if (!node.parentId) roots.push(node);
+    else nodes.get(node.parentId)?.replies.push(node);
+  });
+
+  return roots;
+};
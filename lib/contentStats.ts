@@ -0,0 +1,48 @@
+import { remark } from "remark";
+import remarkGfm from "remark-gfm";
+import type { Nodes } from "mdast";
+
+// Typical silent reading speed for technical prose
+export const WORDS_PER_MINUTE = 200;
+
+export interface ContentStats {
+  wordCount: number;
+  // Whole minutes, at least one for any non-empty post
+  readingTime: number;
+  codeBlockCount: number;
+  headingCount: number;
+}
+
+const parser = remark().use(remarkGfm);
+
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+// Counts prose words, fenced code blocks and headings in a post's markdown.
+// Code inside fenced blocks is left out of the word count
+export const computeContentStats = (markdown: string): ContentStats => {
+  const stats = { wordCount: 0, codeBlockCount: 0, headingCount: 0 };
+
+  const walk = (node: Nodes) => {
+    if (node.type === "code") {
+      stats.codeBlockCount++;
+      return;
+    }
+    if (node.type === "heading") stats.headingCount++;
+    if (node.type === "text" || node.type === "inlineCode") {
+      stats.wordCount += countWords(node.value);
+    }
+    if ("children" in node) node.children.forEach(walk);
+  };
+  walk(parser.parse(markdown));
+
+  return {
+    ...stats,
+    readingTime:
+      stats.wordCount > 0
+        ? Math.max(1, Math.ceil(stats.wordCount / WORDS_PER_MINUTE))
+        : 0,
+  };
+};
+
+export const formatReadingTime = (minutes: number) =>
+  `${Math.max(1, minutes)} min read`;
@@ -0,0 +1,37 @@
+// Stands in for the slug of a post that has not been created yet
+export const NEW_DRAFT = "new";
+
+// Editor form fields kept in a draft
+export interface DraftFields {
+  title: string;
+  subTitle: string;
+  slug: string;
+  content: string;
+  bannerUrl: string;
+  video: string;
+  tags: string[];
+  topics: string[];
+}
+
+export interface SavedDraft {
+  data: DraftFields;
+  updatedAt: string;
+}
+
+export const emptyDraftFields: DraftFields = {
+  title: "",
+  subTitle: "",
+  slug: "",
+  content: "",
+  bannerUrl: "",
+  video: "",
+  tags: [],
+  topics: [],
+};
+
+// Drafts are only worth keeping, or offering back, when they differ from
+// what the editor would show anyway
+export const isSameDraft = (a: DraftFields, b: DraftFields) =>
+  (Object.keys(emptyDraftFields) as (keyof DraftFields)[]).every(
+    (field) => JSON.stringify(a[field] ?? "") === JSON.stringify(b[field] ?? "")
+  );
@@ -0,0 +1,64 @@
+import { BlogWithAuthors } from "@/lib/authors";
+import { DraftFields } from "@/lib/drafts";
+
+// A post's version is its last-updated time. It is sent as the ETag and has
+// to come back in If-Match for a change to be accepted
+export const toBlogETag = (updatedAt: Date | string) =>
+  `"${new Date(updatedAt).getTime()}"`;
+
+// Everything the edit form can change on a post
+export interface BlogEdits extends DraftFields {
+  authors: string[];
+  // Series slug, "" for none
+  series: string;
+  seriesPosition: number | null;
+}
+
+export const BLOG_EDIT_LABELS: Record<keyof BlogEdits, string> = {
+  title: "Title",
+  subTitle: "Subtitle",
+  slug: "Slug",
+  content: "Content",
+  bannerUrl: "Banner",
+  video: "Video",
+  tags: "Tags",
+  topics: "Topics",
+  authors: "Authors",
+  series: "Series",
+  seriesPosition: "Part",
+};
+
+export const toBlogEdits = (blog: BlogWithAuthors): BlogEdits => ({
+  title: blog.title,
+  subTitle: blog.subTitle,
+  slug: blog.slug,
+  content: blog.content,
+  bannerUrl: blog.bannerUrl,
+  video: blog.video ?? "",
+  tags: blog.tags.map((tag) => tag.slug),
+  topics: blog.topics.map((topic) => topic.slug),
+  authors: blog.authors.map(({ author }) => author.handle),
+  series: blog.series?.slug ?? "",
+  seriesPosition: blog.seriesPosition,
+});
+
+// The part of the edits that drafts keep
+export const toDraftFields = ({
+  title,
+  subTitle,
+  slug,
+  content,
+  bannerUrl,
+  video,
+  tags,
+  topics,
+}: BlogEdits): DraftFields => ({
+  title,
+  subTitle,
+  slug,
+  content,
+  bannerUrl,
+  video,
+  tags,
+  topics,
+});
@@ -0,0 +1,266 @@
+import { NextResponse } from "next/server";
+import { remark } from "remark";
+import remarkGfm from "remark-gfm";
+import remarkRehype from "remark-rehype";
+import rehypeStringify from "rehype-stringify";
+import prisma from "@/lib/db";
+import { BlogWithAuthors } from "@/lib/authors";
+import { findBlogList, withListFilters } from "@/lib/blogs";
+import { publishedBlogFilter } from "@/lib/publishing";
+import { SITE_DESCRIPTION, SITE_NAME, siteUrl } from "@/lib/site";
+import { toTaxonomySlug } from "@/lib/taxonomy";
+
+export type FeedFormat = "rss" | "atom" | "json";
+
+// Narrows a feed to the posts of one tag or topic
+export interface FeedScope {
+  tag?: string;
+  topic?: string;
+}
+
+// Number of most recent posts each feed carries
+const FEED_SIZE = 20;
+
+const CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: "application/rss+xml; charset=utf-8",
+  atom: "application/atom+xml; charset=utf-8",
+  json: "application/feed+json; charset=utf-8",
+};
+
+interface FeedMeta {
+  title: string;
+  description: string;
+  // Page the feed describes and the feed's own address
+  link: string;
+  selfUrl: string;
+  updated: Date;
+}
+
+interface FeedItem {
+  id: string;
+  url: string;
+  title: string;
+  summary: string;
+  html: string;
+  image: string;
+  authors: string[];
+  categories: string[];
+  published: Date;
+  updated: Date;
+}
+
+// Same pipeline as the post page, minus raw HTML which remark-rehype drops
+const markdownProcessor = remark()
+  .use(remarkGfm)
+  .use(remarkRehype)
+  .use(rehypeStringify);
+
+const renderMarkdown = (markdown: string) =>
+  String(markdownProcessor.processSync(markdown));
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+// Splits any "]]>" so rendered HTML cannot close the section early
+const cdata = (value: string) =>
+  `<![CDATA[${value.replace(/]]>/g, "]]]]><![CDATA[>")}]]>`;
+
+const toFeedItem = (blog: BlogWithAuthors, base: string): FeedItem => {
+  const url = `${base}/blog/${blog.slug}`;
+  const banner = blog.bannerUrl
+    ? `<p><img src="${escapeXml(blog.bannerUrl)}" alt="" /></p>`
+    : "";
+  return {
+    id: url,
+    url,
+    title: blog.title,
+    summary: blog.subTitle,
+    html: banner + renderMarkdown(blog.content),
+    image: blog.bannerUrl,
+    authors: blog.authors.map(({ author }) => author.name),
+    categories: blog.tags.map((tag) => tag.name),
+    published: blog.publishedAt ?? blog.createdAt,
+    updated: blog.updatedAt,
+  };
+};
+
+const buildRss = (meta: FeedMeta, items: FeedItem[]) => {
+  const entries = items.map((item) =>
+    [
+      "<item>",
+      `<title>${escapeXml(item.title)}</title>`,
+      `<link>${escapeXml(item.url)}</link>`,
+      `<guid isPermaLink="true">${escapeXml(item.id)}</guid>`,
+      `<pubDate>${item.published.toUTCString()}</pubDate>`,
+      `<atom:updated>${item.updated.toISOString()}</atom:updated>`,
+      ...item.authors.map(
+        (name) => `<dc:creator>${escapeXml(name)}</dc:creator>`
+      ),
+      ...item.categories.map(
+        (name) => `<category>${escapeXml(name)}</category>`
+      ),
+      `<description>${escapeXml(item.summary)}</description>`,
+      `<content:encoded>${cdata(item.html)}</content:encoded>`,
+      "</item>",
+    ].join("")
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom"' +
+      ' xmlns:content="http://purl.org/rss/1.0/modules/content/"' +
+      ' xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    "<channel>",
+    `<title>${escapeXml(meta.title)}</title>`,
+    `<link>${escapeXml(meta.link)}</link>`,
+    `<description>${escapeXml(meta.description)}</description>`,
+    `<atom:link href="${escapeXml(meta.selfUrl)}" rel="self"` +
+      ' type="application/rss+xml" />',
+    `<lastBuildDate>${meta.updated.toUTCString()}</lastBuildDate>`,
+    ...entries,
+    "</channel>",
+    "</rss>",
+  ].join("\n");
+};
+
+const buildAtom = (meta: FeedMeta, items: FeedItem[]) => {
+  const entries = items.map((item) =>
+    [
+      "<entry>",
+      `<id>${escapeXml(item.id)}</id>`,
+      `<title>${escapeXml(item.title)}</title>`,
+      `<link rel="alternate" type="text/html" href="${escapeXml(item.url)}" />`,
+      `<published>${item.published.toISOString()}</published>`,
+      `<updated>${item.updated.toISOString()}</updated>`,
+      ...item.authors.map(
+        (name) => `<author><name>${escapeXml(name)}</name></author>`
+      ),
+      ...item.categories.map(
+        (name) => `<category term="${escapeXml(name)}" />`
+      ),
+      `<summary>${escapeXml(item.summary)}</summary>`,
+      `<content type="html">${escapeXml(item.html)}</content>`,
+      "</entry>",
+    ].join("")
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `<id>${escapeXml(meta.selfUrl)}</id>`,
+    `<title>${escapeXml(meta.title)}</title>`,
+    `<subtitle>${escapeXml(meta.description)}</subtitle>`,
+    `<link rel="alternate" type="text/html" href="${escapeXml(meta.link)}" />`,
+    `<link rel="self" href="${escapeXml(meta.selfUrl)}" />`,
+    `<author><name>${escapeXml(SITE_NAME)}</name></author>`,
+    `<updated>${meta.updated.toISOString()}</updated>`,
+    ...entries,
+    "</feed>",
+  ].join("\n");
+};
+
+// JSON Feed 1.1, see https://www.jsonfeed.org/version/1.1/
+const buildJson = (meta: FeedMeta, items: FeedItem[]) =>
+  JSON.stringify({
+    version: "https://jsonfeed.org/version/1.1",
+    title: meta.title,
+    description: meta.description,
+    home_page_url: meta.link,
+    feed_url: meta.selfUrl,
+    items: items.map((item) => ({
+      id: item.id,
+      url: item.url,
+      title: item.title,
+      summary: item.summary,
+      content_html: item.html,
+      image: item.image || undefined,
+      date_published: item.published.toISOString(),
+      date_modified: item.updated.toISOString(),
+      authors: item.authors.map((name) => ({ name })),
+      tags: item.categories,
+    })),
+  });
+
+const FEED_BUILDERS: Record<
+  FeedFormat,
+  (meta: FeedMeta, items: FeedItem[]) => string
+> = {
+  rss: buildRss,
+  atom: buildAtom,
+  json: buildJson,
+};
+
+// Resolves the tag or topic a scoped feed is for; null when it is unknown
+const findScopeName = async ({ tag, topic }: FeedScope) => {
+  if (tag) {
+    const found = await prisma.tag.findUnique({ where: { slug: tag } });
+    return found?.name ?? null;
+  }
+  if (topic) {
+    const found = await prisma.topic.findUnique({ where: { slug: topic } });
+    return found?.name ?? null;
+  }
+  return SITE_NAME;
+};
+
+// Latest published posts as an RSS, Atom or JSON feed
+export const feedResponse = async (
+  request: Request,
+  format: FeedFormat,
+  { tag, topic }: FeedScope = {}
+) => {
+  try {
+    const scope = {
+      tag: tag && toTaxonomySlug(decodeURIComponent(tag)),
+      topic: topic && toTaxonomySlug(decodeURIComponent(topic)),
+    };
+    const scopeName = await findScopeName(scope);
+    if (!scopeName) {
+      return NextResponse.json(
+        { error: `${scope.tag ? "Tag" : "Topic"} not found` },
+        { status: 404 }
+      );
+    }
+
+    const base = siteUrl(request);
+    const blogs = await findBlogList(
+      withListFilters(publishedBlogFilter(), scope),
+      { take: FEED_SIZE }
+    );
+    const items = blogs.map((blog) => toFeedItem(blog, base));
+
+    const meta: FeedMeta = {
+      title:
+        scope.tag || scope.topic ? `${SITE_NAME}: ${scopeName}` : SITE_NAME,
+      description: scope.tag
+        ? `Latest posts tagged ${scopeName}`
+        : scope.topic
+        ? `Latest posts about ${scopeName}`
+        : SITE_DESCRIPTION,
+      link: `${base}${scope.tag ? "/tags" : scope.topic ? "/topics" : "/"}`,
+      selfUrl: `${base}${new URL(request.url).pathname}`,
+      // Newest edit across the items, or now for an empty feed
+      updated: items.length
+        ? new Date(Math.max(...items.map((item) => item.updated.getTime())))
+        : new Date(),
+    };
+
+    return new NextResponse(FEED_BUILDERS[format](meta, items), {
+      headers: {
+        "Content-Type": CONTENT_TYPES[format],
+        "Cache-Control": "public, s-maxage=600, stale-while-revalidate=3600",
+      },
+    });
+  } catch (error) {
+    console.error("Feed error:", error);
+    return NextResponse.json(
+      { error: "Failed to build feed" },
+      { status: 500 }
+    );
+  }
+};
@@ -0,0 +1,88 @@
+import rehypeStringify from "rehype-stringify";
+import { remark } from "remark";
+import remarkGfm from "remark-gfm";
+import remarkRehype from "remark-rehype";
+import { describe, expect, it } from "vitest";
+import { remarkBlocks, toEmbedUrl } from "./markdownBlocks";
+
+// HTML for the markdown, rendered the way posts are
+const render = async (markdown: string) =>
+  String(
+    await remark()
+      .use(remarkGfm)
+      .use(remarkBlocks)
+      .use(remarkRehype)
+      .use(rehypeStringify)
+      .process(markdown)
+  ).replace(/\n/g, "");
+
+describe("remarkBlocks", () => {
+  it("renders callouts", async () => {
+    expect(await render("> [!NOTE]\n> Mind the *gap*.")).toBe(
+      '<aside class="callout-note"><p>Mind the <em>gap</em>.</p></aside>'
+    );
+  });
+
+  it("reads markers in any case and text on the marker's line", async () => {
+    expect(await render("> [!warning] Careful")).toBe(
+      '<aside class="callout-warning"><p>Careful</p></aside>'
+    );
+  });
+
+  it("renders collapsible sections with their summary", async () => {
+    expect(await render("> [!DETAILS] More\n> Hidden text")).toBe(
+      "<details><summary>More</summary><p>Hidden text</p></details>"
+    );
+    expect(await render("> [!DETAILS]\n> Hidden text")).toBe(
+      "<details><summary>Details</summary><p>Hidden text</p></details>"
+    );
+  });
+
+  it("embeds links from known providers", async () => {
+    expect(
+      await render("> [!EMBED] https://www.youtube.com/watch?v=dQw4w9WgXcQ")
+    ).toBe(
+      '<iframe src="https://www.youtube-nocookie.com/embed/dQw4w9WgXcQ" ' +
+        'title="Embedded content" loading="lazy" allowfullscreen></iframe>'
+    );
+  });
+
+  it("leaves unknown markers, links and plain quotes as quotes", async () => {
+    expect(await render("> [!EMBED] https://example.com/video")).toContain(
+      "<blockquote>"
+    );
+    expect(await render("> [!UNKNOWN] text")).toBe(
+      "<blockquote><p>[!UNKNOWN] text</p></blockquote>"
+    );
+    expect(await render("> Just a quote")).toBe(
+      "<blockquote><p>Just a quote</p></blockquote>"
+    );
+  });
+
+  it("renders blocks nested in lists", async () => {
+    expect(await render("- item\n\n  > [!TIP]\n  > Nested")).toBe(
+      '<ul><li><p>item</p><aside class="callout-tip"><p>Nested</p></aside>' +
+        "</li></ul>"
+    );
+  });
+});
+
+describe("toEmbedUrl", () => {
+  it("turns known video and pen links into their player", () => {
+    expect(toEmbedUrl("https://youtu.be/dQw4w9WgXcQ")).toBe(
+      "https://www.youtube-nocookie.com/embed/dQw4w9WgXcQ"
+    );
+    expect(toEmbedUrl(" https://vimeo.com/76979871 ")).toBe(
+      "https://player.vimeo.com/video/76979871"
+    );
+    expect(toEmbedUrl("https://codepen.io/someone/pen/abc123")).toBe(
+      "https://codepen.io/someone/embed/abc123?default-tab=result"
+    );
+  });
+
+  it("returns null for any other link", () => {
+    expect(toEmbedUrl("https://example.com/watch?v=dQw4w9WgXcQ")).toBeNull();
+    expect(toEmbedUrl("http://youtu.be/dQw4w9WgXcQ")).toBeNull();
+    expect(toEmbedUrl("")).toBeNull();
+  });
+});
@@ -0,0 +1,122 @@
+import type { Blockquote, Nodes, Root } from "mdast";
+
+// Custom blocks are quotes opening with a marker, so they still read well as
+// plain markdown:
+//   > [!NOTE]            a callout, also TIP, IMPORTANT, WARNING, CAUTION
+//   > [!DETAILS] Summary a collapsible section
+//   > [!EMBED] <url>     a video or pen from a known provider
+export const CALLOUT_TYPES = [
+  "note",
+  "tip",
+  "important",
+  "warning",
+  "caution",
+] as const;
+
+export type CalloutType = (typeof CALLOUT_TYPES)[number];
+
+export const CALLOUT_LABELS: Record<CalloutType, string> = {
+  note: "Note",
+  tip: "Tip",
+  important: "Important",
+  warning: "Warning",
+  caution: "Caution",
+};
+
+const BLOCK_MARKER = /^\[!(\w+)\][ \t]*/;
+
+// Only these hosts are embedded; any other link stays a link
+const EMBED_PROVIDERS: [RegExp, (match: RegExpMatchArray) => string][] = [
+  [
+    /^https:\/\/(?:www\.)?(?:youtube\.com\/watch\?v=|youtu\.be\/)([\w-]{11})/,
+    ([, id]) => `https://www.youtube-nocookie.com/embed/${id}`,
+  ],
+  [
+    /^https:\/\/(?:www\.)?vimeo\.com\/(\d+)/,
+    ([, id]) => `https://player.vimeo.com/video/${id}`,
+  ],
+  [
+    /^https:\/\/codepen\.io\/([\w-]+)\/pen\/(\w+)/,
+    ([, user, id]) =>
+      `https://codepen.io/${user}/embed/${id}?default-tab=result`,
+  ],
+];
+
+export const toEmbedUrl = (url: string) => {
+  for (const [pattern, toSrc] of EMBED_PROVIDERS) {
+    const match = url.trim().match(pattern);
+    if (match) return toSrc(match);
+  }
+  return null;
+};
+
+const isCallout = (type: string): type is CalloutType =>
+  (CALLOUT_TYPES as readonly string[]).includes(type);
+
+const textOf = (node: Nodes): string =>
+  "value" in node
+    ? node.value
+    : "children" in node
+    ? node.children.map(textOf).join("")
+    : "";
+
+// Turns a marked quote into its block in place. Unknown markers are left
+// as written
+const toBlock = (node: Blockquote) => {
+  const [first] = node.children;
+  const opening = first?.type === "paragraph" ? first.children[0] : null;
+  if (first?.type !== "paragraph" || opening?.type !== "text") return;
+  const marker = opening.value.match(BLOCK_MARKER);
+  const type = marker?.[1].toLowerCase();
+  if (!marker || !type) return;
+
+  // The rest of the marker's line is the summary or the link
+  const rest = opening.value.slice(marker[0].length);
+  const lineEnd = rest.indexOf("\n");
+  const setOpening = (value: string) => {
+    opening.value = value;
+    if (!value) first.children.shift();
+    if (first.children.length === 0) node.children.shift();
+  };
+
+  if (isCallout(type)) {
+    setOpening(rest.replace(/^\n/, ""));
+    node.data = {
+      hName: "aside",
+      hProperties: { className: [`callout-${type}`] },
+    };
+  } else if (type === "details") {
+    const summary = lineEnd === -1 ? rest : rest.slice(0, lineEnd);
+    setOpening(lineEnd === -1 ? "" : rest.slice(lineEnd + 1));
+    node.children.unshift({
+      type: "paragraph",
+      data: { hName: "summary" },
+      children: [{ type: "text", value: summary.trim() || "Details" }],
+    });
+    node.data = { hName: "details" };
+  } else if (type === "embed") {
+    // Links are parsed into their own nodes, so the whole line is read
+    const [url] = textOf(first).slice(marker[0].length).split("\n");
+    const src = toEmbedUrl(url);
+    if (!src) return;
+    node.children = [];
+    node.data = {
+      hName: "iframe",
+      hProperties: {
+        src,
+        title: "Embedded content",
+        loading: "lazy",
+        allowFullScreen: true,
+      },
+    };
+  }
+};
+
+// Remark plugin rendering the custom blocks above
+export function remarkBlocks() {
+  const walk = (node: Nodes) => {
+    if (node.type === "blockquote") toBlock(node);
+    if ("children" in node) node.children.forEach(walk);
+  };
+  return (tree: Root) => walk(tree);
+}
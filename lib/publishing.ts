@@ -0,0 +1,79 @@
+import { Blog, BlogStatus, Prisma } from "@/generated/prisma";
+
+// Posts readers may see: live posts plus scheduled ones whose time has come
+export const publishedBlogFilter = (): Prisma.BlogWhereInput => ({
+  deletedAt: null,
+  OR: [
+    { status: BlogStatus.PUBLISHED },
+    { status: BlogStatus.SCHEDULED, scheduledFor: { lte: new Date() } },
+  ],
+});
+
+// publishedBlogFilter() for raw queries on "Blog"
+export const publishedBlogSql = () => Prisma.sql`
+  "Blog"."deletedAt" IS NULL AND (
+    "Blog"."status" = 'PUBLISHED'
+    OR (
+      "Blog"."status" = 'SCHEDULED'
+      AND "Blog"."scheduledFor" <= ${new Date()}
+    )
+  )
+`;
+
+export const isBlogStatus = (value: unknown): value is BlogStatus =>
+  Object.values(BlogStatus).includes(value as BlogStatus);
+
+type StatusFields = Pick<Blog, "status" | "publishedAt" | "scheduledFor">;
+
+// Posts published before the lifecycle existed have no publishedAt
+const livePublishedAt = (
+  current?: Pick<Blog, "status" | "publishedAt" | "createdAt">
+) =>
+  current?.publishedAt ??
+  (current?.status === BlogStatus.PUBLISHED ? current.createdAt : null);
+
+// Works out the lifecycle columns for a status change, or why it is invalid
+export const resolveStatusFields = (
+  status: BlogStatus,
+  scheduledFor: unknown,
+  current?: Pick<Blog, "status" | "publishedAt" | "createdAt">
+): { data: StatusFields; error: null } | { data: null; error: string } => {
+  switch (status) {
+    case BlogStatus.PUBLISHED:
+      return {
+        data: {
+          status,
+          publishedAt: livePublishedAt(current) ?? new Date(),
+          scheduledFor: null,
+        },
+        error: null,
+      };
+    case BlogStatus.SCHEDULED: {
+      const date = new Date(String(scheduledFor));
+      if (!scheduledFor || isNaN(date.getTime())) {
+        return { data: null, error: "A valid scheduledFor date is required" };
+      }
+      if (date <= new Date()) {
+        return { data: null, error: "scheduledFor must be in the future" };
+      }
+      return {
+        data: { status, publishedAt: date, scheduledFor: date },
+        error: null,
+      };
+    }
+    case BlogStatus.ARCHIVED:
+      return {
+        data: {
+          status,
+          publishedAt: livePublishedAt(current),
+          scheduledFor: null,
+        },
+        error: null,
+      };
+    default:
+      return {
+        data: { status, publishedAt: null, scheduledFor: null },
+        error: null,
+      };
+  }
+};
@@ -0,0 +1,20 @@
+import { ReactionType } from "@/generated/prisma";
+
+// Emoji and label shown for each reaction, in display order
+export const REACTIONS: Record<ReactionType, { emoji: string; label: string }> =
+  {
+    LIKE: { emoji: "👍", label: "Like" },
+    INSIGHTFUL: { emoji: "💡", label: "Insightful" },
+    LOVE: { emoji: "❤️", label: "Love" },
+    FUNNY: { emoji: "😄", label: "Funny" },
+    CELEBRATE: { emoji: "🎉", label: "Celebrate" },
+  };
+
+export const isReactionType = (value: unknown): value is ReactionType =>
+  Object.values(ReactionType).includes(value as ReactionType);
+
+// Counts for every reaction on a post, plus the ones the reader left
+export interface ReactionSummary {
+  counts: Record<ReactionType, number>;
+  mine: ReactionType[];
+}
@@ -0,0 +1,121 @@
+import { unstable_cache } from "next/cache";
+import { Prisma } from "@/generated/prisma";
+import prisma from "@/lib/db";
+import { blogWithAuthorsInclude, BlogWithAuthors } from "@/lib/authors";
+import { BLOGS_CACHE_TAG, findBlogBySlug, toApiShape } from "@/lib/blogs";
+import { publishedBlogFilter } from "@/lib/publishing";
+
+export const RELATED_DEFAULT_LIMIT = 4;
+export const RELATED_MAX_LIMIT = 12;
+
+// Points per shared topic and tag; topics are broader so count for more
+const TOPIC_WEIGHT = 3;
+const TAG_WEIGHT = 2;
+// Points for the closest text match, the rest scale down from its rank
+const TEXT_WEIGHT = 4;
+
+// Most frequent lexemes of the post that make up its similarity query
+const TEXT_TERMS = 16;
+// Text matches considered before scoring
+const TEXT_CANDIDATES = 50;
+
+// Posts whose content shares the source post's most frequent terms, ranked
+// by ts_rank. Lexemes are already stemmed, so the query is cast directly
+const findTextMatches = (blogId: string) =>
+  prisma.$queryRaw<{ id: string; rank: number }[]>`
+    WITH terms AS (
+      SELECT t.lexeme
+      FROM "Blog" b, unnest(b."searchVector") AS t(lexeme, positions, weights)
+      WHERE b."id" = ${blogId}
+      ORDER BY coalesce(array_length(t.positions, 1), 0) DESC
+      LIMIT ${TEXT_TERMS}
+    ), similarity AS (
+      SELECT string_agg(quote_literal(lexeme), ' | ')::tsquery AS query
+      FROM terms
+    )
+    SELECT b."id", ts_rank(b."searchVector", s.query)::float8 AS "rank"
+    FROM "Blog" b, similarity s
+    WHERE b."id" <> ${blogId}
+      AND b."deletedAt" IS NULL
+      AND s.query IS NOT NULL
+      AND b."searchVector" @@ s.query
+    ORDER BY "rank" DESC
+    LIMIT ${TEXT_CANDIDATES}
+  `;
+
+// Other published posts sharing a tag or topic with the source post
+const findTaxonomyMatches = (blog: BlogWithAuthors) => {
+  const tags = blog.tags.map((tag) => tag.slug);
+  const topics = blog.topics.map((topic) => topic.slug);
+  const overlap: Prisma.BlogWhereInput[] = [
+    ...(tags.length ? [{ tags: { some: { slug: { in: tags } } } }] : []),
+    ...(topics.length ? [{ topics: { some: { slug: { in: topics } } } }] : []),
+  ];
+  if (!overlap.length) return Promise.resolve([]);
+
+  return prisma.blog.findMany({
+    where: {
+      AND: [publishedBlogFilter(), { OR: overlap }],
+      id: { not: blog.id },
+    },
+    select: {
+      id: true,
+      tags: { select: { slug: true }, where: { slug: { in: tags } } },
+      topics: { select: { slug: true }, where: { slug: { in: topics } } },
+    },
+  });
+};
+
+// Scores other posts by shared topics and tags plus content similarity and
+// returns the best, newest first on ties. Null when the post is not live
+export const findRelatedBlogs = async (slug: string, limit: number) => {
+  const blog = await findBlogBySlug(slug);
+  if (!blog) return null;
+
+  const [taxonomyMatches, textMatches] = await Promise.all([
+    findTaxonomyMatches(blog),
+    findTextMatches(blog.id),
+  ]);
+
+  const scores = new Map<string, number>();
+  const addScore = (id: string, points: number) =>
+    scores.set(id, (scores.get(id) ?? 0) + points);
+
+  taxonomyMatches.forEach((match) =>
+    addScore(
+      match.id,
+      match.topics.length * TOPIC_WEIGHT + match.tags.length * TAG_WEIGHT
+    )
+  );
+  const topRank = textMatches[0]?.rank || 1;
+  textMatches.forEach((match) =>
+    addScore(match.id, (match.rank / topRank) * TEXT_WEIGHT)
+  );
+
+  // Text matches are not filtered by status, so drop anything not live
+  const visible = await prisma.blog.findMany({
+    where: { ...publishedBlogFilter(), id: { in: [...scores.keys()] } },
+    select: { id: true, createdAt: true },
+  });
+  const topIds = visible
+    .sort(
+      (a, b) =>
+        (scores.get(b.id) ?? 0) - (scores.get(a.id) ?? 0) ||
+        b.createdAt.getTime() - a.createdAt.getTime()
+    )
+    .slice(0, limit)
+    .map(({ id }) => id);
+
+  const related = await prisma.blog.findMany({
+    where: { id: { in: topIds } },
+    include: blogWithAuthorsInclude,
+  });
+  return topIds.flatMap((id) => related.filter((post) => post.id === id));
+};
+
+export const getCachedRelatedBlogs = (slug: string, limit: number) =>
+  unstable_cache(
+    async () => toApiShape(await findRelatedBlogs(slug, limit)),
+    ["related-blogs", slug, String(limit)],
+    { tags: [BLOGS_CACHE_TAG], revalidate: 3600 }
+  )();
@@ -0,0 +1,35 @@
+import { Prisma } from "@/generated/prisma";
+import { BlogWithTaxonomy } from "@/lib/taxonomy";
+
+// Snapshot the blog's current content as its next revision
+export const createRevision = async (
+  tx: Prisma.TransactionClient,
+  blog: BlogWithTaxonomy,
+  editorId: string | null,
+  restoredFromVersion: number | null = null
+) => {
+  // Holding the blog's row lock until the transaction ends makes concurrent
+  // saves number their revisions one after the other
+  await tx.$queryRaw`SELECT 1 FROM "Blog" WHERE "id" = ${blog.id} FOR UPDATE`;
+  const latest = await tx.blogRevision.findFirst({
+    where: { blogId: blog.id },
+    orderBy: { version: "desc" },
+    select: { version: true },
+  });
+
+  return tx.blogRevision.create({
+    data: {
+      blogId: blog.id,
+      version: (latest?.version ?? 0) + 1,
+      title: blog.title,
+      subTitle: blog.subTitle,
+      content: blog.content,
+      bannerUrl: blog.bannerUrl,
+      video: blog.video,
+      tags: blog.tags.map((tag) => tag.slug),
+      topics: blog.topics.map((topic) => topic.slug),
+      editorId,
+      restoredFromVersion,
+    },
+  });
+};
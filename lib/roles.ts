@@ -0,0 +1,41 @@
+import { Role, User } from "@/generated/prisma";
+
+// Public shape of the signed-in user, safe to send to the client
+export type SessionUser = Pick<User, "id" | "email" | "name" | "role">;
+
+// Higher roles inherit every permission of the lower ones
+const ROLE_RANK: Record<Role, number> = {
+  READER: 0,
+  AUTHOR: 1,
+  EDITOR: 2,
+  ADMIN: 3,
+};
+
+// Minimum role required for each protected action
+export const PERMISSIONS = {
+  createBlog: Role.AUTHOR,
+  viewDrafts: Role.AUTHOR,
+  editBlog: Role.EDITOR,
+  deleteBlog: Role.EDITOR,
+  purgeBlog: Role.ADMIN,
+  uploadImage: Role.AUTHOR,
+  deleteImage: Role.EDITOR,
+  enhanceText: Role.AUTHOR,
+  manageUsers: Role.ADMIN,
+  manageTaxonomy: Role.EDITOR,
+  manageAuthors: Role.EDITOR,
+  moderateComments: Role.EDITOR,
+  createSeries: Role.AUTHOR,
+  manageSeries: Role.EDITOR,
+  viewAnalytics: Role.EDITOR,
+  react: Role.READER,
+  bookmark: Role.READER,
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const hasRole = (user: SessionUser | null, role: Role) =>
+  !!user && ROLE_RANK[user.role] >= ROLE_RANK[role];
+
+export const can = (user: SessionUser | null, permission: Permission) =>
+  hasRole(user, PERMISSIONS[permission]);
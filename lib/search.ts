@@ -0,0 +1,59 @@
+// ts_headline wraps matched terms in these private-use characters; unlike
+// HTML tags they cannot clash with anything in a post's markdown
+export const HIGHLIGHT_START = "\uE000";
+export const HIGHLIGHT_STOP = "\uE001";
+
+export const SEARCH_SORTS = [
+  "relevance",
+  "createdAt",
+  "updatedAt",
+  "readingTime",
+  "views",
+  "title",
+] as const;
+export type SearchSort = (typeof SEARCH_SORTS)[number];
+
+// Matched fragments sent with each full-text search result
+export interface SearchHighlight {
+  title: string;
+  snippet: string;
+}
+
+export interface HighlightPart {
+  text: string;
+  highlighted: boolean;
+}
+
+// Splits a highlighted string into plain and matched parts for rendering
+export const splitHighlights = (value: string): HighlightPart[] =>
+  value
+    .split(HIGHLIGHT_START)
+    .flatMap((chunk, i) => {
+      if (i === 0) return [{ text: chunk, highlighted: false }];
+      const [match, rest = ""] = chunk.split(HIGHLIGHT_STOP);
+      return [
+        { text: match, highlighted: true },
+        { text: rest, highlighted: false },
+      ];
+    })
+    .filter((part) => part.text);
+
+// Words of a query, lowercased, for building tsqueries and corrections
+export const queryWords = (query: string) =>
+  query.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+// "react hoo" becomes "react & hoo:*" so the last word matches as a prefix
+export const toPrefixQuery = (query: string) => {
+  const words = queryWords(query);
+  if (words.length === 0) return null;
+  return words
+    .map((word, i) => (i === words.length - 1 ? `${word}:*` : word))
+    .join(" & ");
+};
+
+// Autocomplete payload from /api/search/suggest
+export interface SearchSuggestions {
+  titles: { slug: string; title: string }[];
+  tags: { slug: string; name: string }[];
+  topics: { slug: string; name: string }[];
+}
@@ -0,0 +1,165 @@
+import { readFileSync } from "fs";
+import { PGlite } from "@electric-sql/pglite";
+import { pg_trgm } from "@electric-sql/pglite/contrib/pg_trgm";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { Prisma } from "@/generated/prisma";
+import { HIGHLIGHT_START, HIGHLIGHT_STOP } from "@/lib/search";
+import {
+  highlightsQuery,
+  matchCountQuery,
+  matchPageQuery,
+  SearchFilters,
+} from "./searchQuery";
+
+// The tables the search queries read, as the Prisma schema creates them
+const SCHEMA = `
+  CREATE EXTENSION pg_trgm;
+  CREATE TYPE "BlogStatus" AS ENUM
+    ('DRAFT', 'SCHEDULED', 'PUBLISHED', 'ARCHIVED');
+  CREATE TABLE "Blog" (
+    "id" TEXT PRIMARY KEY,
+    "title" TEXT NOT NULL,
+    "subTitle" TEXT NOT NULL DEFAULT '',
+    "content" TEXT NOT NULL DEFAULT '',
+    "status" "BlogStatus" NOT NULL DEFAULT 'PUBLISHED',
+    "scheduledFor" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "deletedAt" TIMESTAMP(3),
+    "readingTime" INTEGER NOT NULL DEFAULT 0,
+    "searchVector" tsvector
+  );
+  CREATE TABLE "Tag" ("id" TEXT PRIMARY KEY, "slug" TEXT NOT NULL);
+  CREATE TABLE "_BlogToTag" ("A" TEXT NOT NULL, "B" TEXT NOT NULL);
+  CREATE TABLE "Topic" ("id" TEXT PRIMARY KEY, "slug" TEXT NOT NULL);
+  CREATE TABLE "_BlogToTopic" ("A" TEXT NOT NULL, "B" TEXT NOT NULL);
+  CREATE TABLE "Author" ("id" TEXT PRIMARY KEY, "handle" TEXT NOT NULL);
+  CREATE TABLE "BlogAuthor" ("blogId" TEXT NOT NULL, "authorId" TEXT NOT NULL);
+  CREATE TABLE "BlogView" ("blogId" TEXT NOT NULL);
+`;
+
+const POSTS = `
+  INSERT INTO "Blog" ("id", "title", "content", "status", "scheduledFor",
+    "deletedAt", "readingTime") VALUES
+    ('next', 'Getting started with Next.js', 'Routing and rendering',
+      'PUBLISHED', NULL, NULL, 3),
+    ('react', 'React hooks in depth', 'useState and useEffect with Next',
+      'PUBLISHED', NULL, NULL, 9),
+    ('draft', 'Next.js draft', 'Unfinished', 'DRAFT', NULL, NULL, 1),
+    ('trashed', 'Next.js in the trash', 'Deleted',
+      'PUBLISHED', NULL, NOW(), 1),
+    ('later', 'Next.js next year', 'Scheduled',
+      'SCHEDULED', NOW() + INTERVAL '1 year', NULL, 1),
+    ('due', 'Next.js due now', 'Scheduled',
+      'SCHEDULED', NOW() - INTERVAL '1 day', NULL, 20);
+  INSERT INTO "Tag" VALUES ('t1', 'react');
+  INSERT INTO "_BlogToTag" VALUES ('react', 't1');
+  INSERT INTO "Topic" VALUES ('p1', 'frontend');
+  INSERT INTO "_BlogToTopic" VALUES ('next', 'p1');
+  INSERT INTO "Author" VALUES ('a1', 'ada');
+  INSERT INTO "BlogAuthor" VALUES ('due', 'a1');
+  INSERT INTO "BlogView" VALUES ('react'), ('react'), ('due');
+`;
+
+const NO_FILTERS: SearchFilters = {
+  tags: [],
+  topics: [],
+  author: "",
+  readingTime: {},
+};
+
+let db: PGlite;
+
+const run = async <T>(query: Prisma.Sql) =>
+  (await db.query<T>(query.text, query.values)).rows;
+
+const ids = async (
+  query: string,
+  filters: Partial<SearchFilters> = {},
+  sort: Parameters<typeof matchPageQuery>[2] = "title"
+) =>
+  (
+    await run<{ id: string }>(
+      matchPageQuery(query, { ...NO_FILTERS, ...filters }, sort, 0, 10)
+    )
+  ).map((row) => row.id);
+
+// Starting the database takes a few seconds
+beforeAll(async () => {
+  db = new PGlite({ extensions: { pg_trgm } });
+  await db.exec(SCHEMA);
+  // The real trigger fills searchVector
+  await db.exec(readFileSync("prisma/search-migration.sql", "utf8"));
+  await db.exec(POSTS);
+}, 60_000);
+
+afterAll(async () => {
+  await db.close();
+});
+
+describe("matchPageQuery", () => {
+  it("finds visible posts only", async () => {
+    expect(await ids("next")).toEqual(["next", "due", "react"]);
+  });
+
+  it("matches the last word as a prefix", async () => {
+    expect(await ids("hoo")).toEqual(["react"]);
+    expect(await ids("react ho")).toEqual(["react"]);
+  });
+
+  it("matches titles with typos", async () => {
+    expect(await ids("reacct")).toEqual(["react"]);
+  });
+
+  it("runs for queries without any words", async () => {
+    expect(await ids("!!")).toEqual([]);
+  });
+
+  it("applies every filter", async () => {
+    expect(await ids("next", { tags: ["react"] })).toEqual(["react"]);
+    expect(await ids("next", { topics: ["frontend"] })).toEqual(["next"]);
+    expect(await ids("next", { author: "ada" })).toEqual(["due"]);
+    expect(await ids("next", { readingTime: { min: 5, max: 10 } })).toEqual([
+      "react",
+    ]);
+  });
+
+  it("sorts and pages the matches", async () => {
+    expect(await ids("next", {}, "views")).toEqual(["react", "due", "next"]);
+    expect(await ids("next", {}, "readingTime")).toEqual([
+      "next",
+      "react",
+      "due",
+    ]);
+    expect((await ids("next", {}, "relevance")).sort()).toEqual([
+      "due",
+      "next",
+      "react",
+    ]);
+
+    const page = await run<{ id: string }>(
+      matchPageQuery("next", NO_FILTERS, "title", 1, 1)
+    );
+    expect(page.map((row) => row.id)).toEqual(["due"]);
+  });
+});
+
+describe("matchCountQuery", () => {
+  it("counts every match, not only one page", async () => {
+    expect(await run(matchCountQuery("next", NO_FILTERS))).toEqual([
+      { count: 3 },
+    ]);
+  });
+});
+
+describe("highlightsQuery", () => {
+  it("marks the matched words", async () => {
+    const [row] = await run<{ id: string; title: string }>(
+      highlightsQuery(["react"], "hooks")
+    );
+    expect(row.id).toBe("react");
+    expect(row.title).toBe(
+      `React ${HIGHLIGHT_START}hooks${HIGHLIGHT_STOP} in depth`
+    );
+  });
+});
@@ -0,0 +1,130 @@
+import { Prisma } from "@/generated/prisma";
+import { publishedBlogSql } from "@/lib/publishing";
+import {
+  HIGHLIGHT_START,
+  HIGHLIGHT_STOP,
+  SearchSort,
+  toPrefixQuery,
+} from "@/lib/search";
+
+// Raw SQL behind full-text search, run by app/api/search. Kept out of
+// lib/search, which the search bar imports in the browser
+
+// Inclusive bounds in minutes; either side may be open
+export interface ReadingTimeRange {
+  min?: number;
+  max?: number;
+}
+
+export interface SearchFilters {
+  tags: string[];
+  topics: string[];
+  author: string;
+  readingTime: ReadingTimeRange;
+}
+
+// ts_headline options; titles are highlighted whole while content is cut
+// down to the fragments around the matches
+const headlineOptions = (options: string) =>
+  `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, ${options}`;
+const TITLE_HEADLINE = headlineOptions("HighlightAll=true");
+const SNIPPET_HEADLINE = headlineOptions(
+  'MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "'
+);
+
+// Full query plus a prefix match on its last word, so "nex" finds "next".
+// The cast makes the expression a valid table function for `FROM ... AS q`
+export const toTsQuery = (query: string) => {
+  const prefix = toPrefixQuery(query);
+  const full = Prisma.sql`websearch_to_tsquery('english', ${query})`;
+  return prefix
+    ? Prisma.sql`CAST(${full} || to_tsquery('english', ${prefix}) AS tsquery)`
+    : full;
+};
+
+// The route's SORT_ORDER for text searches, which page through the matches
+// in SQL
+const MATCH_ORDER: Record<SearchSort, Prisma.Sql> = {
+  relevance: Prisma.sql`"rank" DESC`,
+  createdAt: Prisma.sql`"createdAt" DESC`,
+  updatedAt: Prisma.sql`"updatedAt" DESC`,
+  readingTime: Prisma.sql`"readingTime" ASC`,
+  views: Prisma.sql`(
+    SELECT COUNT(*) FROM "BlogView" WHERE "BlogView"."blogId" = "Blog"."id"
+  ) DESC`,
+  title: Prisma.sql`"title" ASC`,
+};
+
+// The route's buildSearchFilter as SQL conditions on "Blog"
+const searchConditions = ({
+  tags,
+  topics,
+  author,
+  readingTime,
+}: SearchFilters) => {
+  const conditions = [publishedBlogSql()];
+  if (tags.length) {
+    conditions.push(Prisma.sql`EXISTS (
+      SELECT 1 FROM "_BlogToTag" JOIN "Tag" ON "Tag"."id" = "_BlogToTag"."B"
+      WHERE "_BlogToTag"."A" = "Blog"."id" AND "Tag"."slug" = ANY(${tags})
+    )`);
+  }
+  if (topics.length) {
+    conditions.push(Prisma.sql`EXISTS (
+      SELECT 1 FROM "_BlogToTopic"
+      JOIN "Topic" ON "Topic"."id" = "_BlogToTopic"."B"
+      WHERE "_BlogToTopic"."A" = "Blog"."id"
+        AND "Topic"."slug" = ANY(${topics})
+    )`);
+  }
+  if (author) {
+    conditions.push(Prisma.sql`EXISTS (
+      SELECT 1 FROM "BlogAuthor"
+      JOIN "Author" ON "Author"."id" = "BlogAuthor"."authorId"
+      WHERE "BlogAuthor"."blogId" = "Blog"."id"
+        AND "Author"."handle" = ${author}
+    )`);
+  }
+  if (readingTime.min !== undefined) {
+    conditions.push(Prisma.sql`"Blog"."readingTime" >= ${readingTime.min}`);
+  }
+  if (readingTime.max !== undefined) {
+    conditions.push(Prisma.sql`"Blog"."readingTime" <= ${readingTime.max}`);
+  }
+  return Prisma.join(conditions, " AND ");
+};
+
+// Visible posts matching the query. Titles also match on trigram similarity
+// so typos such as "typscript" still find posts
+const matchingBlogs = (query: string, filters: SearchFilters) => Prisma.sql`
+  FROM "Blog", ${toTsQuery(query)} AS q
+  WHERE ("searchVector" @@ q OR ${query} <% "title")
+    AND ${searchConditions(filters)}
+`;
+
+// Ids of one page of the matching posts, in the order asked for
+export const matchPageQuery = (
+  query: string,
+  filters: SearchFilters,
+  sort: SearchSort,
+  offset: number,
+  limit: number
+) => Prisma.sql`
+  SELECT "id",
+    ts_rank("searchVector", q) + word_similarity(${query}, "title") AS "rank"
+  ${matchingBlogs(query, filters)}
+  ORDER BY ${MATCH_ORDER[sort]}, "id"
+  LIMIT ${limit} OFFSET ${offset}
+`;
+
+export const matchCountQuery = (query: string, filters: SearchFilters) =>
+  Prisma.sql`SELECT COUNT(*)::int AS "count" ${matchingBlogs(query, filters)}`;
+
+// Highlighted title and content snippet of each of the given posts
+export const highlightsQuery = (ids: string[], query: string) => Prisma.sql`
+  SELECT "id",
+    ts_headline('english', "title", q, ${TITLE_HEADLINE}) AS "title",
+    ts_headline('english', "content", q, ${SNIPPET_HEADLINE}) AS "snippet"
+  FROM "Blog", ${toTsQuery(query)} AS q
+  WHERE "id" = ANY(${ids})
+`;
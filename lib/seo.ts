@@ -0,0 +1,72 @@
+import type { Metadata } from "next";
+import { BlogWithAuthors } from "@/lib/authors";
+import { SITE_NAME, siteUrl } from "@/lib/site";
+
+export const blogPath = (slug: string) => `/blog/${slug}`;
+
+// Dates arrive as strings once a post has been through the data cache
+const toIsoDate = (value: Date | string) => new Date(value).toISOString();
+
+// Title, description, canonical URL and social cards for a post page
+export const blogMetadata = (blog: BlogWithAuthors): Metadata => {
+  const url = blogPath(blog.slug);
+  const authors = blog.authors.map(({ author }) => author.name);
+  const images = blog.bannerUrl
+    ? [{ url: blog.bannerUrl, alt: blog.title }]
+    : [];
+
+  return {
+    title: blog.title,
+    description: blog.subTitle,
+    authors: authors.map((name) => ({ name })),
+    keywords: blog.tags.map((tag) => tag.name),
+    alternates: { canonical: url },
+    openGraph: {
+      type: "article",
+      url,
+      siteName: SITE_NAME,
+      title: blog.title,
+      description: blog.subTitle,
+      images,
+      publishedTime: toIsoDate(blog.publishedAt ?? blog.createdAt),
+      modifiedTime: toIsoDate(blog.updatedAt),
+      authors,
+      tags: blog.tags.map((tag) => tag.name),
+    },
+    twitter: {
+      card: images.length ? "summary_large_image" : "summary",
+      title: blog.title,
+      description: blog.subTitle,
+      images,
+    },
+  };
+};
+
+// schema.org BlogPosting, serialized for a <script type="application/ld+json">
+export const blogJsonLd = (blog: BlogWithAuthors) => {
+  const base = siteUrl();
+  const url = `${base}${blogPath(blog.slug)}`;
+
+  const data = {
+    "@context": "https://schema.org",
+    "@type": "BlogPosting",
+    headline: blog.title,
+    description: blog.subTitle,
+    image: blog.bannerUrl ? [blog.bannerUrl] : undefined,
+    url,
+    mainEntityOfPage: { "@type": "WebPage", "@id": url },
+    datePublished: toIsoDate(blog.publishedAt ?? blog.createdAt),
+    dateModified: toIsoDate(blog.updatedAt),
+    author: blog.authors.map(({ author }) => ({
+      "@type": "Person",
+      name: author.name,
+      url: `${base}/authors/${author.handle}`,
+    })),
+    publisher: { "@type": "Organization", name: SITE_NAME, url: base },
+    keywords: blog.tags.map((tag) => tag.name).join(", ") || undefined,
+    articleSection: blog.topics[0]?.name,
+  };
+
+  // Escape "<" so post text cannot close the script tag
+  return JSON.stringify(data).replace(/</g, "\\u003c");
+};
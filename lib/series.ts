@@ -0,0 +1,65 @@
+import { Blog, Prisma, Series } from "@/generated/prisma";
+import { toTaxonomySlug } from "@/lib/taxonomy";
+
+// Series fields sent with every blog payload
+export const seriesSelect = {
+  id: true,
+  slug: true,
+  title: true,
+  description: true,
+} satisfies Prisma.SeriesSelect;
+
+export type SeriesRef = Pick<Series, keyof typeof seriesSelect>;
+
+export const blogSeriesInclude = {
+  series: { select: seriesSelect },
+} satisfies Prisma.BlogInclude;
+
+// The fields listed for each part in a series' table of contents
+export const seriesPartSelect = {
+  id: true,
+  slug: true,
+  title: true,
+  subTitle: true,
+  bannerUrl: true,
+  seriesPosition: true,
+  readingTime: true,
+  publishedAt: true,
+  createdAt: true,
+} satisfies Prisma.BlogSelect;
+
+export type SeriesPart = Pick<Blog, keyof typeof seriesPartSelect>;
+
+export type SeriesWithParts = SeriesRef & { posts: SeriesPart[] };
+
+// Parts in reading order; posts sharing a position fall back to publish order
+export const seriesPartOrder = [
+  { seriesPosition: "asc" },
+  { publishedAt: "asc" },
+  { createdAt: "asc" },
+] satisfies Prisma.BlogOrderByWithRelationInput[];
+
+// Series slugs follow the same rules as tag slugs
+export const toSeriesSlug = toTaxonomySlug;
+
+// Next free position at the end of a series
+export const nextSeriesPosition = async (
+  tx: Prisma.TransactionClient,
+  seriesId: string
+) => {
+  const { _max } = await tx.blog.aggregate({
+    where: { seriesId, deletedAt: null },
+    _max: { seriesPosition: true },
+  });
+  return (_max.seriesPosition ?? 0) + 1;
+};
+
+// The parts either side of a post, for previous/next links
+export const findAdjacentParts = (parts: SeriesPart[], slug: string) => {
+  const index = parts.findIndex((part) => part.slug === slug);
+  return {
+    index,
+    previous: index > 0 ? parts[index - 1] : null,
+    next: index >= 0 && index < parts.length - 1 ? parts[index + 1] : null,
+  };
+};
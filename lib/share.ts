@@ -0,0 +1,44 @@
+import { ShareChannel } from "@/generated/prisma";
+
+export const SHARE_CHANNEL_LABELS: Record<ShareChannel, string> = {
+  NATIVE: "Share sheet",
+  X: "X",
+  LINKEDIN: "LinkedIn",
+  REDDIT: "Reddit",
+  HACKER_NEWS: "Hacker News",
+  EMAIL: "Email",
+  COPY_LINK: "Copy link",
+  COPY_MARKDOWN: "Copy as markdown",
+};
+
+export const isShareChannel = (value: unknown): value is ShareChannel =>
+  Object.values(ShareChannel).includes(value as ShareChannel);
+
+// Compose pages of each network, prefilled with the post's URL and title
+export const shareLinks = (url: string, title: string) => {
+  const u = encodeURIComponent(url);
+  const t = encodeURIComponent(title);
+  return [
+    {
+      channel: ShareChannel.X,
+      href: `https://x.com/intent/tweet?url=${u}&text=${t}`,
+    },
+    {
+      channel: ShareChannel.LINKEDIN,
+      href: `https://www.linkedin.com/sharing/share-offsite/?url=${u}`,
+    },
+    {
+      channel: ShareChannel.REDDIT,
+      href: `https://www.reddit.com/submit?url=${u}&title=${t}`,
+    },
+    {
+      channel: ShareChannel.HACKER_NEWS,
+      href: `https://news.ycombinator.com/submitlink?u=${u}&t=${t}`,
+    },
+    { channel: ShareChannel.EMAIL, href: `mailto:?subject=${t}&body=${u}` },
+  ];
+};
+
+// Brackets in the title are escaped so they cannot end the link text early
+export const toMarkdownLink = (url: string, title: string) =>
+  `[${title.replace(/[[\]\\]/g, "\\$&")}](${url})`;
@@ -0,0 +1,14 @@
+// Public name of the site, used by feeds and page metadata
+export const SITE_NAME = process.env.NEXT_PUBLIC_SITE_NAME || "Blog Web";
+
+export const SITE_DESCRIPTION =
+  process.env.NEXT_PUBLIC_SITE_DESCRIPTION ||
+  "Articles, tutorials and notes on modern web development";
+
+// Absolute base URL without a trailing slash. Set NEXT_PUBLIC_SITE_URL in
+// production: pages rendered without a request fall back to localhost
+export const siteUrl = (request?: Request) =>
+  (
+    process.env.NEXT_PUBLIC_SITE_URL ||
+    (request ? new URL(request.url).origin : "http://localhost:3000")
+  ).replace(/\/$/, "");
@@ -0,0 +1,135 @@
+import type { MetadataRoute } from "next";
+import prisma from "@/lib/db";
+import { publishedBlogFilter } from "@/lib/publishing";
+import { blogPath } from "@/lib/seo";
+import { siteUrl } from "@/lib/site";
+
+// Most URLs a single sitemap file may list, per the sitemaps.org protocol
+export const SITEMAP_URL_LIMIT = 50_000;
+
+// Lists every chunk; robots.txt points crawlers here. Served by
+// app/sitemap_index.xml, which next.config.ts rewrites this path to
+export const SITEMAP_INDEX_PATH = "/sitemap.xml";
+
+// Chunks are served by app/sitemap.ts through generateSitemaps
+export const sitemapUrl = (id: number) => `${siteUrl()}/sitemap/${id}.xml`;
+
+type SitemapEntry = MetadataRoute.Sitemap[number];
+
+// One kind of page, listed in a stable order so chunks never overlap
+interface SitemapSource {
+  count: () => Promise<number>;
+  list: (skip: number, take: number) => Promise<SitemapEntry[]>;
+}
+
+const STATIC_PATHS = ["/", "/blogs", "/tags", "/topics"];
+
+// Tags, topics and series only get a landing page once a live post uses them
+const inUseFilter = () => ({ blogs: { some: publishedBlogFilter() } });
+const seriesInUseFilter = () => ({ posts: { some: publishedBlogFilter() } });
+
+const sources = (base: string): SitemapSource[] => [
+  {
+    count: async () => STATIC_PATHS.length,
+    list: async (skip, take) =>
+      STATIC_PATHS.slice(skip, skip + take).map((path) => ({
+        url: `${base}${path}`,
+        changeFrequency: "daily",
+      })),
+  },
+  {
+    count: () => prisma.blog.count({ where: publishedBlogFilter() }),
+    list: async (skip, take) => {
+      const blogs = await prisma.blog.findMany({
+        where: publishedBlogFilter(),
+        select: { slug: true, updatedAt: true },
+        orderBy: { createdAt: "asc" },
+        skip,
+        take,
+      });
+      return blogs.map((blog) => ({
+        url: `${base}${blogPath(blog.slug)}`,
+        lastModified: blog.updatedAt,
+      }));
+    },
+  },
+  {
+    count: () => prisma.tag.count({ where: inUseFilter() }),
+    list: async (skip, take) => {
+      const tags = await prisma.tag.findMany({
+        where: inUseFilter(),
+        select: { slug: true, updatedAt: true },
+        orderBy: { slug: "asc" },
+        skip,
+        take,
+      });
+      return tags.map((tag) => ({
+        url: `${base}/tags?q=${encodeURIComponent(tag.slug)}`,
+        lastModified: tag.updatedAt,
+      }));
+    },
+  },
+  {
+    count: () => prisma.topic.count({ where: inUseFilter() }),
+    list: async (skip, take) => {
+      const topics = await prisma.topic.findMany({
+        where: inUseFilter(),
+        select: { slug: true, updatedAt: true },
+        orderBy: { slug: "asc" },
+        skip,
+        take,
+      });
+      return topics.map((topic) => ({
+        url: `${base}/topics?q=${encodeURIComponent(topic.slug)}`,
+        lastModified: topic.updatedAt,
+      }));
+    },
+  },
+  {
+    count: () => prisma.series.count({ where: seriesInUseFilter() }),
+    list: async (skip, take) => {
+      const series = await prisma.series.findMany({
+        where: seriesInUseFilter(),
+        select: { slug: true, updatedAt: true },
+        orderBy: { slug: "asc" },
+        skip,
+        take,
+      });
+      return series.map((item) => ({
+        url: `${base}/series/${item.slug}`,
+        lastModified: item.updatedAt,
+      }));
+    },
+  },
+];
+
+// Number of sitemap files needed; there is always at least one
+export const countSitemaps = async () => {
+  const counts = await Promise.all(
+    sources(siteUrl()).map((source) => source.count())
+  );
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  return Math.max(1, Math.ceil(total / SITEMAP_URL_LIMIT));
+};
+
+// The URLs of one sitemap file, walking the sources in order
+export const listSitemapEntries = async (id: number) => {
+  let skip = id * SITEMAP_URL_LIMIT;
+  let take = SITEMAP_URL_LIMIT;
+  const entries: SitemapEntry[] = [];
+
+  for (const source of sources(siteUrl())) {
+    if (take === 0) break;
+    const count = await source.count();
+    if (skip >= count) {
+      skip -= count;
+      continue;
+    }
+    const listed = await source.list(skip, take);
+    entries.push(...listed);
+    take -= listed.length;
+    skip = 0;
+  }
+
+  return entries;
+};
@@ -0,0 +1,64 @@
+import { Blog, Prisma, Tag } from "@/generated/prisma";
+
+// Tags and topics share a shape, so most helpers here serve both
+export type Taxonomy = Tag;
+export type TaxonomyKind = "tags" | "topics";
+
+export const TAXONOMY_KINDS: TaxonomyKind[] = ["tags", "topics"];
+
+export const isTaxonomyKind = (value: unknown): value is TaxonomyKind =>
+  TAXONOMY_KINDS.includes(value as TaxonomyKind);
+
+// The fields a blog payload carries for each of its tags and topics
+export const taxonomySelect = {
+  slug: true,
+  name: true,
+  color: true,
+} satisfies Prisma.TagSelect;
+
+export type TaxonomyRef = Pick<Taxonomy, "slug" | "name" | "color">;
+
+export const blogTaxonomyInclude = {
+  tags: { select: taxonomySelect },
+  topics: { select: taxonomySelect },
+} satisfies Prisma.BlogInclude;
+
+export type BlogWithTaxonomy = Blog & {
+  tags: TaxonomyRef[];
+  topics: TaxonomyRef[];
+};
+
+// Normalises input to a slug; old enum values such as NEXT_JS map to "next-js"
+export const toTaxonomySlug = (value: string) =>
+  value
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_]+/g, "-")
+    .replace(/[^a-z0-9-]/g, "")
+    .replace(/-+/g, "-")
+    .replace(/^-|-$/g, "");
+
+// Parses a list of slugs from a JSON array or a comma-separated string
+export const parseSlugList = (value: unknown): string[] => {
+  const values = Array.isArray(value)
+    ? value
+    : typeof value === "string"
+    ? value.split(",")
+    : [];
+  return Array.from(
+    new Set(
+      values
+        .filter((item): item is string => typeof item === "string")
+        .map(toTaxonomySlug)
+        .filter(Boolean)
+    )
+  );
+};
+
+export const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+
+// Display name for a selected slug, falling back to the slug itself
+export const findTaxonomyName = (
+  items: Pick<Taxonomy, "slug" | "name">[],
+  slug: string
+) => items.find((item) => item.slug === slug)?.name ?? slug;
@@ -0,0 +1,126 @@
+import { createHash, randomUUID } from "crypto";
+import { ShareChannel } from "@/generated/prisma";
+import prisma from "@/lib/db";
+import { AnalyticsReport, ViewSeries } from "@/lib/analytics";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Readers are told apart by a hash of their tab session and the post, so
+// views cannot be linked across posts or back to a person
+const toVisitorId = (sessionId: string, blogId: string) =>
+  createHash("sha256").update(`${sessionId}:${blogId}`).digest("hex");
+
+// Counts a view once per session; repeat calls only raise the scroll depth
+export const recordView = (blogId: string, sessionId: string, depth: number) =>
+  prisma.$executeRaw`
+    INSERT INTO "BlogView" ("id", "blogId", "visitorId", "maxDepth")
+    VALUES (
+      ${randomUUID()}, ${blogId}, ${toVisitorId(sessionId, blogId)}, ${depth}
+    )
+    ON CONFLICT ("blogId", "visitorId") DO UPDATE
+    SET "maxDepth" = GREATEST("BlogView"."maxDepth", EXCLUDED."maxDepth")
+  `;
+
+// Adds one post's views for a day to the series of a post, tag or topic
+const addViews = (
+  series: Map<string, ViewSeries>,
+  { slug, name }: { slug: string; name: string },
+  day: number,
+  views: number,
+  length: number
+) => {
+  const entry = series.get(slug) ?? {
+    slug,
+    name,
+    views: 0,
+    daily: Array<number>(length).fill(0),
+  };
+  entry.views += views;
+  entry.daily[day] += views;
+  series.set(slug, entry);
+  return entry;
+};
+
+const byViews = (series: Map<string, ViewSeries>) =>
+  [...series.values()].sort((a, b) => b.views - a.views);
+
+// Daily views per post, tag and topic over the last `days` UTC days
+export const findViewReport = async (
+  days: number
+): Promise<AnalyticsReport> => {
+  const today = new Date();
+  today.setUTCHours(0, 0, 0, 0);
+  const since = new Date(today.getTime() - (days - 1) * DAY_MS);
+  const dayKeys = Array.from({ length: days }, (_, i) =>
+    new Date(since.getTime() + i * DAY_MS).toISOString().slice(0, 10)
+  );
+
+  const rows = await prisma.$queryRaw<
+    { blogId: string; day: Date; views: number; depth: number }[]
+  >`
+    SELECT "blogId", date_trunc('day', "createdAt") AS "day",
+      count(*)::int AS "views", sum("maxDepth")::int AS "depth"
+    FROM "BlogView"
+    WHERE "createdAt" >= ${since}
+    GROUP BY 1, 2
+  `;
+
+  const shareGroups = await prisma.blogShare.groupBy({
+    by: ["blogId", "channel"],
+    where: { createdAt: { gte: since } },
+    _count: { _all: true },
+  });
+
+  const blogs = await prisma.blog.findMany({
+    where: { id: { in: [...new Set(rows.map((row) => row.blogId))] } },
+    select: {
+      id: true,
+      slug: true,
+      title: true,
+      tags: { select: { slug: true, name: true } },
+      topics: { select: { slug: true, name: true } },
+    },
+  });
+  const blogsById = new Map(blogs.map((blog) => [blog.id, blog]));
+
+  const posts = new Map<string, ViewSeries>();
+  const tags = new Map<string, ViewSeries>();
+  const topics = new Map<string, ViewSeries>();
+  const depthTotals = new Map<string, number>();
+  const shares = new Map<string, Partial<Record<ShareChannel, number>>>();
+
+  shareGroups.forEach(({ blogId, channel, _count }) => {
+    const slug = blogsById.get(blogId)?.slug;
+    if (!slug) return;
+    shares.set(slug, { ...shares.get(slug), [channel]: _count._all });
+  });
+
+  rows.forEach(({ blogId, day, views, depth }) => {
+    const blog = blogsById.get(blogId);
+    const index = dayKeys.indexOf(day.toISOString().slice(0, 10));
+    if (!blog || index < 0) return;
+
+    const post = addViews(
+      posts,
+      { slug: blog.slug, name: blog.title },
+      index,
+      views,
+      days
+    );
+    depthTotals.set(post.slug, (depthTotals.get(post.slug) ?? 0) + depth);
+    blog.tags.forEach((tag) => addViews(tags, tag, index, views, days));
+    blog.topics.forEach((topic) => addViews(topics, topic, index, views, days));
+  });
+
+  return {
+    days: dayKeys,
+    totalViews: rows.reduce((total, row) => total + row.views, 0),
+    posts: byViews(posts).map((post) => ({
+      ...post,
+      averageDepth: Math.round((depthTotals.get(post.slug) ?? 0) / post.views),
+      shares: shares.get(post.slug) ?? {},
+    })),
+    tags: byViews(tags),
+    topics: byViews(topics),
+  };
+};
@@ -10,6 +10,11 @@ const nextConfig: NextConfig = {
       },
     ],
   },
+  // Crawlers look for the sitemap at /sitemap.xml; posts are split across
+  // several sitemaps, so it is the index listing them
+  async rewrites() {
+    return [{ source: "/sitemap.xml", destination: "/sitemap_index.xml" }];
+  },
 };
 
 export default nextConfig;
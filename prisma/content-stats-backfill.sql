@@ -0,0 +1,39 @@
+-- Fills the content statistics for posts saved before they were tracked.
+-- The API recomputes them exactly from the parsed markdown on every save;
+-- this is a close approximation. Runs after `prisma db push` on every install
+-- (`npm run db:backfill-content-stats`) and only touches posts still
+-- without statistics
+
+BEGIN;
+
+WITH prose AS (
+  SELECT
+    "id",
+    "content",
+    -- Fenced code blocks are not counted as words
+    regexp_replace("content", '```.*?```', ' ', 'g') AS "text"
+  FROM "Blog"
+  WHERE "wordCount" = 0 AND "content" <> ''
+), counts AS (
+  SELECT
+    "id",
+    coalesce(array_length(regexp_split_to_array(btrim(
+      regexp_replace("text", '[#>*_`~|-]+', ' ', 'g')
+    ), '\s+'), 1), 0) AS "words",
+    (length("content") - length(replace("content", '```', ''))) / 6
+      AS "codeBlocks",
+    (SELECT count(*) FROM regexp_matches("text", '^#{1,6}\s', 'gn'))
+      AS "headings"
+  FROM prose
+)
+UPDATE "Blog" b
+SET
+  "wordCount" = c."words",
+  "readingTime" = CASE WHEN c."words" > 0
+    THEN greatest(1, ceil(c."words" / 200.0)) ELSE 0 END,
+  "codeBlockCount" = c."codeBlocks",
+  "headingCount" = c."headings"
+FROM counts c
+WHERE b."id" = c."id";
+
+COMMIT;
@@ -0,0 +1,26 @@
+-- Keeps Blog."searchVector" in sync for full-text search, weighting the
+-- title over the subtitle over the content. The column and its GIN index
+-- come from the Prisma schema, so this runs after `prisma db push` on every
+-- install (`npm run db:migrate-search`). Safe to run any number of times
+
+BEGIN;
+
+CREATE OR REPLACE FUNCTION blog_search_vector_update() RETURNS trigger AS $$
+BEGIN
+  NEW."searchVector" :=
+    setweight(to_tsvector('english', coalesce(NEW."title", '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(NEW."subTitle", '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(NEW."content", '')), 'C');
+  RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS blog_search_vector_update ON "Blog";
+CREATE TRIGGER blog_search_vector_update
+  BEFORE INSERT OR UPDATE OF "title", "subTitle", "content" ON "Blog"
+  FOR EACH ROW EXECUTE FUNCTION blog_search_vector_update();
+
+-- Fill the column for posts that already exist
+UPDATE "Blog" SET "title" = "title";
+
+COMMIT;
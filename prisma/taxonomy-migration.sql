@@ -0,0 +1,104 @@
+-- Moves tags and topics from the old Tags/Topics enums into the Tag and Topic
+-- tables without losing the existing assignments. `npm install` runs it
+-- before `prisma db push`, which would otherwise drop the enum columns; it
+-- does nothing once the enums are gone, or on a new database:
+--   npm run db:migrate-taxonomy
+
+DO $migration$
+BEGIN
+IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'Tags') THEN
+  RETURN;
+END IF;
+
+CREATE TABLE "Tag" (
+  "id" TEXT NOT NULL,
+  "slug" TEXT NOT NULL,
+  "name" TEXT NOT NULL,
+  "description" TEXT,
+  "color" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+  CONSTRAINT "Tag_pkey" PRIMARY KEY ("id")
+);
+CREATE UNIQUE INDEX "Tag_slug_key" ON "Tag"("slug");
+
+CREATE TABLE "Topic" (
+  "id" TEXT NOT NULL,
+  "slug" TEXT NOT NULL,
+  "name" TEXT NOT NULL,
+  "description" TEXT,
+  "color" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+  CONSTRAINT "Topic_pkey" PRIMARY KEY ("id")
+);
+CREATE UNIQUE INDEX "Topic_slug_key" ON "Topic"("slug");
+
+CREATE TABLE "_BlogToTag" (
+  "A" TEXT NOT NULL,
+  "B" TEXT NOT NULL,
+  CONSTRAINT "_BlogToTag_AB_pkey" PRIMARY KEY ("A", "B")
+);
+CREATE INDEX "_BlogToTag_B_index" ON "_BlogToTag"("B");
+ALTER TABLE "_BlogToTag" ADD CONSTRAINT "_BlogToTag_A_fkey" FOREIGN KEY ("A") REFERENCES "Blog"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "_BlogToTag" ADD CONSTRAINT "_BlogToTag_B_fkey" FOREIGN KEY ("B") REFERENCES "Tag"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+CREATE TABLE "_BlogToTopic" (
+  "A" TEXT NOT NULL,
+  "B" TEXT NOT NULL,
+  CONSTRAINT "_BlogToTopic_AB_pkey" PRIMARY KEY ("A", "B")
+);
+CREATE INDEX "_BlogToTopic_B_index" ON "_BlogToTopic"("B");
+ALTER TABLE "_BlogToTopic" ADD CONSTRAINT "_BlogToTopic_A_fkey" FOREIGN KEY ("A") REFERENCES "Blog"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "_BlogToTopic" ADD CONSTRAINT "_BlogToTopic_B_fkey" FOREIGN KEY ("B") REFERENCES "Topic"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Every former enum value becomes a row, e.g. NEXT_JS -> slug "next-js", name "Next Js"
+INSERT INTO "Tag" ("id", "slug", "name", "updatedAt")
+SELECT gen_random_uuid()::text,
+       lower(replace(value::text, '_', '-')),
+       initcap(replace(value::text, '_', ' ')),
+       CURRENT_TIMESTAMP
+FROM unnest(enum_range(NULL::"Tags")) AS value;
+
+INSERT INTO "Topic" ("id", "slug", "name", "updatedAt")
+SELECT gen_random_uuid()::text,
+       lower(replace(value::text, '_', '-')),
+       initcap(replace(value::text, '_', ' ')),
+       CURRENT_TIMESTAMP
+FROM unnest(enum_range(NULL::"Topics")) AS value;
+
+INSERT INTO "_BlogToTag" ("A", "B")
+SELECT DISTINCT b."id", t."id"
+FROM "Blog" b
+CROSS JOIN LATERAL unnest(b."tags") AS value
+JOIN "Tag" t ON t."slug" = lower(replace(value::text, '_', '-'));
+
+INSERT INTO "_BlogToTopic" ("A", "B")
+SELECT DISTINCT b."id", t."id"
+FROM "Blog" b
+CROSS JOIN LATERAL unnest(b."topics") AS value
+JOIN "Topic" t ON t."slug" = lower(replace(value::text, '_', '-'));
+
+-- Revisions keep plain slug snapshots. Databases from before revisions
+-- existed get the table from `prisma db push` instead
+IF to_regclass('"BlogRevision"') IS NOT NULL THEN
+  ALTER TABLE "BlogRevision" ADD COLUMN "tagSlugs" TEXT[] NOT NULL DEFAULT '{}';
+  ALTER TABLE "BlogRevision" ADD COLUMN "topicSlugs" TEXT[] NOT NULL DEFAULT '{}';
+  UPDATE "BlogRevision" SET
+    "tagSlugs" = ARRAY(SELECT lower(replace(value::text, '_', '-')) FROM unnest("tags") AS value),
+    "topicSlugs" = ARRAY(SELECT lower(replace(value::text, '_', '-')) FROM unnest("topics") AS value);
+  ALTER TABLE "BlogRevision" DROP COLUMN "tags";
+  ALTER TABLE "BlogRevision" DROP COLUMN "topics";
+  ALTER TABLE "BlogRevision" RENAME COLUMN "tagSlugs" TO "tags";
+  ALTER TABLE "BlogRevision" RENAME COLUMN "topicSlugs" TO "topics";
+  ALTER TABLE "BlogRevision" ALTER COLUMN "tags" DROP DEFAULT;
+  ALTER TABLE "BlogRevision" ALTER COLUMN "topics" DROP DEFAULT;
+END IF;
+
+ALTER TABLE "Blog" DROP COLUMN "tags";
+ALTER TABLE "Blog" DROP COLUMN "topics";
+DROP TYPE "Tags";
+DROP TYPE "Topics";
+
+END
+$migration$;
@@ -0,0 +1,189 @@
+import { SessionUser } from "@/lib/roles";
+import { createAsyncThunk, createSlice } from "@reduxjs/toolkit";
+
+// Types
+export interface AuthState {
+  user: SessionUser | null;
+  status: {
+    fetchSession: "idle" | "loading" | "succeeded" | "failed";
+    login: "idle" | "loading" | "succeeded" | "failed";
+    register: "idle" | "loading" | "succeeded" | "failed";
+    logout: "idle" | "loading" | "succeeded" | "failed";
+  };
+  error: {
+    fetchSession: string | null;
+    login: string | null;
+    register: string | null;
+    logout: string | null;
+  };
+}
+
+interface LoginParams {
+  email: string;
+  password: string;
+}
+
+interface RegisterParams extends LoginParams {
+  name: string;
+}
+
+// Initial state
+const initialState: AuthState = {
+  user: null,
+  status: {
+    fetchSession: "idle",
+    login: "idle",
+    register: "idle",
+    logout: "idle",
+  },
+  error: {
+    fetchSession: null,
+    login: null,
+    register: null,
+    logout: null,
+  },
+};
+
+// Utility function for sending requests to the auth API
+const sendAuthRequest = async (
+  url: string,
+  method: "GET" | "POST" | "DELETE",
+  body?: unknown
+) => {
+  const response = await fetch(url, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(
+      typeof errorData?.error === "string"
+        ? errorData.error
+        : `Request to ${url} failed`
+    );
+  }
+  return response.json();
+};
+
+// Thunks
+export const fetchSession = createAsyncThunk<SessionUser | null, void>(
+  "auth/fetchSession",
+  async (_, { rejectWithValue }) => {
+    try {
+      const data = await sendAuthRequest("/api/auth/session", "GET");
+      return data.user ?? null;
+    } catch (error) {
+      return rejectWithValue((error as Error).message);
+    }
+  }
+);
+
+export const login = createAsyncThunk<SessionUser, LoginParams>(
+  "auth/login",
+  async (credentials, { rejectWithValue }) => {
+    try {
+      const data = await sendAuthRequest(
+        "/api/auth/session",
+        "POST",
+        credentials
+      );
+      return data.user;
+    } catch (error) {
+      return rejectWithValue((error as Error).message);
+    }
+  }
+);
+
+export const register = createAsyncThunk<SessionUser, RegisterParams>(
+  "auth/register",
+  async (details, { rejectWithValue }) => {
+    try {
+      const data = await sendAuthRequest("/api/auth/register", "POST", details);
+      return data.user;
+    } catch (error) {
+      return rejectWithValue((error as Error).message);
+    }
+  }
+);
+
+export const logout = createAsyncThunk<void, void>(
+  "auth/logout",
+  async (_, { rejectWithValue }) => {
+    try {
+      await sendAuthRequest("/api/auth/session", "DELETE");
+    } catch (error) {
+      return rejectWithValue((error as Error).message);
+    }
+  }
+);
+
+const authSlice = createSlice({
+  name: "auth",
+  initialState,
+  reducers: {},
+  extraReducers: (builder) => {
+    // fetchSession
+    builder
+      .addCase(fetchSession.pending, (state) => {
+        state.status.fetchSession = "loading";
+        state.error.fetchSession = null;
+      })
+      .addCase(fetchSession.fulfilled, (state, action) => {
+        state.status.fetchSession = "succeeded";
+        state.user = action.payload;
+      })
+      .addCase(fetchSession.rejected, (state, action) => {
+        state.status.fetchSession = "failed";
+        state.error.fetchSession = action.payload as string;
+        state.user = null;
+      });
+
+    // login
+    builder
+      .addCase(login.pending, (state) => {
+        state.status.login = "loading";
+        state.error.login = null;
+      })
+      .addCase(login.fulfilled, (state, action) => {
+        state.status.login = "succeeded";
+        state.user = action.payload;
+      })
+      .addCase(login.rejected, (state, action) => {
+        state.status.login = "failed";
+        state.error.login = action.payload as string;
+      });
+
+    // register
+    builder
+      .addCase(register.pending, (state) => {
+        state.status.register = "loading";
+        state.error.register = null;
+      })
+      .addCase(register.fulfilled, (state, action) => {
+        state.status.register = "succeeded";
+        state.user = action.payload;
+      })
+      .addCase(register.rejected, (state, action) => {
+        state.status.register = "failed";
+        state.error.register = action.payload as string;
+      });
+
+    // logout
+    builder
+      .addCase(logout.pending, (state) => {
+        state.status.logout = "loading";
+        state.error.logout = null;
+      })
+      .addCase(logout.fulfilled, (state) => {
+        state.status.logout = "succeeded";
+        state.user = null;
+      })
+      .addCase(logout.rejected, (state, action) => {
+        state.status.logout = "failed";
+        state.error.logout = action.payload as string;
+      });
+  },
+});
+
+export default authSlice.reducer;
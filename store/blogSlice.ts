@@ -1,6 +1,8 @@
-import { Blog, Tags, Topics } from "@/generated/prisma";
+import { BlogStatus } from "@/generated/prisma";
 import { createAsyncThunk, createSlice, PayloadAction } from "@reduxjs/toolkit";
 import { normalize, schema } from "normalizr";
+import { BlogWithAuthors } from "@/lib/authors";
+import { computeContentStats } from "@/lib/contentStats";
 
 // Define normalized entity schemas
 const blogEntity = new schema.Entity("blogs");
@@ -15,25 +17,27 @@ export interface Pagination {
 
 export interface BlogState {
   entities: {
-    blogs: Record<string, Blog>;
+    blogs: Record<string, BlogWithAuthors>;
   };
   ids: string[];
   slugBlogId: string | null;
   filteredIds: string[];
-  selectedTag: Tags | null;
-  selectedTopic: Topics | null;
+  selectedTag: string | null;
+  selectedTopic: string | null;
   searchQuery: string | null;
   status: {
     fetchBlogs: "idle" | "loading" | "succeeded" | "failed";
     fetchSlugBlog: "idle" | "loading" | "succeeded" | "failed";
     fetchFilteredBlogs: "idle" | "loading" | "succeeded" | "failed";
     createBlog: "idle" | "loading" | "succeeded" | "failed";
+    deleteBlog: "idle" | "loading" | "succeeded" | "failed";
   };
   error: {
     fetchBlogs: string | null;
     fetchSlugBlog: string | null;
     createBlog: string | null;
     fetchFilteredBlogs: string | null;
+    deleteBlog: string | null;
   };
   pagination: Pagination;
   cache: Record<string, { ids: string[]; timestamp: number }>;
@@ -54,8 +58,10 @@ interface CreateBlogParams {
   bannerUrl: string;
   slug: string;
   video?: string;
-  tags: Tags[];
-  topics: Topics[];
+  tags: string[];
+  topics: string[];
+  status?: BlogStatus;
+  scheduledFor?: string;
 }
 
 // Cache duration (5 minutes)
@@ -75,12 +81,14 @@ const initialState: BlogState = {
     fetchSlugBlog: "idle",
     fetchFilteredBlogs: "idle",
     createBlog: "idle",
+    deleteBlog: "idle",
   },
   error: {
     fetchBlogs: null,
     fetchSlugBlog: null,
     createBlog: null,
     fetchFilteredBlogs: null,
+    deleteBlog: null,
   },
   pagination: { currentPage: 1, totalPages: 1, totalBlogs: 0 },
   cache: {},
@@ -98,7 +106,7 @@ const fetchFromApi = async (url: string) => {
 
 // Thunk to fetch filtered blogs based on tags, topics, and pagination
 export const fetchFilteredBlogs = createAsyncThunk<
-  { blogs: Blog[]; pagination: Pagination },
+  { blogs: BlogWithAuthors[]; pagination: Pagination },
   { tag?: string; topic?: string; page?: number; limit?: number },
   {
     state: {
@@ -139,7 +147,7 @@ export const fetchFilteredBlogs = createAsyncThunk<
 
 // Thunks
 export const fetchBlogs = createAsyncThunk<
-  { blogs: Blog[]; pagination: Pagination },
+  { blogs: BlogWithAuthors[]; pagination: Pagination },
   FetchBlogsParams,
   { state: { blog: BlogState } }
 >(
@@ -170,7 +178,10 @@ export const fetchBlogs = createAsyncThunk<
   }
 );
 
-export const fetchSlugBlog = createAsyncThunk<Blog, { slug: string }>(
+export const fetchSlugBlog = createAsyncThunk<
+  BlogWithAuthors,
+  { slug: string }
+>(
   "blog/fetchSlugBlog",
   async ({ slug }, { rejectWithValue }) => {
     try {
@@ -181,7 +192,10 @@ export const fetchSlugBlog = createAsyncThunk<Blog, { slug: string }>(
   }
 );
 
-export const createBlog = createAsyncThunk<Blog, CreateBlogParams>(
+export const createBlog = createAsyncThunk<
+  BlogWithAuthors,
+  CreateBlogParams
+>(
   "blog/createBlog",
   async (blogData, { rejectWithValue }) => {
     try {
@@ -201,21 +215,47 @@ export const createBlog = createAsyncThunk<Blog, CreateBlogParams>(
   }
 );
 
+// Moves the blog to the trash on the server
+export const deleteBlog = createAsyncThunk<
+  BlogWithAuthors,
+  { slug: string }
+>(
+  "blog/deleteBlog",
+  async ({ slug }, { rejectWithValue }) => {
+    try {
+      const response = await fetch(`/api/blogs?slug=${slug}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData?.error || "Failed to delete blog");
+      }
+      return response.json();
+    } catch (error) {
+      return rejectWithValue((error as Error).message);
+    }
+  }
+);
+
 const blogSlice = createSlice({
   name: "blog",
   initialState,
   reducers: {
     resetBlogState: () => initialState,
-    setSelectedTag: (state, action: PayloadAction<Tags | null>) => {
+    setSelectedTag: (state, action: PayloadAction<string | null>) => {
       state.selectedTag = action.payload;
       state.filteredIds = state.ids.filter((id) =>
-        state.entities.blogs[id].tags.includes(action.payload as Tags)
+        state.entities.blogs[id].tags.some(
+          (tag) => tag.slug === action.payload
+        )
       );
     },
-    setSelectedTopic: (state, action: PayloadAction<Topics | null>) => {
+    setSelectedTopic: (state, action: PayloadAction<string | null>) => {
       state.selectedTopic = action.payload;
       state.filteredIds = state.ids.filter((id) =>
-        state.entities.blogs[id].topics.includes(action.payload as Topics)
+        state.entities.blogs[id].topics.some(
+          (topic) => topic.slug === action.payload
+        )
       );
     },
     setSearchQuery: (state, action: PayloadAction<string | null>) => {
@@ -293,12 +333,25 @@ const blogSlice = createSlice({
         state.error.createBlog = null;
         // Optimistic update
         const tempId = `temp-${Date.now()}`;
+        const { scheduledFor, tags, topics, ...blogFields } = action.meta.arg;
         state.entities.blogs[tempId] = {
-          ...action.meta.arg,
+          ...blogFields,
+          // Names arrive with the saved blog; slugs stand in until then
+          tags: tags.map((slug) => ({ slug, name: slug, color: null })),
+          topics: topics.map((slug) => ({ slug, name: slug, color: null })),
+          authors: [],
+          series: null,
+          seriesId: null,
+          seriesPosition: null,
+          ...computeContentStats(blogFields.content),
           id: tempId,
+          status: blogFields.status ?? BlogStatus.DRAFT,
+          scheduledFor: scheduledFor ? new Date(scheduledFor) : null,
+          publishedAt: null,
           createdAt: new Date(),
           updatedAt: new Date(),
-        } as Blog;
+          deletedAt: null,
+        } as BlogWithAuthors;
         state.ids.unshift(tempId);
         state.filteredIds.unshift(tempId);
       })
@@ -333,6 +386,32 @@ const blogSlice = createSlice({
           delete state.entities.blogs[tempId];
         }
       });
+    // deleteBlog
+    builder
+      .addCase(deleteBlog.pending, (state) => {
+        state.status.deleteBlog = "loading";
+        state.error.deleteBlog = null;
+      })
+      .addCase(deleteBlog.fulfilled, (state, action) => {
+        state.status.deleteBlog = "succeeded";
+        const deletedId = action.payload.id;
+        delete state.entities.blogs[deletedId];
+        state.ids = state.ids.filter((id) => id !== deletedId);
+        state.filteredIds = state.filteredIds.filter((id) => id !== deletedId);
+        if (state.slugBlogId === deletedId) {
+          state.slugBlogId = null;
+        }
+        // Cached pages may still reference the deleted blog
+        state.cache = {};
+        state.pagination.totalBlogs = Math.max(
+          0,
+          state.pagination.totalBlogs - 1
+        );
+      })
+      .addCase(deleteBlog.rejected, (state, action) => {
+        state.status.deleteBlog = "failed";
+        state.error.deleteBlog = action.payload as string;
+      });
     builder
       // fetchFilteredBlogs
       .addCase(fetchFilteredBlogs.pending, (state) => {
@@ -343,7 +422,10 @@ const blogSlice = createSlice({
         fetchFilteredBlogs.fulfilled,
         (
           state,
-          action: PayloadAction<{ blogs: Blog[]; pagination: Pagination }>
+          action: PayloadAction<{
+            blogs: BlogWithAuthors[];
+            pagination: Pagination;
+          }>
         ) => {
           state.status.fetchFilteredBlogs = "succeeded";
           // const cacheKey = `filter:tag:${action.meta.arg.tag || ""}:topic:${
@@ -352,7 +434,7 @@ const blogSlice = createSlice({
 
           if (action.payload.blogs.length > 0) {
             // Normalize blogs
-            const newBlogs: Record<string, Blog> = {};
+            const newBlogs: Record<string, BlogWithAuthors> = {};
             const newIds: string[] = [];
 
             action.payload.blogs.forEach((blog) => {
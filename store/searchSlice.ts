@@ -1,12 +1,17 @@
-import { Blog, Tags, Topics } from "@/generated/prisma";
 import { createAsyncThunk, createSlice, PayloadAction } from "@reduxjs/toolkit";
 import { normalize, schema } from "normalizr";
+import { BlogWithTaxonomy } from "@/lib/taxonomy";
+import { SearchHighlight, SearchSort } from "@/lib/search";
 
 // Define normalized entity schema
 const blogEntity = new schema.Entity("blogs");
 const blogListSchema = new schema.Array(blogEntity);
 
 // Types
+export type SearchResult = BlogWithTaxonomy & {
+  highlight?: SearchHighlight | null;
+};
+
 export interface Pagination {
   totalPages: number;
   currentPage: number;
@@ -17,11 +22,11 @@ export interface Pagination {
 export interface SearchState {
   isActivated: boolean;
   searchQuery: string | null;
-  selectedTags: Tags[];
-  selectedTopics: Topics[];
+  selectedTags: string[];
+  selectedTopics: string[];
   blogIds: string[];
   entities: {
-    blogs: Record<string, Blog>;
+    blogs: Record<string, SearchResult>;
   };
   status: {
     fetchSearchResults: "idle" | "loading" | "succeeded" | "failed";
@@ -30,6 +35,8 @@ export interface SearchState {
     fetchSearchResults: string | null;
   };
   pagination: Pagination;
+  // Corrected query offered when a search has no hits
+  suggestion: string | null;
   cache: Record<string, { ids: string[]; timestamp: number }>;
 }
 
@@ -53,35 +60,41 @@ const initialState: SearchState = {
     fetchSearchResults: null,
   },
   pagination: { totalPages: 1, currentPage: 1, totalBlogs: 0, limit: 10 },
+  suggestion: null,
   cache: {},
 };
 
 // Thunk for fetching search results
 export const fetchSearchResults = createAsyncThunk<
-  { blogs: Blog[]; pagination: Pagination },
+  {
+    blogs: SearchResult[];
+    pagination: Pagination;
+    suggestion?: string | null;
+  },
   {
     query?: string;
-    tags?: Tags[];
-    topics?: Topics[];
+    tags?: string[];
+    topics?: string[];
     limit?: number;
     page?: number;
+    sort?: SearchSort;
   },
   {
     state: {
       search: SearchState;
-      blog: { entities: { blogs: Record<string, Blog> } };
+      blog: { entities: { blogs: Record<string, BlogWithTaxonomy> } };
     };
   }
 >(
   "search/fetchSearchResults",
   async (
-    { query = "", tags = [], topics = [], limit = 10, page = 1 },
+    { query = "", tags = [], topics = [], limit = 10, page = 1, sort },
     { getState, rejectWithValue }
   ) => {
     try {
       const cacheKey = `search:${query}:${tags.join(",")}:${topics.join(
         ","
-      )}:${limit}:${page}`;
+      )}:${limit}:${page}:${sort ?? ""}`;
       const cache = getState().search.cache[cacheKey];
       if (cache && Date.now() - cache.timestamp < CACHE_DURATION) {
         return { blogs: [], pagination: getState().search.pagination }; // Return empty to use cached IDs
@@ -91,6 +104,7 @@ export const fetchSearchResults = createAsyncThunk<
         ...(query.trim() && { q: query.trim() }),
         ...(tags.length && { tags: tags.join(",") }),
         ...(topics.length && { topics: topics.join(",") }),
+        ...(sort && { sort }),
         limit: limit.toString(),
         page: page.toString(),
       });
@@ -114,6 +128,7 @@ export const fetchSearchResults = createAsyncThunk<
           totalBlogs: data.blogs?.length || 0,
           limit,
         },
+        suggestion: data.suggestion ?? null,
       };
     } catch (error: any) {
       return rejectWithValue(
@@ -146,19 +161,19 @@ const searchSlice = createSlice({
         state.blogIds = Object.keys(state.entities.blogs);
       }
     },
-    setSelectedTags: (state, action: PayloadAction<Tags[]>) => {
+    setSelectedTags: (state, action: PayloadAction<string[]>) => {
       state.selectedTags = action.payload;
       state.blogIds = Object.keys(state.entities.blogs).filter((id) =>
         action.payload.every((tag) =>
-          state.entities.blogs[id].tags.includes(tag)
+          state.entities.blogs[id].tags.some((item) => item.slug === tag)
         )
       );
     },
-    setSelectedTopics: (state, action: PayloadAction<Topics[]>) => {
+    setSelectedTopics: (state, action: PayloadAction<string[]>) => {
       state.selectedTopics = action.payload;
       state.blogIds = Object.keys(state.entities.blogs).filter((id) =>
         action.payload.every((topic) =>
-          state.entities.blogs[id].topics.includes(topic)
+          state.entities.blogs[id].topics.some((item) => item.slug === topic)
         )
       );
     },
@@ -171,6 +186,7 @@ const searchSlice = createSlice({
       state.selectedTopics = [];
       state.blogIds = [];
       state.pagination = initialState.pagination;
+      state.suggestion = null;
       state.status.fetchSearchResults = "idle";
       state.error.fetchSearchResults = null;
     },
@@ -193,16 +209,23 @@ const searchSlice = createSlice({
             action.meta.arg.tags?.join(",") || ""
           }:${action.meta.arg.topics?.join(",") || ""}:${
             action.meta.arg.limit || 10
-          }:${action.meta.arg.page || 1}`;
+          }:${action.meta.arg.page || 1}:${action.meta.arg.sort ?? ""}`;
           state.cache[cacheKey] = {
             ids: normalized.result,
             timestamp: Date.now(),
           };
-          state.blogIds = [
-            ...new Set([...state.blogIds, ...normalized.result]),
-          ];
+          // The first page replaces the local filter so the server's
+          // relevance order is kept; later pages append to it
+          state.blogIds =
+            (action.meta.arg.page || 1) === 1
+              ? normalized.result
+              : [...new Set([...state.blogIds, ...normalized.result])];
+        } else if (action.payload.pagination.totalBlogs === 0) {
+          // Clear locally filtered matches the server found nothing for
+          state.blogIds = [];
         }
         state.pagination = action.payload.pagination;
+        state.suggestion = action.payload.suggestion ?? null;
       })
       .addCase(fetchSearchResults.rejected, (state, action) => {
         state.status.fetchSearchResults = "failed";
@@ -1,4 +1,5 @@
 import { configureStore } from "@reduxjs/toolkit";
+import authReducer from "@/store/authSlice";
 import blogReducer from "@/store/blogSlice";
 import searchReducer from "@/store/searchSlice";
 import tagReducer from "@/store/tagSlice";
@@ -6,6 +7,7 @@ import topicReducer from "@/store/topicSlice";
 
 export const store = configureStore({
   reducer: {
+    auth: authReducer,
     blog: blogReducer,
     search: searchReducer,
     tag: tagReducer,
@@ -1,6 +1,6 @@
-import { Blog, Tags } from "@/generated/prisma";
 import { createAsyncThunk, createSlice, PayloadAction } from "@reduxjs/toolkit";
 import { normalize, schema } from "normalizr";
+import { BlogWithTaxonomy, Taxonomy } from "@/lib/taxonomy";
 
 // Define normalized entity schema
 const blogEntity = new schema.Entity("blogs");
@@ -16,11 +16,11 @@ export interface Pagination {
 
 export interface TagState {
   entities: {
-    blogs: Record<string, Blog>;
+    blogs: Record<string, BlogWithTaxonomy>;
   };
   blogIds: string[];
-  selectedTags: Tags[];
-  availableTags: Tags[];
+  selectedTags: string[];
+  availableTags: Taxonomy[];
   status: {
     fetchBlogs: "idle" | "loading" | "succeeded" | "failed";
     fetchAvailableTags: "idle" | "loading" | "succeeded" | "failed";
@@ -66,7 +66,7 @@ const fetchFromApi = async (url: string) => {
 
 // Thunks
 export const fetchBlogs = createAsyncThunk<
-  { blogs: Blog[]; pagination: Pagination },
+  { blogs: BlogWithTaxonomy[]; pagination: Pagination },
   { tag?: string; page?: number; limit?: number },
   { state: { tag: TagState } }
 >(
@@ -96,7 +96,7 @@ export const fetchBlogs = createAsyncThunk<
   }
 );
 
-export const fetchAvailableTags = createAsyncThunk<Tags[], void>(
+export const fetchAvailableTags = createAsyncThunk<Taxonomy[], void>(
   "tags/fetchAvailableTags",
   async (_, { rejectWithValue }) => {
     try {
@@ -114,12 +114,12 @@ const tagSlice = createSlice({
   name: "tags",
   initialState,
   reducers: {
-    setSelectedTags: (state, action: PayloadAction<Tags[]>) => {
+    setSelectedTags: (state, action: PayloadAction<string[]>) => {
       state.selectedTags = action.payload;
       if (action.payload.length > 0) {
         state.blogIds = Object.keys(state.entities.blogs).filter((id) =>
           action.payload.every((tag) =>
-            state.entities.blogs[id].tags.includes(tag)
+            state.entities.blogs[id].tags.some((item) => item.slug === tag)
           )
         );
       } else {
@@ -1,6 +1,6 @@
-import { Blog, Topics } from "@/generated/prisma";
 import { createAsyncThunk, createSlice, PayloadAction } from "@reduxjs/toolkit";
 import { normalize, schema } from "normalizr";
+import { BlogWithTaxonomy, Taxonomy } from "@/lib/taxonomy";
 
 // Define normalized entity schema
 const blogEntity = new schema.Entity("blogs");
@@ -16,11 +16,11 @@ export interface Pagination {
 
 export interface TopicState {
   entities: {
-    blogs: Record<string, Blog>;
+    blogs: Record<string, BlogWithTaxonomy>;
   };
   blogIds: string[];
-  selectedTopics: Topics[];
-  availableTopics: Topics[];
+  selectedTopics: string[];
+  availableTopics: Taxonomy[];
   status: {
     fetchBlogs: "idle" | "loading" | "succeeded" | "failed";
     fetchAvailableTopics: "idle" | "loading" | "succeeded" | "failed";
@@ -66,7 +66,7 @@ const fetchFromApi = async (url: string) => {
 
 // Thunks
 export const fetchBlogs = createAsyncThunk<
-  { blogs: Blog[]; pagination: Pagination },
+  { blogs: BlogWithTaxonomy[]; pagination: Pagination },
   { topic?: string; page?: number; limit?: number },
   { state: { topic: TopicState } }
 >(
@@ -96,7 +96,7 @@ export const fetchBlogs = createAsyncThunk<
   }
 );
 
-export const fetchAvailableTopics = createAsyncThunk<Topics[], void>(
+export const fetchAvailableTopics = createAsyncThunk<Taxonomy[], void>(
   "topic/fetchAvailableTopics",
   async (_, { rejectWithValue }) => {
     try {
@@ -114,12 +114,12 @@ const topicSlice = createSlice({
   name: "topic",
   initialState,
   reducers: {
-    setSelectedTopics: (state, action: PayloadAction<Topics[]>) => {
+    setSelectedTopics: (state, action: PayloadAction<string[]>) => {
       state.selectedTopics = action.payload;
       if (action.payload.length > 0) {
         state.blogIds = Object.keys(state.entities.blogs).filter((id) =>
           action.payload.every((topic) =>
-            state.entities.blogs[id].topics.includes(topic)
+            state.entities.blogs[id].topics.some((item) => item.slug === topic)
           )
         );
       } else {
@@ -1,14 +1,25 @@
 import { useCallback, useEffect, useRef, useState } from "react";
 
-export function useHeadsObserver(): { activeId?: string } {
+export function useHeadsObserver(
+  // Called with the position of each heading as it scrolls into view
+  onHeadingReached?: (index: number, total: number) => void
+): { activeId?: string } {
   const observerRef = useRef<IntersectionObserver | null>(null);
   const [activeId, setActiveId] = useState<string | undefined>("");
-  //   const headingsRef = useRef<NodeListOf<HTMLElement>>(null);
+  const headingsRef = useRef<HTMLHeadingElement[]>([]);
+  const onReachedRef = useRef(onHeadingReached);
+
+  useEffect(() => {
+    onReachedRef.current = onHeadingReached;
+  }, [onHeadingReached]);
 
   const handleObserver = useCallback((entries: IntersectionObserverEntry[]) => {
     entries.forEach((entry) => {
       if (entry.isIntersecting) {
         setActiveId(entry.target.id);
+        const headings = headingsRef.current;
+        const index = headings.indexOf(entry.target as HTMLHeadingElement);
+        if (index >= 0) onReachedRef.current?.(index, headings.length);
       }
     });
   }, []);
@@ -21,7 +32,7 @@ export function useHeadsObserver(): { activeId?: string } {
 
     const elements =
       document.querySelectorAll<HTMLHeadingElement>("h1, h2, h3");
-    // headingsRef.current = elements;
+    headingsRef.current = Array.from(elements);
 
     elements.forEach((element) => {
       if (!element.id) {
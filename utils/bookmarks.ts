@@ -0,0 +1,130 @@
+import { useCallback, useEffect, useState } from "react";
+import { useSelector } from "react-redux";
+import useSWR from "swr";
+import { toast } from "sonner";
+import { BlogWithAuthors } from "@/lib/authors";
+import { RootState } from "@/store/store";
+
+// Slugs bookmarked by anonymous readers, newest first
+const LOCAL_BOOKMARKS_KEY = "bookmarks";
+
+const readLocalBookmarks = (): string[] => {
+  try {
+    const stored = JSON.parse(
+      localStorage.getItem(LOCAL_BOOKMARKS_KEY) || "[]"
+    );
+    return Array.isArray(stored)
+      ? stored.filter((slug) => typeof slug === "string")
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeLocalBookmarks = (slugs: string[]) => {
+  if (slugs.length) {
+    localStorage.setItem(LOCAL_BOOKMARKS_KEY, JSON.stringify(slugs));
+  } else {
+    localStorage.removeItem(LOCAL_BOOKMARKS_KEY);
+  }
+};
+
+const fetcher = (url: string) =>
+  fetch(url).then((res) => {
+    if (!res.ok) throw new Error("Failed to fetch bookmarks");
+    return res.json();
+  });
+
+// The reader's reading list: stored on the server when signed in and in
+// local storage otherwise. Local bookmarks move to the account on sign-in
+export function useBookmarks() {
+  const { user, status } = useSelector((state: RootState) => state.auth);
+  const sessionKnown =
+    status.fetchSession === "succeeded" || status.fetchSession === "failed";
+  const [localSlugs, setLocalSlugs] = useState<string[]>([]);
+
+  useEffect(() => {
+    setLocalSlugs(readLocalBookmarks());
+  }, []);
+
+  const key = !sessionKnown
+    ? null
+    : user
+    ? "/api/bookmarks"
+    : localSlugs.length
+    ? `/api/bookmarks?slugs=${localSlugs.map(encodeURIComponent).join(",")}`
+    : null;
+  const { data, error, isLoading, mutate } = useSWR<{
+    blogs: BlogWithAuthors[];
+  }>(key, fetcher);
+
+  useEffect(() => {
+    if (!user || localSlugs.length === 0) return;
+    fetch("/api/bookmarks", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ slugs: localSlugs }),
+    }).then((res) => {
+      // Posts that no longer exist are dropped along with the rest
+      if (!res.ok && res.status !== 404) return;
+      writeLocalBookmarks([]);
+      setLocalSlugs([]);
+      mutate();
+    });
+  }, [user, localSlugs, mutate]);
+
+  const blogs = key ? data?.blogs ?? [] : [];
+  const slugs = user ? blogs.map((blog) => blog.slug) : localSlugs;
+
+  const isBookmarked = useCallback(
+    (slug: string) => slugs.includes(slug),
+    [slugs]
+  );
+
+  const toggleBookmark = async (slug: string) => {
+    const bookmarked = slugs.includes(slug);
+
+    if (!user) {
+      const next = bookmarked
+        ? localSlugs.filter((s) => s !== slug)
+        : [slug, ...localSlugs];
+      writeLocalBookmarks(next);
+      setLocalSlugs(next);
+      toast.success(bookmarked ? "Removed from bookmarks" : "Bookmarked");
+      return;
+    }
+
+    try {
+      const response = await fetch(
+        bookmarked
+          ? `/api/bookmarks?slug=${encodeURIComponent(slug)}`
+          : "/api/bookmarks",
+        {
+          method: bookmarked ? "DELETE" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: bookmarked ? undefined : JSON.stringify({ slugs: [slug] }),
+        }
+      );
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null);
+        throw new Error(
+          typeof errorData?.error === "string"
+            ? errorData.error
+            : "Failed to update bookmarks"
+        );
+      }
+      await mutate();
+      toast.success(bookmarked ? "Removed from bookmarks" : "Bookmarked");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "An error occurred");
+    }
+  };
+
+  return {
+    blogs,
+    error,
+    isLoading: !sessionKnown || isLoading,
+    isBookmarked,
+    toggleBookmark,
+  };
+}
@@ -0,0 +1,72 @@
+// Styles that decide where text wraps inside the textarea
+const MIRRORED_STYLES = [
+  "box-sizing",
+  "width",
+  "border-top-width",
+  "border-right-width",
+  "border-bottom-width",
+  "border-left-width",
+  "border-style",
+  "padding-top",
+  "padding-right",
+  "padding-bottom",
+  "padding-left",
+  "font-family",
+  "font-size",
+  "font-style",
+  "font-weight",
+  "letter-spacing",
+  "line-height",
+  "tab-size",
+  "text-indent",
+  "text-transform",
+  "word-spacing",
+];
+
+export interface Caret {
+  top: number;
+  left: number;
+  height: number;
+}
+
+// Finds where a text offset is drawn by laying the text out again in a hidden
+// copy of the textarea
+export const measureCaret = (
+  textarea: HTMLTextAreaElement,
+  index: number
+): Caret => {
+  const style = getComputedStyle(textarea);
+  const mirror = document.createElement("div");
+  MIRRORED_STYLES.forEach((name) =>
+    mirror.style.setProperty(name, style.getPropertyValue(name))
+  );
+  Object.assign(mirror.style, {
+    position: "absolute",
+    visibility: "hidden",
+    top: "0",
+    left: "-9999px",
+    whiteSpace: "pre-wrap",
+    overflowWrap: "break-word",
+    overflow: "hidden",
+  });
+
+  mirror.textContent = textarea.value.slice(0, index);
+  const marker = document.createElement("span");
+  // The rest of the text keeps the last line wrapping as it does on screen
+  marker.textContent = textarea.value.slice(index) || ".";
+  mirror.appendChild(marker);
+  document.body.appendChild(mirror);
+
+  const fontSize = parseFloat(style.fontSize);
+  const caret = {
+    top:
+      marker.offsetTop + parseFloat(style.borderTopWidth) - textarea.scrollTop,
+    left:
+      marker.offsetLeft +
+      parseFloat(style.borderLeftWidth) -
+      textarea.scrollLeft,
+    height: parseFloat(style.lineHeight) || fontSize * 1.2,
+  };
+  document.body.removeChild(mirror);
+  return caret;
+};
@@ -0,0 +1,279 @@
+import {
+  RefObject,
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { useSelector } from "react-redux";
+import * as Y from "yjs";
+import { WebsocketProvider } from "y-websocket";
+import {
+  COLLAB_TEXT,
+  COLLAB_URL,
+  CollabPeer,
+  CollabStatus,
+  CollabUser,
+  toPresenceColor,
+} from "@/lib/collab";
+import { RootState } from "@/store/store";
+import { EditorHistory } from "./editorHistory";
+
+interface Session {
+  doc: Y.Doc;
+  text: Y.Text;
+  provider: WebsocketProvider;
+  // Undoes this editor's own changes only, leaving everyone else's in place
+  undoManager: Y.UndoManager;
+}
+
+// Cursor as shared through awareness, in positions relative to the text so
+// they stay put while others type
+interface SharedCursor {
+  anchor: unknown;
+  head: unknown;
+}
+
+// Where the caret goes after an undo or redo: the end of the first change
+const caretAfter = (event: Y.YTextEvent) => {
+  let index = 0;
+  for (const op of event.delta) {
+    if (op.retain) index += op.retain;
+    else return index + (typeof op.insert === "string" ? op.insert.length : 0);
+  }
+  return index;
+};
+
+// Applies the difference between the shared text and `next` as a single
+// edit, so concurrent changes outside the edited range are kept
+const applyChange = (text: Y.Text, next: string) => {
+  const current = text.toString();
+  let start = 0;
+  while (
+    start < current.length &&
+    start < next.length &&
+    current[start] === next[start]
+  ) {
+    start++;
+  }
+  let end = 0;
+  while (
+    end < current.length - start &&
+    end < next.length - start &&
+    current[current.length - 1 - end] === next[next.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  text.doc?.transact(() => {
+    const removed = current.length - start - end;
+    if (removed > 0) text.delete(start, removed);
+    const inserted = next.slice(start, next.length - end);
+    if (inserted) text.insert(start, inserted);
+  });
+};
+
+const toIndex = (doc: Y.Doc, position: unknown) =>
+  Y.createAbsolutePositionFromRelativePosition(
+    Y.createRelativePositionFromJSON(position),
+    doc
+  )?.index ?? 0;
+
+// Shares the editor's markdown with everyone else editing the same post
+// through the sync server, along with where each of them is typing. `slug`
+// is null when the post can't be edited together, e.g. before it exists
+export function useCollaboration(
+  slug: string | null,
+  content: string,
+  onRemoteChange: (content: string) => void,
+  textareaRef: RefObject<HTMLTextAreaElement | null>
+) {
+  const user = useSelector((state: RootState) => state.auth.user);
+  const [session, setSession] = useState<Session | null>(null);
+  const [status, setStatus] = useState<CollabStatus | null>(null);
+  // Local edits are only shared once the document has been received
+  const [hasSynced, setHasSynced] = useState(false);
+  const [states, setStates] = useState<Map<number, Record<string, unknown>>>(
+    new Map()
+  );
+  const selectionRef = useRef<[Y.RelativePosition, Y.RelativePosition]>(
+    null
+  );
+  const pendingSelectionRef = useRef<[number, number]>(null);
+  const onRemoteChangeRef = useRef(onRemoteChange);
+  onRemoteChangeRef.current = onRemoteChange;
+
+  useEffect(() => {
+    if (!slug || !COLLAB_URL) return;
+
+    const doc = new Y.Doc();
+    const text = doc.getText(COLLAB_TEXT);
+    const provider = new WebsocketProvider(COLLAB_URL, slug, doc);
+    const { awareness } = provider;
+    const undoManager = new Y.UndoManager(text);
+
+    setStatus("connecting");
+    provider.on("status", ({ status }) =>
+      setStatus(status === "connected" ? "connected" : "connecting")
+    );
+    // The server turned the editor away; they carry on editing alone
+    provider.on("closed", () => setStatus("offline"));
+    provider.on("sync", (isSynced: boolean) => {
+      if (!isSynced) return;
+      onRemoteChangeRef.current(text.toString());
+      setHasSynced(true);
+    });
+    awareness.on("change", () => setStates(new Map(awareness.getStates())));
+
+    setSession({ doc, text, provider, undoManager });
+    return () => {
+      undoManager.destroy();
+      provider.destroy();
+      doc.destroy();
+      setSession(null);
+      setStatus(null);
+      setHasSynced(false);
+      setStates(new Map());
+    };
+  }, [slug]);
+
+  // Remote changes replace the content, keeping the local selection where it
+  // was in the text. Undo and redo move the caret to what they changed
+  useEffect(() => {
+    if (!session) return;
+    const { doc, text, undoManager } = session;
+
+    const observer = (event: Y.YTextEvent, transaction: Y.Transaction) => {
+      const textarea = textareaRef.current;
+      if (transaction.origin === undoManager) {
+        const caret = caretAfter(event);
+        pendingSelectionRef.current = [caret, caret];
+      } else if (transaction.local) {
+        return;
+      } else if (
+        textarea &&
+        selectionRef.current &&
+        document.activeElement === textarea
+      ) {
+        const [anchor, head] = selectionRef.current.map(
+          (position) =>
+            Y.createAbsolutePositionFromRelativePosition(position, doc)
+              ?.index ?? 0
+        );
+        pendingSelectionRef.current = [anchor, head];
+      }
+      onRemoteChangeRef.current(text.toString());
+    };
+
+    text.observe(observer);
+    return () => text.unobserve(observer);
+  }, [session, textareaRef]);
+
+  // Commands are undone on their own rather than with the typing around them
+  const stopCapturingRef = useRef(false);
+  const history = useMemo<EditorHistory | null>(() => {
+    if (!session || !hasSynced) return null;
+    const { undoManager } = session;
+    return {
+      markEdit: (source) => {
+        if (source !== "command") return;
+        undoManager.stopCapturing();
+        stopCapturingRef.current = true;
+      },
+      undo: () => undoManager.undo(),
+      redo: () => undoManager.redo(),
+    };
+  }, [session, hasSynced]);
+
+  const updateCursor = useCallback(() => {
+    if (!session) return;
+    const textarea = textareaRef.current;
+    const { awareness } = session.provider;
+
+    if (!textarea || document.activeElement !== textarea) {
+      selectionRef.current = null;
+      awareness.setLocalStateField("cursor", null);
+      return;
+    }
+
+    const anchor = Y.createRelativePositionFromTypeIndex(
+      session.text,
+      textarea.selectionStart
+    );
+    const head = Y.createRelativePositionFromTypeIndex(
+      session.text,
+      textarea.selectionEnd
+    );
+    selectionRef.current = [anchor, head];
+    awareness.setLocalStateField("cursor", {
+      anchor: Y.relativePositionToJSON(anchor),
+      head: Y.relativePositionToJSON(head),
+    } satisfies SharedCursor);
+  }, [session, textareaRef]);
+
+  // Local edits, whether typed, inserted from the toolbar or restored from a
+  // draft, all reach the shared text through the content
+  useLayoutEffect(() => {
+    if (!session || !hasSynced) return;
+    if (content !== session.text.toString()) {
+      applyChange(session.text, content);
+    }
+    if (stopCapturingRef.current) {
+      session.undoManager.stopCapturing();
+      stopCapturingRef.current = false;
+    }
+
+    const textarea = textareaRef.current;
+    if (textarea && pendingSelectionRef.current) {
+      textarea.setSelectionRange(...pendingSelectionRef.current);
+      pendingSelectionRef.current = null;
+    }
+    updateCursor();
+  }, [session, hasSynced, content, textareaRef, updateCursor]);
+
+  useEffect(() => {
+    if (!session) return;
+    document.addEventListener("selectionchange", updateCursor);
+    document.addEventListener("focusin", updateCursor);
+    document.addEventListener("focusout", updateCursor);
+    return () => {
+      document.removeEventListener("selectionchange", updateCursor);
+      document.removeEventListener("focusin", updateCursor);
+      document.removeEventListener("focusout", updateCursor);
+    };
+  }, [session, updateCursor]);
+
+  useEffect(() => {
+    if (!session || !user) return;
+    session.provider.awareness.setLocalStateField("user", {
+      name: user.name || user.email,
+      color: toPresenceColor(user.id),
+    } satisfies CollabUser);
+  }, [session, user]);
+
+  // Cursors are turned back into offsets whenever the text changes
+  const peers = useMemo<CollabPeer[]>(() => {
+    if (!session) return [];
+    return [...states].flatMap(([clientId, state]) => {
+      const peer = state.user as CollabUser | undefined;
+      if (clientId === session.doc.clientID || !peer) return [];
+      const cursor = state.cursor as SharedCursor | null | undefined;
+      return [
+        {
+          ...peer,
+          clientId,
+          cursor: cursor
+            ? {
+                anchor: toIndex(session.doc, cursor.anchor),
+                head: toIndex(session.doc, cursor.head),
+              }
+            : null,
+        },
+      ];
+    });
+  }, [session, states, content]);
+
+  return { status, peers, history };
+}
@@ -0,0 +1,82 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import useSWR from "swr";
+import { debounce } from "@/utils/debounce";
+import { DraftFields, isSameDraft, SavedDraft } from "@/lib/drafts";
+
+const fetcher = (url: string) =>
+  fetch(url).then((res) => {
+    if (!res.ok) throw new Error("Failed to fetch draft");
+    return res.json();
+  });
+
+// Autosaves the editor form to the server and offers back the changes left
+// unsaved last time. `target` is the post's slug, or NEW_DRAFT on the create
+// page; `baseline` is what the form shows without a draft. Either is null
+// while the editor is still loading
+export function useDraftAutosave(
+  target: string | null,
+  formData: DraftFields,
+  baseline: DraftFields | null
+) {
+  const url = target ? `/api/drafts?blog=${encodeURIComponent(target)}` : null;
+  const { data, mutate } = useSWR<{ draft: SavedDraft | null }>(url, fetcher, {
+    revalidateOnFocus: false,
+  });
+  // Whether the writer has restored or discarded the saved draft
+  const [isResolved, setIsResolved] = useState(false);
+
+  const savedDraft =
+    !isResolved &&
+    baseline &&
+    data?.draft &&
+    !isSameDraft(data.draft.data, baseline)
+      ? data.draft
+      : null;
+
+  const { debounced: save, cancel } = useMemo(
+    () =>
+      debounce((draftUrl: string, fields: DraftFields) => {
+        fetch(draftUrl, {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ data: fields }),
+        }).catch((err) => console.error("Error saving draft:", err));
+      }, 1000),
+    []
+  );
+
+  // Saving is held while a draft is on offer so it isn't overwritten before
+  // the writer decides what to do with it
+  useEffect(() => {
+    if (!url || !baseline || !data || savedDraft) return;
+    if (isSameDraft(formData, baseline)) {
+      cancel();
+      return;
+    }
+    save(url, formData);
+  }, [url, baseline, data, savedDraft, formData, save, cancel]);
+
+  useEffect(() => cancel, [cancel]);
+
+  const clearDraft = useCallback(async () => {
+    cancel();
+    if (!url) return;
+    await fetch(url, { method: "DELETE" }).catch((err) =>
+      console.error("Error deleting draft:", err)
+    );
+    mutate({ draft: null }, { revalidate: false });
+  }, [url, cancel, mutate]);
+
+  // Hands back the saved fields for the editor to load
+  const restoreDraft = () => {
+    setIsResolved(true);
+    return savedDraft?.data ?? null;
+  };
+
+  const discardDraft = () => {
+    setIsResolved(true);
+    clearDraft();
+  };
+
+  return { savedDraft, restoreDraft, discardDraft, clearDraft };
+}
@@ -0,0 +1,118 @@
+// @vitest-environment jsdom
+import { act, renderHook } from "@testing-library/react";
+import { useState } from "react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { EditSource, useEditorHistory } from "./editorHistory";
+
+// An editor's content with its history, and a way to edit it as typing or
+// a command would
+const renderEditor = (initial = "", textarea: HTMLTextAreaElement | null) => {
+  const textareaRef = { current: textarea };
+  const { result } = renderHook(() => {
+    const [content, setContent] = useState(initial);
+    const history = useEditorHistory(content, setContent, textareaRef);
+    return { content, setContent, history };
+  });
+
+  const edit = (content: string, source: EditSource = "command") =>
+    act(() => {
+      result.current.history.markEdit(source);
+      result.current.setContent(content);
+    });
+  const undo = () => act(() => result.current.history.undo());
+  const redo = () => act(() => result.current.history.redo());
+  const content = () => result.current.content;
+
+  return { result, edit, undo, redo, content };
+};
+
+describe("useEditorHistory", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("undoes and redoes commands one at a time", () => {
+    const editor = renderEditor("", null);
+    editor.edit("a");
+    editor.edit("ab");
+
+    editor.undo();
+    expect(editor.content()).toBe("a");
+    editor.undo();
+    expect(editor.content()).toBe("");
+    editor.undo();
+    expect(editor.content()).toBe("");
+
+    editor.redo();
+    expect(editor.content()).toBe("a");
+    editor.redo();
+    expect(editor.content()).toBe("ab");
+    editor.redo();
+    expect(editor.content()).toBe("ab");
+  });
+
+  it("undoes quick typing in one step", () => {
+    const editor = renderEditor("", null);
+    editor.edit("h", "typing");
+    editor.edit("hi", "typing");
+    editor.edit("hi!", "typing");
+
+    editor.undo();
+    expect(editor.content()).toBe("");
+  });
+
+  it("starts a new step after a pause in typing or a command", () => {
+    const editor = renderEditor("", null);
+    editor.edit("one", "typing");
+    vi.advanceTimersByTime(2000);
+    editor.edit("one two", "typing");
+    editor.edit("**one two**");
+    editor.edit("**one two** three", "typing");
+
+    editor.undo();
+    expect(editor.content()).toBe("**one two**");
+    editor.undo();
+    expect(editor.content()).toBe("one two");
+    editor.undo();
+    expect(editor.content()).toBe("one");
+  });
+
+  it("drops what could be redone once something else is edited", () => {
+    const editor = renderEditor("", null);
+    editor.edit("a");
+    editor.edit("ab");
+    editor.undo();
+    editor.edit("ac");
+
+    editor.redo();
+    expect(editor.content()).toBe("ac");
+    editor.undo();
+    expect(editor.content()).toBe("a");
+  });
+
+  it("starts afresh when the content is replaced without an edit", () => {
+    const editor = renderEditor("", null);
+    editor.edit("draft");
+    act(() => editor.result.current.setContent("loaded post"));
+
+    editor.undo();
+    expect(editor.content()).toBe("loaded post");
+  });
+
+  it("puts the caret at the end of what was undone", () => {
+    const textarea = document.createElement("textarea");
+    textarea.value = "hello big world";
+    const editor = renderEditor("hello world", textarea);
+    editor.edit("hello big world");
+
+    textarea.value = "hello world";
+    editor.undo();
+    expect(editor.content()).toBe("hello world");
+    expect(textarea.selectionStart).toBe(6);
+    expect(textarea.selectionEnd).toBe(6);
+  });
+});
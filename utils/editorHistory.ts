@@ -0,0 +1,110 @@
+import { RefObject, useCallback, useLayoutEffect, useRef } from "react";
+
+// Typing is one kind of edit and toolbar or keyboard commands another
+export type EditSource = "typing" | "command";
+
+export interface EditorHistory {
+  // Called right before a local edit is set, so it is recorded
+  markEdit: (source: EditSource) => void;
+  undo: () => void;
+  redo: () => void;
+}
+
+// Typing with pauses shorter than this is undone in one step
+const GROUP_DELAY = 1000;
+const MAX_STEPS = 200;
+
+// Where the caret goes after jumping to `next`: the end of what changed
+const caretAfter = (current: string, next: string) => {
+  let start = 0;
+  while (
+    start < current.length &&
+    start < next.length &&
+    current[start] === next[start]
+  ) {
+    start++;
+  }
+  let end = 0;
+  while (
+    end < current.length - start &&
+    end < next.length - start &&
+    current[current.length - 1 - end] === next[next.length - 1 - end]
+  ) {
+    end++;
+  }
+  return next.length - end;
+};
+
+// Undo and redo for a textarea whose value is set from state, which loses
+// the browser's own history. Content that changes without a marked edit,
+// such as a loaded post or a restored draft, starts the history afresh
+export function useEditorHistory(
+  content: string,
+  onChange: (content: string) => void,
+  textareaRef: RefObject<HTMLTextAreaElement | null>
+): EditorHistory {
+  const undoStack = useRef<string[]>([]);
+  const redoStack = useRef<string[]>([]);
+  const lastRef = useRef<{
+    content: string;
+    time: number;
+    source: EditSource | "history" | null;
+  }>({ content, time: 0, source: null });
+  const sourceRef = useRef<EditSource | "history" | null>(null);
+  const caretRef = useRef<number | null>(null);
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  useLayoutEffect(() => {
+    const last = lastRef.current;
+    if (content === last.content) return;
+    const source = sourceRef.current;
+    sourceRef.current = null;
+    const now = Date.now();
+
+    if (source === "typing" || source === "command") {
+      const continuesTyping =
+        source === "typing" &&
+        last.source === "typing" &&
+        now - last.time < GROUP_DELAY;
+      if (!continuesTyping) {
+        undoStack.current = [...undoStack.current, last.content].slice(
+          -MAX_STEPS
+        );
+      }
+      redoStack.current = [];
+    } else if (source !== "history") {
+      undoStack.current = [];
+      redoStack.current = [];
+    }
+    lastRef.current = { content, time: now, source };
+
+    const textarea = textareaRef.current;
+    if (textarea && caretRef.current !== null) {
+      textarea.setSelectionRange(caretRef.current, caretRef.current);
+      caretRef.current = null;
+    }
+  }, [content, textareaRef]);
+
+  const markEdit = useCallback((source: EditSource) => {
+    sourceRef.current = source;
+  }, []);
+
+  const jump = useCallback(
+    (from: RefObject<string[]>, to: RefObject<string[]>) => {
+      const target = from.current.pop();
+      if (target === undefined) return;
+      const current = lastRef.current.content;
+      to.current.push(current);
+      sourceRef.current = "history";
+      caretRef.current = caretAfter(current, target);
+      onChangeRef.current(target);
+    },
+    []
+  );
+
+  const undo = useCallback(() => jump(undoStack, redoStack), [jump]);
+  const redo = useCallback(() => jump(redoStack, undoStack), [jump]);
+
+  return { markEdit, undo, redo };
+}
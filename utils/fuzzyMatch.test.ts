@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { fuzzyFilter, fuzzyScore } from "./fuzzyMatch";
+
+describe("fuzzyScore", () => {
+  it("matches letters in order, ignoring case and spaces", () => {
+    expect(fuzzyScore("CdB", "Code block")).not.toBeNull();
+    expect(fuzzyScore("code b", "Code block")).not.toBeNull();
+    expect(fuzzyScore("kd", "Code block")).toBeNull();
+    expect(fuzzyScore("x", "Code block")).toBeNull();
+  });
+
+  it("scores word starts and runs of letters higher", () => {
+    expect(fuzzyScore("cb", "Code block")!).toBeGreaterThan(
+      fuzzyScore("cb", "Checkbox")!
+    );
+    expect(fuzzyScore("tab", "Table")!).toBeGreaterThan(
+      fuzzyScore("tab", "Task list bullet")!
+    );
+  });
+
+  it("prefers the shorter of two equal matches", () => {
+    expect(fuzzyScore("quote", "Quote")!).toBeGreaterThan(
+      fuzzyScore("quote", "Quote block")!
+    );
+  });
+});
+
+describe("fuzzyFilter", () => {
+  const items = [
+    { name: "Checkbox", keywords: ["task"] },
+    { name: "Code block", keywords: ["snippet"] },
+    { name: "Quote", keywords: ["blockquote"] },
+  ];
+  const labelsOf = (item: (typeof items)[number]) => [
+    item.name,
+    ...item.keywords,
+  ];
+  const names = (query: string) =>
+    fuzzyFilter(items, query, labelsOf).map((item) => item.name);
+
+  it("returns every item for an empty query", () => {
+    expect(names("")).toEqual(["Checkbox", "Code block", "Quote"]);
+    expect(names("  ")).toEqual(["Checkbox", "Code block", "Quote"]);
+  });
+
+  it("drops items that don't match and sorts the rest best first", () => {
+    expect(names("cb")).toEqual(["Code block", "Checkbox"]);
+    expect(names("zzz")).toEqual([]);
+  });
+
+  it("matches on any label", () => {
+    expect(names("snip")).toEqual(["Code block"]);
+    expect(names("task")).toEqual(["Checkbox"]);
+  });
+
+  it("keeps the original order for equal scores", () => {
+    const twins = [{ name: "Note" }, { name: "Note" }];
+    expect(fuzzyFilter(twins, "note", (item) => [item.name])).toEqual(twins);
+  });
+});
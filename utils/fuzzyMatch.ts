@@ -0,0 +1,40 @@
+// Scores how well `query` matches `text` as letters in order, or returns
+// null when it doesn't. Runs of letters and letters that start a word count
+// for more, so "cb" finds "Code block" ahead of "Checkbox"
+export const fuzzyScore = (query: string, text: string): number | null => {
+  const needle = query.toLowerCase().replace(/\s+/g, "");
+  const haystack = text.toLowerCase();
+  let score = 0;
+  let index = -1;
+  let streak = 0;
+
+  for (const char of needle) {
+    const next = haystack.indexOf(char, index + 1);
+    if (next === -1) return null;
+    streak = next === index + 1 ? streak + 1 : 0;
+    const startsWord = next === 0 || /[\s-]/.test(haystack[next - 1]);
+    score += 1 + streak * 2 + (startsWord ? 3 : 0);
+    index = next;
+  }
+  // Of two equal matches, the shorter text is the closer one
+  return score - haystack.length / 100;
+};
+
+// Items matching the query, best first. Ties keep their original order
+export function fuzzyFilter<T>(
+  items: T[],
+  query: string,
+  labelsOf: (item: T) => string[]
+): T[] {
+  if (!query.trim()) return items;
+  return items
+    .map((item, order) => {
+      const scores = labelsOf(item)
+        .map((label) => fuzzyScore(query, label))
+        .filter((score): score is number => score !== null);
+      return { item, order, score: scores.length ? Math.max(...scores) : null };
+    })
+    .filter(({ score }) => score !== null)
+    .sort((a, b) => b.score! - a.score! || a.order - b.order)
+    .map(({ item }) => item);
+}
@@ -0,0 +1,64 @@
+export type DiffLine =
+  | { type: "same"; left: string; right: string }
+  | { type: "removed"; left: string; right: null }
+  | { type: "added"; left: null; right: string }
+  | { type: "changed"; left: string; right: string };
+
+// Line-by-line diff (longest common subsequence), paired up for side-by-side display
+export function lineDiff(before: string, after: string): DiffLine[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+  const n = a.length;
+  const m = b.length;
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: n + 1 }, () =>
+    new Array<number>(m + 1).fill(0)
+  );
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+
+  // Pair a run of removals with the additions that replaced them
+  const flush = () => {
+    const paired = Math.min(removed.length, added.length);
+    for (let k = 0; k < paired; k++) {
+      result.push({ type: "changed", left: removed[k], right: added[k] });
+    }
+    removed.slice(paired).forEach((line) =>
+      result.push({ type: "removed", left: line, right: null })
+    );
+    added.slice(paired).forEach((line) =>
+      result.push({ type: "added", left: null, right: line })
+    );
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && a[i] === b[j]) {
+      flush();
+      result.push({ type: "same", left: a[i], right: b[j] });
+      i++;
+      j++;
+    } else if (j >= m || (i < n && lcs[i + 1][j] >= lcs[i][j + 1])) {
+      removed.push(a[i++]);
+    } else {
+      added.push(b[j++]);
+    }
+  }
+  flush();
+
+  return result;
+}
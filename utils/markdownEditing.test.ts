@@ -0,0 +1,206 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyTextChange,
+  continueList,
+  indentLines,
+  insertBlock,
+  insertFootnote,
+  isInCodeBlock,
+  isListLine,
+  TextChange,
+  toggleHeading,
+  toggleWrap,
+} from "./markdownEditing";
+
+// The edited value and the selection left in it
+const edit = (value: string, change: TextChange | null) =>
+  change && {
+    value: applyTextChange(value, change),
+    selection: [change.selectionStart, change.selectionEnd],
+  };
+
+describe("toggleWrap", () => {
+  it("wraps the selection and keeps it selected", () => {
+    expect(edit("hello world", toggleWrap("hello world", 6, 11, "**"))).toEqual(
+      { value: "hello **world**", selection: [8, 13] }
+    );
+  });
+
+  it("unwraps a selection that is already wrapped", () => {
+    const value = "hello **world**";
+    expect(edit(value, toggleWrap(value, 8, 13, "**"))).toEqual({
+      value: "hello world",
+      selection: [6, 11],
+    });
+  });
+
+  it("selects a placeholder when nothing is selected", () => {
+    expect(edit("ab", toggleWrap("ab", 1, 1, "*"))).toEqual({
+      value: "a*text*b",
+      selection: [2, 6],
+    });
+  });
+
+  it("uses a different closing marker when given", () => {
+    expect(edit("go", toggleWrap("go", 0, 2, "[", "](https://)"))).toEqual({
+      value: "[go](https://)",
+      selection: [1, 3],
+    });
+  });
+});
+
+describe("toggleHeading", () => {
+  it("turns the caret's line into a heading", () => {
+    expect(edit("a\ntitle", toggleHeading("a\ntitle", 4, 4, 2))).toEqual({
+      value: "a\n## title",
+      selection: [7, 7],
+    });
+  });
+
+  it("changes the level of an existing heading", () => {
+    expect(edit("# title", toggleHeading("# title", 4, 4, 3))).toEqual({
+      value: "### title",
+      selection: [6, 6],
+    });
+  });
+
+  it("turns a heading of the same level back into a plain line", () => {
+    expect(edit("## title", toggleHeading("## title", 5, 5, 2))).toEqual({
+      value: "title",
+      selection: [2, 2],
+    });
+  });
+});
+
+describe("continueList", () => {
+  const enter = (value: string, caret = value.length) =>
+    edit(value, continueList(value, caret, caret));
+
+  it("starts the next item of each kind of list", () => {
+    expect(enter("- item")?.value).toBe("- item\n- ");
+    expect(enter("* item")?.value).toBe("* item\n* ");
+    expect(enter("1. one")?.value).toBe("1. one\n2. ");
+    expect(enter("9) nine")?.value).toBe("9) nine\n10) ");
+    expect(enter("> quote")?.value).toBe("> quote\n> ");
+  });
+
+  it("starts unchecked tasks after a task", () => {
+    expect(enter("- [x] done")?.value).toBe("- [x] done\n- [ ] ");
+  });
+
+  it("keeps the indentation of nested items", () => {
+    expect(enter("- a\n  - b")).toEqual({
+      value: "- a\n  - b\n  - ",
+      selection: [14, 14],
+    });
+    expect(enter("1. a\n   1. b\n      - [ ] c")?.value).toBe(
+      "1. a\n   1. b\n      - [ ] c\n      - [ ] "
+    );
+  });
+
+  it("ends the list on an empty item", () => {
+    expect(enter("- a\n- ")).toEqual({ value: "- a\n", selection: [4, 4] });
+    expect(enter("- a\n  - ")).toEqual({ value: "- a\n", selection: [4, 4] });
+  });
+
+  it("leaves plain lines, selections and carets in the marker alone", () => {
+    expect(enter("text")).toBeNull();
+    expect(enter("- item", 1)).toBeNull();
+    expect(continueList("- item", 2, 6)).toBeNull();
+  });
+});
+
+describe("indentLines", () => {
+  it("indents the caret's line", () => {
+    expect(edit("- a", indentLines("- a", 3, 3, false))).toEqual({
+      value: "  - a",
+      selection: [5, 5],
+    });
+  });
+
+  it("indents every selected line, nesting the items", () => {
+    const value = "- a\n- b\n- c";
+    expect(edit(value, indentLines(value, 4, 11, false))).toEqual({
+      value: "- a\n  - b\n  - c",
+      selection: [6, 15],
+    });
+  });
+
+  it("outdents spaces and tabs, leaving unindented lines alone", () => {
+    const value = "    - a\n\t- b\n- c";
+    expect(edit(value, indentLines(value, 0, value.length, true))).toEqual({
+      value: "  - a\n- b\n- c",
+      selection: [0, 13],
+    });
+  });
+
+  it("leaves a line alone when the selection ends at its start", () => {
+    expect(edit("a\nb", indentLines("a\nb", 0, 2, false))?.value).toBe(
+      "  a\nb"
+    );
+  });
+});
+
+describe("isListLine", () => {
+  it("recognises list items and quotes at any depth", () => {
+    expect(isListLine("- a", 1)).toBe(true);
+    expect(isListLine("text\n  1. b", 6)).toBe(true);
+    expect(isListLine("> quote", 0)).toBe(true);
+    expect(isListLine("- a\ntext", 6)).toBe(false);
+  });
+});
+
+describe("isInCodeBlock", () => {
+  const value = "```js\ncode\n```\nafter";
+
+  it("is true between the fences only", () => {
+    expect(isInCodeBlock(value, 0)).toBe(false);
+    expect(isInCodeBlock(value, 8)).toBe(true);
+    expect(isInCodeBlock(value, value.length)).toBe(false);
+  });
+});
+
+describe("insertBlock", () => {
+  it("puts the block on lines of its own", () => {
+    expect(edit("text", insertBlock("text", 4, 4, "---"))).toEqual({
+      value: "text\n\n---\n\n",
+      selection: [9, 9],
+    });
+    expect(edit("", insertBlock("", 0, 0, "---"))).toEqual({
+      value: "---\n\n",
+      selection: [3, 3],
+    });
+  });
+
+  it("reuses blank lines already around the selection", () => {
+    const value = "a\n\n\n\nb";
+    expect(edit(value, insertBlock(value, 3, 3, "---"))?.value).toBe(
+      "a\n\n---\n\nb"
+    );
+  });
+
+  it("selects the requested part of the block", () => {
+    const block = "```js\ncode\n```";
+    expect(edit("a\n", insertBlock("a\n", 2, 2, block, [6, 10]))).toEqual({
+      value: `a\n\n${block}\n\n`,
+      selection: [9, 13],
+    });
+  });
+});
+
+describe("insertFootnote", () => {
+  it("adds a reference and its definition, selecting the text", () => {
+    const change = insertFootnote("Hello world", 5, 5);
+    const result = edit("Hello world", change);
+    expect(result?.value).toBe("Hello[^1] world\n\n[^1]: Footnote text");
+    const [start, end] = result!.selection;
+    expect(result?.value.slice(start, end)).toBe("Footnote text");
+  });
+
+  it("numbers after the footnotes already used", () => {
+    const value = "a[^1] b\n\n[^1]: first";
+    expect(edit(value, insertFootnote(value, 7, 7))?.value).toBe(
+      "a[^1] b[^2]\n\n[^1]: first\n\n[^2]: Footnote text"
+    );
+  });
+});
@@ -0,0 +1,232 @@
+// Replacement of value.slice(start, end) by `text`, with the selection to
+// show afterwards given in the resulting value
+export interface TextChange {
+  start: number;
+  end: number;
+  text: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+export const INDENT = "  ";
+
+// Bullet, task, numbered and quote markers, with the indentation before them
+const LIST_MARKER =
+  /^(\s*)(?:([-*+])\s+(\[[ xX]\]\s+)?|(\d+)([.)])\s+|>\s?)/;
+
+const FENCE = /^\s*(```|~~~)/gm;
+
+const lineStartOf = (value: string, index: number) =>
+  value.lastIndexOf("\n", index - 1) + 1;
+
+const lineEndOf = (value: string, index: number) => {
+  const end = value.indexOf("\n", index);
+  return end === -1 ? value.length : end;
+};
+
+export const applyTextChange = (value: string, change: TextChange) =>
+  value.slice(0, change.start) + change.text + value.slice(change.end);
+
+// Replaces the selection, leaving the caret after the inserted text
+export const insertText = (
+  value: string,
+  start: number,
+  end: number,
+  text: string
+): TextChange => ({
+  start,
+  end,
+  text,
+  selectionStart: start + text.length,
+  selectionEnd: start + text.length,
+});
+
+// Wraps the selection in markers, or unwraps it when it is already wrapped.
+// An empty selection gets a placeholder to type over
+export const toggleWrap = (
+  value: string,
+  start: number,
+  end: number,
+  before: string,
+  after = before,
+  placeholder = "text"
+): TextChange => {
+  if (
+    start !== end &&
+    value.slice(start - before.length, start) === before &&
+    value.slice(end, end + after.length) === after
+  ) {
+    const selected = value.slice(start, end);
+    return {
+      start: start - before.length,
+      end: end + after.length,
+      text: selected,
+      selectionStart: start - before.length,
+      selectionEnd: end - before.length,
+    };
+  }
+
+  const selected = value.slice(start, end) || placeholder;
+  return {
+    start,
+    end,
+    text: before + selected + after,
+    selectionStart: start + before.length,
+    selectionEnd: start + before.length + selected.length,
+  };
+};
+
+// Makes the caret's line a heading of the given level, or a plain line when
+// it already is one
+export const toggleHeading = (
+  value: string,
+  start: number,
+  end: number,
+  level: number
+): TextChange => {
+  const lineStart = lineStartOf(value, start);
+  const lineEnd = lineEndOf(value, start);
+  const line = value.slice(lineStart, lineEnd);
+  const current = line.match(/^(#{1,6})\s+/);
+  const prefix = `${"#".repeat(level)} `;
+  const text =
+    current?.[1].length === level
+      ? line.slice(current[0].length)
+      : prefix + line.slice(current?.[0].length ?? 0);
+  const shift = text.length - line.length;
+
+  return {
+    start: lineStart,
+    end: lineEnd,
+    text,
+    selectionStart: Math.max(lineStart, start + shift),
+    selectionEnd: Math.max(lineStart, end + shift),
+  };
+};
+
+export const isListLine = (value: string, index: number) =>
+  LIST_MARKER.test(value.slice(lineStartOf(value, index)));
+
+// Whether the index falls inside a fenced code block
+export const isInCodeBlock = (value: string, index: number) =>
+  (value.slice(0, lineStartOf(value, index)).match(FENCE)?.length ?? 0) % 2 ===
+  1;
+
+// Enter on a list item or quote starts the next one on the caret's line; on
+// an empty item it ends the list instead. Returns null for a plain newline
+export const continueList = (
+  value: string,
+  start: number,
+  end: number
+): TextChange | null => {
+  if (start !== end) return null;
+  const lineStart = lineStartOf(value, start);
+  const line = value.slice(lineStart, lineEndOf(value, start));
+  const match = line.match(LIST_MARKER);
+  if (!match || start - lineStart < match[0].length) return null;
+
+  if (!line.slice(match[0].length).trim()) {
+    return {
+      start: lineStart,
+      end: lineStart + line.length,
+      text: "",
+      selectionStart: lineStart,
+      selectionEnd: lineStart,
+    };
+  }
+
+  const [, indent, bullet, task, number, delimiter] = match;
+  const marker = bullet
+    ? `${bullet} ${task ? "[ ] " : ""}`
+    : number
+    ? `${parseInt(number, 10) + 1}${delimiter} `
+    : "> ";
+  return insertText(value, start, end, `\n${indent}${marker}`);
+};
+
+// Indents, or outdents, every line the selection touches
+export const indentLines = (
+  value: string,
+  start: number,
+  end: number,
+  outdent: boolean
+): TextChange => {
+  const lineStart = lineStartOf(value, start);
+  // A selection ending at the start of a line leaves that line alone
+  const lineEnd = lineEndOf(
+    value,
+    end > start && value[end - 1] === "\n" ? end - 1 : end
+  );
+  const lines = value.slice(lineStart, lineEnd).split("\n");
+  const changed = lines.map((line) =>
+    outdent ? line.replace(/^( {1,2}|\t)/, "") : INDENT + line
+  );
+  const text = changed.join("\n");
+  const firstShift = changed[0].length - lines[0].length;
+
+  return {
+    start: lineStart,
+    end: lineEnd,
+    text,
+    selectionStart: Math.max(lineStart, start + firstShift),
+    selectionEnd: Math.max(
+      lineStart,
+      end + text.length - (lineEnd - lineStart)
+    ),
+  };
+};
+
+// Blank lines keep a block from running into the text around it
+const blankLineBefore = (text: string) =>
+  !text || text.endsWith("\n\n") ? "" : text.endsWith("\n") ? "\n" : "\n\n";
+
+// Puts a block on lines of its own in place of the selection. `select` is
+// the part of the block to leave selected, e.g. a placeholder
+export const insertBlock = (
+  value: string,
+  start: number,
+  end: number,
+  block: string,
+  select: [number, number] = [block.length, block.length]
+): TextChange => {
+  const after = value.slice(end);
+  const prefix = blankLineBefore(value.slice(0, start));
+  const suffix = after.startsWith("\n\n")
+    ? ""
+    : after.startsWith("\n")
+    ? "\n"
+    : "\n\n";
+  const blockStart = start + prefix.length;
+
+  return {
+    start,
+    end,
+    text: prefix + block + suffix,
+    selectionStart: blockStart + select[0],
+    selectionEnd: blockStart + select[1],
+  };
+};
+
+// Puts the next numbered footnote reference in place of the selection and
+// its definition at the end, with the definition's text selected
+export const insertFootnote = (
+  value: string,
+  start: number,
+  end: number
+): TextChange => {
+  const used = [...value.matchAll(/\[\^(\d+)\]/g)].map(([, id]) => +id);
+  const id = Math.max(0, ...used) + 1;
+  const placeholder = "Footnote text";
+  const body = `[^${id}]${value.slice(end)}`;
+  const text = `${body}${blankLineBefore(
+    value.slice(0, start) + body
+  )}[^${id}]: ${placeholder}`;
+
+  return {
+    start,
+    end: value.length,
+    text,
+    selectionStart: start + text.length - placeholder.length,
+    selectionEnd: start + text.length,
+  };
+};
@@ -0,0 +1,168 @@
+import { describe, expect, it } from "vitest";
+import { mergeFields, mergeText } from "./threeWayMerge";
+
+const lines = (...values: string[]) => values.join("\n");
+
+describe("mergeText", () => {
+  it("keeps identical versions as they are", () => {
+    const text = lines("a", "b", "c");
+    expect(mergeText(text, text, text)).toEqual({ merged: text, conflicts: 0 });
+  });
+
+  it("handles empty versions", () => {
+    expect(mergeText("", "", "")).toEqual({ merged: "", conflicts: 0 });
+    expect(mergeText("", "hello", "")).toEqual({
+      merged: "hello",
+      conflicts: 0,
+    });
+    expect(mergeText("", "", "hello")).toEqual({
+      merged: "hello",
+      conflicts: 0,
+    });
+  });
+
+  it("takes changes made on one side only", () => {
+    const base = lines("a", "b", "c");
+    expect(mergeText(base, lines("a", "B", "c"), base).merged).toBe(
+      lines("a", "B", "c")
+    );
+    expect(mergeText(base, base, lines("a", "b", "C")).merged).toBe(
+      lines("a", "b", "C")
+    );
+  });
+
+  it("combines changes to different lines", () => {
+    const base = lines("a", "b", "c", "d");
+    const mine = lines("A", "b", "c", "d");
+    const theirs = lines("a", "b", "c", "D");
+    expect(mergeText(base, mine, theirs)).toEqual({
+      merged: lines("A", "b", "c", "D"),
+      conflicts: 0,
+    });
+  });
+
+  it("combines insertions and deletions", () => {
+    expect(mergeText("x", lines("top", "x"), lines("x", "bottom"))).toEqual({
+      merged: lines("top", "x", "bottom"),
+      conflicts: 0,
+    });
+    const base = lines("a", "b", "c");
+    expect(
+      mergeText(base, lines("a", "c"), lines("a", "b", "c", "d"))
+    ).toEqual({ merged: lines("a", "c", "d"), conflicts: 0 });
+  });
+
+  it("does not conflict when both sides make the same change", () => {
+    const base = lines("a", "b", "c");
+    const edited = lines("a", "B", "c");
+    expect(mergeText(base, edited, edited)).toEqual({
+      merged: edited,
+      conflicts: 0,
+    });
+  });
+
+  it("marks lines changed differently on both sides as a conflict", () => {
+    const base = lines("a", "b", "c");
+    expect(mergeText(base, lines("a", "mine", "c"), lines("a", "theirs", "c")))
+      .toEqual({
+        merged: lines(
+          "a",
+          "<<<<<<< Your changes",
+          "mine",
+          "=======",
+          "theirs",
+          ">>>>>>> Saved version",
+          "c"
+        ),
+        conflicts: 1,
+      });
+  });
+
+  it("counts each conflicting hunk and merges around them", () => {
+    const base = lines("a", "b", "c", "d", "e");
+    const mine = lines("a", "b1", "c", "d1", "e", "f");
+    const theirs = lines("a", "b2", "c", "d2", "e");
+    const { merged, conflicts } = mergeText(base, mine, theirs);
+    expect(conflicts).toBe(2);
+    expect(merged).toBe(
+      lines(
+        "a",
+        "<<<<<<< Your changes",
+        "b1",
+        "=======",
+        "b2",
+        ">>>>>>> Saved version",
+        "c",
+        "<<<<<<< Your changes",
+        "d1",
+        "=======",
+        "d2",
+        ">>>>>>> Saved version",
+        "e",
+        "f"
+      )
+    );
+  });
+});
+
+describe("mergeFields", () => {
+  const base = { title: "Title", tags: ["a"], content: lines("one", "two") };
+
+  it("returns my copy when nothing changed", () => {
+    expect(mergeFields(base, base, base)).toEqual({
+      merged: base,
+      conflicts: [],
+    });
+  });
+
+  it("takes fields changed on either side", () => {
+    const mine = { ...base, title: "New title" };
+    const theirs = { ...base, tags: ["a", "b"] };
+    expect(mergeFields(base, mine, theirs)).toEqual({
+      merged: { ...base, title: "New title", tags: ["a", "b"] },
+      conflicts: [],
+    });
+  });
+
+  it("merges multi-line text changed on both sides line by line", () => {
+    const mine = { ...base, content: lines("ONE", "two") };
+    const theirs = { ...base, content: lines("one", "two", "three") };
+    expect(mergeFields(base, mine, theirs)).toEqual({
+      merged: { ...base, content: lines("ONE", "two", "three") },
+      conflicts: [],
+    });
+  });
+
+  it("reports fields changed differently, keeping my side", () => {
+    const mine = { ...base, title: "Mine", tags: ["b"] };
+    const theirs = { ...base, title: "Theirs", tags: ["c"] };
+    const { merged, conflicts } = mergeFields(base, mine, theirs);
+    expect(merged).toEqual(mine);
+    expect(conflicts).toEqual([
+      { field: "title", mine: "Mine", theirs: "Theirs", combined: null },
+      { field: "tags", mine: ["b"], theirs: ["c"], combined: null },
+    ]);
+  });
+
+  it("gives conflicting multi-line text with conflict markers", () => {
+    const mine = { ...base, content: lines("mine", "two") };
+    const theirs = { ...base, content: lines("theirs", "two") };
+    const { merged, conflicts } = mergeFields(base, mine, theirs);
+    expect(merged.content).toBe(mine.content);
+    expect(conflicts).toEqual([
+      {
+        field: "content",
+        mine: mine.content,
+        theirs: theirs.content,
+        combined: lines(
+          "<<<<<<< Your changes",
+          "mine",
+          "=======",
+          "theirs",
+          ">>>>>>> Saved version",
+          "two"
+        ),
+      },
+    ]);
+  });
+});
@@ -0,0 +1,136 @@
+export interface FieldConflict<K> {
+  field: K;
+  mine: unknown;
+  theirs: unknown;
+  // Both versions of a multi-line text with conflict markers, to resolve by
+  // hand in the editor
+  combined: string | null;
+}
+
+const isSame = (a: unknown, b: unknown) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+// For each line of `a`, the index of the same line in `b` along their
+// longest common subsequence, or -1
+const matchLines = (a: string[], b: string[]) => {
+  const n = a.length;
+  const m = b.length;
+  const lcs: number[][] = Array.from({ length: n + 1 }, () =>
+    new Array<number>(m + 1).fill(0)
+  );
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const matches = new Array<number>(n).fill(-1);
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      matches[i++] = j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return matches;
+};
+
+// Line-based three-way merge (diff3). Runs of lines changed on one side only
+// are taken from that side; runs changed differently on both sides are
+// conflicts and come out between markers
+export function mergeText(base: string, mine: string, theirs: string) {
+  const o = base.split("\n");
+  const a = mine.split("\n");
+  const b = theirs.split("\n");
+  const toMine = matchLines(o, a);
+  const toTheirs = matchLines(o, b);
+
+  const merged: string[] = [];
+  let conflicts = 0;
+  let iO = 0;
+  let iA = 0;
+  let iB = 0;
+  while (iO < o.length || iA < a.length || iB < b.length) {
+    // Lines all three versions agree on
+    if (iO < o.length && toMine[iO] === iA && toTheirs[iO] === iB) {
+      merged.push(o[iO]);
+      iO++;
+      iA++;
+      iB++;
+      continue;
+    }
+
+    // Everything up to the next line all three still share
+    let next = iO;
+    while (next < o.length && (toMine[next] < 0 || toTheirs[next] < 0)) {
+      next++;
+    }
+    const endA = next < o.length ? toMine[next] : a.length;
+    const endB = next < o.length ? toTheirs[next] : b.length;
+    const chunkO = o.slice(iO, next);
+    const chunkA = a.slice(iA, endA);
+    const chunkB = b.slice(iB, endB);
+
+    if (isSame(chunkA, chunkO) || isSame(chunkA, chunkB)) {
+      merged.push(...chunkB);
+    } else if (isSame(chunkB, chunkO)) {
+      merged.push(...chunkA);
+    } else {
+      conflicts++;
+      merged.push(
+        "<<<<<<< Your changes",
+        ...chunkA,
+        "=======",
+        ...chunkB,
+        ">>>>>>> Saved version"
+      );
+    }
+    iO = next;
+    iA = endA;
+    iB = endB;
+  }
+
+  return { merged: merged.join("\n"), conflicts };
+}
+
+// Merges two edited copies of the same record field by field: a field
+// changed on one side only takes that change, and multi-line text changed on
+// both sides is merged line by line. What is left is returned as conflicts,
+// with `merged` holding my side for them
+export function mergeFields<T extends object>(base: T, mine: T, theirs: T) {
+  const merged = { ...mine };
+  const conflicts: FieldConflict<keyof T>[] = [];
+
+  (Object.keys(mine) as (keyof T)[]).forEach((field) => {
+    const [b, m, t] = [base[field], mine[field], theirs[field]];
+    if (isSame(m, t) || isSame(t, b)) return;
+    if (isSame(m, b)) {
+      merged[field] = t;
+      return;
+    }
+
+    const isText =
+      typeof b === "string" && typeof m === "string" && typeof t === "string";
+    const text = isText ? mergeText(b, m, t) : null;
+    if (text && text.conflicts === 0) {
+      merged[field] = text.merged as T[keyof T];
+      return;
+    }
+    conflicts.push({
+      field,
+      mine: m,
+      theirs: t,
+      combined:
+        text && `${m}${t}`.includes("\n") ? text.merged : null,
+    });
+  });
+
+  return { merged, conflicts };
+}